@@ -0,0 +1,192 @@
+// 採点待ちの再送（Service Worker の Background Sync）
+// vite.config.ts の workbox.importScripts で生成された Service Worker に読み込まれる。
+// アプリ側の処理は src/services/gradingOutbox.ts。ストア名・レコード形式・再送の設定はそちらと合わせること。
+// 受け取った結果は採点待ちに status: 'delivered' として残し、履歴への保存（復習キュー・ヒントの記録など）は
+// アプリ側の saveGradingResultsToHistory に任せる（ここで同じ処理を二重に持たないため）。
+
+const GRADING_OUTBOX_SYNC_TAG = 'grading-outbox';
+const OUTBOX_DB_NAME = 'TutoTutoDB';
+const GRADING_OUTBOX_STORE_NAME = 'gradingOutbox';
+const SETTINGS_STORE_NAME = 'settings';
+const ENTITLEMENT_SETTINGS_ID = 'entitlement'; // アプリがキャッシュしている権利トークン（src/services/entitlement.ts）
+const ENTITLEMENT_EXPIRED = 'entitlement-expired'; // 権利トークンの期限切れ（サーバーの 403 の code）
+
+const OUTBOX_MAX_ATTEMPTS = 8;
+const OUTBOX_BASE_RETRY_DELAY_MS = 30 * 1000;
+const OUTBOX_MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const OUTBOX_LEASE_MS = 2 * 60 * 1000;
+
+function getOutboxRetryDelay(attempts) {
+  return Math.min(OUTBOX_BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), OUTBOX_MAX_RETRY_DELAY_MS);
+}
+
+// バージョンを指定せずに開く（DBの作成・アップグレードはアプリ側だけで行う）
+function openOutboxDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME);
+    request.onerror = () => reject(new Error('IndexedDBを開けませんでした'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // アプリ側がバージョンを上げるときに邪魔をしない
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+  });
+}
+
+function getAllOutboxItems(db) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readonly');
+    const request = transaction.objectStore(GRADING_OUTBOX_STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result.sort((a, b) => a.createdAt - b.createdAt));
+    request.onerror = () => reject(new Error('採点待ちの取得に失敗しました'));
+  });
+}
+
+// 送信中の印を付けて確保（アプリ側と二重に送らないため）
+function claimOutboxItem(db, id) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const request = objectStore.get(id);
+    let claimed = null;
+
+    request.onsuccess = () => {
+      const record = request.result;
+      const now = Date.now();
+      if (!record || record.status !== 'pending' || record.nextAttemptAt > now || (record.lockedUntil || 0) > now) {
+        return;
+      }
+      claimed = Object.assign({}, record, { lockedUntil: now + OUTBOX_LEASE_MS });
+      objectStore.put(claimed);
+    };
+
+    transaction.oncomplete = () => resolve(claimed);
+    transaction.onerror = () => reject(new Error('採点待ちの更新に失敗しました'));
+  });
+}
+
+function putOutboxItem(db, record) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    transaction.objectStore(GRADING_OUTBOX_STORE_NAME).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(new Error('採点待ちの更新に失敗しました'));
+  });
+}
+
+// 受け取った採点結果を採点待ちに残す（次にアプリを開いたときに履歴に保存され、受領証でSNSの時間も貯める）
+function storeDeliveredResults(db, item, problems, receipt) {
+  return putOutboxItem(db, Object.assign({}, item, {
+    status: 'delivered',
+    deliveredProblems: problems,
+    receipt,
+    lockedUntil: undefined
+  }));
+}
+
+// 送るときにキャッシュされている権利トークン（期限切れ・なければ null）
+function getEntitlementToken(db) {
+  return new Promise((resolve) => {
+    if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+      resolve(null);
+      return;
+    }
+    const request = db.transaction([SETTINGS_STORE_NAME], 'readonly').objectStore(SETTINGS_STORE_NAME).get(ENTITLEMENT_SETTINGS_ID);
+    request.onsuccess = () => {
+      const cache = request.result;
+      resolve(cache && cache.token && cache.expiresAt > Date.now() ? cache.token : null);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function sendOutboxItem(db, item) {
+  try {
+    const headers = { 'Content-Type': 'application/json' };
+    // 既定のモデルでも送る（サーバーはこのトークンの本人にだけ採点の受領証を出す）
+    const entitlementToken = await getEntitlementToken(db);
+    if (entitlementToken) {
+      headers['X-Entitlement-Token'] = entitlementToken;
+    }
+    const response = await fetch(item.apiUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        croppedImageData: item.imageData,
+        model: item.model,
+        language: item.language,
+        subjectId: item.subjectId,
+        answerKeys: item.answerKeys && item.answerKeys.length > 0 ? item.answerKeys : undefined
+      })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      const status = response.status;
+      return {
+        ok: false,
+        error: data.error || `HTTP Error: ${status}`,
+        // 権利トークンの期限切れは、アプリがトークンを取り直したあとに送り直す
+        retryable: !response.ok && (status >= 500 || status === 408 || status === 429 || (status === 403 && data.code === ENTITLEMENT_EXPIRED))
+      };
+    }
+    return { ok: true, problems: (data.result && data.result.problems) || [], receipt: data.receipt };
+  } catch (error) {
+    // 通信エラーは再送対象
+    return { ok: false, error: String(error), retryable: true };
+  }
+}
+
+async function processGradingOutboxInWorker() {
+  const db = await openOutboxDB();
+  try {
+    if (!db.objectStoreNames.contains(GRADING_OUTBOX_STORE_NAME)) return;
+
+    let delivered = 0;
+    let remaining = 0;
+    const items = await getAllOutboxItems(db);
+
+    for (const pending of items) {
+      const item = await claimOutboxItem(db, pending.id);
+      if (!item) {
+        if (pending.status === 'pending') remaining++;
+        continue;
+      }
+
+      const result = await sendOutboxItem(db, item);
+      if (result.ok) {
+        await storeDeliveredResults(db, item, result.problems, result.receipt);
+        delivered++;
+        continue;
+      }
+
+      const attempts = item.attempts + 1;
+      const giveUp = !result.retryable || attempts >= OUTBOX_MAX_ATTEMPTS;
+      await putOutboxItem(db, Object.assign({}, item, {
+        attempts,
+        status: giveUp ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + getOutboxRetryDelay(attempts),
+        lockedUntil: undefined,
+        lastError: result.error
+      }));
+      if (!giveUp) remaining++;
+    }
+
+    // 開いているアプリに知らせて表示を更新してもらう
+    const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+    clients.forEach((client) => client.postMessage({ type: 'grading-outbox-updated', delivered }));
+
+    // 残っている場合は失敗扱いにして、ブラウザにあとで sync を再実行してもらう
+    if (remaining > 0) {
+      throw new Error(`${remaining} grading request(s) still pending`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === GRADING_OUTBOX_SYNC_TAG) {
+    event.waitUntil(processGradingOutboxInWorker());
+  }
+});
@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf';
 import fs from 'fs';
 import path from 'path';
+import { DrillProblem, layoutDrillPDF } from '../src/utils/drillPdfLayout';
 
 const OUTPUT_DIR = path.resolve('public/drills');
 
@@ -8,15 +9,8 @@ if (!fs.existsSync(OUTPUT_DIR)) {
     fs.mkdirSync(OUTPUT_DIR, { recursive: true });
 }
 
-interface Problem {
-    id: number;
-    question: string;
-    answer: string;
-    metadata?: any;
-}
-
-const generateAddition = (count: number, max: number): Problem[] => {
-    const problems: Problem[] = [];
+const generateAddition = (count: number, max: number): DrillProblem[] => {
+    const problems: DrillProblem[] = [];
     for (let i = 0; i < count; i++) {
         const a = Math.floor(Math.random() * max) + 1;
         const b = Math.floor(Math.random() * max) + 1;
@@ -29,8 +23,8 @@ const generateAddition = (count: number, max: number): Problem[] => {
     return problems;
 };
 
-const generatePerimeterAreaProblems = (): any[] => {
-    const problems: any[] = [];
+const generatePerimeterAreaProblems = (): DrillProblem[] => {
+    const problems: DrillProblem[] = [];
     const COUNT = 20;
 
     for (let i = 0; i < COUNT; i++) {
@@ -47,8 +41,8 @@ const generatePerimeterAreaProblems = (): any[] => {
     return problems;
 };
 
-const generateWordProblems = (): any[] => {
-    const problems: any[] = [];
+const generateWordProblems = (): DrillProblem[] => {
+    const problems: DrillProblem[] = [];
     const COUNT = 10;
 
     const names = ['ケン', 'ハナ', 'タロウ', 'ユミ', 'レオ', 'マイ'];
@@ -100,89 +94,25 @@ const generateWordProblems = (): any[] => {
     return problems;
 };
 
-const generateDrillPDF = (title: string, filename: string, problems: any[]) => {
+const generateDrillPDF = (title: string, filename: string, problems: DrillProblem[]) => {
     try {
         const doc = new jsPDF();
 
         // Load Japanese Font
+        let fontName: string | undefined;
         const fontPath = path.resolve('scripts/assets/fonts/ipaexg.ttf');
         if (fs.existsSync(fontPath)) {
             const fontBase64 = fs.readFileSync(fontPath, { encoding: 'base64' });
             doc.addFileToVFS('ipaexg.ttf', fontBase64);
             doc.addFont('ipaexg.ttf', 'IPAexGothic', 'normal');
             doc.setFont('IPAexGothic');
+            fontName = 'IPAexGothic';
         } else {
             console.warn('Font file not found, using default font (Japanese may not render).');
         }
 
-        // PAGE 1: QUESTIONS
-        doc.setFontSize(18);
-        doc.text(title, 105, 20, { align: 'center' });
-
-        doc.setFontSize(10);
-        doc.text(`ID: ${filename.replace('.pdf', '')}`, 180, 10);
-
-        doc.setFontSize(12);
-        let y = 40;
-        let x = 20;
-
-        problems.forEach((p, i) => {
-            // Page break
-            if (y > 250) {
-                doc.addPage();
-                doc.setFont('IPAexGothic'); // Reset font for new page just in case
-                y = 40;
-            }
-
-            // Split question by newlines for multiline support
-            const lines = p.question.split('\n');
-            doc.text(`(${p.id})`, x, y);
-
-            lines.forEach((line: string, idx: number) => {
-                doc.text(line, x + 10, y + (idx * 6));
-            });
-
-            // If it's a geometry problem, draw it
-            if (p.metadata?.type === 'rectangle') {
-                const { width, height } = p.metadata;
-                const scale = 5; // Scale for visibility
-                const drawY = y + (lines.length * 6); // Offset by text height
-
-                // Draw rectangle
-                doc.setDrawColor(0);
-                doc.rect(x + 10, drawY + 5, width * scale, height * scale);
-
-                // Labels
-                doc.setFontSize(10);
-                doc.text(`${width}cm`, x + 10 + (width * scale / 2), drawY + 4, { align: 'center' }); // Top width
-                doc.text(`${height}cm`, x + 8, drawY + 5 + (height * scale / 2), { align: 'right' }); // Left height
-
-                doc.setFontSize(12); // Reset
-                y += (height * scale) + 25 + (lines.length * 6); // Extra space for drawing
-            } else {
-                y += 15 + ((lines.length - 1) * 6);
-            }
-        });
-
-        // PAGE 2: ANSWERS
-        doc.addPage();
-        doc.setFont('IPAexGothic');
-        doc.setFontSize(18);
-        doc.text('かいとう (Answer Key)', 105, 20, { align: 'center' });
-
-        doc.setFontSize(12);
-        y = 40;
-        x = 30;
-        problems.forEach((p, i) => {
-            if (y > 270) {
-                doc.addPage();
-                doc.setFont('IPAexGothic');
-                y = 40;
-                x = 30;
-            }
-            doc.text(`(${p.id})  ${p.answer}`, x, y);
-            y += 10;
-        });
+        // 問題ページと解答ページ（アプリの類題ドリルと同じレイアウト）
+        layoutDrillPDF(doc, title, filename.replace('.pdf', ''), problems, { fontName });
 
         const buffer = doc.output('arraybuffer');
         fs.writeFileSync(path.join(OUTPUT_DIR, filename), Buffer.from(buffer));
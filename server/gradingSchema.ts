@@ -0,0 +1,333 @@
+// ==========================================
+// Grading Response Schema
+// ==========================================
+//
+// モデルが返す採点結果（JSON配列）のスキーマと検証・修復処理。
+// クライアント側の型は src/services/api.ts の GradingResult / GradingResponseResult。
+
+// 切り抜き画像内での位置（画像の幅・高さを1とした割合）
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// モデルに出力させる1問分の採点結果
+export interface GradingProblem {
+  problemNumber: string
+  studentAnswer: string
+  isCorrect: boolean
+  correctAnswer: string
+  feedback: string
+  explanation: string
+  explanationSvg?: string | null
+  boundingBox?: BoundingBox | null
+  topic?: string | null // 単元・問題の種類（例: '繰り上がりのたし算'）。弱点の集計に使う
+  correctAnswerReading?: string | null // 正解に漢字があるときの読み（ひらがな）。ひらがなで書いた答えの判定に使う
+}
+
+// サーバーがクライアントに返す1問分の採点結果（検証後に付加情報を追加したもの）
+export interface GradedProblem extends GradingProblem {
+  gradingSource: string
+  dbMatchedAnswer?: {
+    problemNumber: string
+    problemPageNumber: number
+    correctAnswer: string
+    matchedRule: string | null
+  }
+}
+
+export interface GradingResponseResult {
+  problems: GradedProblem[]
+  overallComment?: string
+}
+
+export interface ParseResult {
+  ok: boolean
+  problems: GradingProblem[]
+  errors: string[]
+}
+
+const REQUIRED_STRING_FIELDS = ['problemNumber', 'studentAnswer', 'correctAnswer', 'feedback', 'explanation'] as const
+
+// 1問分を厳密に検証する（型の変換はしない）
+function validateProblem(item: any, index: number): string[] {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return [`[${index}] is not an object`]
+  }
+
+  const errors: string[] = []
+  REQUIRED_STRING_FIELDS.forEach(field => {
+    if (typeof item[field] !== 'string') {
+      errors.push(`[${index}].${field} must be a string`)
+    }
+  })
+  if (typeof item.problemNumber === 'string' && item.problemNumber.trim() === '') {
+    errors.push(`[${index}].problemNumber must not be empty`)
+  }
+  if (typeof item.isCorrect !== 'boolean') {
+    errors.push(`[${index}].isCorrect must be a boolean`)
+  }
+  if (item.explanationSvg !== undefined && item.explanationSvg !== null && typeof item.explanationSvg !== 'string') {
+    errors.push(`[${index}].explanationSvg must be a string or null`)
+  }
+  return errors
+}
+
+function validateProblems(data: unknown): ParseResult {
+  if (!Array.isArray(data)) {
+    return { ok: false, problems: [], errors: ['root must be an array'] }
+  }
+  if (data.length === 0) {
+    return { ok: false, problems: [], errors: ['no problems found'] }
+  }
+
+  const errors = data.flatMap((item, index) => validateProblem(item, index))
+  if (errors.length > 0) {
+    return { ok: false, problems: [], errors }
+  }
+
+  const problems = data.map((item: any): GradingProblem => ({
+    problemNumber: item.problemNumber,
+    studentAnswer: item.studentAnswer,
+    isCorrect: item.isCorrect,
+    correctAnswer: item.correctAnswer,
+    feedback: item.feedback,
+    explanation: item.explanation,
+    explanationSvg: item.explanationSvg ?? null,
+    boundingBox: normalizeBoundingBox(item.boundingBox),
+    topic: normalizeTopic(item.topic),
+    correctAnswerReading: normalizeReading(item.correctAnswerReading)
+  }))
+  return { ok: true, problems, errors: [] }
+}
+
+// 位置は補助的な情報なので、おかしな値は採点全体を失敗にせず null にする
+// （[x, y, width, height] の配列形式も受け付け、画像からはみ出す分は切り詰める）
+function normalizeBoundingBox(value: any): BoundingBox | null {
+  if (!value || typeof value !== 'object') return null
+  const [x, y, width, height] = (Array.isArray(value)
+    ? value
+    : [value.x, value.y, value.width, value.height]
+  ).map(v => typeof v === 'string' ? parseFloat(v) : v)
+
+  if (![x, y, width, height].every(v => typeof v === 'number' && Number.isFinite(v))) return null
+
+  const clamp = (v: number) => Math.min(1, Math.max(0, v))
+  const left = clamp(x)
+  const top = clamp(y)
+  const right = clamp(x + width)
+  const bottom = clamp(y + height)
+  if (right <= left || bottom <= top) return null
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+// 単元も補助的な情報なので、文字列でなければ null にする（長すぎるものは集計に向かないので切り詰める）
+const MAX_TOPIC_LENGTH = 40
+
+export function normalizeTopic(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const topic = value.normalize('NFKC').replace(/\s+/g, ' ').trim()
+  return topic ? topic.slice(0, MAX_TOPIC_LENGTH) : null
+}
+
+// 読みはかなだけのものを使う（漢字や説明文が混ざっていたら判定には使えないので null にする）
+export function normalizeReading(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const reading = value.normalize('NFKC').replace(/\s+/g, '')
+  return /^[ぁ-ゖァ-ヺー]+$/.test(reading) ? reading : null
+}
+
+// モデルの出力テキストからJSON部分を取り出す（マークダウンのコードブロックや前置きを除去）
+export function extractJsonText(responseText: string): string {
+  // 開始タグ (```json など) と終了タグ(```) の両方を削除
+  let jsonStr = responseText.replace(/```\w*\s*/g, '').replace(/```/g, '').trim()
+
+  // JSON部分を抽出（オブジェクト {} または 配列 [] を検出）
+  const firstBrace = jsonStr.indexOf('{')
+  const firstBracket = jsonStr.indexOf('[')
+
+  let jsonStart = -1
+  let jsonEnd = -1
+
+  if (firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace)) {
+    // 配列が先に見つかった場合
+    jsonStart = firstBracket
+    jsonEnd = jsonStr.lastIndexOf(']')
+  } else if (firstBrace !== -1) {
+    // オブジェクトが先に見つかった場合
+    jsonStart = firstBrace
+    jsonEnd = jsonStr.lastIndexOf('}')
+  }
+
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1)
+  }
+  return jsonStr
+}
+
+/**
+ * 厳密な検証: JSON配列として読めて、すべての問題がスキーマどおりであること
+ */
+export function parseGradingOutput(responseText: string): ParseResult {
+  if (!responseText) {
+    return { ok: false, problems: [], errors: ['empty response'] }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(extractJsonText(responseText))
+  } catch (e) {
+    return { ok: false, problems: [], errors: [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`] }
+  }
+  return validateProblems(data)
+}
+
+// テキストを少しずつ受け取り、完結した最上位のオブジェクト {...} を順に取り出す
+class JsonObjectScanner {
+  private text = ''
+  private position = 0
+  private depth = 0
+  private start = -1
+  private inString = false
+  private escaped = false
+
+  push(chunk: string): unknown[] {
+    this.text += chunk
+    const objects: unknown[] = []
+
+    for (; this.position < this.text.length; this.position++) {
+      const ch = this.text[this.position]
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (ch === '\\') this.escaped = true
+        else if (ch === '"') this.inString = false
+        continue
+      }
+      if (ch === '"') this.inString = true
+      else if (ch === '{') {
+        if (this.depth === 0) this.start = this.position
+        this.depth++
+      } else if (ch === '}' && this.depth > 0) {
+        this.depth--
+        if (this.depth === 0 && this.start !== -1) {
+          try {
+            objects.push(JSON.parse(this.text.substring(this.start, this.position + 1)))
+          } catch {
+            // 壊れているオブジェクトは捨てる
+          }
+          this.start = -1
+        }
+      }
+    }
+    return objects
+  }
+
+  get receivedText(): string {
+    return this.text
+  }
+}
+
+// 途中で切れたJSONなどから、完結しているオブジェクト {...} だけを拾い出す
+function salvageObjects(text: string): unknown[] {
+  return new JsonObjectScanner().push(text)
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    const v = value.trim().toLowerCase()
+    if (['true', 'yes', 'correct', '正解', '○', '〇', 'o'].includes(v)) return true
+    if (['false', 'no', 'incorrect', '不正解', '×', '✕', 'x'].includes(v)) return false
+  }
+  if (typeof value === 'number') return value !== 0
+  return undefined
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value === null || value === undefined) return ''
+  return String(value)
+}
+
+/**
+ * 修復: よくある崩れ方（単一オブジェクト、数字キーのオブジェクト、末尾カンマ、
+ * 全角引用符、途中で切れた出力、型の違い）を直してからスキーマで検証する
+ */
+export function repairGradingOutput(responseText: string): ParseResult {
+  if (!responseText) {
+    return { ok: false, problems: [], errors: ['empty response'] }
+  }
+
+  const cleaned = extractJsonText(responseText)
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, '$1')
+
+  let data: any
+  try {
+    data = JSON.parse(cleaned)
+  } catch {
+    data = salvageObjects(cleaned)
+  }
+
+  // 配列の形にそろえる
+  let items: any[]
+  if (Array.isArray(data)) {
+    items = data
+  } else if (data && Array.isArray(data.problems)) {
+    items = data.problems
+  } else if (data && data.problemNumber !== undefined) {
+    items = [data]
+  } else if (data && typeof data === 'object') {
+    // 数字キーのオブジェクト（例: {"0": {...}, "1": {...}}）
+    const numericKeys = Object.keys(data).filter(k => /^\d+$/.test(k))
+    items = numericKeys.map(k => data[k])
+  } else {
+    items = []
+  }
+
+  const coerced = items
+    .filter(item => item && typeof item === 'object')
+    .map(coerceProblem)
+
+  return validateProblems(coerced)
+}
+
+// 型をそろえる（判定できないものはそのまま残して検証で弾く）
+function coerceProblem(item: any) {
+  return {
+    ...item,
+    problemNumber: toText(item.problemNumber).trim(),
+    studentAnswer: toText(item.studentAnswer),
+    isCorrect: toBoolean(item.isCorrect),
+    correctAnswer: toText(item.correctAnswer),
+    feedback: toText(item.feedback),
+    explanation: toText(item.explanation),
+    explanationSvg: typeof item.explanationSvg === 'string' ? item.explanationSvg : null
+  }
+}
+
+/**
+ * ストリーミング用: 出力の途中でも、書き終わった問題から順に取り出す。
+ * 1問ずつ型をそろえてスキーマで検証し、通らないもの（problems で包んだ外側の
+ * オブジェクトなど）は読み飛ばす。全体の検証は受信後に receivedText で行う。
+ */
+export class StreamingGradingParser {
+  private scanner = new JsonObjectScanner()
+
+  push(chunk: string): GradingProblem[] {
+    return this.scanner.push(chunk)
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item))
+      .map(coerceProblem)
+      .flatMap(item => {
+        const result = validateProblems([item])
+        return result.ok ? result.problems : []
+      })
+  }
+
+  get receivedText(): string {
+    return this.scanner.receivedText
+  }
+}
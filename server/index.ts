@@ -1,7 +1,7 @@
 import express from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { ProviderRegistry, toProviderImage } from './providers'
 
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -18,6 +18,10 @@ console.log('__dirname:', __dirname)
 
 import Stripe from 'stripe'
 import admin from 'firebase-admin'
+// 解答の同値判定はクライアントと共通のモジュールを使う
+import { checkAnswerEquivalence } from '../src/components/study/utils/answerEquivalence'
+import { normalizeProblemNumber } from '../src/components/study/utils/normalizers'
+import { GradedProblem, GradingResponseResult, StreamingGradingParser, parseGradingOutput, repairGradingOutput, extractJsonText, normalizeTopic } from './gradingSchema'
 
 // Initialize Stripe
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY || 'sk_test_dummy';
@@ -27,6 +31,7 @@ if (stripeSecretKey === 'sk_test_dummy') {
 const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' as any });
 
 import fs from 'fs';
+import crypto from 'crypto';
 
 // Initialize Firebase Admin
 if (!admin.apps.length) {
@@ -69,53 +74,6 @@ const authenticateUser = async (req: express.Request, res: express.Response, nex
   }
 };
 
-// 文字列の正規化と一致判定を行う関数
-function validateAndOverrideGrading(student: string, correct: string): boolean {
-  if (!student || !correct) return false;
-
-  const normalize = (str: string) => {
-    return str
-      .trim()
-      // 全角英数字を半角に
-      .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0))
-      // 不要な空白を削除
-      .replace(/\s+/g, '')
-      // 文末の句読点や「です」「ます」を削除（簡易的）
-      .replace(/[、。\.．]$/, '')
-      .replace(/(です|ます|だ)$/, '')
-      // 単位の揺れを吸収（一旦削除して数値のみ比較する戦略もアリだが、ここでは簡易正規化）
-      .toLowerCase();
-  };
-
-  const normStudent = normalize(student);
-  const normCorrect = normalize(correct);
-
-  // 完全一致
-  if (normStudent === normCorrect) return true;
-
-  // 数値としての比較（"40" と "40.0" など）
-  const numStudent = parseFloat(normStudent);
-  const numCorrect = parseFloat(normCorrect);
-  if (!isNaN(numStudent) && !isNaN(numCorrect) && Math.abs(numStudent - numCorrect) < 0.0001) {
-    return true;
-  }
-
-  // "40" と "40度" のような包含関係（正解が短い数字で、生徒が単位をつけている場合など）
-  // ただし逆（正解"40度"、生徒"40"）は文脈によるため慎重に。
-  // ここでは「正解」が「生徒の解答」に含まれている、またはその逆で、かつ数値が含まれている場合を救済
-  if ((normStudent.includes(normCorrect) || normCorrect.includes(normStudent)) && !isNaN(numCorrect)) {
-    // 数字が含まれていて、かつ包含関係にあるならOKとする（危険かもしれないが40と40度は救いたい）
-    // いや、 "140" と "40" がマッチしてしまうのを防ぐ必要がある。
-    // ここはシンプルに「単位を除去して一致するか」を見る
-    const removeUnit = (s: string) => s.replace(/[^0-9\.]/g, '');
-    if (removeUnit(normStudent) === removeUnit(normCorrect) && removeUnit(normStudent).length > 0) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
 const app = express()
 const port = process.env.PORT || 3003
 
@@ -136,32 +94,143 @@ if (!process.env.GEMINI_API_KEY) {
   console.warn('⚠️ GEMINI_API_KEY is not set in environment variables.')
 }
 
-// Google GenAI クライアント初期化
-// Google GenAI クライアント初期化
 // gemini-2.5-flash を使用（速度と精度のバランス重視）
-const MODEL_NAME = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
-console.log(`Using Gemini Model: ${MODEL_NAME}`)
-
-// Initialize the Google Generative AI client
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
-const model = genAI.getGenerativeModel({ model: MODEL_NAME })
+// DEFAULT_MODEL で他のプロバイダーのモデル（例: "fixture", "openai:gpt-4o"）をデフォルトにできる
+const MODEL_NAME = process.env.DEFAULT_MODEL || process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+console.log(`Using Model: ${MODEL_NAME}`)
+
+// LLMプロバイダー（Gemini / OpenAI互換 / fixture）の初期化
+const providers = new ProviderRegistry({
+  geminiApiKey: process.env.GEMINI_API_KEY,
+  openaiBaseUrl: process.env.OPENAI_BASE_URL,
+  openaiApiKey: process.env.OPENAI_API_KEY,
+  openaiModels: (process.env.OPENAI_MODELS || '').split(',').map(m => m.trim()).filter(Boolean),
+  enableFixture: process.env.ENABLE_FIXTURE_PROVIDER === 'true',
+  fixtureDir: process.env.FIXTURE_DIR ? path.resolve(__dirname, '..', process.env.FIXTURE_DIR) : undefined
+})
 
 // デフォルトモデルID
-const DEFAULT_MODEL_ID = 'gemini-2.5-flash'
+const DEFAULT_MODEL_ID = process.env.DEFAULT_MODEL || 'gemini-2.5-flash'
 
 // 利用可能なモデル一覧
 const AVAILABLE_MODELS = [
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro (Preview)', description: '最新の最高精度モデル（プレビュー版）' },
-  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Preview)', description: '次世代の高速・高精度モデル（プレビュー版）' },
-  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: '複雑な論理推論に強いハイエンドモデル' },
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: '速度と精度のバランスが良いモデル（推奨）' },
-  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', description: '超高速・低コストだが複雑な推論は苦手なモデル' },
-  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: '安定版の旧高速モデル' },
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro (Preview)', description: '最新の最高精度モデル（プレビュー版）', provider: 'gemini' },
+  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Preview)', description: '次世代の高速・高精度モデル（プレビュー版）', provider: 'gemini' },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: '複雑な論理推論に強いハイエンドモデル', provider: 'gemini' },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: '速度と精度のバランスが良いモデル（推奨）', provider: 'gemini' },
+  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', description: '超高速・低コストだが複雑な推論は苦手なモデル', provider: 'gemini' },
+  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: '安定版の旧高速モデル', provider: 'gemini' },
 ]
 
+// ==========================================
+// Premium Entitlement
+// ==========================================
+// プレミアムかどうかはサーバーだけが決める（Stripeの契約 users/{uid}.isPremium か、プロモコードの期限 users/{uid}.premiumUntil）。
+// クライアントには署名付きの権利トークンを渡し、オフラインでも期限まではキャッシュを使えるようにする。
+// 既定以外のモデルを選ぶなど、サーバー側でプレミアムを確かめる処理はこのトークンを検証する。
+
+// 本番では必須（再起動やインスタンスごとに鍵が変わると、発行済みのトークンがすべて無効になる）
+if (!process.env.ENTITLEMENT_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('ENTITLEMENT_SECRET must be set in production')
+}
+const ENTITLEMENT_SECRET = process.env.ENTITLEMENT_SECRET || crypto.randomBytes(32).toString('hex')
+if (!process.env.ENTITLEMENT_SECRET) {
+  console.warn('⚠️ ENTITLEMENT_SECRET is not set. Entitlement tokens will become invalid when the server restarts.')
+}
+// トークンの有効期間（この間はオフラインでもプレミアムのまま。解約の反映もこの分だけ遅れる）
+const ENTITLEMENT_TTL_MS = (parseInt(process.env.ENTITLEMENT_TTL_HOURS || '', 10) || 72) * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface EntitlementPayload {
+  uid: string
+  premium: boolean
+  source: 'stripe' | 'promo' | null
+  premiumUntil: number | null // プロモコードによるプレミアムの期限
+  issuedAt: number
+  expiresAt: number // トークンの期限
+}
+
+// 署名付きトークン（権利トークン・SNSのチケットで共通。payload は expiresAt を持つ）
+function signPayload(payload: { expiresAt: number }): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  const signature = crypto.createHmac('sha256', ENTITLEMENT_SECRET).update(body).digest('base64url')
+  return `${body}.${signature}`
+}
+
+const signEntitlement = (payload: EntitlementPayload): string => signPayload(payload)
+
+// 署名を確かめて中身を返す（期限は見ない。不正なら null）
+function readSignedPayload<T extends { expiresAt: number }>(token: unknown): T | null {
+  if (typeof token !== 'string') return null
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(crypto.createHmac('sha256', ENTITLEMENT_SECRET).update(body).digest('base64url'))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+// 署名と期限を確かめる（不正・期限切れなら null）
+function verifySignedPayload<T extends { expiresAt: number }>(token: unknown): T | null {
+  const payload = readSignedPayload<T>(token)
+  return payload && payload.expiresAt > Date.now() ? payload : null
+}
+
+const verifyEntitlementToken = (token: unknown) => verifySignedPayload<EntitlementPayload>(token)
+
+// 権利トークンの期限切れ（クライアントはトークンを取り直して送り直す）
+const ENTITLEMENT_EXPIRED = 'entitlement-expired'
+
+// Firestore のユーザー情報から今の権利を決める
+async function getUserEntitlement(uid: string): Promise<EntitlementPayload> {
+  const now = Date.now()
+  const data = admin.apps.length ? (await admin.firestore().collection('users').doc(uid).get()).data() : undefined
+  const subscribed = data?.isPremium === true
+  const premiumUntil = typeof data?.premiumUntil === 'number' && data.premiumUntil > now ? data.premiumUntil : null
+  const premium = subscribed || premiumUntil !== null
+
+  return {
+    uid,
+    premium,
+    source: subscribed ? 'stripe' : premiumUntil !== null ? 'promo' : null,
+    premiumUntil,
+    issuedAt: now,
+    // プロモコードだけのときは、その期限を過ぎたトークンを出さない
+    expiresAt: !subscribed && premiumUntil !== null ? Math.min(now + ENTITLEMENT_TTL_MS, premiumUntil) : now + ENTITLEMENT_TTL_MS
+  }
+}
+
+// 既定以外のモデルを選べるのはプレミアムだけ（X-Entitlement-Token の権利トークンで確かめる）
+const requirePremiumForModel = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const model = req.method === 'POST' ? req.body?.model : undefined
+  if (typeof model !== 'string' || !model || model === 'default' || model === MODEL_NAME || model === DEFAULT_MODEL_ID) {
+    return next()
+  }
+  // 開発・CI用の固定レスポンスは誰でも使える
+  if (process.env.ENABLE_FIXTURE_PROVIDER === 'true' && model.startsWith('fixture')) {
+    return next()
+  }
+  const token = req.headers['x-entitlement-token']
+  if (!verifyEntitlementToken(token)?.premium) {
+    // プレミアムのトークンの期限が切れただけなら、取り直せば使えることを知らせる
+    if (readSignedPayload<EntitlementPayload>(token)?.premium) {
+      return res.status(403).json({ success: false, error: 'Entitlement token has expired', code: ENTITLEMENT_EXPIRED })
+    }
+    return res.status(403).json({ success: false, error: 'Premium plan is required to choose a model' })
+  }
+  next()
+}
+app.use('/api', requirePremiumForModel)
+
 app.get('/api/models', (req, res) => {
   res.json({
-    models: AVAILABLE_MODELS,
+    models: [...AVAILABLE_MODELS, ...providers.listExtraModels()],
     default: DEFAULT_MODEL_ID
   })
 })
@@ -239,7 +308,7 @@ app.get('/api/subjects', (req, res) => {
 // POST /api/detect-subject - Detect subject from cover page image
 app.post('/api/detect-subject', async (req, res) => {
   try {
-    const { image } = req.body
+    const { image, model: requestModel } = req.body
 
     if (!image) {
       return res.status(400).json({ error: 'image (base64) is required' })
@@ -247,12 +316,7 @@ app.post('/api/detect-subject', async (req, res) => {
 
     console.log('🔍 Detecting subject from cover page...')
 
-    // Extract mime type and clean base64
-    const imageMatch = image.match(/^data:(image\/(png|jpeg));base64,(.+)$/)
-    const imageData = imageMatch ? imageMatch[3] : image.replace(/^data:image\/\w+;base64,/, '')
-    const imageMime = imageMatch ? imageMatch[1] : 'image/jpeg'
-
-    // Use Gemini to detect subject
+    // Use the model to detect subject
     const detectionPrompt = `この画像はドリルや問題集の表紙です。
 この教材がどの教科のものか判定してください。
 
@@ -273,21 +337,14 @@ app.post('/api/detect-subject', async (req, res) => {
 
 JSONのみを出力してください。`
 
-    const result = await model.generateContent([
-      {
-        inlineData: {
-          mimeType: imageMime,
-          data: imageData
-        }
-      },
-      { text: detectionPrompt }
-    ])
-
-    const response = await result.response
-    const responseText = response.text()
+    const responseText = await providers.generate(requestModel || MODEL_NAME, {
+      task: 'detect-subject',
+      prompt: detectionPrompt,
+      images: [toProviderImage(image)]
+    })
 
     if (!responseText) {
-      throw new Error('Empty response from Gemini')
+      throw new Error('Empty response from model')
     }
 
     // Parse JSON response
@@ -334,93 +391,633 @@ JSONのみを出力してください。`
   }
 })
 
-// 簡素化された採点API（切り抜き画像のみ）
-app.post('/api/grade-work', async (req, res) => {
+// POST /api/extract-answer-keys - Extract answer keys from the answer pages of a drill
+app.post('/api/extract-answer-keys', async (req, res) => {
   try {
-    const { croppedImageData, model: requestModel, language, subjectId } = req.body
+    const { pages, model: requestModel, language } = req.body
 
-    if (!croppedImageData) {
-      return res.status(400).json({ error: 'croppedImageData is required' })
+    if (!Array.isArray(pages) || pages.length === 0) {
+      return res.status(400).json({ error: 'pages (array of { pageNumber, imageData }) is required' })
     }
 
     const startTime = Date.now()
-    console.log(`Grading work (subject: ${subjectId || 'default'})...`)
+    console.log(`📖 Extracting answer keys from ${pages.length} page(s)...`)
 
-    // Use requested model or default
     const currentModelName = requestModel || MODEL_NAME
-    const currentModel = requestModel ? genAI.getGenerativeModel({ model: currentModelName }) : model
+    const isJapanese = !language || language.startsWith('ja');
 
-    // 言語設定の確認
+    const extractionPrompt = isJapanese
+      ? `この画像はドリルや問題集の「解答ページ（答え）」です。
+掲載されている正解をすべて読み取ってください。
+
+・各解答が、問題集の何ページの問題に対応しているかを読み取ってください（「P.12」「12ページ」などの表記）。ページ番号が読み取れない場合は null にしてください。
+・問題番号は問題用紙に印字されている形式のまま（例: '1(1)', '2(3)'）にしてください。
+・正解は書かれているとおりに読み取り、解説文は含めないでください。
+
+【重要】以下の形式のJSON配列のみを出力してください：
+[
+  {
+    "page": 問題が載っているページ番号（数値、不明ならnull）,
+    "problemNumber": "問題番号",
+    "correctAnswer": "正解"
+  }
+]
+
+JSONのみを出力してください。`
+      : `The image shows the ANSWER pages of a workbook.
+Read every correct answer printed on it.
+
+・For each answer, identify which workbook page the problem is on (e.g. "P.12", "page 12"). Use null if the page number cannot be read.
+・Keep the problem number exactly as printed (e.g. '1(1)', '2(3)').
+・Transcribe the answer as printed. Do not include explanations.
+
+【IMPORTANT】Output ONLY a JSON ARRAY in the following format:
+[
+  {
+    "page": page number of the problem (number, or null if unknown),
+    "problemNumber": "Problem Number",
+    "correctAnswer": "Correct Answer"
+  }
+]
+
+Output ONLY JSON.`
+
+    const entries: { page: number | null; problemNumber: string; correctAnswer: string; sourcePage: number }[] = []
+
+    // 1ページずつ処理する（まとめて送るとページの対応が崩れやすいため）
+    for (const page of pages) {
+      const { pageNumber, imageData } = page || {}
+      if (!imageData) continue
+
+      const responseText = await providers.generate(currentModelName, {
+        task: 'extract-answer-keys',
+        prompt: extractionPrompt,
+        images: [toProviderImage(imageData)]
+      })
+
+      if (!responseText) {
+        throw new Error('Empty response from model')
+      }
+
+      let jsonStr = responseText.replace(/```\w *\s * /g, '').replace(/```/g, '').trim()
+      const jsonStart = jsonStr.indexOf('[')
+      const jsonEnd = jsonStr.lastIndexOf(']')
+
+      if (jsonStart !== -1 && jsonEnd > jsonStart) {
+        jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1)
+      }
+
+      let extracted
+      try {
+        extracted = JSON.parse(jsonStr)
+      } catch (e) {
+        console.error('JSON Parse Error:', e)
+        console.log('Raw Response:', responseText)
+        throw new Error(`Failed to parse AI response (page ${pageNumber})`)
+      }
+
+      if (!Array.isArray(extracted)) continue
+
+      extracted.forEach((item: any) => {
+        if (!item || !item.problemNumber || item.correctAnswer === undefined || item.correctAnswer === null) return
+        const parsedPage = parseInt(item.page, 10)
+        entries.push({
+          page: isNaN(parsedPage) ? null : parsedPage,
+          problemNumber: String(item.problemNumber).trim(),
+          correctAnswer: String(item.correctAnswer).trim(),
+          sourcePage: pageNumber
+        })
+      })
+    }
+
+    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+    console.log(`✅ Extracted ${entries.length} answer key(s) in ${elapsedTime}s`)
+
+    res.json({
+      success: true,
+      modelName: currentModelName,
+      responseTime: elapsedTime,
+      entries
+    })
+
+  } catch (error) {
+    console.error('Error in /api/extract-answer-keys:', error)
+    res.status(500).json({
+      success: false,
+      entries: [],
+      error: error instanceof Error ? error.message : 'Internal Server Error'
+    })
+  }
+})
+
+// 類題の数（1回のリクエストで作る問題数）
+const DEFAULT_SIMILAR_PROBLEM_COUNT = 3
+const MAX_SIMILAR_PROBLEM_COUNT = 5
+
+// まちがえた問題から、同じ単元・同じ難しさの類題（答えつき）を作る
+app.post('/api/similar-problems', async (req, res) => {
+  try {
+    const { problemText, croppedImageData, studentAnswer, correctAnswer, explanation, topic, count, model: requestModel, language } = req.body
+
+    if (!problemText && !croppedImageData) {
+      return res.status(400).json({ error: 'problemText or croppedImageData is required' })
+    }
+
+    const startTime = Date.now()
+    const problemCount = Math.min(MAX_SIMILAR_PROBLEM_COUNT, Math.max(1, parseInt(count, 10) || DEFAULT_SIMILAR_PROBLEM_COUNT))
+    const currentModelName = requestModel || MODEL_NAME
     const isJapanese = !language || language.startsWith('ja');
 
-    // 教科別のprompt補足説明
-    const getSubjectSpecificGuidance = (subject: string | undefined) => {
-      if (!subject) return '';
+    console.log(`📝 Generating ${problemCount} similar problem(s)${topic ? ` (topic: ${topic})` : ''}...`)
+
+    const mistakeLines = isJapanese
+      ? [
+        problemText && `問題文: ${problemText}`,
+        croppedImageData && '問題と生徒の解答: 画像のとおり',
+        `生徒の答え: ${studentAnswer || '（無回答）'}`,
+        correctAnswer && `正しい答え: ${correctAnswer}`,
+        explanation && `解説: ${explanation}`,
+        topic && `単元: ${topic}`
+      ]
+      : [
+        problemText && `Problem: ${problemText}`,
+        croppedImageData && 'Problem and student answer: see the image',
+        `Student's answer: ${studentAnswer || '(no answer)'}`,
+        correctAnswer && `Correct answer: ${correctAnswer}`,
+        explanation && `Explanation: ${explanation}`,
+        topic && `Topic: ${topic}`
+      ]
+
+    const prompt = isJapanese
+      ? `あなたは小中学生の家庭教師です。生徒がまちがえた問題をもとに、同じ単元・同じ難しさの類題を${problemCount}問つくってください。
+
+【まちがえた問題】
+${mistakeLines.filter(Boolean).join('\n')}
+
+【ルール】
+・まちがえた原因を練習できる問題にしてください（例: くり上がりを忘れた → くり上がりのあるたし算）。
+・元の問題と同じ数字・同じ文章にはしないでください。
+・紙に印刷して手で解ける問題にしてください（図が必要な問題は作らないでください）。
+・問題文は1行が全角25文字以内になるように、必要なら改行（\\n）を入れてください。
+・答えは短く書き、単位がある場合は単位もつけてください。
+
+【重要】以下の形式のJSON配列のみを出力してください：
+[
+  { "question": "問題文", "answer": "答え" }
+]
+
+JSONのみを出力してください。`
+      : `You are a tutor for students. Based on the problem the student got wrong, create ${problemCount} similar problems on the same topic at the same difficulty.
+
+【The mistake】
+${mistakeLines.filter(Boolean).join('\n')}
+
+【Rules】
+- Make problems that practice what caused the mistake (e.g. forgot to carry -> addition with carrying).
+- Do not reuse the same numbers or wording as the original problem.
+- Problems must be solvable by hand on paper (no problems that need a figure).
+- Keep each line of a question under 50 characters; insert line breaks (\\n) if needed.
+- Keep answers short and include units where relevant.
+
+【IMPORTANT】Output ONLY a JSON ARRAY in the following format:
+[
+  { "question": "Question", "answer": "Answer" }
+]
+
+Output ONLY JSON.`
+
+    const responseText = await providers.generate(currentModelName, {
+      task: 'similar-problems',
+      prompt,
+      images: croppedImageData ? [toProviderImage(croppedImageData)] : undefined
+    })
+
+    let generated: unknown
+    try {
+      generated = JSON.parse(extractJsonText(responseText))
+    } catch (e) {
+      console.error('JSON Parse Error:', e)
+      console.log('Raw Response:', responseText)
+      throw new Error('Failed to parse AI response')
+    }
+
+    const problems = (Array.isArray(generated) ? generated : [])
+      .filter((item: any) => item && typeof item.question === 'string' && item.question.trim() && item.answer !== undefined && item.answer !== null)
+      .slice(0, problemCount)
+      .map((item: any) => ({ question: item.question.trim(), answer: String(item.answer).trim() }))
+
+    if (problems.length === 0) {
+      throw new Error('No similar problems were generated')
+    }
+
+    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+    console.log(`✅ Generated ${problems.length} similar problem(s) in ${elapsedTime}s`)
+
+    res.json({
+      success: true,
+      modelName: currentModelName,
+      responseTime: elapsedTime,
+      problems
+    })
+
+  } catch (error) {
+    console.error('Error in /api/similar-problems:', error)
+    res.status(500).json({
+      success: false,
+      problems: [],
+      error: error instanceof Error ? error.message : 'Internal Server Error'
+    })
+  }
+})
+
+// 解説チャットで送る会話の上限（古いものから削る）
+const MAX_TUTOR_CHAT_MESSAGES = 20
+const MAX_TUTOR_CHAT_MESSAGE_LENGTH = 500
+// 何回目の返事から答えを教えてよいか（それまではヒントだけ）
+const TUTOR_ANSWER_REVEAL_TURN = 3
+
+type TutorChatMessage = { role: 'student' | 'tutor'; text: string }
+
+// クライアントから届いた会話を整える（不正な要素は捨て、長すぎる発言は切る）
+function sanitizeTutorMessages(messages: unknown): TutorChatMessage[] {
+  if (!Array.isArray(messages)) return []
+  return messages
+    .filter((message: any) => message && (message.role === 'student' || message.role === 'tutor') && typeof message.text === 'string' && message.text.trim())
+    .map((message: any) => ({ role: message.role, text: message.text.trim().slice(0, MAX_TUTOR_CHAT_MESSAGE_LENGTH) }))
+    .slice(-MAX_TUTOR_CHAT_MESSAGES)
+}
+
+// 採点した1問について、子どもの「なんで？」に答える（答えを言う前にヒントで考えさせる）
+app.post('/api/tutor-chat', async (req, res) => {
+  try {
+    const { problem, croppedImageData, messages, model: requestModel, language } = req.body
+    const conversation = sanitizeTutorMessages(messages)
+
+    if (!problem || conversation.length === 0 || conversation[conversation.length - 1].role !== 'student') {
+      return res.status(400).json({ error: 'problem and messages ending with a student message are required' })
+    }
+
+    const startTime = Date.now()
+    const currentModelName = requestModel || MODEL_NAME
+    const isJapanese = !language || language.startsWith('ja');
+    const tutorTurn = conversation.filter(message => message.role === 'tutor').length + 1
+    const mayRevealAnswer = tutorTurn >= TUTOR_ANSWER_REVEAL_TURN
+
+    console.log(`💬 Tutor chat (problem ${problem.problemNumber || '?'}, turn ${tutorTurn})...`)
+
+    const problemLines = isJapanese
+      ? [
+        problem.problemNumber && `問題番号: ${problem.problemNumber}`,
+        problem.problemText && `問題文: ${problem.problemText}`,
+        croppedImageData && '問題と生徒の解答: 画像のとおり',
+        `生徒の答え: ${problem.studentAnswer || '（無回答）'}`,
+        `採点: ${problem.isCorrect ? '正解' : '不正解'}`,
+        problem.correctAnswer && `正しい答え: ${problem.correctAnswer}`,
+        problem.explanation && `解説: ${problem.explanation}`,
+        problem.topic && `単元: ${problem.topic}`
+      ]
+      : [
+        problem.problemNumber && `Problem number: ${problem.problemNumber}`,
+        problem.problemText && `Problem: ${problem.problemText}`,
+        croppedImageData && 'Problem and student answer: see the image',
+        `Student's answer: ${problem.studentAnswer || '(no answer)'}`,
+        `Result: ${problem.isCorrect ? 'correct' : 'incorrect'}`,
+        problem.correctAnswer && `Correct answer: ${problem.correctAnswer}`,
+        problem.explanation && `Explanation: ${problem.explanation}`,
+        problem.topic && `Topic: ${problem.topic}`
+      ]
+
+    const transcript = conversation
+      .map(message => isJapanese
+        ? `${message.role === 'student' ? '生徒' : '先生'}: ${message.text}`
+        : `${message.role === 'student' ? 'Student' : 'Tutor'}: ${message.text}`)
+      .join('\n')
+
+    const prompt = isJapanese
+      ? `あなたは小中学生にやさしく教える家庭教師です。採点が終わった1問について、生徒の質問に答えてください。
+
+【問題と採点結果】
+${problemLines.filter(Boolean).join('\n')}
+
+【これまでの会話】
+${transcript}
+
+【ルール】
+・答えをすぐに教えず、生徒が自分で気づけるように、小さなヒントを1つずつ出して問いかけてください。
+・${mayRevealAnswer
+        ? '生徒がまだわからないようなら、答えと解き方を順を追って説明してかまいません。'
+        : 'この返事では答えそのものは言わず、ヒントと問いかけだけにしてください。'}
+・生徒の考えを否定せず、できているところをほめてください。
+・小学生にもわかる短い言葉で、3文以内で答えてください。
+・この問題と関係のない話題や、子どもにふさわしくない話題には答えず、やさしく問題の話にもどしてください。
+・名前や住所などの個人情報はたずねないでください。URLは書かないでください。
+
+【重要】以下の形式のJSONのみを出力してください：
+{ "reply": "生徒への返事" }
+
+JSONのみを出力してください。`
+      : `You are a kind tutor for elementary and junior high school students. Answer the student's question about one problem that has already been graded.
+
+【Problem and grading result】
+${problemLines.filter(Boolean).join('\n')}
+
+【Conversation so far】
+${transcript}
+
+【Rules】
+- Do not give the answer right away. Give one small hint at a time and ask a question so the student can figure it out.
+- ${mayRevealAnswer
+        ? 'If the student is still stuck, you may explain the answer and the steps one by one.'
+        : 'In this reply, do not state the answer itself; give only a hint and a question.'}
+- Never dismiss the student's thinking; praise what they did right.
+- Use short, simple words a young child understands, in 3 sentences or fewer.
+- Do not respond to topics unrelated to this problem or unsuitable for children; gently bring the conversation back to the problem.
+- Never ask for personal information such as names or addresses. Do not include URLs.
+
+【IMPORTANT】Output ONLY JSON in the following format:
+{ "reply": "Reply to the student" }
+
+Output ONLY JSON.`
+
+    const responseText = await providers.generate(currentModelName, {
+      task: 'tutor-chat',
+      prompt,
+      images: croppedImageData ? [toProviderImage(croppedImageData)] : undefined
+    })
+
+    let reply = ''
+    try {
+      const parsed = JSON.parse(extractJsonText(responseText))
+      reply = typeof parsed?.reply === 'string' ? parsed.reply.trim() : ''
+    } catch {
+      // JSONで返ってこなかったときは、テキストをそのまま返事にする
+      console.warn('Tutor chat response was not JSON, using raw text')
+      reply = responseText.trim()
+    }
+
+    if (!reply) {
+      throw new Error('Empty tutor reply')
+    }
+
+    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+    console.log(`✅ Tutor replied in ${elapsedTime}s`)
+
+    res.json({
+      success: true,
+      modelName: currentModelName,
+      responseTime: elapsedTime,
+      reply
+    })
+
+  } catch (error) {
+    console.error('Error in /api/tutor-chat:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal Server Error'
+    })
+  }
+})
+
+// ヒントの段階（1: 気づかせる / 2: 考え方 / 3: 最初の一歩）
+const HINT_LEVEL_COUNT = 3
+
+// ヒントに答えがそのまま書かれていないか（数字は前後が数字でないときだけ一致とみなす）
+function hintRevealsAnswer(hint: string, answer: string | undefined): boolean {
+  const normalize = (text: string) => text.normalize('NFKC').replace(/\s+/g, '').toLowerCase()
+  const target = answer ? normalize(answer) : ''
+  if (!target) return false
+  const text = normalize(hint)
+  if (/^[\d.,/]+$/.test(target)) {
+    const escaped = target.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    return new RegExp(`(^|[^\\d.])${escaped}($|[^\\d.])`).test(text)
+  }
+  return target.length >= 2 && text.includes(target)
+}
+
+// 採点の前に、選んだ問題のヒントを段階ごとに返す（答えは返さない）
+app.post('/api/hint', async (req, res) => {
+  try {
+    const { croppedImageData, model: requestModel, language, subjectId, answerKeys } = req.body
+
+    if (!croppedImageData) {
+      return res.status(400).json({ error: 'croppedImageData is required' })
+    }
+
+    const startTime = Date.now()
+    const currentModelName = requestModel || MODEL_NAME
+    const isJapanese = !language || language.startsWith('ja');
+    const registeredKeys = buildRegisteredKeys(answerKeys)
+
+    console.log(`💡 Generating hints${subjectId ? ` (subject: ${subjectId})` : ''}...`)
+
+    const prompt = isJapanese
+      ? `あなたは小中学生にやさしく教える家庭教師です。画像の問題を生徒がこれから解きます。答えを教えずに、段階的なヒントを${HINT_LEVEL_COUNT}つ作ってください。
+問題が複数写っている場合は、まだ答えが書かれていない最初の問題を選んでください。
+
+【ヒントの段階】
+・level 1: 気づかせる一言（問題のどこに注目すればよいか）
+・level 2: 考え方（どの解き方・公式・きまりを使うか）
+・level 3: 最初の一歩（式の立て方や1つ目の手順を実際にやってみせる。最後の答えまでは計算しない）
+
+【ルール】
+・どのヒントにも答えそのものを書かないでください。
+・小学生にもわかる短い言葉で、それぞれ2文以内にしてください。
+・"answer" は答えがヒントに書かれていないかの確認だけに使います（生徒には見せません）。
+
+【重要】以下の形式のJSONのみを出力してください：
+{
+  "problemNumber": "問題番号（わからなければ空文字）",
+  "problemText": "問題文",
+  "topic": "単元",
+  "answer": "答え",
+  "hints": ["level 1のヒント", "level 2のヒント", "level 3のヒント"]
+}
+
+JSONのみを出力してください。`
+      : `You are a kind tutor for elementary and junior high school students. The student is about to solve the problem in the image. Without giving the answer, write ${HINT_LEVEL_COUNT} graduated hints.
+If several problems are visible, pick the first one that has not been answered yet.
+
+【Hint levels】
+- level 1: a nudge (what part of the problem to look at)
+- level 2: the approach (which method, formula or rule to use)
+- level 3: the first step worked out (set up the expression or do the first step; do not compute the final answer)
+
+【Rules】
+- Never write the answer itself in any hint.
+- Use short, simple words a young child understands, 2 sentences or fewer each.
+- "answer" is only used to check that no hint reveals it (it is not shown to the student).
+
+【IMPORTANT】Output ONLY JSON in the following format:
+{
+  "problemNumber": "Problem number (empty string if unknown)",
+  "problemText": "Problem text",
+  "topic": "Topic",
+  "answer": "Answer",
+  "hints": ["level 1 hint", "level 2 hint", "level 3 hint"]
+}
+
+Output ONLY JSON.`
+
+    const responseText = await providers.generate(currentModelName, {
+      task: 'hint',
+      prompt,
+      images: [toProviderImage(croppedImageData)]
+    })
+
+    let generated: any
+    try {
+      generated = JSON.parse(extractJsonText(responseText))
+    } catch (e) {
+      console.error('JSON Parse Error:', e)
+      console.log('Raw Response:', responseText)
+      throw new Error('Failed to parse AI response')
+    }
+
+    const problemNumber = typeof generated?.problemNumber === 'string' ? generated.problemNumber.trim() : ''
+    // 正解が登録されていればそちらで確かめる
+    const answer = (problemNumber && registeredKeys.get(normalizeProblemNumber(problemNumber))?.correctAnswer)
+      || (generated?.answer !== undefined && generated?.answer !== null ? String(generated.answer) : undefined)
+
+    const hints: string[] = []
+    for (const hint of (Array.isArray(generated?.hints) ? generated.hints : []).slice(0, HINT_LEVEL_COUNT)) {
+      if (typeof hint !== 'string' || !hint.trim()) break
+      // 答えが書かれてしまったヒントから先は出さない（段階を飛ばさないように）
+      if (hintRevealsAnswer(hint, answer)) {
+        console.warn(`⚠️ Hint level ${hints.length + 1} revealed the answer, dropped`)
+        break
+      }
+      hints.push(hint.trim())
+    }
+
+    if (hints.length === 0) {
+      throw new Error('No hints were generated')
+    }
+
+    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+    console.log(`✅ Generated ${hints.length} hint(s) in ${elapsedTime}s`)
+
+    res.json({
+      success: true,
+      modelName: currentModelName,
+      responseTime: elapsedTime,
+      problemNumber,
+      problemText: typeof generated?.problemText === 'string' ? generated.problemText.trim() : undefined,
+      topic: normalizeTopic(generated?.topic) ?? undefined,
+      hints
+    })
+
+  } catch (error) {
+    console.error('Error in /api/hint:', error)
+    res.status(500).json({
+      success: false,
+      hints: [],
+      error: error instanceof Error ? error.message : 'Internal Server Error'
+    })
+  }
+})
+
+type RegisteredKey = { problemNumber: string; correctAnswer: string; pageNumber: number }
+
+// 登録済みの正解（問題番号で引けるようにMap化）
+function buildRegisteredKeys(answerKeys: unknown): Map<string, RegisteredKey> {
+  const registeredKeys = new Map<string, RegisteredKey>()
+  if (Array.isArray(answerKeys)) {
+    answerKeys.forEach((key: any) => {
+      if (key && key.problemNumber && key.correctAnswer) {
+        registeredKeys.set(normalizeProblemNumber(key.problemNumber), key)
+      }
+    })
+  }
+  return registeredKeys
+}
+
+// 採点用プロンプトを組み立てる
+function buildGradingPrompt(isJapanese: boolean, subjectId: string | undefined, registeredKeys: Map<string, RegisteredKey>): string {
+  // 教科別のprompt補足説明
+  const getSubjectSpecificGuidance = (subject: string | undefined) => {
+    if (!subject) return '';
 
-      const guidance: Record<string, { ja: string; en: string }> = {
-        japanese: {
-          ja: `\n\n【国語の採点について】
+    const guidance: Record<string, { ja: string; en: string }> = {
+      japanese: {
+        ja: `\n\n【国語の採点について】
 ・記述問題では、生徒の表現が模範解答と異なっていても、意味が正しく伝わっていれば正解としてください。
 ・漢字の書き取りでは、とめ・はね・はらいを厳密にチェックしてください。
 ・文章の読解では、本文の内容と照らし合わせて判定してください。`,
-          en: `\n\n【Japanese Language Grading】
+        en: `\n\n【Japanese Language Grading】
 ・For written answers, accept answers that convey the correct meaning even if the expression differs from the model answer.
 ・For kanji writing, check the strokes strictly.
 ・For reading comprehension, verify against the text.`
-        },
-        math: {
-          ja: `\n\n【算数・数学の採点について】
+      },
+      math: {
+        ja: `\n\n【算数・数学の採点について】
 ・計算過程が正しければ、最終的な答えが少し違っても部分点を考慮してください。
 ・単位の記入漏れは減点対象ですが、計算自体が正しければ大きく減点しないでください。
 ・図形問題では、補助線や考え方のプロセスも評価してください。`,
-          en: `\n\n【Math Grading】
+        en: `\n\n【Math Grading】
 ・If the calculation process is correct, consider partial credit even if the final answer is slightly different.
 ・Missing units should be noted but not heavily penalized if the calculation is correct.
 ・For geometry, evaluate the use of auxiliary lines and thought process.`
-        },
-        science: {
-          ja: `\n\n【理科の採点について】
+      },
+      science: {
+        ja: `\n\n【理科の採点について】
 ・専門用語の表記揺れ（ひらがな・カタカナ）は許容してください。
 ・実験の観察結果は、要点が合っていれば表現が違っても正解としてください。
 ・理由を問う問題では、科学的な根拠が含まれているか確認してください。`,
-          en: `\n\n【Science Grading】
+        en: `\n\n【Science Grading】
 ・Allow variations in technical term notation (hiragana/katakana).
 ・For experimental observations, accept if the key points are correct.
 ・For reasoning questions, verify scientific basis is included.`
-        },
-        social: {
-          ja: `\n\n【社会の採点について】
+      },
+      social: {
+        ja: `\n\n【社会の採点について】
 ・歴史的事項や地名の表記揺れは許容してください（例：「えどばくふ」「江戸幕府」）。
 ・記述問題では、重要なキーワードが含まれていれば、文章構成が違っても正解としてください。
 ・年号の前後数年のズレは大きく減点しないでください。`,
-          en: `\n\n【Social Studies Grading】
+        en: `\n\n【Social Studies Grading】
 ・Allow variations in historical terms and place names.
 ・For written answers, accept if key terms are included.
 ・Minor errors in dates (within a few years) should not be heavily penalized.`
-        },
-        english: {
-          ja: `\n\n【英語の採点について】
+      },
+      english: {
+        ja: `\n\n【英語の採点について】
 ・スペルミスは減点対象ですが、意味が通じれば大きく減点しないでください。
 ・文法問題では、文法の理解を重視してください。
 ・英作文では、文法・語彙・内容の3つの観点で評価してください。`,
-          en: `\n\n【English Grading】
+        en: `\n\n【English Grading】
 ・Spelling errors should be noted but not heavily penalized if meaning is clear.
 ・For grammar questions, focus on grammatical understanding.
 ・For composition, evaluate grammar, vocabulary, and content.`
-        }
-      };
+      }
+    };
 
-      const subjectGuidance = guidance[subject];
-      if (!subjectGuidance) return '';
+    const subjectGuidance = guidance[subject];
+    if (!subjectGuidance) return '';
 
-      return isJapanese ? subjectGuidance.ja : subjectGuidance.en;
-    };
+    return isJapanese ? subjectGuidance.ja : subjectGuidance.en;
+  };
+
+  // 正解が登録されている問題は、AIには手書きの読み取りだけを任せる
+  // （正解をプロンプトに含めると読み取りが正解に引きずられるため、問題番号のみ渡す）
+  const getRegisteredKeyGuidance = () => {
+    if (registeredKeys.size === 0) return '';
+
+    const numbers = Array.from(registeredKeys.values()).map(k => k.problemNumber).join(', ');
+    return isJapanese
+      ? `\n\n【正解登録済みの問題について】
+次の問題には正解が登録されており、正誤判定はシステム側で行います：${numbers}
+・これらの問題では、生徒が書いた解答を一字一句そのまま読み取って studentAnswer に入れてください。誤字や計算ミスも修正せずに書かれたとおりに記録してください。
+・problemNumber は問題用紙に印字されている番号をそのまま使ってください。`
+      : `\n\n【Problems with Registered Answers】
+The following problems have registered answers and will be judged by the system: ${numbers}
+・For these problems, transcribe the student's handwriting exactly as written into studentAnswer. Do not correct typos or calculation mistakes.
+・Use the problem number exactly as printed on the worksheet for problemNumber.`;
+  };
 
-    let simplePrompt = '';
+  let simplePrompt = '';
 
-    if (isJapanese) {
-      simplePrompt = `あなたは小中学生の家庭教師です。以下の画像には生徒の解答が写っています。
-${getSubjectSpecificGuidance(subjectId)}
+  if (isJapanese) {
+    simplePrompt = `あなたは小中学生の家庭教師です。以下の画像には生徒の解答が写っています。
+${getSubjectSpecificGuidance(subjectId)}${getRegisteredKeyGuidance()}
 
 この画像を見て以下のステップで処理してください：
 1. 画像内に含まれる【すべての解答済みの問題】をもれなく特定してください（1問だけではありません）。
@@ -438,10 +1035,26 @@ ${getSubjectSpecificGuidance(subjectId)}
           "correctAnswer": "正解",
           "feedback": "問題の意図を踏まえた具体的なフィードバック",
           "explanation": "解説",
-          "explanationSvg": "解説を補足するSVGコード（必要な場合のみ。不要ならnull）"
+          "explanationSvg": "解説を補足するSVGコード（必要な場合のみ。不要ならnull）",
+          "boundingBox": { "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.1 },
+          "topic": "単元・問題の種類（例: '繰り上がりのたし算', '漢字の書き取り'）",
+          "correctAnswerReading": "正解の読み（ひらがな）。正解に漢字が含まれる場合のみ。不要なら null"
         }
       ]
 
+【correctAnswerReading について】
+・正解に漢字が含まれ、ひらがなで答えても正解になる問題（社会の用語など）では、正解の読みをひらがなで示してください。
+・漢字の書き取りなど、漢字で書くこと自体が問われている問題では必ず null にしてください。
+
+【topic について】
+・その問題で問われている単元・問題の種類を、学年や問題番号を含まない短い名詞句で示してください。
+・同じ種類の問題には、毎回同じ表現を使ってください（例: 「くり上がりのあるたし算」と「繰り上がりのたし算」を混在させない）。
+・分からない場合は null にしてください。
+
+【boundingBox について】
+・その問題の生徒の解答が書かれている範囲を、画像全体の幅・高さを1とした割合（0〜1）で示してください。
+・x, y は範囲の左上、width, height は範囲の大きさです。位置が分からない場合は null にしてください。
+
 【SVG生成ルール】（必要な場合のみ）
 ・解説に図解（図形、グラフ、数直線など）があると分かりやすい場合は、シンプルなSVGコードを生成してください。
 ・複数の図が必要な場合は、1つのSVG内にレイアウト（左右や上下に配置）してまとめてください。
@@ -451,10 +1064,10 @@ ${getSubjectSpecificGuidance(subjectId)}
 ・色は #333 (黒), #e74c3c (赤/強調), #3498db (青/補助) などを使い分けてください。
 
 JSONのみを出力してください。「はい」「承知しました」などの前置きは不要です。`;
-    } else {
-      // 英語プロンプト
-      simplePrompt = `You are a helpful tutor for students. The image shows a student's answer(s).
-${getSubjectSpecificGuidance(subjectId)}
+  } else {
+    // 英語プロンプト
+    simplePrompt = `You are a helpful tutor for students. The image shows a student's answer(s).
+${getSubjectSpecificGuidance(subjectId)}${getRegisteredKeyGuidance()}
 
 Please analyze this image by following these steps:
 1. Identify ALL answered problems in the image (do not stop at just one).
@@ -472,10 +1085,21 @@ Please analyze this image by following these steps:
     "correctAnswer": "Correct Answer",
     "feedback": "Specific, encouraging feedback",
     "explanation": "Explanation",
-    "explanationSvg": "SVG code if helpful (optional, null if not needed)"
+    "explanationSvg": "SVG code if helpful (optional, null if not needed)",
+    "boundingBox": { "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.1 },
+    "topic": "Unit / problem type (e.g., 'Addition with carrying', 'Spelling')"
   }
 ]
 
+【topic】
+- The unit or type of problem being tested, as a short noun phrase without grade level or problem number.
+- Always use the same wording for the same type of problem.
+- Use null if you cannot tell.
+
+【boundingBox】
+- The area where the student's answer to that problem is written, as fractions (0-1) of the whole image width/height.
+- x, y are the top-left corner; width, height are the size. Use null if you cannot locate it.
+
 【SVG Rules】(Optional)
 - Generate simple SVG code if diagrams (shapes, graphs, etc.) help explain.
 - No xml tags. Just the SVG tag.
@@ -483,124 +1107,338 @@ Please analyze this image by following these steps:
 - Use colors like #333 (black), #e74c3c (red/emphasis), #3498db (blue/secondary).
 
 Output ONLY JSON. No introductory text.`;
-    }
+  }
 
-    // Extract mime type and clean base64
-    const cropMatch = croppedImageData.match(/^data:(image\/(png|jpeg));base64,(.+)$/)
-    const cropData = cropMatch ? cropMatch[3] : croppedImageData.replace(/^data:image\/\w+;base64,/, '')
-    const cropMime = cropMatch ? cropMatch[1] : 'image/jpeg'
+  return simplePrompt;
+}
 
-    const result = await currentModel.generateContent([
-      {
-        inlineData: {
-          mimeType: cropMime,
-          data: cropData
-        }
-      },
-      { text: simplePrompt }
-    ])
+// 登録済みの正解をもとにした解説（AIの解説が使えないとき用）
+function buildKeyExplanation(correctAnswer: string, studentAnswer: string, isCorrect: boolean, isJapanese: boolean): string {
+  if (isJapanese) {
+    if (isCorrect) return `この問題の正解は「${correctAnswer}」です。あなたの答え「${studentAnswer}」は正解と同じ意味なので正解です。`
+    return studentAnswer
+      ? `この問題の正解は「${correctAnswer}」です。あなたの答えは「${studentAnswer}」でした。どこがちがうか、問題文と見くらべて考えてみよう。`
+      : `この問題の正解は「${correctAnswer}」です。問題文をもう一度読んで、答えを書いてみよう。`
+  }
+  if (isCorrect) return `The correct answer is "${correctAnswer}". Your answer "${studentAnswer}" means the same thing, so it is correct.`
+  return studentAnswer
+    ? `The correct answer is "${correctAnswer}". You answered "${studentAnswer}". Compare it with the problem and find what is different.`
+    : `The correct answer is "${correctAnswer}". Read the problem again and try writing an answer.`
+}
 
-    const response = await result.response
-    const responseText = response.text()
+// AIの判定結果をサーバーサイドで検証・オーバーライド
+function finalizeProblem(problem: GradedProblem, registeredKeys: Map<string, RegisteredKey>, isJapanese: boolean): GradedProblem {
+  const { studentAnswer, correctAnswer, isCorrect } = problem
+  // AIが読み取った正解の読み（AIの正解と同じ答えのときだけ使える）
+  const aiReadings = problem.correctAnswerReading ? [problem.correctAnswerReading] : []
+
+  // 正解が登録されている問題は、登録済みの正解で判定する（AIの正解は使わない）
+  const registeredKey = registeredKeys.get(normalizeProblemNumber(problem.problemNumber))
+  if (registeredKey) {
+    // AIが想定した正解が登録済みの正解と異なる場合、AIの解説は当てにならない
+    const aiAgreesWithKey = checkAnswerEquivalence(correctAnswer, registeredKey.correctAnswer).isEquivalent
+    const equivalence = checkAnswerEquivalence(studentAnswer, registeredKey.correctAnswer, {
+      correctReadings: aiAgreesWithKey ? aiReadings : []
+    })
+    const isCorrectByKey = equivalence.isEquivalent
+    console.log(`[AnswerKey] Problem ${problem.problemNumber}: "${studentAnswer}" vs "${registeredKey.correctAnswer}" => ${isCorrectByKey} (rule: ${equivalence.rule})`)
+    return {
+      ...problem,
+      // AIの解説は別の答えについてのものなので、登録済みの正解をもとにした短い解説に差し替える
+      ...(!aiAgreesWithKey && {
+        explanation: buildKeyExplanation(registeredKey.correctAnswer, studentAnswer, isCorrectByKey, isJapanese),
+        explanationSvg: null
+      }),
+      isCorrect: isCorrectByKey,
+      correctAnswer: registeredKey.correctAnswer,
+      // AIの判定と食い違う場合、AIのフィードバックは誤解を招くので差し替える
+      feedback: isCorrectByKey === !!isCorrect
+        ? problem.feedback
+        : (isCorrectByKey
+          ? (isJapanese ? '正解です！' : 'Correct!')
+          : (isJapanese ? `正解は「${registeredKey.correctAnswer}」です。もう一度見直してみよう。` : `The correct answer is "${registeredKey.correctAnswer}". Let's review it again.`)),
+      gradingSource: 'db',
+      dbMatchedAnswer: {
+        problemNumber: registeredKey.problemNumber,
+        problemPageNumber: registeredKey.pageNumber,
+        correctAnswer: registeredKey.correctAnswer,
+        matchedRule: equivalence.rule
+      }
+    }
+  }
 
-    if (!responseText) {
-      throw new Error('Empty response from Gemini')
+  // もしAIが不正解と判定していても、同値判定ルールで一致すれば正解に強制変更（どのルールで一致したかを記録）
+  if (!isCorrect && studentAnswer && correctAnswer) {
+    const equivalence = checkAnswerEquivalence(studentAnswer, correctAnswer, { correctReadings: aiReadings })
+    if (equivalence.isEquivalent) {
+      console.log(`[Override] AI judged incorrect, but rule "${equivalence.rule}" matched. Force CORRECT. Answer: "${studentAnswer}"`)
+      return { ...problem, isCorrect: true, gradingSource: `server-override:${equivalence.rule}` }
     }
+  }
+  return problem
+}
 
-    // JSONを抽出（マークダウンコードブロック除去 + JSON部分を探す）
-    // 開始タグ (```json など) と終了タグ(```) の両方を削除
-    let jsonStr = responseText.replace(/```\w *\s * /g, '').replace(/```/g, '').trim()
+// 採点の受領証（SNSの時間を貯めるときに /api/sns-ledger/earn で確かめる。問題数と正解数はサーバーが数えたもの）
+// 採点を頼んだ本人（X-Entitlement-Token の uid）にだけ出し、その本人しか使えない
+// 採点待ち（オフライン）から送った結果でも使えるように、期限は長めにしておく
+const GRADING_RECEIPT_TTL_MS = 7 * DAY_MS
+
+interface GradingReceiptPayload {
+  purpose: 'grading-receipt'
+  uid: string
+  gradingId: string
+  problemCount: number
+  correctCount: number
+  expiresAt: number
+}
 
-    // JSON部分を抽出（オブジェクト {} または 配列 [] を検出）
-    const firstBrace = jsonStr.indexOf('{')
-    const firstBracket = jsonStr.indexOf('[')
-
-    let jsonStart: number
-    let jsonEnd: number
-
-    if (firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace)) {
-      // 配列が先に見つかった場合
-      jsonStart = firstBracket
-      jsonEnd = jsonStr.lastIndexOf(']')
-    } else if (firstBrace !== -1) {
-      // オブジェクトが先に見つかった場合
-      jsonStart = firstBrace
-      jsonEnd = jsonStr.lastIndexOf('}')
-    } else {
-      jsonStart = -1
-      jsonEnd = -1
+// ログインしていない（権利トークンがない・期限切れ）ときと、1問も採点できなかったときは受領証を出さない
+function issueGradingReceipt(req: express.Request, problems: GradedProblem[]): string | undefined {
+  const uid = verifyEntitlementToken(req.headers['x-entitlement-token'])?.uid
+  if (!uid || problems.length === 0) return undefined
+  return signPayload({
+    purpose: 'grading-receipt',
+    uid,
+    gradingId: crypto.randomUUID(),
+    problemCount: problems.length,
+    correctCount: problems.filter(problem => problem.isCorrect).length,
+    expiresAt: Date.now() + GRADING_RECEIPT_TTL_MS
+  } as GradingReceiptPayload)
+}
+
+// 採点結果のスキーマ違反時の再試行回数（初回を含む）と、最後の試行で使うフォールバックモデル
+const MAX_GRADING_ATTEMPTS = Math.max(1, parseInt(process.env.MAX_GRADING_ATTEMPTS || '3', 10) || 3)
+const GRADING_FALLBACK_MODEL = process.env.GRADING_FALLBACK_MODEL || ''
+
+// モデルの呼び出し自体が失敗した（出力の形式の問題ではない）
+class GradingProviderError extends Error { }
+
+// モデルを呼び出し、スキーマどおりの採点結果が得られるまで 修復 → 再試行 を行う
+async function generateGradingWithRetry(modelName: string, prompt: string, imageData: string, isJapanese: boolean) {
+  let lastErrors: string[] = []
+  let lastFailedInProvider = false
+
+  for (let attempt = 1; attempt <= MAX_GRADING_ATTEMPTS; attempt++) {
+    const useFallback = attempt > 1 && attempt === MAX_GRADING_ATTEMPTS && !!GRADING_FALLBACK_MODEL
+    const attemptModel = useFallback ? GRADING_FALLBACK_MODEL : modelName
+
+    // 2回目以降は、前回の出力のどこが問題だったかを伝えて出し直してもらう
+    const attemptPrompt = attempt === 1 ? prompt : prompt + (isJapanese
+      ? `\n\n【前回の出力は形式が正しくありませんでした】\n${lastErrors.slice(0, 5).join('\n')}\n指定されたJSON配列の形式だけを、すべての項目をそろえて出力してください。`
+      : `\n\n【Your previous output was invalid】\n${lastErrors.slice(0, 5).join('\n')}\nOutput ONLY the JSON array in the specified format with all fields.`)
+
+    let responseText = ''
+    try {
+      responseText = await providers.generate(attemptModel, {
+        task: 'grade',
+        prompt: attemptPrompt,
+        images: [toProviderImage(imageData)]
+      })
+    } catch (error) {
+      console.error(`[Grading] Attempt ${attempt} failed (${attemptModel}):`, error)
+      lastErrors = [error instanceof Error ? error.message : String(error)]
+      lastFailedInProvider = true
+      continue
     }
+    lastFailedInProvider = false
 
-    if (jsonStart !== -1 && jsonEnd > jsonStart) {
-      jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1)
+    const parsed = parseGradingOutput(responseText)
+    if (parsed.ok) {
+      return { problems: parsed.problems, attempts: attempt, repaired: false, modelName: attemptModel }
     }
 
-    let gradingData
-    try {
-      gradingData = JSON.parse(jsonStr)
-    } catch (e) {
-      console.error("JSON Parse Error:", e)
-      console.log("Raw Response:", responseText)
-      throw new Error("Failed to parse AI response")
+    const repaired = repairGradingOutput(responseText)
+    if (repaired.ok) {
+      console.warn(`[Grading] Attempt ${attempt}: output repaired (${parsed.errors.slice(0, 3).join('; ')})`)
+      return { problems: repaired.problems, attempts: attempt, repaired: true, modelName: attemptModel }
     }
 
-    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+    console.warn(`[Grading] Attempt ${attempt}: invalid output (${attemptModel}):`, repaired.errors.slice(0, 5))
+    console.log('Raw Response:', responseText)
+    lastErrors = repaired.errors
+  }
 
-    // Normalize gradingData to always be an array of problems
-    let problems: any[] = []
-    if (Array.isArray(gradingData)) {
-      // AI returned an array of problems
-      problems = gradingData.map((p: any) => ({ ...p, gradingSource: 'ai-simple' }))
-    } else if (gradingData.problemNumber !== undefined) {
-      // AI returned a single problem object
-      problems = [{ ...gradingData, gradingSource: 'ai-simple' }]
-    } else {
-      // AI returned an object with numeric keys (e.g., {"0": {...}, "1": {...}})
-      const numericKeys = Object.keys(gradingData).filter(k => /^\d+$/.test(k))
-      if (numericKeys.length > 0) {
-        problems = numericKeys.map(k => ({ ...gradingData[k], gradingSource: 'ai-simple' }))
-      } else {
-        // Fallback: treat as single problem
-        problems = [{ ...gradingData, gradingSource: 'ai-simple' }]
-      }
+  if (lastFailedInProvider) {
+    throw new GradingProviderError(`AI provider failed after ${MAX_GRADING_ATTEMPTS} attempts: ${lastErrors.slice(0, 3).join('; ')}`)
+  }
+  throw new Error(`Failed to parse AI response after ${MAX_GRADING_ATTEMPTS} attempts: ${lastErrors.slice(0, 3).join('; ')}`)
+}
+
+// 簡素化された採点API（切り抜き画像のみ）
+app.post('/api/grade-work', async (req, res) => {
+  try {
+    const { croppedImageData, model: requestModel, language, subjectId, answerKeys } = req.body
+
+    if (!croppedImageData) {
+      return res.status(400).json({ error: 'croppedImageData is required' })
     }
 
+    const startTime = Date.now()
+    // 登録済みの正解（問題番号で引けるようにMap化）
+    const registeredKeys = buildRegisteredKeys(answerKeys)
+
+    console.log(`Grading work (subject: ${subjectId || 'default'}, registered answers: ${registeredKeys.size})...`)
+
+    // Use requested model or default
+    const currentModelName = requestModel || MODEL_NAME
+
+    // 言語設定の確認
+    const isJapanese = !language || language.startsWith('ja');
+
+    const simplePrompt = buildGradingPrompt(isJapanese, subjectId, registeredKeys)
+
+    const generation = await generateGradingWithRetry(currentModelName, simplePrompt, croppedImageData, isJapanese)
+
+    const elapsedTime = parseFloat(((Date.now() - startTime) / 1000).toFixed(2))
+
+    let problems: GradedProblem[] = generation.problems.map(p => ({ ...p, gradingSource: 'ai-simple' }))
+
     // AIの判定結果をサーバーサイドで検証・オーバーライド
-    problems = problems.map(problem => {
-      const { studentAnswer, correctAnswer, isCorrect } = problem
-
-      // もしAIが不正解と判定していても、文字列として一致していれば正解に強制変更
-      if (!isCorrect && studentAnswer && correctAnswer) {
-        if (validateAndOverrideGrading(studentAnswer, correctAnswer)) {
-          console.log(`[Override] AI judged incorrect, but server validation matched.Force CORRECT.Answer: "${studentAnswer}"`)
-          return { ...problem, isCorrect: true, gradingSource: 'server-override' }
-        }
-      }
-      return problem
-    })
+    problems = problems.map(problem => finalizeProblem(problem, registeredKeys, isJapanese))
+
+    const result: GradingResponseResult = {
+      problems,
+      overallComment: problems[0] && problems[0].feedback
+    }
 
     const responseData = {
       success: true,
-      modelName: currentModelName,
+      modelName: generation.modelName,
       responseTime: elapsedTime,
-      result: {
-        problems,
-        overallComment: gradingData.feedback || (problems[0] && problems[0].feedback)
-      }
+      attempts: generation.attempts,
+      repaired: generation.repaired,
+      result,
+      receipt: issueGradingReceipt(req, problems)
     }
 
-    console.log(`Grading complete.Problem: ${gradingData.problemNumber}, Correct: ${gradingData.isCorrect}`)
+    console.log(`Grading complete. Problems: ${problems.length}, Attempts: ${generation.attempts}${generation.repaired ? ' (repaired)' : ''}`)
     res.json(responseData)
 
   } catch (error) {
     console.error('Error in /api/grade-work:', error)
-    res.status(500).json({
+    res.status(error instanceof GradingProviderError ? 502 : 500).json({
       error: error instanceof Error ? error.message : 'Internal Server Error',
       details: String(error)
     })
   }
 })
 
+// 採点APIのストリーミング版（Server-Sent Events）
+// 1問書き終わるごとに "problem" イベントを送り、最後に /api/grade-work と同じ内容を "done" で送る
+// モデルの出力が途中で失敗したときは "reset" を送って通常の採点でやり直し、それも失敗したら "error" を送る
+app.post('/api/grade-work/stream', async (req, res) => {
+  const { croppedImageData, model: requestModel, language, subjectId, answerKeys } = req.body
+
+  if (!croppedImageData) {
+    return res.status(400).json({ error: 'croppedImageData is required' })
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  // クライアントが切断したら、それ以上モデルの出力を待たない
+  let clientClosed = false
+  res.on('close', () => { clientClosed = true })
+
+  try {
+    const startTime = Date.now()
+    const registeredKeys = buildRegisteredKeys(answerKeys)
+    const currentModelName = requestModel || MODEL_NAME
+    const isJapanese = !language || language.startsWith('ja');
+    const simplePrompt = buildGradingPrompt(isJapanese, subjectId, registeredKeys)
+
+    console.log(`Grading work with streaming (subject: ${subjectId || 'default'}, registered answers: ${registeredKeys.size})...`)
+
+    const problems: GradedProblem[] = []
+    const emitProblem = (problem: GradedProblem) => {
+      const finalized = finalizeProblem(problem, registeredKeys, isJapanese)
+      problems.push(finalized)
+      sendEvent('problem', { index: problems.length - 1, problem: finalized })
+    }
+
+    const parser = new StreamingGradingParser()
+    let modelName = currentModelName
+    let attempts = 1
+    let repaired = false
+
+    let streamError: unknown = null
+    try {
+      for await (const chunk of providers.generateStream(currentModelName, {
+        task: 'grade',
+        prompt: simplePrompt,
+        images: [toProviderImage(croppedImageData)]
+      })) {
+        if (clientClosed) break
+        parser.push(chunk).forEach(p => emitProblem({ ...p, gradingSource: 'ai-simple' }))
+      }
+    } catch (error) {
+      console.error('[Grading] Stream failed:', error)
+      streamError = error
+    }
+
+    if (clientClosed) {
+      console.log('Grading stream closed by client.')
+      return
+    }
+
+    if (streamError) {
+      // 途中で切れた出力は最後まで揃っている保証がないので使わない。送った分は取り消して、通常の採点でやり直す
+      if (problems.length > 0) {
+        sendEvent('reset', { reason: streamError instanceof Error ? streamError.message : String(streamError) })
+        problems.length = 0
+      }
+    } else {
+      // 受信した全体を検証する。1問ずつでは拾えなかった問題があれば補う
+      const parsed = parseGradingOutput(parser.receivedText)
+      const whole = parsed.ok ? parsed : repairGradingOutput(parser.receivedText)
+      whole.problems.slice(problems.length).forEach(p => emitProblem({ ...p, gradingSource: 'ai-simple' }))
+      // 全体としては形式が崩れていた（途中で切れた・別の形で包まれていた等）
+      repaired = !parsed.ok && problems.length > 0
+    }
+
+    // 1問も得られなかった場合（途中で失敗した場合も）は通常の採点（修復・再試行つき）にまかせる
+    if (problems.length === 0) {
+      const generation = await generateGradingWithRetry(currentModelName, simplePrompt, croppedImageData, isJapanese)
+      modelName = generation.modelName
+      attempts += generation.attempts
+      repaired = generation.repaired
+      generation.problems.forEach(p => emitProblem({ ...p, gradingSource: 'ai-simple' }))
+    }
+
+    const result: GradingResponseResult = {
+      problems,
+      overallComment: problems[0] && problems[0].feedback
+    }
+
+    sendEvent('done', {
+      success: true,
+      modelName,
+      responseTime: parseFloat(((Date.now() - startTime) / 1000).toFixed(2)),
+      attempts,
+      repaired,
+      result,
+      receipt: issueGradingReceipt(req, problems)
+    })
+
+    console.log(`Grading stream complete. Problems: ${problems.length}, Attempts: ${attempts}${repaired ? ' (repaired)' : ''}`)
+  } catch (error) {
+    console.error('Error in /api/grade-work/stream:', error)
+    // status は /api/grade-work が返すHTTPステータスと同じ（クライアントが再送するかの判断に使う）
+    sendEvent('error', {
+      error: error instanceof Error ? error.message : 'Internal Server Error',
+      status: error instanceof GradingProviderError ? 502 : 500
+    })
+  } finally {
+    res.end()
+  }
+})
+
 // ==========================================
 // Stripe Subscriptions
 // ==========================================
@@ -715,9 +1553,8 @@ app.post('/api/update-sns-time', authenticateUser, async (req, res) => {
       return res.status(500).json({ error: 'Firebase Admin not initialized' });
     }
 
-    // Check if the user is premium
-    const userDoc = await admin.firestore().collection('users').doc(user.uid).get();
-    if (!userDoc.exists || !userDoc.data()?.isPremium) {
+    // Check if the user is premium (subscription or promo code)
+    if (!(await getUserEntitlement(user.uid)).premium) {
       return res.status(403).json({ error: 'Forbidden: Only premium users can update SNS time' });
     }
 
@@ -733,6 +1570,75 @@ app.post('/api/update-sns-time', authenticateUser, async (req, res) => {
   }
 });
 
+// 権利トークンを発行する（アプリの起動時・ログイン時・オンラインに戻ったときに取り直す）
+app.get('/api/entitlement', authenticateUser, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const entitlement = await getUserEntitlement(user.uid);
+    res.json({ success: true, token: signEntitlement(entitlement), entitlement });
+  } catch (error: any) {
+    console.error('Error issuing entitlement:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// プロモコードを使う（promoCodes/{CODE}: premiumDays, maxRedemptions?, redemptionCount, expiresAt?（ミリ秒）, active?）
+// 同じアカウントで同じコードは1回だけ。期限はいまのプロモ期限のあとに足していく
+app.post('/api/redeem-promo-code', authenticateUser, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const code = typeof req.body?.code === 'string' ? req.body.code.trim().toUpperCase() : '';
+
+    if (!/^[A-Z0-9-]{4,32}$/.test(code)) {
+      return res.status(400).json({ success: false, error: 'invalid' });
+    }
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    const firestore = admin.firestore();
+    const codeRef = firestore.collection('promoCodes').doc(code);
+    const redemptionRef = codeRef.collection('redemptions').doc(user.uid);
+    const userRef = firestore.collection('users').doc(user.uid);
+
+    const failure = await firestore.runTransaction(async (transaction) => {
+      const now = Date.now();
+      const [codeSnap, redemptionSnap, userSnap] = await Promise.all([
+        transaction.get(codeRef),
+        transaction.get(redemptionRef),
+        transaction.get(userRef)
+      ]);
+      const promo = codeSnap.data();
+      const premiumDays = Number(promo?.premiumDays);
+
+      if (!promo || promo.active === false || !(premiumDays > 0)) return 'invalid';
+      if (typeof promo.expiresAt === 'number' && promo.expiresAt < now) return 'expired';
+      if (redemptionSnap.exists) return 'already-redeemed';
+      if (typeof promo.maxRedemptions === 'number' && (promo.redemptionCount || 0) >= promo.maxRedemptions) return 'used-up';
+
+      const currentUntil = userSnap.data()?.premiumUntil;
+      const premiumUntil = (typeof currentUntil === 'number' && currentUntil > now ? currentUntil : now) + premiumDays * DAY_MS;
+
+      transaction.set(userRef, { premiumUntil }, { merge: true });
+      transaction.set(redemptionRef, { redeemedAt: now, premiumUntil });
+      transaction.update(codeRef, { redemptionCount: admin.firestore.FieldValue.increment(1) });
+      return null;
+    });
+
+    if (failure) {
+      console.log(`🎟️ Promo code ${code} rejected for user ${user.uid}: ${failure}`);
+      return res.status(400).json({ success: false, error: failure });
+    }
+
+    console.log(`🎟️ Promo code ${code} redeemed by user ${user.uid}`);
+    const entitlement = await getUserEntitlement(user.uid);
+    res.json({ success: true, token: signEntitlement(entitlement), entitlement });
+  } catch (error: any) {
+    console.error('Error redeeming promo code:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 app.post('/api/create-portal-session', authenticateUser, async (req, res) => {
   try {
     const user = (req as any).user;
@@ -755,6 +1661,306 @@ app.post('/api/create-portal-session', authenticateUser, async (req, res) => {
   }
 });
 
+// ==========================================
+// SNS Reward Ledger
+// ==========================================
+// SNSの利用時間は「採点で貯めて、SNSを開いている間に使う」台帳で管理する（URLの time は信用しない）。
+// 採点APIが本人に出した受領証（採点ごとに1回だけ使える）がなければ貯まらない。1回に貯まる時間の上限はサーバーが決める。
+// users/{uid}/snsLedger に増減の記録を残し、残高は users/{uid}.snsBalanceMinutes にまとめる（どちらもサーバーだけが書く）。
+// SNSを開くときは使える分を先に引き（spend）、戻ってきたら使わなかった分を返す（refund）。
+// 開いている間の状態は users/{uid}/snsSessions に置くので、manage.html を読み込み直しても続きから数える。
+// manage.html はログインできないので、アプリが発行したチケット（SNSの開始・終了・残高の確認だけに使える）で呼ぶ。
+
+const SNS_TICKET_TTL_MS = 6 * 60 * 60 * 1000
+const SNS_FREE_EARN_MINUTES = 60 // 無料プランで1回の採点で貯まる時間
+const SNS_PREMIUM_EARN_MAX_MINUTES = 120 // プレミアムで設定できる上限（管理画面と同じ）
+const SNS_MAX_BALANCE_MINUTES = 240 // 貯めすぎないように残高の上限を決めておく
+
+interface SNSTicketPayload {
+  purpose: 'sns-ticket'
+  uid: string
+  expiresAt: number
+}
+
+type SNSLedgerEventType = 'earn' | 'spend' | 'refund'
+
+interface SNSSession {
+  snsId: string
+  snsName: string
+  startedAt: number
+  allowedMinutes: number
+  status: 'active' | 'ended'
+  endedAt?: number
+  usedMinutes?: number
+}
+
+// ログイン（Bearer）か、manage.html 用のチケット（X-SNS-Ticket）で本人を確かめる
+const authenticateSNSLedger = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const ticket = verifySignedPayload<SNSTicketPayload>(req.headers['x-sns-ticket']);
+  if (ticket?.purpose === 'sns-ticket' && ticket.uid) {
+    (req as any).user = { uid: ticket.uid };
+    return next();
+  }
+  return authenticateUser(req, res, next);
+};
+
+const snsUserRef = (uid: string) => admin.firestore().collection('users').doc(uid);
+
+const readBalance = (data: FirebaseFirestore.DocumentData | undefined): number =>
+  typeof data?.snsBalanceMinutes === 'number' && data.snsBalanceMinutes > 0 ? data.snsBalanceMinutes : 0;
+
+// 1回の採点で貯められる時間（無料は固定、プレミアムは保護者が決めた snsRewardMinutes）
+async function getEarnCapMinutes(uid: string): Promise<number> {
+  const [entitlement, userSnap] = await Promise.all([getUserEntitlement(uid), snsUserRef(uid).get()]);
+  if (!entitlement.premium) return SNS_FREE_EARN_MINUTES;
+  const minutes = Number(userSnap.data()?.snsRewardMinutes) || SNS_FREE_EARN_MINUTES;
+  return Math.min(Math.max(Math.round(minutes), 1), SNS_PREMIUM_EARN_MAX_MINUTES);
+}
+
+// 時間切れになったセッション（戻ってこなかったもの）を終わりにする。使った時間は開始時に引いてあるので返金はしない
+function expireSession(session: SNSSession, now: number): SNSSession | null {
+  if (session.status !== 'active') return null;
+  const endsAt = session.startedAt + session.allowedMinutes * 60 * 1000;
+  if (endsAt > now) return null;
+  return { ...session, status: 'ended', endedAt: endsAt, usedMinutes: session.allowedMinutes };
+}
+
+type ActiveSession = { id: string; session: SNSSession }
+
+// 開いているセッションを探す（時間切れのものは終わりにする）。transaction を渡すとその中で読み書きする
+async function findActiveSession(uid: string, transaction?: FirebaseFirestore.Transaction): Promise<ActiveSession | null> {
+  const query = snsUserRef(uid).collection('snsSessions').where('status', '==', 'active');
+  const snapshot = transaction ? await transaction.get(query) : await query.get();
+  const now = Date.now();
+  const expired: { ref: FirebaseFirestore.DocumentReference; session: SNSSession }[] = [];
+  let active: ActiveSession | null = null;
+  for (const doc of snapshot.docs) {
+    const session = doc.data() as SNSSession;
+    const ended = expireSession(session, now);
+    if (ended) {
+      expired.push({ ref: doc.ref, session: ended });
+    } else if (!active || session.startedAt > active.session.startedAt) {
+      active = { id: doc.id, session };
+    }
+  }
+  for (const { ref, session } of expired) {
+    if (transaction) {
+      transaction.set(ref, session);
+    } else {
+      await ref.set(session);
+    }
+  }
+  return active;
+}
+
+const toSessionResponse = (id: string, session: SNSSession) => ({
+  sessionId: id,
+  snsId: session.snsId,
+  snsName: session.snsName,
+  startedAt: session.startedAt,
+  allowedMinutes: session.allowedMinutes,
+  endsAt: session.startedAt + session.allowedMinutes * 60 * 1000
+});
+
+// 採点の結果で時間を貯める（受領証の gradingId ごとに1回だけ。同じ採点を送り直しても増えない）
+// 貯まる時間は minutes（ごほうびのルールで決めた時間）を、プランの1回分（getEarnCapMinutes）までに切り詰めたもの
+app.post('/api/sns-ledger/earn', authenticateUser, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { receipt, minutes } = req.body || {};
+
+    const grading = verifySignedPayload<GradingReceiptPayload>(receipt);
+    if (grading?.purpose !== 'grading-receipt' || typeof grading.gradingId !== 'string') {
+      return res.status(400).json({ success: false, error: 'Invalid grading receipt' });
+    }
+    // 他の人の採点の受領証は使えない
+    if (grading.uid !== user.uid) {
+      return res.status(403).json({ success: false, error: 'Grading receipt belongs to another user' });
+    }
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+      return res.status(400).json({ success: false, error: 'Invalid minutes' });
+    }
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    const { gradingId, problemCount, correctCount } = grading;
+    const requested = Math.min(Math.round(minutes), await getEarnCapMinutes(user.uid));
+    const userRef = snsUserRef(user.uid);
+    const eventRef = userRef.collection('snsLedger').doc(`earn_${gradingId}`);
+
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const [eventSnap, userSnap] = await Promise.all([transaction.get(eventRef), transaction.get(userRef)]);
+      const balance = readBalance(userSnap.data());
+      if (eventSnap.exists) {
+        return { balanceMinutes: balance, earnedMinutes: 0 };
+      }
+
+      const earned = Math.max(0, Math.min(requested, SNS_MAX_BALANCE_MINUTES - balance));
+      const now = Date.now();
+      transaction.set(eventRef, {
+        type: 'earn' as SNSLedgerEventType,
+        minutes: earned,
+        requestedMinutes: requested,
+        gradingId,
+        problemCount,
+        correctCount,
+        createdAt: now
+      });
+      transaction.set(userRef, { snsBalanceMinutes: balance + earned }, { merge: true });
+      return { balanceMinutes: balance + earned, earnedMinutes: earned };
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Error earning SNS minutes:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// manage.html に渡すチケットを発行する
+app.post('/api/sns-ledger/ticket', authenticateUser, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    const active = await findActiveSession(user.uid);
+    const balanceMinutes = readBalance((await snsUserRef(user.uid).get()).data());
+    const ticket = signPayload({ purpose: 'sns-ticket', uid: user.uid, expiresAt: Date.now() + SNS_TICKET_TTL_MS } as SNSTicketPayload);
+    res.json({ success: true, ticket, balanceMinutes, activeSession: active ? toSessionResponse(active.id, active.session) : null });
+  } catch (error: any) {
+    console.error('Error issuing SNS ticket:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// 残高と、開いているセッション
+app.get('/api/sns-ledger/balance', authenticateSNSLedger, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    const active = await findActiveSession(user.uid);
+    const balanceMinutes = readBalance((await snsUserRef(user.uid).get()).data());
+    res.json({ success: true, balanceMinutes, activeSession: active ? toSessionResponse(active.id, active.session) : null });
+  } catch (error: any) {
+    console.error('Error reading SNS balance:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// SNSを開く。開いているセッションがあればそれを返し（読み込み直し）、なければ残高を使って始める
+// maxMinutes があればそこまでしか使わない（SNSごとの上限・使える時間帯の終わり・1日の上限。端末の設定から manage.html が決める）
+app.post('/api/sns-ledger/start', authenticateSNSLedger, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const snsId = typeof req.body?.snsId === 'string' ? req.body.snsId.slice(0, 100) : '';
+    const snsName = typeof req.body?.snsName === 'string' ? req.body.snsName.slice(0, 100) : snsId;
+    const maxMinutes = Number.isInteger(req.body?.maxMinutes) && req.body.maxMinutes > 0 ? req.body.maxMinutes as number : null;
+
+    if (!snsId) {
+      return res.status(400).json({ success: false, error: 'Invalid snsId' });
+    }
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    // 開いているセッションを探すのも同じトランザクションの中で行う（2つのタブから同時に始めても二重に引かない）
+    const userRef = snsUserRef(user.uid);
+    const sessionRef = userRef.collection('snsSessions').doc();
+    const started = await admin.firestore().runTransaction(async (transaction) => {
+      // トランザクションでは読み取りを書き込みより先にする（findActiveSession は時間切れのセッションを書き換える）
+      const balance = readBalance((await transaction.get(userRef)).data());
+      const active = await findActiveSession(user.uid, transaction);
+      if (active) return { resumed: true, id: active.id, session: active.session, balanceMinutes: balance };
+      if (balance <= 0) return null;
+
+      const now = Date.now();
+      const allowedMinutes = maxMinutes ? Math.min(balance, maxMinutes) : balance;
+      const session: SNSSession = { snsId, snsName, startedAt: now, allowedMinutes, status: 'active' };
+      transaction.set(sessionRef, session);
+      transaction.set(userRef.collection('snsLedger').doc(`spend_${sessionRef.id}`), {
+        type: 'spend' as SNSLedgerEventType,
+        minutes: allowedMinutes,
+        sessionId: sessionRef.id,
+        snsId,
+        snsName,
+        createdAt: now
+      });
+      transaction.set(userRef, { snsBalanceMinutes: balance - allowedMinutes }, { merge: true });
+      return { resumed: false, id: sessionRef.id, session, balanceMinutes: balance - allowedMinutes };
+    });
+
+    if (!started) {
+      return res.status(403).json({ success: false, error: 'no-balance', balanceMinutes: 0 });
+    }
+    if (!started.resumed) {
+      console.log(`📱 SNS session started for user ${user.uid}: ${snsName} (${started.session.allowedMinutes} min)`);
+    }
+    res.json({ success: true, resumed: started.resumed, balanceMinutes: started.balanceMinutes, session: toSessionResponse(started.id, started.session) });
+  } catch (error: any) {
+    console.error('Error starting SNS session:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// SNSから戻ってきた。使った時間（1分単位で切り上げ）を除いて残高に返す
+app.post('/api/sns-ledger/stop', authenticateSNSLedger, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const sessionId = typeof req.body?.sessionId === 'string' ? req.body.sessionId : '';
+
+    if (!/^[\w-]{1,100}$/.test(sessionId)) {
+      return res.status(400).json({ success: false, error: 'Invalid sessionId' });
+    }
+    if (!admin.apps.length) {
+      return res.status(500).json({ success: false, error: 'Firebase Admin not initialized' });
+    }
+
+    const userRef = snsUserRef(user.uid);
+    const sessionRef = userRef.collection('snsSessions').doc(sessionId);
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const [sessionSnap, userSnap] = await Promise.all([transaction.get(sessionRef), transaction.get(userRef)]);
+      const session = sessionSnap.data() as SNSSession | undefined;
+      const balance = readBalance(userSnap.data());
+      if (!session) return null;
+      if (session.status !== 'active') {
+        return { balanceMinutes: balance, usedMinutes: session.usedMinutes ?? session.allowedMinutes, refundedMinutes: 0 };
+      }
+
+      const now = Date.now();
+      const usedMinutes = Math.min(Math.ceil((now - session.startedAt) / 60000), session.allowedMinutes);
+      const refundedMinutes = session.allowedMinutes - usedMinutes;
+      transaction.set(sessionRef, { ...session, status: 'ended', endedAt: now, usedMinutes });
+      if (refundedMinutes > 0) {
+        transaction.set(userRef.collection('snsLedger').doc(`refund_${sessionId}`), {
+          type: 'refund' as SNSLedgerEventType,
+          minutes: refundedMinutes,
+          sessionId,
+          snsId: session.snsId,
+          snsName: session.snsName,
+          createdAt: now
+        });
+        transaction.set(userRef, { snsBalanceMinutes: Math.min(balance + refundedMinutes, SNS_MAX_BALANCE_MINUTES) }, { merge: true });
+      }
+      return { balanceMinutes: Math.min(balance + refundedMinutes, SNS_MAX_BALANCE_MINUTES), usedMinutes, refundedMinutes };
+    });
+
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    console.log(`📱 SNS session ${sessionId} stopped for user ${user.uid}: used ${result.usedMinutes} min`);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Error stopping SNS session:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 app.listen(port, () => {
   console.log(`Server running at http://localhost:${port}`)
 })
@@ -0,0 +1,43 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FixtureProvider } from './providers'
+
+describe('FixtureProvider', () => {
+  let rootDir: string
+  let fixtureDir: string
+
+  beforeAll(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixture-provider-'))
+    fixtureDir = path.join(rootDir, 'fixtures')
+    fs.mkdirSync(fixtureDir)
+    fs.writeFileSync(path.join(fixtureDir, 'grade.wrong-answer.json'), '[{"problemNumber":"1"}]')
+    // フィクスチャのディレクトリの外にあるファイル
+    fs.writeFileSync(path.join(rootDir, 'grade.secret.json'), '{"secret":true}')
+  })
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  const request = { task: 'grade' as const, prompt: '' }
+
+  it('モデルIDに対応するフィクスチャを返す', async () => {
+    const provider = new FixtureProvider(fixtureDir)
+    await expect(provider.generate('wrong-answer', request)).resolves.toBe('[{"problemNumber":"1"}]')
+  })
+
+  it('フィクスチャがなければ組み込みの応答を返す', async () => {
+    const provider = new FixtureProvider(fixtureDir)
+    const text = await provider.generate('default', request)
+    expect(JSON.parse(text)[0].explanation).toBe('fixture provider response')
+  })
+
+  it('ディレクトリの外を指すモデルIDは受け付けない', async () => {
+    const provider = new FixtureProvider(fixtureDir)
+    await expect(provider.generate('../grade.secret', request)).rejects.toThrow('Invalid fixture id')
+    await expect(provider.generate('x/../../grade.secret', request)).rejects.toThrow('Invalid fixture id')
+    await expect(provider.generate('secret.json', request)).rejects.toThrow('Invalid fixture id')
+  })
+})
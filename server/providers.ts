@@ -0,0 +1,327 @@
+import fs from 'fs'
+import path from 'path'
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai'
+
+// ==========================================
+// Grading Providers
+// ==========================================
+//
+// 採点・教科判定・解答読み取りで使うLLMの呼び出しを抽象化する。
+// リクエストの `model` フィールド（/api/models の id）からプロバイダーを選ぶ。
+//   - "gemini-2.5-flash" など        -> Gemini
+//   - "openai:gpt-4o" など           -> OpenAI互換API（OPENAI_BASE_URL）
+//   - "fixture" / "fixture:xxx"      -> ローカルの固定レスポンス（CI・オフライン用）
+
+// どのエンドポイントからの呼び出しか（fixtureプロバイダーが返す内容を決めるのに使う）
+export type GenerationTask = 'grade' | 'detect-subject' | 'extract-answer-keys' | 'similar-problems' | 'tutor-chat' | 'hint'
+
+export interface ProviderImage {
+  mimeType: string
+  data: string  // base64（data URLのプレフィックスなし）
+}
+
+export interface GenerateRequest {
+  task: GenerationTask
+  prompt: string
+  images?: ProviderImage[]
+}
+
+export interface GradingProvider {
+  id: string
+  // modelId はプロバイダー側のモデル名（"openai:" などのプレフィックスは除いたもの）
+  generate(modelId: string, request: GenerateRequest): Promise<string>
+  // 生成されたテキストを少しずつ返す（未対応のプロバイダーは generate の結果をまとめて返す）
+  generateStream?(modelId: string, request: GenerateRequest): AsyncIterable<string>
+}
+
+export interface ProviderModelInfo {
+  id: string
+  name: string
+  description?: string
+  provider: string
+}
+
+// Gemini
+export class GeminiProvider implements GradingProvider {
+  id = 'gemini'
+  private client: GoogleGenerativeAI
+  private models = new Map<string, GenerativeModel>()
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  private getModel(modelId: string): GenerativeModel {
+    let model = this.models.get(modelId)
+    if (!model) {
+      model = this.client.getGenerativeModel({ model: modelId })
+      this.models.set(modelId, model)
+    }
+    return model
+  }
+
+  private toParts(request: GenerateRequest) {
+    return [
+      ...(request.images || []).map(image => ({
+        inlineData: {
+          mimeType: image.mimeType,
+          data: image.data
+        }
+      })),
+      { text: request.prompt }
+    ]
+  }
+
+  async generate(modelId: string, request: GenerateRequest): Promise<string> {
+    const result = await this.getModel(modelId).generateContent(this.toParts(request))
+    const response = await result.response
+    return response.text()
+  }
+
+  async *generateStream(modelId: string, request: GenerateRequest): AsyncIterable<string> {
+    const result = await this.getModel(modelId).generateContentStream(this.toParts(request))
+    for await (const chunk of result.stream) {
+      const text = chunk.text()
+      if (text) yield text
+    }
+  }
+}
+
+// OpenAI互換のChat Completions API（OpenAI、Azure OpenAI、ローカルLLMサーバーなど）
+export class OpenAICompatibleProvider implements GradingProvider {
+  id = 'openai'
+
+  constructor(private baseUrl: string, private apiKey: string) { }
+
+  private requestCompletion(modelId: string, request: GenerateRequest, stream: boolean) {
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: modelId,
+        stream,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              ...(request.images || []).map(image => ({
+                type: 'image_url',
+                image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+              }))
+            ]
+          }
+        ]
+      })
+    })
+  }
+
+  private async assertOk(response: Response) {
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${body.slice(0, 200)}`)
+    }
+  }
+
+  async generate(modelId: string, request: GenerateRequest): Promise<string> {
+    const response = await this.requestCompletion(modelId, request, false)
+    await this.assertOk(response)
+
+    const data: any = await response.json()
+    return data?.choices?.[0]?.message?.content || ''
+  }
+
+  // Server-Sent Events 形式（"data: {...}" の行）を読んで差分テキストを返す
+  async *generateStream(modelId: string, request: GenerateRequest): AsyncIterable<string> {
+    const response = await this.requestCompletion(modelId, request, true)
+    await this.assertOk(response)
+    if (!response.body) return
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith('data:')) continue
+        const payload = trimmed.slice('data:'.length).trim()
+        if (payload === '[DONE]') return
+        try {
+          const text = JSON.parse(payload)?.choices?.[0]?.delta?.content
+          if (text) yield text
+        } catch {
+          // 不完全な行は無視
+        }
+      }
+    }
+  }
+}
+
+// 固定レスポンス（ネットワークなしで動かすため）
+// FIXTURE_DIR に "<task>.json"（fixture:xxx の場合は "<task>.xxx.json"）があればその内容を返す
+export class FixtureProvider implements GradingProvider {
+  id = 'fixture'
+
+  constructor(private fixtureDir?: string) { }
+
+  private static readonly DEFAULT_RESPONSES: Record<GenerationTask, unknown> = {
+    'grade': [
+      {
+        problemNumber: '1',
+        studentAnswer: '12',
+        isCorrect: true,
+        correctAnswer: '12',
+        feedback: 'よくできました！',
+        explanation: 'fixture provider response',
+        explanationSvg: null,
+        boundingBox: { x: 0.1, y: 0.1, width: 0.5, height: 0.3 }
+      }
+    ],
+    'detect-subject': {
+      subjectId: 'math',
+      confidence: 1,
+      reasoning: 'fixture provider response'
+    },
+    'extract-answer-keys': [
+      { page: 1, problemNumber: '1', correctAnswer: '12' }
+    ],
+    'similar-problems': [
+      { question: '8 + 5 =', answer: '13' },
+      { question: '7 + 6 =', answer: '13' },
+      { question: '9 + 4 =', answer: '13' }
+    ],
+    'tutor-chat': {
+      reply: 'どこまで考えたか教えてくれる？まず一の位だけ計算してみよう。'
+    },
+    'hint': {
+      problemNumber: '1',
+      problemText: '8 + 5 =',
+      topic: 'くり上がりのあるたし算',
+      answer: '13',
+      hints: [
+        '一の位どうしをたすと、10より大きくなるかな？',
+        '8 はあといくつで 10 になるか考えて、5 をわけてみよう。',
+        '8 + 2 = 10 だから、5 を 2 と 3 にわけるよ。'
+      ]
+    }
+  }
+
+  async generate(modelId: string, request: GenerateRequest): Promise<string> {
+    // モデルIDはクライアントが送ってくる（fixture:<id>）ので、ファイル名に使える文字だけを受け付ける
+    if (modelId && !/^[\w-]+$/.test(modelId)) {
+      throw new Error(`Invalid fixture id: ${modelId}`)
+    }
+    if (this.fixtureDir) {
+      const variant = modelId && modelId !== 'default' ? `.${modelId}` : ''
+      const fixtureDir = path.resolve(this.fixtureDir)
+      const fixturePath = path.resolve(fixtureDir, `${request.task}${variant}.json`)
+      // 念のため、フィクスチャのディレクトリの外は読まない
+      if (path.dirname(fixturePath) !== fixtureDir) {
+        throw new Error(`Invalid fixture id: ${modelId}`)
+      }
+      if (fs.existsSync(fixturePath)) {
+        return fs.readFileSync(fixturePath, 'utf8')
+      }
+    }
+    return JSON.stringify(FixtureProvider.DEFAULT_RESPONSES[request.task])
+  }
+
+  // 本物のストリーミングに近づけるため、一定の長さごとに区切って返す
+  async *generateStream(modelId: string, request: GenerateRequest): AsyncIterable<string> {
+    const text = await this.generate(modelId, request)
+    for (let i = 0; i < text.length; i += 40) {
+      yield text.slice(i, i + 40)
+    }
+  }
+}
+
+export interface ProviderRegistryOptions {
+  geminiApiKey?: string
+  openaiBaseUrl?: string
+  openaiApiKey?: string
+  openaiModels?: string[]
+  enableFixture?: boolean
+  fixtureDir?: string
+}
+
+export interface ResolvedModel {
+  provider: GradingProvider
+  providerModelId: string
+}
+
+// モデルIDからプロバイダーを引けるようにまとめたもの
+export class ProviderRegistry {
+  private gemini: GeminiProvider
+  private openai: OpenAICompatibleProvider | null
+  private fixture: FixtureProvider | null
+  private openaiModels: string[]
+
+  constructor(options: ProviderRegistryOptions) {
+    this.gemini = new GeminiProvider(options.geminiApiKey || '')
+    this.openaiModels = options.openaiModels || []
+    this.openai = options.openaiBaseUrl && this.openaiModels.length > 0
+      ? new OpenAICompatibleProvider(options.openaiBaseUrl, options.openaiApiKey || '')
+      : null
+    this.fixture = options.enableFixture ? new FixtureProvider(options.fixtureDir) : null
+  }
+
+  resolve(modelId: string): ResolvedModel {
+    if (modelId === 'fixture' || modelId.startsWith('fixture:')) {
+      if (!this.fixture) throw new Error('Fixture provider is not enabled (set ENABLE_FIXTURE_PROVIDER=true)')
+      return { provider: this.fixture, providerModelId: modelId.slice('fixture:'.length) || 'default' }
+    }
+    if (modelId.startsWith('openai:')) {
+      if (!this.openai) throw new Error('OpenAI-compatible provider is not configured (set OPENAI_BASE_URL and OPENAI_MODELS)')
+      return { provider: this.openai, providerModelId: modelId.slice('openai:'.length) }
+    }
+    // プレフィックスなしはGemini（既存クライアントとの互換性のため）
+    return { provider: this.gemini, providerModelId: modelId }
+  }
+
+  generate(modelId: string, request: GenerateRequest): Promise<string> {
+    const { provider, providerModelId } = this.resolve(modelId)
+    return provider.generate(providerModelId, request)
+  }
+
+  async *generateStream(modelId: string, request: GenerateRequest): AsyncIterable<string> {
+    const { provider, providerModelId } = this.resolve(modelId)
+    if (provider.generateStream) {
+      yield* provider.generateStream(providerModelId, request)
+    } else {
+      yield await provider.generate(providerModelId, request)
+    }
+  }
+
+  // /api/models に追加で載せるモデル（Gemini以外）
+  listExtraModels(): ProviderModelInfo[] {
+    const models: ProviderModelInfo[] = []
+    if (this.openai) {
+      this.openaiModels.forEach(name => {
+        models.push({ id: `openai:${name}`, name: `${name} (OpenAI compatible)`, description: 'OpenAI互換APIのモデル', provider: 'openai' })
+      })
+    }
+    if (this.fixture) {
+      models.push({ id: 'fixture', name: 'Fixture (offline)', description: 'ネットワークを使わない固定レスポンス（開発・CI用）', provider: 'fixture' })
+    }
+    return models
+  }
+}
+
+// data URL を ProviderImage に変換
+export function toProviderImage(dataUrl: string): ProviderImage {
+  const match = dataUrl.match(/^data:(image\/(png|jpeg));base64,(.+)$/)
+  return {
+    mimeType: match ? match[1] : 'image/jpeg',
+    data: match ? match[3] : dataUrl.replace(/^data:image\/\w+;base64,/, '')
+  }
+}
@@ -5,6 +5,8 @@ import StudyPanel from './components/study/StudyPanel'
 import PDFEditorPanel from './components/admin/PDFEditorPanel'
 import { PDFFileRecord, getPDFRecord, getAppSettings, saveAppSettings } from './utils/indexedDB'
 import { useAppInitializer } from './hooks/useAppInitializer'
+import { startGradingOutboxSync } from './services/gradingOutbox'
+import { useProfile } from './contexts/ProfileContext'
 
 type AppView = 'admin' | 'viewer' | 'editor'
 
@@ -13,7 +15,9 @@ function App() {
   const [selectedPDF, setSelectedPDF] = useState<PDFFileRecord | null>(null)
 
   // Initialization Hook
-  const { isInitialized, initialView, initialPDF, settingsVersion } = useAppInitializer()
+  const { isInitialized, initialView, initialPDF } = useAppInitializer()
+  // プロフィールを切り替えたら管理画面を作り直して、そのプロフィールのドリル・設定を読み込む
+  const { profileVersion } = useProfile()
 
   // Sync initial state from hook
   useEffect(() => {
@@ -25,6 +29,12 @@ function App() {
     }
   }, [isInitialized, initialView, initialPDF])
 
+  // 採点待ち（オフライン時に採点できなかったもの）の再送を開始
+  useEffect(() => {
+    if (!isInitialized) return
+    return startGradingOutboxSync()
+  }, [isInitialized])
+
 
   // PWA update handling
   const {
@@ -90,7 +100,7 @@ function App() {
     <div className="app">
       {currentView === 'admin' ? (
         <AdminPanel
-          key={`admin-${settingsVersion}`}
+          key={`admin-${profileVersion}`}
           onSelectPDF={handleSelectPDF}
           onEditPDF={handleEditPDF}
           hasUpdate={needRefresh}
@@ -98,14 +108,14 @@ function App() {
         />
       ) : currentView === 'viewer' && selectedPDF ? (
         <StudyPanel
-          key={`study-${settingsVersion}-${selectedPDF.id}`}
+          key={`study-${selectedPDF.id}`}
           pdfRecord={selectedPDF}
           pdfId={selectedPDF.id}
           onBack={handleBackToAdmin}
         />
       ) : currentView === 'editor' && selectedPDF ? (
         <PDFEditorPanel
-          key={`editor-${settingsVersion}-${selectedPDF.id}`}
+          key={`editor-${selectedPDF.id}`}
           pdfRecord={selectedPDF}
           pdfId={selectedPDF.id}
           onBack={handleBackToAdmin}
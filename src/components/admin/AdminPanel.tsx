@@ -2,9 +2,16 @@ import { useState, useEffect } from 'react';
 import { PDFFileRecord, getAppSettings, saveAppSettings } from '../../utils/indexedDB';
 import { getPlatformInfo } from '../../utils/storageManager';
 import GradingHistory from './GradingHistory';
+import LearningAnalytics from './LearningAnalytics';
+import ReviewSession from '../study/ReviewSession';
+import { getDueReviewItems, subscribeReviewQueue } from '../../services/reviewQueue';
+import AnswerKeyEditor from './AnswerKeyEditor';
+import ExportPDFDialog from '../drill/ExportPDFDialog';
 import { usePDFRecords } from '../../hooks/admin/usePDFRecords';
 import { useSNSLinks } from '../../hooks/admin/useSNSLinks';
 import { useStorage } from '../../hooks/admin/useStorage';
+import { useBackup } from '../../hooks/admin/useBackup';
+import { useCloudSync } from '../../hooks/admin/useCloudSync';
 import AdSlot from '../ads/AdSlot';
 import './AdminPanel.css';
 import { PREDEFINED_SNS, getSNSIcon } from '../../constants/sns';
@@ -15,9 +22,12 @@ import About from '../legal/About';
 import Contact from '../legal/Contact';
 import { ParentSettings } from '../parent/ParentSettings';
 import { useAuth } from '../../contexts/AuthContext';
+import { useProfile } from '../../contexts/ProfileContext';
+import { useEntitlement } from '../../contexts/EntitlementContext';
+import ProfileSwitcher from './ProfileSwitcher';
 import { auth } from '../../lib/firebase';
 import { FaEarthAmericas } from 'react-icons/fa6';
-import { FaRegEdit } from 'react-icons/fa';
+import { FaRegEdit, FaClipboardCheck, FaFileExport } from 'react-icons/fa';
 import { IoIosFolderOpen, IoMdSettings } from 'react-icons/io';
 import { ImFilePdf } from 'react-icons/im';
 import { VscDatabase } from 'react-icons/vsc';
@@ -65,6 +75,20 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
     initializeStorage
   } = useStorage();
 
+  const {
+    isBackingUp,
+    isRestoring,
+    pendingArchive,
+    backupError,
+    exportBackup,
+    selectBackupFile,
+    cancelRestore,
+    confirmRestore
+  } = useBackup();
+
+  // 他の端末で増えた・変わったドリルは一覧を読み直す
+  const cloudSync = useCloudSync(loadPDFRecords);
+
   // Local UI state
   const [activeTab, setActiveTab] = useState<'drill' | 'admin'>('drill');
   const [deleteConfirm, setDeleteConfirm] = useState<{ id: string; fileName: string } | null>(null);
@@ -78,6 +102,11 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
   const [subjectLoading, setSubjectLoading] = useState(true);
 
   const [showGradingHistory, setShowGradingHistory] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [reviewDueCount, setReviewDueCount] = useState(0);
+  const [answerKeyRecord, setAnswerKeyRecord] = useState<PDFFileRecord | null>(null);
+  const [exportRecord, setExportRecord] = useState<PDFFileRecord | null>(null);
   const [showPrivacyPolicy, setShowPrivacyPolicy] = useState(false);
   const [showTermsOfService, setShowTermsOfService] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
@@ -91,7 +120,8 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
   const [notificationEnabled, setNotificationEnabled] = useState<boolean>(false); // 通知の有効/無効
 
   const { userData } = useAuth();
-  const isPremium = userData?.isPremium || false;
+  const { isPremium } = useEntitlement();
+  const { activeProfile, updateProfile } = useProfile();
 
   // Load data on mount
   useEffect(() => {
@@ -106,6 +136,17 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
     }
   }, []);
 
+  // 今日の復習の問題数（採点・復習のたびに数え直す）
+  useEffect(() => {
+    const loadReviewDueCount = () => {
+      getDueReviewItems()
+        .then(items => setReviewDueCount(items.length))
+        .catch(error => console.error('復習キューの読み込みに失敗:', error));
+    };
+    loadReviewDueCount();
+    return subscribeReviewQueue(loadReviewDueCount);
+  }, []);
+
   // Load subject list
   const loadSubjects = async () => {
     try {
@@ -147,16 +188,18 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
   };
 
   // Sync with Firestore user data
+  // プレミアムの場合はプロフィールごとの設定を優先する
   useEffect(() => {
     if (userData) {
-      const effectiveTime = userData.isPremium ? (userData.snsRewardMinutes || 60) : 60;
+      const effectiveTime = isPremium ? (activeProfile?.snsTimeLimitMinutes || userData.snsRewardMinutes || 60) : 60;
       setSnsTimeLimit(effectiveTime);
       setSnsTimeLimitInput(String(effectiveTime));
     }
-  }, [userData]);
+  }, [userData, activeProfile, isPremium]);
 
-  // ストレージをクリアする（確認なし、自動更新）
+  // ストレージをクリアする（消す前にバックアップを勧める）
   const clearAllStorage = async () => {
+    if (!confirm(t('storage.deleteConfirm'))) return;
     try {
       // IndexedDBを削除
       await new Promise<void>((resolve, reject) => {
@@ -210,12 +253,17 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
       }
 
       // 時間制限設定も保存
+      // SNSの時間帯（保護者設定で変える）はそのまま残す
       await saveAppSettings({
+        ...(await getAppSettings()),
         id: 'app-settings',
         snsTimeLimitMinutes: snsTimeLimit,
-        notificationEnabled: notificationEnabled,
-        isPremium: isPremium
+        notificationEnabled: notificationEnabled
       });
+      // SNS利用時間は子どもごとに設定する
+      if (activeProfile) {
+        await updateProfile({ ...activeProfile, snsTimeLimitMinutes: snsTimeLimit });
+      }
       setShowSNSSettings(false);
     } catch (error) {
       console.error('Failed to save SNS settings:', error);
@@ -896,6 +944,84 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
               </div>
             </div>
 
+            {/* バックアップと復元（Safariの自動削除・端末の買い替えに備える） */}
+            <div style={{
+              padding: '12px',
+              border: '1px solid #ecf0f1',
+              borderRadius: '6px',
+              marginBottom: '20px'
+            }}>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: '#2c3e50', marginBottom: '4px' }}>
+                {t('backup.title')}
+              </div>
+              <div style={{ fontSize: '12px', color: '#7f8c8d', lineHeight: '1.5', marginBottom: '12px' }}>
+                {t('backup.description')}
+              </div>
+
+              {pendingArchive ? (
+                <div>
+                  <div style={{ fontSize: '13px', color: '#2c3e50', marginBottom: '8px' }}>
+                    {t('backup.selectMode', { date: new Date(pendingArchive.exportedAt).toLocaleString() })}
+                  </div>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                    <button
+                      onClick={() => confirmRestore('merge')}
+                      disabled={isRestoring}
+                      style={{ padding: '8px 12px', backgroundColor: '#27ae60', color: 'white', border: 'none', borderRadius: '6px', fontSize: '13px', fontWeight: '600', cursor: 'pointer' }}
+                    >
+                      {t('backup.merge')}
+                    </button>
+                    <button
+                      onClick={() => confirmRestore('replace')}
+                      disabled={isRestoring}
+                      style={{ padding: '8px 12px', backgroundColor: '#e67e22', color: 'white', border: 'none', borderRadius: '6px', fontSize: '13px', fontWeight: '600', cursor: 'pointer' }}
+                    >
+                      {t('backup.replace')}
+                    </button>
+                    <button
+                      onClick={cancelRestore}
+                      disabled={isRestoring}
+                      style={{ padding: '8px 12px', backgroundColor: 'white', color: '#7f8c8d', border: '1px solid #ddd', borderRadius: '6px', fontSize: '13px', cursor: 'pointer' }}
+                    >
+                      {t('backup.cancel')}
+                    </button>
+                  </div>
+                  <div style={{ fontSize: '11px', color: '#95a5a6', marginTop: '8px', lineHeight: '1.5' }}>
+                    {t('backup.modeHelp')}
+                  </div>
+                </div>
+              ) : (
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button
+                    onClick={exportBackup}
+                    disabled={isBackingUp}
+                    style={{ flex: 1, padding: '8px 12px', backgroundColor: '#3498db', color: 'white', border: 'none', borderRadius: '6px', fontSize: '13px', fontWeight: '600', cursor: 'pointer' }}
+                  >
+                    {isBackingUp ? t('backup.exporting') : t('backup.export')}
+                  </button>
+                  <label style={{ flex: 1, padding: '8px 12px', backgroundColor: 'white', color: '#3498db', border: '1px solid #3498db', borderRadius: '6px', fontSize: '13px', fontWeight: '600', cursor: 'pointer', textAlign: 'center' }}>
+                    {t('backup.import')}
+                    <input
+                      type="file"
+                      accept="application/json,application/x-ndjson,.json,.jsonl"
+                      style={{ display: 'none' }}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) selectBackupFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+              )}
+
+              {backupError && (
+                <div style={{ fontSize: '12px', color: '#e74c3c', marginTop: '8px' }}>
+                  {backupError}
+                </div>
+              )}
+            </div>
+
             {/* 広告: サイドバー */}
             <AdSlot slot="admin-sidebar" />
 
@@ -994,6 +1120,9 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
       )}
 
       <div className="admin-container">
+        {/* プロフィール（子ども）切り替え */}
+        <ProfileSwitcher />
+
         {/* 言語切り替えドロップダウン */}
         <div style={{
           position: 'absolute',
@@ -1153,6 +1282,32 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
         {/* ドリルモード: PDFリストのみ */}
         {activeTab === 'drill' && (
           <div style={{ padding: '20px' }}>
+            {/* 今日の復習 */}
+            {reviewDueCount > 0 && (
+              <button
+                onClick={() => setShowReview(true)}
+                style={{
+                  width: '100%',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '12px',
+                  padding: '16px 20px',
+                  marginBottom: '20px',
+                  backgroundColor: '#fff8e1',
+                  border: '2px solid #f39c12',
+                  borderRadius: '12px',
+                  fontSize: '18px',
+                  fontWeight: '600',
+                  color: '#2c3e50',
+                  cursor: 'pointer'
+                }}
+              >
+                <span>🔁 {t('review.banner', { count: reviewDueCount })}</span>
+                <span style={{ fontSize: '14px', color: '#e67e22' }}>{t('review.start')} ▶</span>
+              </button>
+            )}
+
             <h2 className="section-title">PDF Files</h2>
 
             {pdfRecords.length === 0 ? (
@@ -1236,6 +1391,32 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
                       </div>
                     </div>
 
+                    {/* 解答登録ボタン */}
+                    <button
+                      className="settings-button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setAnswerKeyRecord(record);
+                      }}
+                      title={t('answerKeyEditor.openButton')}
+                      style={{ color: '#95a5a6' }}
+                    >
+                      <FaClipboardCheck style={{ fontSize: '18px' }} />
+                    </button>
+
+                    {/* 書き込み入りPDFの書き出しボタン */}
+                    <button
+                      className="settings-button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExportRecord(record);
+                      }}
+                      title={t('exportPdf.title')}
+                      style={{ color: '#95a5a6' }}
+                    >
+                      <FaFileExport style={{ fontSize: '18px' }} />
+                    </button>
+
                     {/* Settings Button */}
                     <button
                       className="settings-button"
@@ -1486,6 +1667,42 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
                   <span style={{ fontSize: '20px', opacity: 0.5 }}>↗</span>
                 </button>
 
+                {/* 学習分析カード */}
+                <button
+                  onClick={() => setShowAnalytics(true)}
+                  style={{
+                    width: '100%',
+                    backgroundColor: 'white',
+                    borderRadius: '12px',
+                    padding: '20px',
+                    border: '2px solid #ecf0f1',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: '12px',
+                    fontSize: '18px',
+                    fontWeight: '600',
+                    color: '#2c3e50',
+                    transition: 'all 0.2s'
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.borderColor = '#9b59b6';
+                    e.currentTarget.style.transform = 'translateY(-2px)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.borderColor = '#ecf0f1';
+                    e.currentTarget.style.transform = 'translateY(0)';
+                  }}
+                  title={t('analytics.title')}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                    <span style={{ fontSize: '24px' }}>📊</span>
+                    <span>Analytics</span>
+                  </div>
+                  <span style={{ fontSize: '20px', opacity: 0.5 }}>↗</span>
+                </button>
+
 
                 {/* ストレージ情報カード */}
                 {storageInfo && (
@@ -1632,7 +1849,7 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
             >
               ✕
             </button>
-            <ParentSettings />
+            <ParentSettings cloudSync={cloudSync} />
           </div>
         </div>
       )}
@@ -1726,6 +1943,49 @@ export default function AdminPanel({ onSelectPDF, onEditPDF, hasUpdate = false,
         )
       }
 
+      {/* 今日の復習 */}
+      {
+        showReview && (
+          <ReviewSession
+            pdfRecords={pdfRecords}
+            onOpenDrill={(record, pageNumber) => {
+              setShowReview(false);
+              onSelectPDF({ ...record, lastPageNumberA: pageNumber });
+            }}
+            onClose={() => setShowReview(false)}
+          />
+        )
+      }
+
+      {/* 学習分析モーダル */}
+      {
+        showAnalytics && (
+          <LearningAnalytics
+            onClose={() => setShowAnalytics(false)}
+          />
+        )
+      }
+
+      {/* 解答登録モーダル */}
+      {
+        answerKeyRecord && (
+          <AnswerKeyEditor
+            pdfRecord={answerKeyRecord}
+            onClose={() => setAnswerKeyRecord(null)}
+          />
+        )
+      }
+
+      {/* 書き込み入りPDFの書き出し */}
+      {
+        exportRecord && (
+          <ExportPDFDialog
+            pdfRecord={exportRecord}
+            onClose={() => setExportRecord(null)}
+          />
+        )
+      }
+
       {/* プライバシーポリシーモーダル */}
       {
         showPrivacyPolicy && (
@@ -0,0 +1,343 @@
+import { useEffect, useState } from 'react'
+import { PDFFileRecord, getAnswerKeysByPdfId, replaceAnswerKeysForPdf } from '../../utils/indexedDB'
+import { usePDFRenderer } from '../../hooks/pdf/usePDFRenderer'
+import { extractAnswerKeys, AnswerPageImage } from '../../services/api'
+import { normalizeProblemNumber } from '../study/utils'
+import { compressImage } from '../../utils/image'
+import './AnswerKeyEditor.css'
+import { useTranslation } from 'react-i18next'
+
+interface AnswerKeyEditorProps {
+  pdfRecord: PDFFileRecord
+  onClose: () => void
+}
+
+// 編集中の行（入力途中の値を保持するためページ番号も文字列で持つ）
+interface AnswerKeyRow {
+  rowId: string
+  page: string
+  problemNumber: string
+  correctAnswer: string
+  sourcePage?: number
+}
+
+let rowCounter = 0
+const createRowId = () => `row_${Date.now()}_${rowCounter++}`
+
+const AnswerKeyEditor = ({ pdfRecord, onClose }: AnswerKeyEditorProps) => {
+  const { t, i18n } = useTranslation()
+  const { pdfDoc, numPages, isLoading: pdfLoading } = usePDFRenderer(pdfRecord)
+  const [rows, setRows] = useState<AnswerKeyRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromPage, setFromPage] = useState('')
+  const [toPage, setToPage] = useState('')
+  const [pageOffset, setPageOffset] = useState('0')
+  const [extracting, setExtracting] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  // 登録済みの解答を読み込む
+  useEffect(() => {
+    const loadAnswerKeys = async () => {
+      setLoading(true)
+      try {
+        const records = await getAnswerKeysByPdfId(pdfRecord.id)
+        records.sort((a, b) => a.pageNumber - b.pageNumber || a.problemNumber.localeCompare(b.problemNumber, undefined, { numeric: true }))
+        setRows(records.map(record => ({
+          rowId: createRowId(),
+          page: String(record.pageNumber),
+          problemNumber: record.problemNumber,
+          correctAnswer: record.correctAnswer
+        })))
+      } catch (error) {
+        console.error('解答の読み込みに失敗:', error)
+        setErrorMessage(t('answerKeyEditor.loadError'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadAnswerKeys()
+  }, [pdfRecord.id])
+
+  // 解答ページは巻末にあることが多いので、最後の2ページを初期値にする
+  useEffect(() => {
+    if (numPages > 0) {
+      setFromPage(String(Math.max(1, numPages - 1)))
+      setToPage(String(numPages))
+    }
+  }, [numPages])
+
+  // ページを画像に変換
+  const renderPageToImage = async (pageNumber: number): Promise<string> => {
+    if (!pdfDoc) throw new Error('PDF not loaded')
+
+    const page = await pdfDoc.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: 2 })
+
+    const canvas = document.createElement('canvas')
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas context not available')
+
+    canvas.width = viewport.width
+    canvas.height = viewport.height
+
+    await page.render({
+      canvasContext: context,
+      viewport: viewport,
+    }).promise
+
+    // 細かい文字を読めるように通常の採点より大きめに圧縮
+    return compressImage(canvas, 2048)
+  }
+
+  // 解答ページから読み取り
+  const handleExtract = async () => {
+    const from = parseInt(fromPage, 10)
+    const to = parseInt(toPage, 10)
+    if (isNaN(from) || isNaN(to) || from < 1 || to > numPages || from > to) {
+      setErrorMessage(t('answerKeyEditor.invalidRange', { numPages }))
+      return
+    }
+
+    setExtracting(true)
+    setErrorMessage(null)
+    setMessage(t('answerKeyEditor.extracting'))
+
+    try {
+      const pages: AnswerPageImage[] = []
+      for (let pageNumber = from; pageNumber <= to; pageNumber++) {
+        pages.push({ pageNumber, imageData: await renderPageToImage(pageNumber) })
+      }
+
+      const response = await extractAnswerKeys(pages, undefined, i18n.language)
+      if (!response.success) {
+        throw new Error(response.error || t('answerKeyEditor.extractError'))
+      }
+
+      // 既存の行と同じ問題は上書きし、新しい問題は末尾に追加する
+      setRows(prev => {
+        const next = [...prev]
+        response.entries.forEach(entry => {
+          const page = entry.page !== null ? String(entry.page) : ''
+          const existingIndex = next.findIndex(row =>
+            row.page === page &&
+            normalizeProblemNumber(row.problemNumber) === normalizeProblemNumber(entry.problemNumber)
+          )
+          if (existingIndex !== -1) {
+            next[existingIndex] = { ...next[existingIndex], correctAnswer: entry.correctAnswer, sourcePage: entry.sourcePage }
+          } else {
+            next.push({
+              rowId: createRowId(),
+              page,
+              problemNumber: entry.problemNumber,
+              correctAnswer: entry.correctAnswer,
+              sourcePage: entry.sourcePage
+            })
+          }
+        })
+        return next
+      })
+
+      setMessage(t('answerKeyEditor.extracted', { count: response.entries.length }))
+    } catch (error) {
+      console.error('解答の読み取りに失敗:', error)
+      setMessage(null)
+      setErrorMessage(error instanceof Error ? error.message : t('answerKeyEditor.extractError'))
+    } finally {
+      setExtracting(false)
+    }
+  }
+
+  const updateRow = (rowId: string, field: 'page' | 'problemNumber' | 'correctAnswer', value: string) => {
+    setRows(prev => prev.map(row => row.rowId === rowId ? { ...row, [field]: value } : row))
+  }
+
+  const deleteRow = (rowId: string) => {
+    setRows(prev => prev.filter(row => row.rowId !== rowId))
+  }
+
+  const addRow = () => {
+    const lastPage = rows.length > 0 ? rows[rows.length - 1].page : ''
+    setRows(prev => [...prev, { rowId: createRowId(), page: lastPage, problemNumber: '', correctAnswer: '' }])
+  }
+
+  // 印刷されたページ番号とPDFのページ番号のずれをまとめて補正
+  const applyPageOffset = () => {
+    const offset = parseInt(pageOffset, 10)
+    if (isNaN(offset) || offset === 0) return
+    setRows(prev => prev.map(row => {
+      const page = parseInt(row.page, 10)
+      return isNaN(page) ? row : { ...row, page: String(page + offset) }
+    }))
+    setPageOffset('0')
+  }
+
+  const isRowValid = (row: AnswerKeyRow) => {
+    const page = parseInt(row.page, 10)
+    return !isNaN(page) && page >= 1 && row.problemNumber.trim() !== '' && row.correctAnswer.trim() !== ''
+  }
+
+  const handleSave = async () => {
+    if (rows.some(row => !isRowValid(row))) {
+      setErrorMessage(t('answerKeyEditor.invalidRows'))
+      return
+    }
+
+    setSaving(true)
+    setErrorMessage(null)
+    try {
+      await replaceAnswerKeysForPdf(pdfRecord.id, rows.map(row => ({
+        pageNumber: parseInt(row.page, 10),
+        problemNumber: row.problemNumber.trim(),
+        correctAnswer: row.correctAnswer.trim()
+      })))
+      onClose()
+    } catch (error) {
+      console.error('解答の保存に失敗:', error)
+      setErrorMessage(t('answerKeyEditor.saveError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="answer-key-overlay">
+      <div className="answer-key-panel">
+        <div className="answer-key-header">
+          <h2>{t('answerKeyEditor.title')}</h2>
+          <button className="close-btn" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        <div className="answer-key-file-name">{pdfRecord.fileName}</div>
+
+        {/* 解答ページからの読み取り */}
+        <div className="answer-key-extract">
+          <span>{t('answerKeyEditor.answerPages')}</span>
+          <input
+            type="number"
+            min={1}
+            max={numPages || undefined}
+            value={fromPage}
+            onChange={(e) => setFromPage(e.target.value)}
+            disabled={pdfLoading || extracting}
+          />
+          <span>〜</span>
+          <input
+            type="number"
+            min={1}
+            max={numPages || undefined}
+            value={toPage}
+            onChange={(e) => setToPage(e.target.value)}
+            disabled={pdfLoading || extracting}
+          />
+          <span className="answer-key-total-pages">/ {numPages}</span>
+          <button
+            className="extract-button"
+            onClick={handleExtract}
+            disabled={pdfLoading || extracting || !pdfDoc}
+          >
+            {extracting ? t('answerKeyEditor.extractingShort') : t('answerKeyEditor.extractButton')}
+          </button>
+        </div>
+
+        {message && <div className="answer-key-message">{message}</div>}
+        {errorMessage && <div className="answer-key-error">{errorMessage}</div>}
+
+        {/* 確認・修正用の一覧 */}
+        <div className="answer-key-content">
+          {loading ? (
+            <div className="loading">{t('answerKeyEditor.loading')}</div>
+          ) : rows.length === 0 ? (
+            <div className="empty-message">{t('answerKeyEditor.empty')}</div>
+          ) : (
+            <table className="answer-key-table">
+              <thead>
+                <tr>
+                  <th>{t('answerKeyEditor.page')}</th>
+                  <th>{t('answerKeyEditor.problemNumber')}</th>
+                  <th>{t('answerKeyEditor.correctAnswer')}</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowId} className={isRowValid(row) ? '' : 'invalid'}>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        className="page-input"
+                        value={row.page}
+                        onChange={(e) => updateRow(row.rowId, 'page', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        className="problem-input"
+                        value={row.problemNumber}
+                        onChange={(e) => updateRow(row.rowId, 'problemNumber', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        className="answer-input"
+                        value={row.correctAnswer}
+                        onChange={(e) => updateRow(row.rowId, 'correctAnswer', e.target.value)}
+                      />
+                      {row.sourcePage !== undefined && (
+                        <span className="source-page">{t('answerKeyEditor.sourcePage', { page: row.sourcePage })}</span>
+                      )}
+                    </td>
+                    <td>
+                      <button
+                        className="delete-btn"
+                        onClick={() => deleteRow(row.rowId)}
+                        title={t('answerKeyEditor.deleteRow')}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="answer-key-tools">
+          <button className="add-row-button" onClick={addRow}>
+            {t('answerKeyEditor.addRow')}
+          </button>
+          <div className="page-offset">
+            <span>{t('answerKeyEditor.pageOffset')}</span>
+            <input
+              type="number"
+              value={pageOffset}
+              onChange={(e) => setPageOffset(e.target.value)}
+            />
+            <button onClick={applyPageOffset} disabled={rows.length === 0}>
+              {t('answerKeyEditor.applyOffset')}
+            </button>
+          </div>
+        </div>
+        <p className="answer-key-hint">{t('answerKeyEditor.pageHint')}</p>
+
+        <div className="answer-key-footer">
+          <button className="cancel-button" onClick={onClose}>
+            {t('common.cancel')}
+          </button>
+          <button className="save-button" onClick={handleSave} disabled={saving || extracting || loading}>
+            {saving ? t('answerKeyEditor.saving') : t('answerKeyEditor.saveButton', { count: rows.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AnswerKeyEditor
@@ -1,5 +1,8 @@
 import { useEffect, useState } from 'react'
 import { GradingHistoryRecord, getAllGradingHistory, deleteGradingHistory, SNSUsageHistoryRecord, getSNSUsageHistory } from '../../utils/indexedDB'
+import { recordCloudDeletion } from '../../services/cloudSync'
+import { SNSUsageTotal, getActualMinutes, summarizeSNSUsage } from '../../services/snsUsage'
+import GradingReportDialog from './GradingReportDialog'
 import './GradingHistory.css'
 import { useTranslation } from 'react-i18next'
 
@@ -17,6 +20,7 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
   const [filterType, setFilterType] = useState<'all' | 'grading' | 'sns'>('all')
   const [filterCorrect, setFilterCorrect] = useState<'all' | 'correct' | 'incorrect'>('all')
   const [searchQuery, setSearchQuery] = useState('')
+  const [showReportDialog, setShowReportDialog] = useState(false)
 
 
   // 履歴を読み込む
@@ -45,6 +49,7 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
 
     try {
       await deleteGradingHistory(id)
+      await recordCloudDeletion('gradingHistory', id)
       await loadHistory()
       if (selectedHistory?.id === id) {
         setSelectedHistory(null)
@@ -102,7 +107,37 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
   const correctCount = historyList.filter(r => r.isCorrect).length
   const incorrectCount = totalCount - correctCount
   const correctRate = totalCount > 0 ? Math.round((correctCount / totalCount) * 100) : 0
+  // 保護者の修正・再採点で判定を直した問題の数（AIの判定ミスの目安）
+  const overriddenCount = historyList.filter(r => r.overrides?.length).length
   const snsCount = snsHistoryList.length
+  // SNSを実際に使った時間（日ごと・SNSごと。検索したときは見つかったものだけ）
+  const snsSummary = summarizeSNSUsage(
+    filteredHistory.flatMap(item => (item.type === 'sns' ? [item.data] : []))
+  )
+
+  // 実際に使った時間の表示（1分未満は秒）
+  const formatDuration = (seconds: number) =>
+    seconds < 60
+      ? t('gradingHistory.snsSeconds', { seconds })
+      : t('gradingHistory.snsMinutes', { minutes: Math.round(seconds / 60) })
+
+  const renderUsageTotals = (title: string, totals: SNSUsageTotal[]) => (
+    <div style={{ flex: '1 1 200px', minWidth: 0 }}>
+      <div style={{ fontWeight: 'bold', fontSize: '13px', color: '#2c3e50', marginBottom: '6px' }}>{title}</div>
+      {totals.map(total => (
+        <div key={total.key} style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', fontSize: '13px', padding: '3px 0', borderBottom: '1px solid #f0f0f0' }}>
+          <span style={{ color: '#7f8c8d' }}>{total.label}</span>
+          <span>
+            {t('gradingHistory.snsMinutes', { minutes: total.minutes })}
+            <span style={{ color: '#95a5a6', marginLeft: '6px' }}>
+              {t('gradingHistory.snsSessions', { count: total.sessions })}
+              {total.unknownSessions > 0 ? ` ${t('gradingHistory.snsUnknownSessions', { count: total.unknownSessions })}` : ''}
+            </span>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
 
   // 日付をフォーマット
   const formatDate = (timestamp: number) => {
@@ -121,9 +156,25 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
       <div className="grading-history-panel">
         <div className="history-header">
           <h2>{t('gradingHistory.title')}</h2>
-          <button className="close-btn" onClick={onClose}>
-            ✕
-          </button>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <button
+              onClick={() => setShowReportDialog(true)}
+              style={{
+                background: 'rgba(255, 255, 255, 0.2)',
+                border: 'none',
+                borderRadius: '18px',
+                padding: '8px 14px',
+                color: 'white',
+                fontSize: '14px',
+                cursor: 'pointer'
+              }}
+            >
+              📄 {t('gradingReport.openButton')}
+            </button>
+            <button className="close-btn" onClick={onClose}>
+              ✕
+            </button>
+          </div>
         </div>
 
         {/* 統計情報 */}
@@ -140,6 +191,9 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
               </span>
               <span>📱 {t('gradingHistory.snsCount')}: {snsCount}{t('gradingHistory.times')}</span>
               <span>{t('gradingHistory.correctRate')}: {correctRate}%</span>
+              {overriddenCount > 0 && (
+                <span>✏️ {t('gradingHistory.overriddenCount')}: {overriddenCount}</span>
+              )}
             </span>
           </div>
         </div>
@@ -212,6 +266,17 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
             </div>
           ) : (
             <div className="history-list">
+              {filterType === 'sns' && (
+                <div style={{ padding: '12px 16px', marginBottom: '12px', borderRadius: '8px', backgroundColor: '#f8f9fa', border: '1px solid #e9ecef' }}>
+                  <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+                    {renderUsageTotals(t('gradingHistory.snsByDay'), snsSummary.byDay.slice(0, 7))}
+                    {renderUsageTotals(t('gradingHistory.snsBySNS'), snsSummary.bySNS)}
+                  </div>
+                  <div style={{ marginTop: '8px', fontSize: '12px', color: '#7f8c8d' }}>
+                    {t('gradingHistory.snsReturnStats', { early: snsSummary.returnedEarlyCount, timedOut: snsSummary.timedOutCount })}
+                  </div>
+                </div>
+              )}
               {filteredHistory.map((item, index) => (
                 <div key={`${item.type}-${item.data.id}-${index}`}>
                   {item.type === 'grading' ? (
@@ -228,6 +293,9 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
                         <span className="problem-info">
                           {item.data.pdfFileName} - {t('gradingHistory.page')}{item.data.pageNumber} - {t('gradingHistory.problem')}{item.data.problemNumber}
                         </span>
+                        {item.data.overrides?.length ? (
+                          <span title={t('gradingHistory.overridden')} style={{ fontSize: '14px' }}>✏️</span>
+                        ) : null}
                         <button
                           className="delete-btn"
                           onClick={(e) => handleDelete(item.data.id, e)}
@@ -250,11 +318,27 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
                       <div className="history-item-header" style={{ backgroundColor: '#f8f9fa' }}>
                         <span style={{ fontSize: '20px' }}>📱</span>
                         <span className="problem-info" style={{ color: '#7f8c8d' }}>
-                          {item.data.snsName} - {item.data.timeLimitMinutes}{t('gradingHistory.minutes_short')}
+                          {item.data.snsName} - {getActualMinutes(item.data) === null
+                            ? item.data.unlimited
+                              ? t('gradingHistory.snsUnlimited')
+                              : `${item.data.timeLimitMinutes}${t('gradingHistory.minutes_short')}`
+                            : t('gradingHistory.snsActual', {
+                              actual: formatDuration(item.data.durationSeconds!),
+                              limit: item.data.unlimited ? t('gradingHistory.snsUnlimited') : `${item.data.timeLimitMinutes}${t('gradingHistory.minutes_short')}`
+                            })}
                         </span>
+                        {item.data.returnedEarly && (
+                          <span style={{ fontSize: '12px', color: '#27ae60', whiteSpace: 'nowrap' }}>{t('gradingHistory.snsReturnedEarly')}</span>
+                        )}
+                        {item.data.timedOut && (
+                          <span style={{ fontSize: '12px', color: '#e74c3c', whiteSpace: 'nowrap' }}>{t('gradingHistory.snsTimedOut')}</span>
+                        )}
                       </div>
                       <div className="history-item-content">
-                        <div className="timestamp">{formatDate(item.data.timestamp)}</div>
+                        <div className="timestamp">
+                          {formatDate(item.data.timestamp)}
+                          {item.data.endedAt ? ` – ${new Date(item.data.endedAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}` : ''}
+                        </div>
                         <div className="answer-preview" style={{ fontSize: '12px', color: '#95a5a6' }}>
                           {item.data.snsUrl}
                         </div>
@@ -282,6 +366,12 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
                 <p><strong>{t('gradingHistory.workbook')}:</strong> {selectedHistory.pdfFileName}</p>
                 <p><strong>{t('gradingHistory.page')}:</strong> {selectedHistory.pageNumber}</p>
                 <p><strong>{t('gradingHistory.problemNumber')}:</strong> {selectedHistory.problemNumber}</p>
+                {selectedHistory.topic && (
+                  <p><strong>{t('gradingHistory.topic')}:</strong> {selectedHistory.topic}</p>
+                )}
+                {selectedHistory.hintLevel && (
+                  <p><strong>{t('gradingHistory.hintLevel')}:</strong> {t('gradingHistory.hintLevelValue', { level: selectedHistory.hintLevel })}</p>
+                )}
                 <p><strong>{t('gradingHistory.dateTime')}:</strong> {formatDate(selectedHistory.timestamp)}</p>
               </div>
 
@@ -301,6 +391,26 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
                 </div>
               )}
 
+              {selectedHistory.overrides?.length ? (
+                <div className="detail-section">
+                  <h4>{t('gradingHistory.overrideHistory')}</h4>
+                  {selectedHistory.overrides.map((entry, index) => (
+                    <div key={index} style={{ fontSize: '13px', padding: '6px 0', borderBottom: '1px solid #f0f0f0' }}>
+                      <div>
+                        <strong>{formatDate(entry.at)}</strong>{' '}
+                        {entry.by === 'parent'
+                          ? t('gradingHistory.overrideByParent')
+                          : t('gradingHistory.overrideByAi', { model: entry.model || '' })}
+                      </div>
+                      <div style={{ color: '#7f8c8d' }}>
+                        {t('gradingHistory.previousValue')}: {entry.previous.isCorrect ? t('gradingHistory.correct') : t('gradingHistory.incorrect')}
+                        {entry.previous.studentAnswer ? ` / ${entry.previous.studentAnswer}` : ''}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               <div className="detail-section">
                 <h4>{t('gradingHistory.feedback')}</h4>
                 <div className="feedback-box">{selectedHistory.feedback}</div>
@@ -311,6 +421,20 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
                 <div className="explanation-box">{selectedHistory.explanation}</div>
               </div>
 
+              {selectedHistory.tutorChat?.length ? (
+                <div className="detail-section">
+                  <h4>{t('gradingHistory.tutorChat')}</h4>
+                  {selectedHistory.tutorChat.map((message, index) => (
+                    <div key={index} style={{ fontSize: '13px', padding: '6px 0', borderBottom: '1px solid #f0f0f0', whiteSpace: 'pre-wrap' }}>
+                      <strong style={{ color: message.role === 'student' ? '#3498db' : '#27ae60' }}>
+                        {message.role === 'student' ? t('gradingHistory.tutorChatStudent') : t('gradingHistory.tutorChatTutor')}:
+                      </strong>{' '}
+                      {message.text}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               {selectedHistory.imageData && (
                 <div className="detail-section">
                   <h4>{t('gradingHistory.gradingImage')}</h4>
@@ -359,6 +483,8 @@ const GradingHistory = ({ onClose, onSelectHistory }: GradingHistoryProps) => {
           </button>
         </div>
       </div>
+
+      {showReportDialog && <GradingReportDialog onClose={() => setShowReportDialog(false)} />}
     </div>
   )
 }
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { getSubjects, SubjectInfo } from '../../services/api'
+import { getGradingReportRecords, downloadGradingReport, GradingReportOptions } from '../../services/gradingReport'
+import { useProfile } from '../../contexts/ProfileContext'
+
+interface GradingReportDialogProps {
+  onClose: () => void
+}
+
+const DEFAULT_PERIOD_DAYS = 30
+
+// <input type="date"> の値（ローカル時刻）
+const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// 期間（開始日の0時〜終了日の23:59:59）
+const toReportOptions = (fromDate: string, toDate: string, subjectId: string): GradingReportOptions | null => {
+  const from = new Date(`${fromDate}T00:00:00`).getTime()
+  const to = new Date(`${toDate}T23:59:59.999`).getTime()
+  if (isNaN(from) || isNaN(to) || from > to) return null
+  return { from, to, subjectId: subjectId === 'all' ? null : subjectId }
+}
+
+// 期間・教科を選んで採点レポート（PDF）を作る（保護者面談などに持っていく用）
+const GradingReportDialog = ({ onClose }: GradingReportDialogProps) => {
+  const { t, i18n } = useTranslation()
+  const { activeProfile } = useProfile()
+  const [fromDate, setFromDate] = useState(() => toDateInputValue(new Date(Date.now() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000)))
+  const [toDate, setToDate] = useState(() => toDateInputValue(new Date()))
+  const [subjectId, setSubjectId] = useState('all')
+  const [subjects, setSubjects] = useState<SubjectInfo[]>([])
+  const [recordCount, setRecordCount] = useState<number | null>(null)
+  const [generating, setGenerating] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const options = toReportOptions(fromDate, toDate, subjectId)
+  const subjectLabel = (subject: SubjectInfo) =>
+    (i18n.language === 'ja' ? subject.labels?.ja : subject.labels?.en) || subject.id
+
+  useEffect(() => {
+    getSubjects()
+      .then(response => setSubjects(response.subjects))
+      .catch(error => console.error('教科一覧の読み込みに失敗:', error))
+  }, [])
+
+  // 条件に合う問題数を先に見せる
+  useEffect(() => {
+    if (!options) {
+      setRecordCount(null)
+      return
+    }
+    let cancelled = false
+    getGradingReportRecords(options)
+      .then(records => {
+        if (!cancelled) setRecordCount(records.length)
+      })
+      .catch(error => console.error('採点履歴の読み込みに失敗:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [fromDate, toDate, subjectId])
+
+  const handleGenerate = async () => {
+    if (!options) return
+    setGenerating(true)
+    setErrorMessage(null)
+    try {
+      const records = await getGradingReportRecords(options)
+      const subject = subjects.find(s => s.id === subjectId)
+      await downloadGradingReport(records, options, {
+        profileName: activeProfile?.name || t('profiles.defaultName'),
+        subjectLabel: subject ? subjectLabel(subject) : t('gradingReport.allSubjects')
+      }, t)
+      onClose()
+    } catch (error) {
+      console.error('採点レポートの作成に失敗:', error)
+      setErrorMessage(t('gradingReport.error'))
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const inputStyle = { padding: '6px', border: '1px solid #ddd', borderRadius: '6px', fontSize: '14px' }
+  const canGenerate = !!options && !!recordCount && !generating
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10020
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !generating) onClose()
+      }}
+    >
+      <div style={{ backgroundColor: 'white', borderRadius: '12px', padding: '24px', width: '90%', maxWidth: '400px' }}>
+        <h3 style={{ margin: '0 0 16px', color: '#2c3e50' }}>{t('gradingReport.dialogTitle')}</h3>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', fontSize: '14px', color: '#2c3e50' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+            {t('gradingReport.periodLabel')}
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={inputStyle} />
+            〜
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            {t('gradingReport.subjectLabel')}
+            <select value={subjectId} onChange={(e) => setSubjectId(e.target.value)} style={inputStyle}>
+              <option value="all">{t('gradingReport.allSubjects')}</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>
+                  {subject.icon} {subjectLabel(subject)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div style={{ fontSize: '13px', color: '#7f8c8d' }}>
+            {!options
+              ? t('gradingReport.invalidPeriod')
+              : recordCount === null
+                ? t('gradingReport.counting')
+                : t('gradingReport.recordCount', { count: recordCount })}
+          </div>
+          <div style={{ fontSize: '12px', color: '#95a5a6', lineHeight: '1.5' }}>
+            {t('gradingReport.description')}
+          </div>
+        </div>
+
+        {errorMessage && (
+          <div style={{ fontSize: '13px', color: '#e74c3c', marginTop: '12px' }}>{errorMessage}</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '20px' }}>
+          <button
+            onClick={onClose}
+            disabled={generating}
+            style={{ padding: '8px 16px', border: '1px solid #ddd', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+          >
+            {t('gradingReport.cancel')}
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '6px',
+              background: '#3498db',
+              color: 'white',
+              fontWeight: 'bold',
+              cursor: canGenerate ? 'pointer' : 'not-allowed',
+              opacity: canGenerate ? 1 : 0.6
+            }}
+          >
+            {generating ? t('gradingReport.generating') : t('gradingReport.generate')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default GradingReportDialog
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { getSubjects, SubjectInfo } from '../../services/api'
+import { getGradingAnalytics, GradingAnalytics, AccuracyStat, UNKNOWN_SUBJECT_ID } from '../../services/gradingAnalytics'
+
+interface LearningAnalyticsProps {
+  onClose: () => void
+}
+
+type Period = '30' | '90' | 'all'
+
+// 苦手なページとして出すのに必要な問題数と件数
+const MIN_ATTEMPTS_FOR_WEAK_PAGE = 2
+const WEAK_PAGE_LIMIT = 5
+
+const rateColor = (rate: number) => (rate >= 80 ? '#27ae60' : rate >= 60 ? '#f39c12' : '#e74c3c')
+
+const TrendMark = ({ trend }: { trend: AccuracyStat['trend'] }) => {
+  const { t } = useTranslation()
+  if (!trend) return null
+  const marks = {
+    up: { symbol: '↗', color: '#27ae60' },
+    down: { symbol: '↘', color: '#e74c3c' },
+    flat: { symbol: '→', color: '#95a5a6' }
+  }
+  return (
+    <span title={t(`analytics.trend.${trend}`)} style={{ color: marks[trend].color, fontWeight: 'bold', marginLeft: '6px' }}>
+      {marks[trend].symbol}
+    </span>
+  )
+}
+
+// 正答率の一覧（ラベル・問題数・正答率のバー）
+const StatList = ({ stats, emptyText }: { stats: AccuracyStat[], emptyText: string }) => {
+  const { t } = useTranslation()
+  if (stats.length === 0) {
+    return <div style={{ fontSize: '13px', color: '#95a5a6' }}>{emptyText}</div>
+  }
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {stats.map(stat => (
+        <div key={stat.key} style={{ fontSize: '14px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', marginBottom: '4px' }}>
+            <span style={{ color: '#2c3e50', wordBreak: 'break-all' }}>
+              {stat.label}
+              <TrendMark trend={stat.trend} />
+            </span>
+            <span style={{ color: '#7f8c8d', whiteSpace: 'nowrap' }}>
+              {t('analytics.countAndRate', { correct: stat.correct, total: stat.total, rate: stat.correctRate })}
+            </span>
+          </div>
+          <div style={{ height: '6px', backgroundColor: '#ecf0f1', borderRadius: '3px', overflow: 'hidden' }}>
+            <div style={{ width: `${stat.correctRate}%`, height: '100%', backgroundColor: rateColor(stat.correctRate) }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// 保護者向け: 教科・ドリル・ページ・単元ごとの正答率と苦手な単元
+const LearningAnalytics = ({ onClose }: LearningAnalyticsProps) => {
+  const { t, i18n } = useTranslation()
+  const [period, setPeriod] = useState<Period>('90')
+  const [subjectId, setSubjectId] = useState('all')
+  const [subjects, setSubjects] = useState<SubjectInfo[]>([])
+  const [analytics, setAnalytics] = useState<GradingAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const subjectLabel = (id: string) => {
+    if (id === UNKNOWN_SUBJECT_ID) return t('analytics.unknownSubject')
+    const subject = subjects.find(s => s.id === id)
+    if (!subject) return id
+    return `${subject.icon || ''} ${(i18n.language === 'ja' ? subject.labels?.ja : subject.labels?.en) || subject.id}`.trim()
+  }
+
+  useEffect(() => {
+    getSubjects()
+      .then(response => setSubjects(response.subjects))
+      .catch(error => console.error('教科一覧の読み込みに失敗:', error))
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    getGradingAnalytics({
+      subjectId: subjectId === 'all' ? null : subjectId,
+      since: period === 'all' ? undefined : Date.now() - parseInt(period, 10) * 24 * 60 * 60 * 1000
+    })
+      .then(result => {
+        if (!cancelled) setAnalytics(result)
+      })
+      .catch(error => console.error('学習分析の集計に失敗:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [period, subjectId])
+
+  const weakPages = analytics
+    ? analytics.byPage
+      .filter(stat => stat.total >= MIN_ATTEMPTS_FOR_WEAK_PAGE && stat.correct < stat.total)
+      .sort((a, b) => a.correctRate - b.correctRate || b.total - a.total)
+      .slice(0, WEAK_PAGE_LIMIT)
+    : []
+  const maxWeeklyTotal = analytics ? Math.max(1, ...analytics.weekly.map(week => week.total)) : 1
+
+  const sectionStyle = { backgroundColor: 'white', borderRadius: '12px', padding: '16px', border: '1px solid #ecf0f1' }
+  const headingStyle = { margin: '0 0 12px', fontSize: '16px', color: '#2c3e50' }
+  const selectStyle = { padding: '6px', border: '1px solid #ddd', borderRadius: '6px', fontSize: '14px' }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose()
+      }}
+    >
+      <div style={{
+        backgroundColor: '#f8f9fa',
+        borderRadius: '12px',
+        width: '95%',
+        maxWidth: '720px',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden'
+      }}>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '16px 20px',
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+          color: 'white'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px' }}>📊 {t('analytics.title')}</h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'rgba(255,255,255,0.2)', border: 'none', color: 'white', fontSize: '20px', width: '36px', height: '36px', borderRadius: '50%', cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', padding: '12px 20px', borderBottom: '1px solid #ecf0f1', backgroundColor: 'white' }}>
+          <select value={period} onChange={(e) => setPeriod(e.target.value as Period)} style={selectStyle}>
+            <option value="30">{t('analytics.period.last30')}</option>
+            <option value="90">{t('analytics.period.last90')}</option>
+            <option value="all">{t('analytics.period.all')}</option>
+          </select>
+          <select value={subjectId} onChange={(e) => setSubjectId(e.target.value)} style={selectStyle}>
+            <option value="all">{t('analytics.allSubjects')}</option>
+            {subjects.map(subject => (
+              <option key={subject.id} value={subject.id}>{subjectLabel(subject.id)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div style={{ overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {loading && !analytics ? (
+            <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>{t('analytics.loading')}</div>
+          ) : !analytics || analytics.total === 0 ? (
+            <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>{t('analytics.empty')}</div>
+          ) : (
+            <>
+              {/* まとめ */}
+              <div style={{ ...sectionStyle, display: 'flex', justifyContent: 'space-around', textAlign: 'center' }}>
+                <div>
+                  <div style={{ fontSize: '12px', color: '#7f8c8d' }}>{t('analytics.totalProblems')}</div>
+                  <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#2c3e50' }}>{analytics.total}</div>
+                </div>
+                <div>
+                  <div style={{ fontSize: '12px', color: '#7f8c8d' }}>{t('analytics.correctRate')}</div>
+                  <div style={{ fontSize: '24px', fontWeight: 'bold', color: rateColor(analytics.correctRate) }}>{analytics.correctRate}%</div>
+                </div>
+                <div>
+                  <div style={{ fontSize: '12px', color: '#7f8c8d' }}>{t('analytics.hintRequests')}</div>
+                  <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#b7791f' }}>{analytics.hintRequests}</div>
+                  {analytics.hinted.total > 0 && (
+                    <div style={{ fontSize: '11px', color: '#95a5a6' }}>
+                      {t('analytics.hintedProblems', { total: analytics.hinted.total, rate: analytics.hinted.correctRate })}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* 苦手な単元 */}
+              <div style={{ ...sectionStyle, borderColor: '#f5b7b1' }}>
+                <h3 style={headingStyle}>⚠️ {t('analytics.weakTopics')}</h3>
+                <StatList stats={analytics.weakTopics} emptyText={t('analytics.noWeakTopics')} />
+                {analytics.unclassifiedCount > 0 && (
+                  <div style={{ fontSize: '12px', color: '#95a5a6', marginTop: '8px' }}>
+                    {t('analytics.unclassified', { count: analytics.unclassifiedCount })}
+                  </div>
+                )}
+              </div>
+
+              {/* 週ごとの推移 */}
+              <div style={sectionStyle}>
+                <h3 style={headingStyle}>📈 {t('analytics.weeklyTrend')}</h3>
+                <div style={{ display: 'flex', alignItems: 'flex-end', gap: '4px', height: '120px' }}>
+                  {analytics.weekly.map(week => (
+                    <div
+                      key={week.weekStart}
+                      title={t('analytics.weekTooltip', {
+                        date: new Date(week.weekStart).toLocaleDateString(i18n.language),
+                        correct: week.correct,
+                        total: week.total,
+                        rate: week.correctRate
+                      })}
+                      style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'flex-end', height: '100%' }}
+                    >
+                      {week.total > 0 && (
+                        <span style={{ fontSize: '10px', color: rateColor(week.correctRate) }}>{week.correctRate}%</span>
+                      )}
+                      <div style={{
+                        width: '100%',
+                        height: `${(week.total / maxWeeklyTotal) * 90}px`,
+                        minHeight: week.total > 0 ? '2px' : 0,
+                        backgroundColor: week.total > 0 ? rateColor(week.correctRate) : 'transparent',
+                        borderRadius: '3px 3px 0 0'
+                      }} />
+                      <span style={{ fontSize: '10px', color: '#95a5a6', marginTop: '2px' }}>
+                        {new Date(week.weekStart).getMonth() + 1}/{new Date(week.weekStart).getDate()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ fontSize: '12px', color: '#95a5a6', marginTop: '8px' }}>{t('analytics.weeklyTrendNote')}</div>
+              </div>
+
+              {/* 教科ごと */}
+              {subjectId === 'all' && (
+                <div style={sectionStyle}>
+                  <h3 style={headingStyle}>📚 {t('analytics.bySubject')}</h3>
+                  <StatList
+                    stats={analytics.bySubject.map(stat => ({ ...stat, label: subjectLabel(stat.key) }))}
+                    emptyText={t('analytics.empty')}
+                  />
+                </div>
+              )}
+
+              {/* 単元ごと */}
+              <div style={sectionStyle}>
+                <h3 style={headingStyle}>🏷️ {t('analytics.byTopic')}</h3>
+                <StatList stats={analytics.byTopic} emptyText={t('analytics.noTopics')} />
+              </div>
+
+              {/* ドリルごと */}
+              <div style={sectionStyle}>
+                <h3 style={headingStyle}>📘 {t('analytics.byDrill')}</h3>
+                <StatList stats={analytics.byDrill} emptyText={t('analytics.empty')} />
+              </div>
+
+              {/* 間違いの多いページ */}
+              <div style={sectionStyle}>
+                <h3 style={headingStyle}>📄 {t('analytics.weakPages')}</h3>
+                <StatList stats={weakPages} emptyText={t('analytics.noWeakPages')} />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LearningAnalytics
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useProfile } from '../../contexts/ProfileContext';
+import { ProfileRecord } from '../../utils/indexedDB';
+
+const PROFILE_ICONS = ['🧒', '👦', '👧', '🐶', '🐱', '🐰', '🦁', '🐼', '🚀', '🌸'];
+
+// 子どものプロフィール切り替え（ドリル・採点履歴・SNS時間はプロフィールごと）
+export default function ProfileSwitcher() {
+  const { t } = useTranslation();
+  const { profiles, activeProfile, switchProfile, addProfile, updateProfile, removeProfile } = useProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; name: string; icon: string } | null>(null);
+
+  const displayName = (profile: ProfileRecord | null) => profile?.name || t('profiles.defaultName');
+
+  const handleSwitch = async (id: string) => {
+    try {
+      await switchProfile(id);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('プロフィールの切り替えに失敗:', error);
+      alert(t('profiles.switchError'));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    try {
+      if (editing.id) {
+        const profile = profiles.find(p => p.id === editing.id);
+        if (profile) {
+          await updateProfile({ ...profile, name, icon: editing.icon });
+        }
+      } else {
+        const profile = await addProfile(name, editing.icon);
+        await switchProfile(profile.id);
+        setIsOpen(false);
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('プロフィールの保存に失敗:', error);
+      alert(t('profiles.saveError'));
+    }
+  };
+
+  const handleDelete = async (profile: ProfileRecord) => {
+    if (!confirm(t('profiles.deleteConfirm', { name: displayName(profile) }))) return;
+    try {
+      await removeProfile(profile.id);
+    } catch (error) {
+      console.error('プロフィールの削除に失敗:', error);
+      alert(t('profiles.deleteError'));
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '20px',
+      left: '20px',
+      zIndex: 100
+    }}>
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setEditing(null);
+        }}
+        title={t('profiles.switch')}
+        style={{
+          padding: '8px 16px',
+          backgroundColor: 'white',
+          color: '#2c3e50',
+          border: '2px solid #3498db',
+          borderRadius: '20px',
+          fontSize: '14px',
+          fontWeight: '600',
+          cursor: 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          height: '40px'
+        }}
+      >
+        <span style={{ fontSize: '18px' }}>{activeProfile?.icon || '🧒'}</span>
+        {displayName(activeProfile)}
+        <span style={{ fontSize: '10px' }}>▼</span>
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'absolute',
+          top: '110%',
+          left: 0,
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          border: '1px solid #ecf0f1',
+          minWidth: '240px',
+          overflow: 'hidden'
+        }}>
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                backgroundColor: profile.id === activeProfile?.id ? '#f0f8ff' : 'white',
+                borderBottom: '1px solid #ecf0f1'
+              }}
+            >
+              <button
+                onClick={() => handleSwitch(profile.id)}
+                style={{
+                  flex: 1,
+                  textAlign: 'left',
+                  padding: '10px 16px',
+                  background: 'none',
+                  color: '#2c3e50',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px'
+                }}
+              >
+                <span style={{ fontSize: '18px' }}>{profile.icon}</span>
+                {displayName(profile)}
+              </button>
+              <button
+                onClick={() => setEditing({ id: profile.id, name: profile.name, icon: profile.icon })}
+                title={t('profiles.edit')}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '14px', padding: '8px' }}
+              >
+                ✏️
+              </button>
+              {profiles.length > 1 && (
+                <button
+                  onClick={() => handleDelete(profile)}
+                  title={t('profiles.delete')}
+                  style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '14px', padding: '8px' }}
+                >
+                  🗑️
+                </button>
+              )}
+            </div>
+          ))}
+
+          {editing ? (
+            <div style={{ padding: '12px 16px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder={t('profiles.namePlaceholder')}
+                autoFocus
+                style={{ padding: '8px', border: '1px solid #ddd', borderRadius: '6px', fontSize: '14px' }}
+              />
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                {PROFILE_ICONS.map(icon => (
+                  <button
+                    key={icon}
+                    onClick={() => setEditing({ ...editing, icon })}
+                    style={{
+                      fontSize: '18px',
+                      padding: '4px',
+                      border: editing.icon === icon ? '2px solid #3498db' : '2px solid transparent',
+                      borderRadius: '6px',
+                      background: 'none',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+              <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                <button
+                  onClick={() => setEditing(null)}
+                  style={{ padding: '6px 12px', border: '1px solid #ddd', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+                >
+                  {t('profiles.cancel')}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!editing.name.trim()}
+                  style={{ padding: '6px 12px', border: 'none', borderRadius: '6px', background: '#3498db', color: 'white', cursor: 'pointer' }}
+                >
+                  {t('profiles.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setEditing({ id: null, name: '', icon: PROFILE_ICONS[1] })}
+              style={{
+                width: '100%',
+                textAlign: 'left',
+                padding: '10px 16px',
+                backgroundColor: 'white',
+                color: '#3498db',
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: '14px',
+                fontWeight: '600'
+              }}
+            >
+              {t('profiles.add')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { PDFFileRecord } from '../../utils/indexedDB'
+import { getPDFPageCount, downloadAnnotatedPDF } from '../../services/annotatedPdfExport'
+
+interface ExportPDFDialogProps {
+  pdfRecord: PDFFileRecord
+  initialPage?: number // 学習画面から開いたときは開いているページ
+  onClose: () => void
+}
+
+// ペン跡・テキスト・○✕を書き込んだPDFの書き出し（先生・学校に提出する用）
+const ExportPDFDialog = ({ pdfRecord, initialPage, onClose }: ExportPDFDialogProps) => {
+  const { t } = useTranslation()
+  const [pageCount, setPageCount] = useState<number | null>(null)
+  const [allPages, setAllPages] = useState(initialPage === undefined)
+  const [fromPage, setFromPage] = useState(String(initialPage ?? 1))
+  const [toPage, setToPage] = useState(String(initialPage ?? 1))
+  const [includeMarks, setIncludeMarks] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    getPDFPageCount(pdfRecord.id)
+      .then(count => {
+        setPageCount(count)
+        if (initialPage === undefined) {
+          setToPage(String(count))
+        }
+      })
+      .catch(error => {
+        console.error('PDFの読み込みに失敗:', error)
+        setErrorMessage(t('exportPdf.loadError'))
+      })
+  }, [pdfRecord.id, initialPage, t])
+
+  const from = allPages ? 1 : parseInt(fromPage, 10)
+  const to = allPages ? pageCount ?? 1 : parseInt(toPage, 10)
+  const isRangeValid = pageCount !== null && from >= 1 && to >= from && to <= pageCount
+
+  const handleExport = async () => {
+    if (!isRangeValid) return
+    setExporting(true)
+    setErrorMessage(null)
+    try {
+      await downloadAnnotatedPDF(pdfRecord.id, pdfRecord.fileName, { fromPage: from, toPage: to, includeMarks })
+      onClose()
+    } catch (error) {
+      console.error('PDFの書き出しに失敗:', error)
+      setErrorMessage(t('exportPdf.exportError'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const inputStyle = { width: '64px', padding: '6px', border: '1px solid #ddd', borderRadius: '6px', fontSize: '14px' }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10020
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !exporting) onClose()
+      }}
+    >
+      <div style={{ backgroundColor: 'white', borderRadius: '12px', padding: '24px', width: '90%', maxWidth: '400px' }}>
+        <h3 style={{ margin: '0 0 4px', color: '#2c3e50' }}>{t('exportPdf.title')}</h3>
+        <div style={{ fontSize: '13px', color: '#7f8c8d', marginBottom: '16px', wordBreak: 'break-all' }}>
+          {pdfRecord.fileName}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', fontSize: '14px', color: '#2c3e50' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+            <input type="radio" checked={allPages} onChange={() => setAllPages(true)} />
+            {pageCount !== null ? t('exportPdf.allPages', { count: pageCount }) : t('exportPdf.allPagesLoading')}
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+            <input type="radio" checked={!allPages} onChange={() => setAllPages(false)} />
+            {t('exportPdf.pageRange')}
+            <input
+              type="number"
+              min={1}
+              max={pageCount ?? undefined}
+              value={fromPage}
+              disabled={allPages}
+              onChange={(e) => setFromPage(e.target.value)}
+              style={inputStyle}
+            />
+            〜
+            <input
+              type="number"
+              min={1}
+              max={pageCount ?? undefined}
+              value={toPage}
+              disabled={allPages}
+              onChange={(e) => setToPage(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+            <input type="checkbox" checked={includeMarks} onChange={(e) => setIncludeMarks(e.target.checked)} />
+            {t('exportPdf.includeMarks')}
+          </label>
+          <div style={{ fontSize: '12px', color: '#95a5a6', lineHeight: '1.5' }}>
+            {t('exportPdf.description')}
+          </div>
+        </div>
+
+        {errorMessage && (
+          <div style={{ fontSize: '13px', color: '#e74c3c', marginTop: '12px' }}>{errorMessage}</div>
+        )}
+        {!allPages && pageCount !== null && !isRangeValid && (
+          <div style={{ fontSize: '13px', color: '#e74c3c', marginTop: '12px' }}>
+            {t('exportPdf.invalidRange', { count: pageCount })}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '20px' }}>
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            style={{ padding: '8px 16px', border: '1px solid #ddd', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+          >
+            {t('exportPdf.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!isRangeValid || exporting}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '6px',
+              background: '#3498db',
+              color: 'white',
+              fontWeight: 'bold',
+              cursor: !isRangeValid || exporting ? 'not-allowed' : 'pointer',
+              opacity: !isRangeValid || exporting ? 0.6 : 1
+            }}
+          >
+            {exporting ? t('exportPdf.exporting') : t('exportPdf.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExportPDFDialog
@@ -1,11 +1,13 @@
 import React from 'react';
 import './Legal.css';
+import { useEntitlement } from '../../contexts/EntitlementContext';
 
 interface AboutProps {
     onClose: () => void;
 }
 
 const About: React.FC<AboutProps> = ({ onClose }) => {
+    const { isPremium } = useEntitlement();
     return (
         <div className="legal-modal-overlay" onClick={onClose}>
             <div className="legal-modal" onClick={(e) => e.stopPropagation()}>
@@ -78,7 +80,7 @@ const About: React.FC<AboutProps> = ({ onClose }) => {
                     <div style={{ marginTop: '20px', padding: '10px', background: '#f5f5f5', borderRadius: '4px', fontSize: '0.8rem' }}>
                         <p><strong>Debug Info:</strong></p>
                         <p style={{ wordBreak: 'break-all' }}>URL: {window.location.href}</p>
-                        <p>Premium: {localStorage.getItem('userSettings') && JSON.parse(localStorage.getItem('userSettings') || '{}').isPremium ? 'YES' : 'NO'}</p>
+                        <p>Premium: {isPremium ? 'YES' : 'NO'}</p>
                     </div>
 
                     <h3>謝辞</h3>
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { hasParentPin, isValidParentPin, setParentPin, verifyParentPin } from '../../services/parentLock';
+
+const inputStyle: React.CSSProperties = { width: '120px', padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px', textAlign: 'center' };
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '13px', color: '#374151', padding: '6px 0' };
+
+// 保護者の暗証番号（採点結果の修正・AIでの再採点に使う。端末ごとの設定）
+export const ParentPinSettings: React.FC = () => {
+    const { t } = useTranslation();
+    const [hasPin, setHasPin] = useState(false);
+    const [currentPin, setCurrentPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        hasParentPin()
+            .then(setHasPin)
+            .catch(error => console.error('暗証番号の設定の読み込みに失敗:', error));
+    }, []);
+
+    const handleSave = async () => {
+        if (!isValidParentPin(newPin)) {
+            alert(t('parentPin.invalid'));
+            return;
+        }
+
+        try {
+            setIsSaving(true);
+            // 変更するときは、いまの暗証番号を確かめる
+            if (hasPin && !(await verifyParentPin(currentPin))) {
+                alert(t('parentPin.wrong'));
+                return;
+            }
+            await setParentPin(newPin);
+            setHasPin(true);
+            setCurrentPin('');
+            setNewPin('');
+            setSaved(true);
+        } catch (error) {
+            console.error('暗証番号の保存に失敗:', error);
+            alert(t('parentPin.saveError'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div style={{ width: '100%', borderRadius: '12px', padding: '16px 20px', marginBottom: '32px', border: '1px solid #f3f4f6' }}>
+            <span style={{ fontWeight: '700', color: '#1f2937', fontSize: '15px' }}>🔒 {t('parentPin.title')}</span>
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: '8px 0 0', lineHeight: '1.5' }}>{t('parentPin.description')}</p>
+
+            <div style={{ marginTop: '12px' }}>
+                {hasPin && (
+                    <div style={rowStyle}>
+                        <span>{t('parentPin.current')}</span>
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="off"
+                            value={currentPin}
+                            onChange={(e) => { setCurrentPin(e.target.value); setSaved(false); }}
+                            style={inputStyle}
+                        />
+                    </div>
+                )}
+                <div style={rowStyle}>
+                    <span>{hasPin ? t('parentPin.new') : t('parentPin.pin')}</span>
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        value={newPin}
+                        onChange={(e) => { setNewPin(e.target.value); setSaved(false); }}
+                        style={inputStyle}
+                    />
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '12px', marginTop: '12px' }}>
+                {saved && <span style={{ fontSize: '12px', color: '#059669' }}>{t('parentPin.saved')}</span>}
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    style={{ padding: '6px 16px', borderRadius: '8px', border: 'none', backgroundColor: '#10b981', color: 'white', fontSize: '13px', fontWeight: '700', cursor: isSaving ? 'not-allowed' : 'pointer', opacity: isSaving ? 0.5 : 1 }}
+                >
+                    {isSaving ? t('parentSettings.processing') : hasPin ? t('parentPin.change') : t('parentPin.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,13 +1,31 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
+import { useEntitlement } from '../../contexts/EntitlementContext';
 import { auth } from '../../lib/firebase'; // needed to get the token
+import { useCloudSync } from '../../hooks/admin/useCloudSync';
+import { RewardRulesSettings } from './RewardRulesSettings';
+import { SNSScheduleSettings } from './SNSScheduleSettings';
+import { ParentPinSettings } from './ParentPinSettings';
 
-export const ParentSettings: React.FC = () => {
+interface ParentSettingsProps {
+    cloudSync: ReturnType<typeof useCloudSync>;
+}
+
+export const ParentSettings: React.FC<ParentSettingsProps> = ({ cloudSync }) => {
     const { t } = useTranslation();
     const { user, userData, loading, signInWithGoogle, logout } = useAuth();
     const [isUpdating, setIsUpdating] = useState(false);
     const [minutes, setMinutes] = useState(userData?.snsRewardMinutes || 60);
+    const { isPremium, entitlement, refresh, redeemPromoCode } = useEntitlement();
+    const [promoCode, setPromoCode] = useState('');
+    const [isRedeeming, setIsRedeeming] = useState(false);
+    const [promoMessage, setPromoMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // 決済から戻ってきたときなどに、最新の権利を取り直す
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
 
     if (loading) return <div style={{ padding: '40px', textAlign: 'center', color: '#7f8c8d' }}>{t('parentSettings.processing')}</div>;
 
@@ -66,6 +84,22 @@ export const ParentSettings: React.FC = () => {
         }
     };
 
+    const handleRedeemPromoCode = async () => {
+        const code = promoCode.trim().toUpperCase();
+        if (!code) return;
+        setIsRedeeming(true);
+        setPromoMessage(null);
+        const error = await redeemPromoCode(code);
+        setIsRedeeming(false);
+        if (error) {
+            const key = ['invalid', 'expired', 'already-redeemed', 'used-up'].includes(error) ? error : 'failed';
+            setPromoMessage({ type: 'error', text: t(`parentSettings.promoError.${key}`) });
+        } else {
+            setPromoCode('');
+            setPromoMessage({ type: 'success', text: t('parentSettings.promoRedeemed') });
+        }
+    };
+
     const handleUpdateMinutes = async () => {
         try {
             setIsUpdating(true);
@@ -117,11 +151,18 @@ export const ParentSettings: React.FC = () => {
                 </div>
                 <div style={{ textAlign: 'right' }}>
                     <p style={{ fontSize: '12px', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: '700', marginBottom: '4px' }}>{t('parentSettings.currentPlan')}</p>
-                    {userData.isPremium ? (
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#059669', backgroundColor: '#ecfdf5', padding: '4px 12px', borderRadius: '9999px', border: '1px solid #d1fae5' }}>
-                            <span style={{ fontSize: '14px' }}>👑</span>
-                            <span style={{ fontWeight: '700', fontSize: '14px' }}>{t('parentSettings.premium')}</span>
-                        </div>
+                    {isPremium ? (
+                        <>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#059669', backgroundColor: '#ecfdf5', padding: '4px 12px', borderRadius: '9999px', border: '1px solid #d1fae5' }}>
+                                <span style={{ fontSize: '14px' }}>👑</span>
+                                <span style={{ fontWeight: '700', fontSize: '14px' }}>{t('parentSettings.premium')}</span>
+                            </div>
+                            {entitlement?.source === 'promo' && entitlement.premiumUntil && (
+                                <p style={{ fontSize: '11px', color: '#6b7280', margin: '4px 0 0' }}>
+                                    {t('parentSettings.premiumUntil', { date: new Date(entitlement.premiumUntil).toLocaleDateString() })}
+                                </p>
+                            )}
+                        </>
                     ) : (
                         <div style={{ display: 'inline-block', color: '#6b7280', backgroundColor: '#f3f4f6', padding: '4px 12px', borderRadius: '9999px', border: '1px solid #e5e7eb' }}>
                             <span style={{ fontWeight: '700', fontSize: '14px' }}>{t('parentSettings.free')}</span>
@@ -130,8 +171,53 @@ export const ParentSettings: React.FC = () => {
                 </div>
             </div>
 
+            {/* Reward Rules */}
+            <RewardRulesSettings />
+
+            {/* SNS Schedule */}
+            <SNSScheduleSettings />
+
+            {/* Parent PIN */}
+            <ParentPinSettings />
+
+            {/* Cloud Sync */}
+            <div style={{ width: '100%', borderRadius: '12px', padding: '16px 20px', marginBottom: '32px', border: '1px solid #f3f4f6' }}>
+                <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', cursor: 'pointer' }}>
+                    <span style={{ fontWeight: '700', color: '#1f2937', fontSize: '15px' }}>☁️ {t('cloudSync.title')}</span>
+                    <input
+                        type="checkbox"
+                        checked={cloudSync.enabled}
+                        disabled={cloudSync.isSyncing}
+                        onChange={(e) => cloudSync.toggleEnabled(e.target.checked)}
+                        style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+                    />
+                </label>
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: '8px 0 0', lineHeight: '1.5' }}>{t('cloudSync.description')}</p>
+                {cloudSync.enabled && (
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', marginTop: '12px' }}>
+                        <span style={{ fontSize: '12px', color: '#6b7280' }}>
+                            {cloudSync.isSyncing
+                                ? t('cloudSync.syncing')
+                                : cloudSync.lastSyncedAt
+                                    ? t('cloudSync.lastSynced', { date: new Date(cloudSync.lastSyncedAt).toLocaleString() })
+                                    : t('cloudSync.neverSynced')}
+                        </span>
+                        <button
+                            onClick={cloudSync.runSync}
+                            disabled={cloudSync.isSyncing}
+                            style={{ padding: '6px 12px', borderRadius: '8px', border: '1px solid #d1d5db', backgroundColor: 'white', color: '#374151', fontSize: '13px', fontWeight: '600', cursor: cloudSync.isSyncing ? 'not-allowed' : 'pointer', opacity: cloudSync.isSyncing ? 0.5 : 1 }}
+                        >
+                            {t('cloudSync.syncNow')}
+                        </button>
+                    </div>
+                )}
+                {cloudSync.syncError && (
+                    <p style={{ fontSize: '12px', color: '#dc2626', margin: '8px 0 0' }}>{t('cloudSync.error', { error: cloudSync.syncError })}</p>
+                )}
+            </div>
+
             {/* Premium Benefits & CTA */}
-            {!userData.isPremium ? (
+            {!isPremium ? (
                 <div style={{ width: '100%' }}>
                     <div style={{ background: 'linear-gradient(to bottom right, #fffbeb, #fff7ed)', borderRadius: '16px', padding: '24px', border: '1px solid #fef3c7', marginBottom: '24px', position: 'relative', overflow: 'hidden' }}>
                         <div style={{ position: 'absolute', top: 0, right: 0, marginTop: '-16px', marginRight: '-16px', color: '#f59e0b', opacity: 0.1 }}>
@@ -189,13 +275,43 @@ export const ParentSettings: React.FC = () => {
                         <p style={{ margin: 0 }}>{t('parentSettings.snsHint')}</p>
                     </div>
 
-                    <button
-                        onClick={handleManageSubscription}
-                        disabled={isUpdating}
-                        style={{ width: '100%', padding: '12px', borderRadius: '8px', border: '1px solid #d1d5db', backgroundColor: 'white', color: '#374151', fontSize: '14px', fontWeight: '600', cursor: isUpdating ? 'not-allowed' : 'pointer', opacity: isUpdating ? 0.5 : 1 }}
-                    >
-                        {isUpdating ? t('parentSettings.processing') : t('parentSettings.managePlan')}
-                    </button>
+                    {entitlement?.source === 'stripe' && (
+                        <button
+                            onClick={handleManageSubscription}
+                            disabled={isUpdating}
+                            style={{ width: '100%', padding: '12px', borderRadius: '8px', border: '1px solid #d1d5db', backgroundColor: 'white', color: '#374151', fontSize: '14px', fontWeight: '600', cursor: isUpdating ? 'not-allowed' : 'pointer', opacity: isUpdating ? 0.5 : 1 }}
+                        >
+                            {isUpdating ? t('parentSettings.processing') : t('parentSettings.managePlan')}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Promo Code */}
+            {entitlement?.source !== 'stripe' && (
+                <div style={{ width: '100%', borderRadius: '12px', padding: '16px 20px', marginTop: '16px', border: '1px solid #f3f4f6' }}>
+                    <p style={{ fontWeight: '700', color: '#1f2937', fontSize: '15px', margin: 0 }}>🎟️ {t('parentSettings.promoTitle')}</p>
+                    <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                        <input
+                            type="text"
+                            value={promoCode}
+                            onChange={(e) => setPromoCode(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleRedeemPromoCode(); }}
+                            placeholder={t('parentSettings.promoPlaceholder')}
+                            disabled={isRedeeming}
+                            style={{ flex: 1, padding: '8px 12px', borderRadius: '8px', border: '1px solid #d1d5db', fontSize: '14px', textTransform: 'uppercase' }}
+                        />
+                        <button
+                            onClick={handleRedeemPromoCode}
+                            disabled={isRedeeming || !promoCode.trim()}
+                            style={{ padding: '8px 16px', borderRadius: '8px', border: 'none', backgroundColor: '#f59e0b', color: 'white', fontSize: '14px', fontWeight: '700', cursor: isRedeeming || !promoCode.trim() ? 'not-allowed' : 'pointer', opacity: isRedeeming || !promoCode.trim() ? 0.5 : 1 }}
+                        >
+                            {isRedeeming ? t('parentSettings.processing') : t('parentSettings.promoRedeem')}
+                        </button>
+                    </div>
+                    {promoMessage && (
+                        <p style={{ fontSize: '12px', color: promoMessage.type === 'error' ? '#dc2626' : '#059669', margin: '8px 0 0' }}>{promoMessage.text}</p>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useProfile } from '../../contexts/ProfileContext';
+import { GradingHistoryRecord } from '../../utils/indexedDB';
+import { DEFAULT_REWARD_RULES, RewardRules, evaluateRewardRules, getTodayGradingHistory } from '../../services/rewardRules';
+
+const inputStyle: React.CSSProperties = { width: '64px', padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px', textAlign: 'center' };
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '13px', color: '#374151', padding: '6px 0' };
+
+// ごほうび（SNS利用時間）のルール（選択中のプロフィールごと）。今日の採点履歴でのプレビュー付き
+export const RewardRulesSettings: React.FC = () => {
+    const { t } = useTranslation();
+    const { activeProfile, updateProfile } = useProfile();
+    const [rules, setRules] = useState<RewardRules>(activeProfile?.rewardRules || DEFAULT_REWARD_RULES);
+    const [todayRecords, setTodayRecords] = useState<GradingHistoryRecord[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        setRules(activeProfile?.rewardRules || DEFAULT_REWARD_RULES);
+        getTodayGradingHistory()
+            .then(setTodayRecords)
+            .catch(error => console.error('今日の採点履歴の読み込みに失敗:', error));
+    }, [activeProfile?.id]);
+
+    if (!activeProfile) return null;
+
+    const update = (changes: Partial<RewardRules>) => {
+        setRules(prev => ({ ...prev, ...changes }));
+        setSaved(false);
+    };
+
+    const numberInput = (key: keyof RewardRules, min: number, max: number) => (
+        <input
+            type="number"
+            min={min}
+            max={max}
+            value={rules[key] as number}
+            disabled={!rules.enabled}
+            onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                update({ [key]: isNaN(value) ? min : Math.min(Math.max(value, min), max) });
+            }}
+            style={inputStyle}
+        />
+    );
+
+    const handleSave = async () => {
+        try {
+            setIsSaving(true);
+            await updateProfile({ ...activeProfile, rewardRules: rules });
+            setSaved(true);
+        } catch (error) {
+            console.error('ごほうびのルールの保存に失敗:', error);
+            alert(t('rewardRules.saveError'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const preview = evaluateRewardRules(rules, todayRecords);
+
+    return (
+        <div style={{ width: '100%', borderRadius: '12px', padding: '16px 20px', marginBottom: '32px', border: '1px solid #f3f4f6' }}>
+            <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', cursor: 'pointer' }}>
+                <span style={{ fontWeight: '700', color: '#1f2937', fontSize: '15px' }}>
+                    🎁 {t('rewardRules.title', { name: activeProfile.name || t('profiles.defaultName') })}
+                </span>
+                <input
+                    type="checkbox"
+                    checked={rules.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                    style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+                />
+            </label>
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: '8px 0 0', lineHeight: '1.5' }}>{t('rewardRules.description')}</p>
+
+            <div style={{ marginTop: '12px', opacity: rules.enabled ? 1 : 0.5 }}>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.baseMinutes')}</span>
+                    <span>{numberInput('baseMinutes', 0, 120)} {t('rewardRules.minutes')}</span>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.perCorrect')}</span>
+                    <span>
+                        {numberInput('perCorrectCount', 1, 100)} {t('rewardRules.problems')} → {numberInput('perCorrectMinutes', 0, 120)} {t('rewardRules.minutes')}
+                    </span>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.perfectPageBonus')}</span>
+                    <span>{numberInput('perfectPageBonusMinutes', 0, 120)} {t('rewardRules.minutes')}</span>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.minAccuracy')}</span>
+                    <span>{numberInput('minAccuracyPercent', 0, 100)} %</span>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.weekendMultiplier')}</span>
+                    <select
+                        value={rules.weekendMultiplier}
+                        disabled={!rules.enabled}
+                        onChange={(e) => update({ weekendMultiplier: parseFloat(e.target.value) })}
+                        style={{ padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px' }}
+                    >
+                        {[1, 1.5, 2, 3].map(value => (
+                            <option key={value} value={value}>{value === 1 ? t('rewardRules.off') : `×${value}`}</option>
+                        ))}
+                    </select>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.hintedCorrect')}</span>
+                    <select
+                        value={rules.hintedCorrectWeight}
+                        disabled={!rules.enabled}
+                        onChange={(e) => update({ hintedCorrectWeight: parseFloat(e.target.value) })}
+                        style={{ padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px' }}
+                    >
+                        <option value={1}>{t('rewardRules.hintedFull')}</option>
+                        <option value={0.5}>{t('rewardRules.hintedHalf')}</option>
+                        <option value={0}>{t('rewardRules.hintedNone')}</option>
+                    </select>
+                </div>
+                <div style={rowStyle}>
+                    <span>{t('rewardRules.maxPerDay')}</span>
+                    <span>{numberInput('maxMinutesPerDay', 0, 240)} {t('rewardRules.minutes')}</span>
+                </div>
+            </div>
+
+            {rules.enabled && (
+                <div style={{ marginTop: '12px', padding: '10px 12px', borderRadius: '8px', backgroundColor: '#f0fdf4', border: '1px solid #bbf7d0', fontSize: '13px', color: '#166534' }}>
+                    <div style={{ fontWeight: '700' }}>{t('rewardRules.previewTitle', { minutes: preview.minutes })}</div>
+                    <div style={{ marginTop: '4px', color: '#4b5563' }}>
+                        {preview.problemCount === 0
+                            ? t('rewardRules.previewEmpty')
+                            : t('rewardRules.previewStats', { correct: preview.correctCount, total: preview.problemCount, accuracy: preview.accuracyPercent, hinted: preview.hintedCorrectCount })}
+                    </div>
+                    {preview.lines.length > 0 && (
+                        <div style={{ marginTop: '4px', color: '#4b5563' }}>
+                            {preview.lines.map(line => t(`rewardRules.line.${line.rule}`, { minutes: line.minutes })).join(' / ')}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '12px', marginTop: '12px' }}>
+                {saved && <span style={{ fontSize: '12px', color: '#059669' }}>{t('rewardRules.saved')}</span>}
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    style={{ padding: '6px 16px', borderRadius: '8px', border: 'none', backgroundColor: '#10b981', color: 'white', fontSize: '13px', fontWeight: '700', cursor: isSaving ? 'not-allowed' : 'pointer', opacity: isSaving ? 0.5 : 1 }}
+                >
+                    {isSaving ? t('parentSettings.processing') : t('rewardRules.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
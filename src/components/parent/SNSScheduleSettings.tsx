@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SNSDaySchedule, SNSLinkRecord, getAllSNSLinks, getAppSettings, saveAppSettings, saveSNSLink } from '../../utils/indexedDB';
+import { DEFAULT_SNS_SCHEDULE, SNSAccess, SNSSchedule, checkSNSAccess, formatReopensAt } from '../../services/snsSchedule';
+
+const inputStyle: React.CSSProperties = { width: '64px', padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px', textAlign: 'center' };
+const timeStyle: React.CSSProperties = { padding: '4px 6px', borderRadius: '6px', border: '1px solid #d1d5db', fontSize: '14px' };
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '13px', color: '#374151', padding: '6px 0' };
+
+// 日曜日から土曜日
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// SNSを使える時間帯・1日の上限・SNSごとの上限（端末ごとの設定。manage.html もこの設定で判定する）
+export const SNSScheduleSettings: React.FC = () => {
+    const { t } = useTranslation();
+    const [schedule, setSchedule] = useState<SNSSchedule>(DEFAULT_SNS_SCHEDULE);
+    const [links, setLinks] = useState<SNSLinkRecord[]>([]);
+    const [access, setAccess] = useState<SNSAccess | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    const refreshAccess = () => {
+        checkSNSAccess()
+            .then(setAccess)
+            .catch(error => console.error('SNSを使えるかの確認に失敗:', error));
+    };
+
+    useEffect(() => {
+        getAppSettings()
+            .then(settings => setSchedule(settings.snsSchedule || DEFAULT_SNS_SCHEDULE))
+            .catch(error => console.error('SNSの時間帯の読み込みに失敗:', error));
+        getAllSNSLinks()
+            .then(setLinks)
+            .catch(error => console.error('SNSリンクの読み込みに失敗:', error));
+        refreshAccess();
+    }, []);
+
+    const update = (changes: Partial<SNSSchedule>) => {
+        setSchedule(prev => ({ ...prev, ...changes }));
+        setSaved(false);
+    };
+
+    const updateDay = (index: number, changes: Partial<SNSDaySchedule>) => {
+        update({ days: schedule.days.map((day, i) => (i === index ? { ...day, ...changes } : day)) });
+    };
+
+    const updateLink = (id: string, changes: Partial<SNSLinkRecord>) => {
+        setLinks(prev => prev.map(link => (link.id === id ? { ...link, ...changes } : link)));
+        setSaved(false);
+    };
+
+    const handleSave = async () => {
+        // 終わりが始まりより前の曜日は保存しない
+        const invalidDay = schedule.days.findIndex(day => day.allowed && day.start >= day.end);
+        if (schedule.enabled && invalidDay >= 0) {
+            alert(t('snsSchedule.invalidWindow', { day: t(`snsSchedule.days.${DAY_KEYS[invalidDay]}`) }));
+            return;
+        }
+
+        try {
+            setIsSaving(true);
+            const settings = await getAppSettings();
+            await saveAppSettings({ ...settings, snsSchedule: schedule });
+            await Promise.all(links.map(link => saveSNSLink(link)));
+            setSaved(true);
+            refreshAccess();
+        } catch (error) {
+            console.error('SNSの時間帯の保存に失敗:', error);
+            alert(t('snsSchedule.saveError'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div style={{ width: '100%', borderRadius: '12px', padding: '16px 20px', marginBottom: '32px', border: '1px solid #f3f4f6' }}>
+            <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', cursor: 'pointer' }}>
+                <span style={{ fontWeight: '700', color: '#1f2937', fontSize: '15px' }}>🕒 {t('snsSchedule.title')}</span>
+                <input
+                    type="checkbox"
+                    checked={schedule.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                    style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+                />
+            </label>
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: '8px 0 0', lineHeight: '1.5' }}>{t('snsSchedule.description')}</p>
+
+            {access && (
+                <div style={{
+                    marginTop: '12px',
+                    padding: '8px 12px',
+                    borderRadius: '8px',
+                    fontSize: '13px',
+                    backgroundColor: access.allowed ? '#f0fdf4' : '#fef2f2',
+                    border: `1px solid ${access.allowed ? '#bbf7d0' : '#fecaca'}`,
+                    color: access.allowed ? '#166534' : '#991b1b'
+                }}>
+                    {access.allowed
+                        ? access.remainingMinutes === null
+                            ? t('snsSchedule.status.open')
+                            : t('snsSchedule.status.openFor', { minutes: access.remainingMinutes })
+                        : t(`snsSchedule.status.${access.reason}`, { time: access.reopensAt ? formatReopensAt(access.reopensAt) : t('snsSchedule.reopenUnknown') })}
+                </div>
+            )}
+
+            <div style={{ marginTop: '12px', opacity: schedule.enabled ? 1 : 0.5 }}>
+                {schedule.days.map((day, index) => (
+                    <div key={DAY_KEYS[index]} style={rowStyle}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+                            <input
+                                type="checkbox"
+                                checked={day.allowed}
+                                disabled={!schedule.enabled}
+                                onChange={(e) => updateDay(index, { allowed: e.target.checked })}
+                            />
+                            {t(`snsSchedule.days.${DAY_KEYS[index]}`)}
+                        </label>
+                        {day.allowed ? (
+                            <span>
+                                <input
+                                    type="time"
+                                    value={day.start}
+                                    disabled={!schedule.enabled}
+                                    onChange={(e) => updateDay(index, { start: e.target.value })}
+                                    style={timeStyle}
+                                />
+                                {' – '}
+                                <input
+                                    type="time"
+                                    value={day.end}
+                                    disabled={!schedule.enabled}
+                                    onChange={(e) => updateDay(index, { end: e.target.value })}
+                                    style={timeStyle}
+                                />
+                            </span>
+                        ) : (
+                            <span style={{ color: '#9ca3af' }}>{t('snsSchedule.closed')}</span>
+                        )}
+                    </div>
+                ))}
+                <div style={rowStyle}>
+                    <span>{t('snsSchedule.dailyCap')}</span>
+                    <span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={600}
+                            value={schedule.dailyCapMinutes}
+                            disabled={!schedule.enabled}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value, 10);
+                                update({ dailyCapMinutes: isNaN(value) ? 0 : Math.min(Math.max(value, 0), 600) });
+                            }}
+                            style={inputStyle}
+                        />
+                        {' '}{t('rewardRules.minutes')}
+                    </span>
+                </div>
+            </div>
+
+            {links.length > 0 && (
+                <div style={{ marginTop: '12px', borderTop: '1px solid #f3f4f6', paddingTop: '8px' }}>
+                    <div style={{ fontSize: '13px', fontWeight: '700', color: '#1f2937' }}>{t('snsSchedule.perSNS')}</div>
+                    <p style={{ fontSize: '12px', color: '#6b7280', margin: '4px 0 0', lineHeight: '1.5' }}>{t('snsSchedule.perSNSDescription')}</p>
+                    {links.map(link => (
+                        <div key={link.id} style={rowStyle}>
+                            <span>{link.icon} {link.name}</span>
+                            <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={240}
+                                    placeholder="-"
+                                    value={link.timeLimitMinutes ?? ''}
+                                    disabled={link.unlimited}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value, 10);
+                                        updateLink(link.id, { timeLimitMinutes: isNaN(value) || value <= 0 ? undefined : Math.min(value, 240) });
+                                    }}
+                                    style={inputStyle}
+                                />
+                                {t('rewardRules.minutes')}
+                                <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={!!link.unlimited}
+                                        onChange={(e) => updateLink(link.id, { unlimited: e.target.checked })}
+                                    />
+                                    {t('snsSchedule.unlimited')}
+                                </label>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '12px', marginTop: '12px' }}>
+                {saved && <span style={{ fontSize: '12px', color: '#059669' }}>{t('snsSchedule.saved')}</span>}
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    style={{ padding: '6px 16px', borderRadius: '8px', border: 'none', backgroundColor: '#10b981', color: 'white', fontSize: '13px', fontWeight: '700', cursor: isSaving ? 'not-allowed' : 'pointer', opacity: isSaving ? 0.5 : 1 }}
+                >
+                    {isSaving ? t('parentSettings.processing') : t('snsSchedule.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { GradingOutboxRecord } from '../../utils/indexedDB'
+
+interface GradingOutboxIndicatorProps {
+  items: GradingOutboxRecord[]
+  onDiscard: (id: string) => void
+}
+
+// オフラインで採点できなかった範囲（採点待ち）の表示
+const GradingOutboxIndicator = ({ items, onDiscard }: GradingOutboxIndicatorProps) => {
+  const { t } = useTranslation()
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (items.length === 0) return null
+
+  const pendingCount = items.filter(item => item.status === 'pending').length
+  const failedCount = items.length - pendingCount
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '16px',
+        bottom: '16px',
+        zIndex: 10010,
+        maxWidth: '320px',
+        background: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+        fontSize: '14px',
+        overflow: 'hidden'
+      }}
+    >
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        style={{
+          width: '100%',
+          padding: '10px 14px',
+          border: 'none',
+          background: failedCount > 0 ? '#fdecea' : '#fff8e1',
+          color: failedCount > 0 ? '#c0392b' : '#8a6d00',
+          fontWeight: 'bold',
+          textAlign: 'left',
+          cursor: 'pointer'
+        }}
+      >
+        {pendingCount > 0 && <span>⏳ {t('gradingOutbox.pending', { count: pendingCount })}</span>}
+        {pendingCount > 0 && failedCount > 0 && <span> / </span>}
+        {failedCount > 0 && <span>⚠️ {t('gradingOutbox.failed', { count: failedCount })}</span>}
+      </button>
+
+      {isOpen && (
+        <div style={{ maxHeight: '240px', overflowY: 'auto', padding: '8px 14px' }}>
+          {pendingCount > 0 && (
+            <p style={{ margin: '0 0 8px', fontSize: '12px', color: '#7f8c8d' }}>
+              {t('gradingOutbox.description')}
+            </p>
+          )}
+          {items.map(item => (
+            <div
+              key={item.id}
+              style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 0', borderTop: '1px solid #f0f0f0' }}
+            >
+              <img
+                src={item.imageData}
+                alt=""
+                style={{ width: '48px', height: '48px', objectFit: 'cover', borderRadius: '6px', border: '1px solid #ddd' }}
+              />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div>{t('gradingOutbox.page', { page: item.pageNumber })}</div>
+                <div style={{ fontSize: '12px', color: item.status === 'failed' ? '#c0392b' : '#7f8c8d' }}>
+                  {item.status === 'failed'
+                    ? t('gradingOutbox.failedItem', { error: item.lastError || '' })
+                    : item.attempts > 0
+                      ? t('gradingOutbox.retrying', { count: item.attempts })
+                      : t('gradingOutbox.waiting')}
+                </div>
+              </div>
+              <button
+                onClick={() => onDiscard(item.id)}
+                title={t('gradingOutbox.discard')}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
+              >
+                🗑️
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default GradingOutboxIndicator
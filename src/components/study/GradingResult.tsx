@@ -1,21 +1,35 @@
 import { useState, useRef, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
-import { GradingResponseResult } from '../../services/api'
+import { GradingResponseResult, ModelInfo } from '../../services/api'
 import { SNSLinkRecord } from '../../utils/indexedDB'
 import { getSNSIcon } from '../../constants/sns'
+import { createManageTicket } from '../../services/snsLedger'
+import { checkSNSAccess, formatReopensAt } from '../../services/snsSchedule'
+import { RewardBreakdownLine } from '../../services/rewardRules'
+import TutorChat from './TutorChat'
 import './GradingResult.css'
 
 interface GradingResultProps {
   result: GradingResponseResult | null
   onClose: () => void
   snsLinks?: SNSLinkRecord[]
-  timeLimitMinutes?: number // SNS利用時間制限（分）
+  rewardBalanceMinutes?: number | null // SNSに使える残り時間（ログインしていないときは null）
+  earnedMinutes?: number | null // この採点でもらえた時間
+  rewardLines?: RewardBreakdownLine[] // もらえた時間の内訳（ごほうびのルールを使っているとき）
   modelName?: string | null
   responseTime?: number | null
   pdfId?: string // SNS終了後に戻るドリルのID
+  isStreaming?: boolean // 採点中（問題が順に追加されていく）
+  availableModels?: ModelInfo[] // 再採点で選べるモデル
+  onOverride?: (index: number, isCorrect: boolean) => void // 保護者による判定の修正（index は result.problems の位置）
+  onRegrade?: (index: number, model: string) => void // 別モデルで1問だけ採点し直す
+  regradingIndex?: number | null // 再採点中の問題
+  onCreateSimilar?: (index: number) => void // まちがえた問題から類題ドリルを作る
+  creatingSimilarIndex?: number | null // 類題ドリルを作成中の問題
+  tutorModel?: string // 解説チャットに使うモデル
 }
 
-const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30, modelName, responseTime, pdfId }: GradingResultProps) => {
+const GradingResult = ({ result, onClose, snsLinks = [], rewardBalanceMinutes = null, earnedMinutes = null, rewardLines = [], modelName, responseTime, pdfId, isStreaming = false, availableModels = [], onOverride, onRegrade, regradingIndex = null, onCreateSimilar, creatingSimilarIndex = null, tutorModel }: GradingResultProps) => {
   const { t } = useTranslation()
   if (!result) return null
 
@@ -25,6 +39,10 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
   const dragStartPos = useRef({ x: 0, y: 0 })
   const panelRef = useRef<HTMLDivElement>(null)
   const overlayRef = useRef<HTMLDivElement>(null)
+  const [regradeModel, setRegradeModel] = useState('default')
+  const [chatIndex, setChatIndex] = useState<number | null>(null) // 解説チャットを開いている問題
+  const [openingSNS, setOpeningSNS] = useState(false)
+  const [snsMessage, setSnsMessage] = useState<string | null>(null)
 
   // Null要素をフィルタリングした有効な問題のみを取得
   const validProblems = result.problems?.filter(problem =>
@@ -149,7 +167,42 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
   }, [isDragging])
 
   // SNS選択画面（警告ページ）を開く
-  const openSNSSelectionPage = () => {
+  const openSNSSelectionPage = async () => {
+    // 台帳の残り時間を使う（URLには時間ではなくチケットを渡す。ログインしていないと台帳がないので開けない）
+    setOpeningSNS(true)
+    setSnsMessage(null)
+    let ticketParam = ''
+    try {
+      const ticket = await createManageTicket()
+      if (!ticket) {
+        setSnsMessage(t('gradingResult.snsSignInRequired'))
+        return
+      }
+      // 残り時間がなくても、時間を数えないSNS（連絡用のLINEなど）があれば開く
+      if (ticket.balanceMinutes <= 0 && !ticket.activeSession && !snsLinks.some(link => link.unlimited)) {
+        setSnsMessage(t('gradingResult.snsNoBalance'))
+        return
+      }
+      ticketParam = `ticket=${encodeURIComponent(ticket.ticket)}`
+
+      // 使えない時間帯・1日の上限に達したときは開かない（途中のSNSの続きは manage.html で開ける）
+      if (!ticket?.activeSession) {
+        const access = await checkSNSAccess()
+        if (!access.allowed) {
+          setSnsMessage(t(`snsSchedule.status.${access.reason}`, {
+            time: access.reopensAt ? formatReopensAt(access.reopensAt) : t('snsSchedule.reopenUnknown')
+          }))
+          return
+        }
+      }
+    } catch (error) {
+      console.error('SNSのチケットの発行に失敗:', error)
+      setSnsMessage(t('gradingResult.snsLedgerError'))
+      return
+    } finally {
+      setOpeningSNS(false)
+    }
+
     // SVGは渡さず絵文字アイコンのみ（URLパラメータで渡す。SVGなしなら長さは問題なし）
     const snsLinksJson = JSON.stringify(snsLinks.map(link => ({
       id: link.id,
@@ -160,7 +213,7 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
 
     const baseUrl = `${window.location.origin}${import.meta.env.BASE_URL || '/'}`
     const returnUrl = pdfId ? `${baseUrl}?pdfId=${encodeURIComponent(pdfId)}` : baseUrl
-    const manageUrl = `${baseUrl}manage.html?time=${timeLimitMinutes}&snsLinks=${encodeURIComponent(snsLinksJson)}&returnUrl=${encodeURIComponent(returnUrl)}&t=${Date.now()}`
+    const manageUrl = `${baseUrl}manage.html?${ticketParam}&snsLinks=${encodeURIComponent(snsLinksJson)}&returnUrl=${encodeURIComponent(returnUrl)}&t=${Date.now()}`
 
     window.location.replace(manageUrl)
   }
@@ -227,7 +280,11 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
         >
           {validProblems.length > 0 ? (
             <div className="problems-list">
-              {validProblems.map((problem, index) => (
+              {validProblems.map((problem, index) => {
+                const problemIndex = result.problems.indexOf(problem)
+                // 履歴に保存されるまでは修正できない
+                const canEdit = !isStreaming && !!problem.historyId
+                return (
                 <div
                   key={index}
                   className={`problem-item ${problem.isCorrect ? 'correct' : 'incorrect'
@@ -240,6 +297,13 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
                     <h3>
                       {problem.problemNumber || `${t('gradingResult.problem')} ${index + 1}`}
                     </h3>
+                    {problem.overriddenBy && (
+                      <span className="override-badge">
+                        {problem.overriddenBy === 'parent'
+                          ? t('gradingResult.overriddenByParent')
+                          : t('gradingResult.regradedBy', { model: problem.overrideModel || '' })}
+                      </span>
+                    )}
                   </div>
 
                   {problem.problemText && (
@@ -306,8 +370,76 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
                       </span>
                     )}
                   </div>
+
+                  {/* AIの判定が違っていたときの修正 */}
+                  {canEdit && (
+                    <div className="problem-actions">
+                      <button onClick={() => setChatIndex(chatIndex === problemIndex ? null : problemIndex)}>
+                        {chatIndex === problemIndex ? t('tutorChat.close') : `🤔 ${t('tutorChat.open')}`}
+                      </button>
+                      {onOverride && (
+                        <button
+                          onClick={() => onOverride(problemIndex, !problem.isCorrect)}
+                          disabled={regradingIndex !== null}
+                        >
+                          {problem.isCorrect ? t('gradingResult.markIncorrect') : t('gradingResult.markCorrect')}
+                        </button>
+                      )}
+                      {onRegrade && (
+                        <>
+                          <select
+                            value={regradeModel}
+                            onChange={(e) => setRegradeModel(e.target.value)}
+                            disabled={regradingIndex !== null}
+                          >
+                            <option value="default">{t('gradingResult.defaultModel')}</option>
+                            {availableModels.map(model => (
+                              <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => onRegrade(problemIndex, regradeModel)}
+                            disabled={regradingIndex !== null}
+                          >
+                            {regradingIndex === problemIndex ? t('gradingResult.regrading') : t('gradingResult.regrade')}
+                          </button>
+                        </>
+                      )}
+                      {onCreateSimilar && !problem.isCorrect && (
+                        problem.similarDrillName ? (
+                          <span style={{ fontSize: '13px', color: '#27ae60' }}>
+                            {t('similarProblems.created', { name: problem.similarDrillName })}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => onCreateSimilar(problemIndex)}
+                            disabled={regradingIndex !== null || creatingSimilarIndex !== null}
+                          >
+                            {creatingSimilarIndex === problemIndex ? t('similarProblems.creating') : `📝 ${t('similarProblems.create')}`}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  )}
+
+                  {/* この問題についての「なんで？」チャット */}
+                  {canEdit && chatIndex === problemIndex && problem.historyId && (
+                    <TutorChat problem={problem} historyId={problem.historyId} model={tutorModel} />
+                  )}
+                </div>
+                )
+              })}
+              {isStreaming && (
+                <div className="grading-next">
+                  <span className="grading-next-spinner">⏳</span>
+                  {t('gradingResult.gradingNext')}
                 </div>
-              ))}
+              )}
+            </div>
+          ) : isStreaming ? (
+            <div className="grading-next">
+              <span className="grading-next-spinner">⏳</span>
+              {t('gradingResult.waitingFirst')}
             </div>
           ) : (
             <div className="raw-response">
@@ -315,7 +447,7 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
             </div>
           )}
 
-          {result.overallComment && validProblems.length > 0 && (
+          {result.overallComment && validProblems.length > 0 && !isStreaming && (
             <div className="overall-comment">
               <h3>{t('gradingResult.overallComment')}</h3>
               <p>{result.overallComment}</p>
@@ -323,13 +455,33 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
           )}
         </div>
 
-        {snsLinks.length > 0 && (
+        {/* 採点が終わるまではSNSへ進めない */}
+        {snsLinks.length > 0 && !isStreaming && (
           <div className="sns-links-section">
             <h3 style={{ fontSize: '16px', fontWeight: 'bold', color: '#2c3e50', marginBottom: '12px', textAlign: 'center' }}>
               Enjoy!
             </h3>
+            {earnedMinutes !== null && (
+              <div style={{ textAlign: 'center', marginBottom: '8px' }}>
+                <div style={{ fontSize: '18px', fontWeight: 'bold', color: earnedMinutes > 0 ? '#27ae60' : '#7f8c8d' }}>
+                  {earnedMinutes > 0 ? t('gradingResult.rewardEarned', { minutes: earnedMinutes }) : t('gradingResult.rewardNone')}
+                </div>
+                {rewardLines.length > 0 && (
+                  <div style={{ fontSize: '12px', color: '#7f8c8d', marginTop: '4px' }}>
+                    {t('gradingResult.rewardToday', { minutes: rewardLines.reduce((sum, line) => sum + line.minutes, 0) })}
+                    {' '}({rewardLines.map(line => t(`rewardRules.line.${line.rule}`, { minutes: line.minutes })).join(' / ')})
+                  </div>
+                )}
+              </div>
+            )}
+            {rewardBalanceMinutes !== null && (
+              <p style={{ fontSize: '14px', color: '#555', margin: '0 0 12px', textAlign: 'center' }}>
+                {t('gradingResult.snsBalance', { minutes: rewardBalanceMinutes })}
+              </p>
+            )}
             <button
               onClick={openSNSSelectionPage}
+              disabled={openingSNS}
               style={{
                 width: '100%',
                 padding: '20px',
@@ -339,7 +491,8 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
                 color: 'white',
                 border: 'none',
                 borderRadius: '16px',
-                cursor: 'pointer',
+                cursor: openingSNS ? 'wait' : 'pointer',
+                opacity: openingSNS ? 0.7 : 1,
                 transition: 'all 0.2s ease',
                 boxShadow: '0 4px 12px rgba(102, 126, 234, 0.3)'
               }}
@@ -354,12 +507,17 @@ const GradingResult = ({ result, onClose, snsLinks = [], timeLimitMinutes = 30,
             >
               {t('gradingResult.viewSns')}
             </button>
+            {snsMessage && (
+              <p style={{ fontSize: '13px', color: '#e74c3c', margin: '8px 0 0', textAlign: 'center' }}>{snsMessage}</p>
+            )}
           </div>
         )}
 
         <div className="model-info-footer">
           <div className="model-info-text">
-            {modelName && responseTime != null
+            {isStreaming
+              ? ''
+              : modelName && responseTime != null
               ? `${modelName} (${responseTime}s)`
               : modelName || (responseTime != null ? `${responseTime}s` : '')}
           </div>
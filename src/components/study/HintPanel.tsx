@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { requestHints } from '../../services/api'
+import { startHintUsage, recordHintLevel } from '../../services/hintUsage'
+import { getAnswerKeysByPage, HintUsageRecord } from '../../utils/indexedDB'
+
+interface HintPanelProps {
+  imageData: string // 選択した範囲の切り抜き画像
+  pdfId: string
+  pdfFileName: string
+  pageNumber: number
+  subjectId?: string
+  model?: string
+  onGrade: () => void // 解けたらそのまま同じ範囲を採点する
+  onClose: () => void
+}
+
+// 採点の前のヒント（1: 気づかせる一言 → 2: 考え方 → 3: 最初の一歩 の順に1つずつ見せる）
+// 見た段階は記録しておき、あとでこの問題を採点したときに採点履歴へ紐付ける。
+const HintPanel = ({ imageData, pdfId, pdfFileName, pageNumber, subjectId, model, onGrade, onClose }: HintPanelProps) => {
+  const { t, i18n } = useTranslation()
+  const [hints, setHints] = useState<string[]>([])
+  const [problemNumber, setProblemNumber] = useState('')
+  const [usage, setUsage] = useState<HintUsageRecord | null>(null)
+  const [shownLevel, setShownLevel] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      // 登録済みの正解は、ヒントに答えが書かれていないかの確認だけに使う
+      const answerKeys = await getAnswerKeysByPage(pdfId, pageNumber).catch(() => [])
+      const response = await requestHints(
+        imageData,
+        model,
+        i18n.language,
+        subjectId,
+        answerKeys.map(({ problemNumber, correctAnswer, pageNumber }) => ({ problemNumber, correctAnswer, pageNumber }))
+      )
+      if (cancelled) return
+      if (!response.success || response.hints.length === 0) {
+        setError(response.error || t('hint.error'))
+        setLoading(false)
+        return
+      }
+
+      setHints(response.hints)
+      setProblemNumber(response.problemNumber || '')
+      setShownLevel(1)
+      setLoading(false)
+
+      startHintUsage({
+        pdfId,
+        pdfFileName,
+        pageNumber,
+        problemNumber: response.problemNumber,
+        problemText: response.problemText,
+        topic: response.topic,
+        subjectId,
+        hintCount: response.hints.length
+      })
+        .then(record => {
+          if (!cancelled) setUsage(record)
+        })
+        .catch(error => console.error('ヒントの利用記録の保存に失敗:', error))
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [imageData])
+
+  const showNextHint = () => {
+    const level = shownLevel + 1
+    setShownLevel(level)
+    if (usage) {
+      recordHintLevel(usage, level)
+        .then(setUsage)
+        .catch(error => console.error('ヒントの利用記録の保存に失敗:', error))
+    }
+  }
+
+  const levelLabels = [t('hint.level1'), t('hint.level2'), t('hint.level3')]
+
+  return (
+    <div className="selection-confirm-popup">
+      <div className="selection-confirm-content">
+        <h3>💡 {problemNumber ? t('hint.titleWithProblem', { problem: problemNumber }) : t('hint.title')}</h3>
+        <div className="preview-image-container">
+          <img src={imageData} alt={t('hint.previewAlt')} className="preview-image" />
+        </div>
+
+        <div style={{ margin: '16px 0', display: 'flex', flexDirection: 'column', gap: '8px', textAlign: 'left' }}>
+          {loading && (
+            <div style={{ textAlign: 'center', color: '#7f8c8d' }}>⏳ {t('hint.loading')}</div>
+          )}
+          {error && (
+            <div style={{ color: '#e74c3c', fontSize: '14px' }}>{error}</div>
+          )}
+          {hints.slice(0, shownLevel).map((hint, index) => (
+            <div
+              key={index}
+              style={{ backgroundColor: '#fffbea', border: '1px solid #f6e05e', borderRadius: '8px', padding: '10px 12px' }}
+            >
+              <div style={{ fontSize: '12px', fontWeight: 'bold', color: '#b7791f', marginBottom: '4px' }}>
+                {t('hint.levelLabel', { level: index + 1 })} {levelLabels[index] && `· ${levelLabels[index]}`}
+              </div>
+              <div style={{ fontSize: '15px', color: '#2c3e50', whiteSpace: 'pre-wrap' }}>{hint}</div>
+            </div>
+          ))}
+          {!loading && shownLevel > 0 && shownLevel < hints.length && (
+            <button
+              onClick={showNextHint}
+              style={{ padding: '8px', border: '2px dashed #f6ad55', borderRadius: '8px', background: 'white', color: '#c05621', fontSize: '14px', fontWeight: 'bold', cursor: 'pointer' }}
+            >
+              {t('hint.more', { next: shownLevel + 1, total: hints.length })}
+            </button>
+          )}
+          {!loading && shownLevel > 0 && shownLevel >= hints.length && (
+            <div style={{ fontSize: '13px', color: '#7f8c8d', textAlign: 'center' }}>{t('hint.lastHint')}</div>
+          )}
+        </div>
+
+        <div className="confirm-buttons">
+          <button onClick={onClose} className="cancel-button">
+            {t('hint.close')}
+          </button>
+          <button onClick={onGrade} className="confirm-button" disabled={loading}>
+            ✅ {t('hint.grade')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default HintPanel
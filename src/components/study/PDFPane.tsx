@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, forwardRef, useImperativeHandle, useState } from 'react'
 import { PDFFileRecord } from '../../utils/indexedDB'
 import PDFCanvas, { PDFCanvasHandle } from './components/PDFCanvas'
+import GradingMarksLayer, { GradingMark } from './components/GradingMarksLayer'
 import { DrawingPath, DrawingCanvas, useDrawing, useZoomPan, doPathsIntersect, isScratchPattern, useLassoSelection, DrawingCanvasHandle } from '@thousands-of-ties/drawing-common'
 import { RENDER_SCALE } from '../../constants/pdf'
 import './StudyPanel.css'
@@ -22,6 +23,9 @@ interface PDFPaneProps {
     eraserSize: number
     isCtrlPressed: boolean
 
+    // 採点の○✕（描画とは別のレイヤー）
+    gradingMarks?: GradingMark[]
+
     // スプリット表示モード（高さフィット＋左寄せ）
     splitMode?: boolean
 
@@ -61,6 +65,7 @@ export const PDFPane = forwardRef<PDFPaneHandle, PDFPaneProps>((props, ref) => {
         size,
         eraserSize,
         isCtrlPressed,
+        gradingMarks = [],
         splitMode = false,
         className,
         style
@@ -1093,6 +1098,13 @@ export const PDFPane = forwardRef<PDFPaneHandle, PDFPaneProps>((props, ref) => {
                         isDrawingExternal={isDrawingInternal}
                         onPathAdd={() => { }} // Display only - PDFPane handles path saving
                     />
+                    {canvasSize && (
+                        <GradingMarksLayer
+                            marks={gradingMarks}
+                            width={canvasSize.width}
+                            height={canvasSize.height}
+                        />
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { PDFFileRecord, ReviewItemRecord, GradingHistoryRecord, getGradingHistory } from '../../utils/indexedDB'
+import { getDueReviewItems, recordReviewAnswer, ReviewResult } from '../../services/reviewQueue'
+import { checkAnswerEquivalence } from './utils'
+
+interface ReviewSessionProps {
+  pdfRecords: PDFFileRecord[]
+  onOpenDrill: (record: PDFFileRecord, pageNumber: number) => void
+  onClose: () => void
+}
+
+type Phase = 'answer' | 'check' | 'done'
+
+// 今日の復習（まちがえた問題の解き直し）
+// ドリルを開いて解き直して採点すると、採点結果がそのまま復習キューに反映される。
+// その場で答えるときは、切り抜き画像を見て答えを入力し、登録されている正解と照らし合わせる。
+const ReviewSession = ({ pdfRecords, onOpenDrill, onClose }: ReviewSessionProps) => {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<ReviewItemRecord[] | null>(null)
+  const [index, setIndex] = useState(0)
+  const [history, setHistory] = useState<GradingHistoryRecord | null>(null)
+  const [answer, setAnswer] = useState('')
+  const [phase, setPhase] = useState<Phase>('answer')
+  const [result, setResult] = useState<{ isCorrect: boolean } & ReviewResult | null>(null)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getDueReviewItems()
+      .then(setItems)
+      .catch(error => {
+        console.error('復習キューの読み込みに失敗:', error)
+        setItems([])
+      })
+  }, [])
+
+  const item = items?.[index]
+  const pdfRecord = item ? pdfRecords.find(record => record.id === item.pdfId) : undefined
+
+  useEffect(() => {
+    setHistory(null)
+    setAnswer('')
+    setPhase('answer')
+    setResult(null)
+    if (!item) return
+    getGradingHistory(item.historyId)
+      .then(setHistory)
+      .catch(error => console.error('採点履歴の読み込みに失敗:', error))
+  }, [item])
+
+  const goNext = () => {
+    setIndex(prev => prev + 1)
+  }
+
+  const saveResult = async (isCorrect: boolean) => {
+    if (!item) return
+    setSaving(true)
+    try {
+      const reviewResult = await recordReviewAnswer(item, isCorrect)
+      setResult({ isCorrect, ...reviewResult })
+      setReviewedCount(prev => prev + 1)
+      setPhase('done')
+    } catch (error) {
+      console.error('復習結果の保存に失敗:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // 入力した答えを正解と照らし合わせる（表記の違いで合っているか分からないときは自分で判定する）
+  const handleCheck = () => {
+    if (history?.correctAnswer && checkAnswerEquivalence(answer, history.correctAnswer).isEquivalent) {
+      saveResult(true)
+    } else {
+      setPhase('check')
+    }
+  }
+
+  const buttonStyle = (color: string, filled = true) => ({
+    padding: '10px 16px',
+    border: filled ? 'none' : `2px solid ${color}`,
+    borderRadius: '8px',
+    background: filled ? color : 'white',
+    color: filled ? 'white' : color,
+    fontSize: '15px',
+    fontWeight: 'bold' as const,
+    cursor: 'pointer'
+  })
+
+  const renderContent = () => {
+    if (!items) {
+      return <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>{t('review.loading')}</div>
+    }
+    if (!item) {
+      return (
+        <div style={{ textAlign: 'center', padding: '32px 16px' }}>
+          <div style={{ fontSize: '48px' }}>{items.length > 0 ? '🎉' : '✨'}</div>
+          <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#2c3e50', margin: '12px 0' }}>
+            {items.length > 0 ? t('review.finished', { count: reviewedCount }) : t('review.nothingDue')}
+          </div>
+          <button onClick={onClose} style={buttonStyle('#3498db')}>{t('review.close')}</button>
+        </div>
+      )
+    }
+
+    return (
+      <>
+        <div style={{ fontSize: '13px', color: '#7f8c8d', marginBottom: '8px' }}>
+          {t('review.problemInfo', { name: item.pdfFileName, page: item.pageNumber, problem: item.problemNumber })}
+        </div>
+
+        {history?.imageData ? (
+          <img
+            src={history.imageData}
+            alt={item.problemNumber}
+            style={{ width: '100%', maxHeight: '40vh', objectFit: 'contain', border: '1px solid #ecf0f1', borderRadius: '8px', backgroundColor: 'white' }}
+          />
+        ) : (
+          <div style={{ padding: '24px', textAlign: 'center', color: '#95a5a6', border: '1px dashed #ddd', borderRadius: '8px' }}>
+            {t('review.noImage')}
+          </div>
+        )}
+        {history && (
+          <div style={{ fontSize: '12px', color: '#95a5a6', marginTop: '6px' }}>
+            {t('review.previousAnswer', { answer: history.studentAnswer || '-' })}
+          </div>
+        )}
+
+        {phase === 'answer' && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginTop: '16px' }}>
+            {pdfRecord && (
+              <button onClick={() => onOpenDrill(pdfRecord, item.pageNumber)} style={buttonStyle('#3498db')}>
+                📖 {t('review.openDrill', { page: item.pageNumber })}
+              </button>
+            )}
+            {history?.correctAnswer ? (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <input
+                  type="text"
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && answer.trim()) handleCheck()
+                  }}
+                  placeholder={t('review.answerPlaceholder')}
+                  style={{ flex: 1, padding: '10px', border: '1px solid #ddd', borderRadius: '8px', fontSize: '16px' }}
+                />
+                <button onClick={handleCheck} disabled={!answer.trim() || saving} style={{ ...buttonStyle('#27ae60'), opacity: answer.trim() ? 1 : 0.6 }}>
+                  {t('review.check')}
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => setPhase('check')} style={buttonStyle('#27ae60', false)}>
+                {t('review.selfCheck')}
+              </button>
+            )}
+            <button onClick={goNext} style={{ ...buttonStyle('#95a5a6', false), border: 'none' }}>
+              {t('review.skip')}
+            </button>
+          </div>
+        )}
+
+        {phase === 'check' && (
+          <div style={{ marginTop: '16px' }}>
+            {history?.correctAnswer && (
+              <div style={{ backgroundColor: '#f8f9fa', borderRadius: '8px', padding: '12px', marginBottom: '12px', fontSize: '14px', color: '#2c3e50' }}>
+                <div><strong>{t('review.correctAnswer')}:</strong> {history.correctAnswer}</div>
+                {history.explanation && (
+                  <div style={{ marginTop: '8px', whiteSpace: 'pre-wrap' }}>{history.explanation}</div>
+                )}
+              </div>
+            )}
+            <div style={{ fontSize: '14px', color: '#2c3e50', marginBottom: '8px' }}>{t('review.askSelf')}</div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button onClick={() => saveResult(true)} disabled={saving} style={{ ...buttonStyle('#27ae60'), flex: 1 }}>
+                ○ {t('review.gotIt')}
+              </button>
+              <button onClick={() => saveResult(false)} disabled={saving} style={{ ...buttonStyle('#e74c3c'), flex: 1 }}>
+                ✕ {t('review.missedIt')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'done' && result && (
+          <div style={{ marginTop: '16px', textAlign: 'center' }}>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: result.isCorrect ? '#27ae60' : '#e74c3c' }}>
+              {result.isCorrect ? `○ ${t('review.correct')}` : `✕ ${t('review.incorrect')}`}
+            </div>
+            <div style={{ fontSize: '14px', color: '#7f8c8d', margin: '8px 0 16px' }}>
+              {result.mastered ? t('review.mastered') : t('review.nextReview', { count: result.nextIntervalDays })}
+            </div>
+            <button onClick={goNext} style={buttonStyle('#3498db')}>{t('review.next')}</button>
+          </div>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+    >
+      <div style={{ backgroundColor: 'white', borderRadius: '12px', padding: '20px', width: '92%', maxWidth: '520px', maxHeight: '90vh', overflowY: 'auto' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+          <h3 style={{ margin: 0, color: '#2c3e50' }}>
+            🔁 {t('review.title')}
+            {items && item && (
+              <span style={{ fontSize: '14px', color: '#7f8c8d', marginLeft: '8px' }}>{index + 1} / {items.length}</span>
+            )}
+          </h3>
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', fontSize: '20px', cursor: 'pointer', color: '#7f8c8d' }}
+          >
+            ✕
+          </button>
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  )
+}
+
+export default ReviewSession
@@ -2,19 +2,34 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import { FaCheck, FaTimes } from 'react-icons/fa'
 import { useTranslation } from 'react-i18next'
-import { GradingResult as GradingResultType, GradingResponseResult, getAvailableModels, ModelInfo } from '../../services/api'
+import { GradingResult as GradingResultType, GradingResponseResult, getAvailableModels, ModelInfo, gradeWork } from '../../services/api'
 import GradingResult from './GradingResult'
-import { savePDFRecord, getPDFRecord, updatePDFRecord, getAllSNSLinks, SNSLinkRecord, PDFFileRecord, saveGradingHistory, getGradingHistoryByPdfId, generateGradingHistoryId, getAppSettings, saveAppSettings, saveDrawing, saveTextAnnotation } from '../../utils/indexedDB'
+import { savePDFRecord, getPDFRecord, updatePDFRecord, getAllSNSLinks, SNSLinkRecord, PDFFileRecord, getGradingHistoryByPdfId, getAppSettings, saveAppSettings, saveDrawing, saveTextAnnotation, saveGradingMarks, getAnswerKeysByPage, getGradingHistory, overrideGradingHistory, GradingHistoryOverrideChanges } from '../../utils/indexedDB'
 import { ICON_SVG } from '../../constants/icons'
 import { DrawingPath } from '@thousands-of-ties/drawing-common'
 import PDFCanvas from './components/PDFCanvas'
 import { PDFPane, PDFPaneHandle } from './PDFPane'
+import { GradingMark } from './components/GradingMarksLayer'
+import { normalizeProblemNumber, withStrokeId } from './utils'
 import { StudyToolbar } from './StudyToolbar'
 import { usePDFRenderer } from '../../hooks/pdf/usePDFRenderer'
 import './StudyPanel.css'
 import { useGrading } from '../../hooks/study/useGrading'
+import { useGradingOutbox } from '../../hooks/study/useGradingOutbox'
+import { enqueueGrading, saveGradingResultsToHistory } from '../../services/gradingOutbox'
+import GradingOutboxIndicator from './GradingOutboxIndicator'
+import ExportPDFDialog from '../drill/ExportPDFDialog'
 import { compressImage } from '../../utils/image'
 import { useAuth } from '../../contexts/AuthContext'
+import { useEntitlement } from '../../contexts/EntitlementContext'
+import { useProfile } from '../../contexts/ProfileContext'
+import { waitForCloudSync } from '../../services/cloudSync'
+import { updateReviewForOverride } from '../../services/reviewQueue'
+import { createSimilarProblemDrill } from '../../services/similarProblems'
+import { earnRewardMinutes, getRewardBalance } from '../../services/snsLedger'
+import { calculateGradingReward, RewardBreakdownLine } from '../../services/rewardRules'
+import { hasParentPin, isParentUnlocked, verifyParentPin } from '../../services/parentLock'
+import HintPanel from './HintPanel'
 
 // テキストアノテーションの型定義
 export type TextDirection = 'horizontal' | 'vertical-rl' | 'vertical-lr'
@@ -28,6 +43,15 @@ export interface TextAnnotation {
   direction: TextDirection
 }
 
+// 採点した範囲のページ上の位置（ページの幅・高さを1とした割合）
+interface SelectionPageRegion {
+  pageNum: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 interface StudyPanelProps {
   pdfRecord: PDFFileRecord
   pdfId: string
@@ -56,6 +80,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
 
   // Layout State
   const [isSplitView, setIsSplitView] = useState(false)
+  const [showExportDialog, setShowExportDialog] = useState(false)
   const [activeTab, setActiveTab] = useState<'A' | 'B'>('A')
 
   // Split Ratio
@@ -101,6 +126,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
   const [gradingResponseTime, setGradingResponseTime] = useState<number | null>(null)
 
   // AI Model State
+  const { isPremium } = useEntitlement()
   const [selectedModel, setSelectedModel] = useState<string>('default')
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([])
   const [defaultModelName, setDefaultModelName] = useState<string>('Gemini 2.0 Flash')
@@ -118,12 +144,25 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
       .catch(err => console.error('Failed to load models:', err))
   }, [])
 
+  // デフォルト以外のモデルはプレミアムのみ（サーバーでも権利を確かめる）
+  const selectableModels = isPremium ? availableModels : []
+  useEffect(() => {
+    if (!isPremium) setSelectedModel('default')
+  }, [isPremium])
+
   // Selection State
   const [isSelectionMode, setIsSelectionMode] = useState(false)
   const [selectionRect, setSelectionRect] = useState<{ x: number, y: number, width: number, height: number } | null>(null)
+  // 範囲選択したあとに何をするか（採点 / ヒント）
+  const [selectionPurpose, setSelectionPurpose] = useState<'grading' | 'hint'>('grading')
   const isSelectingRef = useRef(false)
   const selectionStartRef = useRef<{ x: number, y: number } | null>(null)
   // selectionPreview via hook
+  const [selectionPageRegion, setSelectionPageRegion] = useState<SelectionPageRegion | null>(null)
+  // 表示中の採点結果の○✕が付いているページ（判定を修正したときに○✕も直すため）
+  const gradedMarksPageRef = useRef<number | null>(null)
+  const [regradingIndex, setRegradingIndex] = useState<number | null>(null)
+  const [creatingSimilarIndex, setCreatingSimilarIndex] = useState<number | null>(null)
 
   // Tool State
   const [isDrawingMode, setIsDrawingMode] = useState(true)
@@ -151,16 +190,28 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
   } | null>(null)
   const [textAnnotations, setTextAnnotations] = useState<Map<number, TextAnnotation[]>>(new Map())
 
+  // 採点の○✕（ページごと）
+  const [gradingMarks, setGradingMarks] = useState<Map<number, GradingMark[]>>(new Map())
+
   // SNS State
   const [snsLinks, setSnsLinks] = useState<SNSLinkRecord[]>([])
-  const { userData } = useAuth()
-  const snsTimeLimit = userData?.snsRewardMinutes || 60
+  const { user, userData } = useAuth()
+  // プレミアムの場合はプロフィールごとのSNS利用時間を優先する
+  const { activeProfile } = useProfile()
+  const snsTimeLimit = (isPremium && activeProfile?.snsTimeLimitMinutes) || userData?.snsRewardMinutes || 60
+  // SNSに使える残り時間（ログインしていないときは null：台帳がないのでSNSは開けない）
+  const [snsBalanceMinutes, setSnsBalanceMinutes] = useState<number | null>(null)
+  // いまの採点でもらえた時間（ごほうびのルールを使っていなければ snsTimeLimit のまま）
+  const [gradingReward, setGradingReward] = useState<{ minutes: number, lines: RewardBreakdownLine[] } | null>(null)
 
   useEffect(() => {
     const loadSNSData = async () => {
       try {
         const links = await getAllSNSLinks()
         setSnsLinks(links)
+        if (links.length > 0) {
+          setSnsBalanceMinutes(await getRewardBalance())
+        }
       } catch (error) {
         console.error('Failed to load SNS data:', error)
       }
@@ -178,6 +229,8 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
   useEffect(() => {
     const loadDrawings = async () => {
       try {
+        // 一覧で始まった同期が終わってから読む（古いペン跡を読んで上書きしないように）
+        await waitForCloudSync()
         const record = await getPDFRecord(pdfId)
         if (!record?.drawings) return
 
@@ -204,6 +257,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
   useEffect(() => {
     const loadTextAnnotations = async () => {
       try {
+        await waitForCloudSync()
         const record = await getPDFRecord(pdfId)
         if (!record?.textAnnotations) return
         const newMap = new Map<number, TextAnnotation[]>()
@@ -222,6 +276,30 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     loadTextAnnotations()
   }, [pdfId])
 
+  // Load Grading Marks Effect
+  useEffect(() => {
+    const loadGradingMarks = async () => {
+      try {
+        await waitForCloudSync()
+        const record = await getPDFRecord(pdfId)
+        if (!record?.gradingMarks) return
+        const newMap = new Map<number, GradingMark[]>()
+        for (const [pageStr, marksJson] of Object.entries(record.gradingMarks)) {
+          const marks = JSON.parse(marksJson) as GradingMark[]
+          if (marks.length > 0) {
+            newMap.set(parseInt(pageStr, 10), marks)
+          }
+        }
+        if (newMap.size > 0) {
+          setGradingMarks(newMap)
+        }
+      } catch (e) {
+        console.error('Failed to load grading marks:', e)
+      }
+    }
+    loadGradingMarks()
+  }, [pdfId])
+
 
   // Grading Hook
   const {
@@ -229,6 +307,8 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     setIsGrading,
     gradingResult,
     setGradingResult,
+    applyStreamedProblem,
+    resetStreamedProblems,
     selectionPreview,
     setSelectionPreview,
     executeGrading,
@@ -241,6 +321,12 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     pdfRecord?.subjectId  // Pass subject ID for subject-specific grading
   )
 
+  // 採点待ち（オフライン時に貯めた採点）
+  const { outboxItems, discardItem: discardOutboxItem } = useGradingOutbox(pdfId, (deliveries) => {
+    const count = deliveries.reduce((sum, delivery) => sum + delivery.problems.length, 0)
+    addStatusMessage(`✅ 採点待ちだった${deliveries.length}件の採点が終わりました(${count}問)`)
+  })
+
   const handleSelectionStart = (e: React.MouseEvent) => {
     // Only left click
     if (e.button !== 0) return
@@ -453,6 +539,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
       const capturedImage = await captureSelectionArea(selectionRect)
       if (capturedImage) {
         setSelectionPreview(capturedImage)
+        setSelectionPageRegion(getSelectionPageRegion(selectionRect))
       } else {
         addStatusMessage("❌ 画像のキャプチャに失敗しました")
         setSelectionRect(null)
@@ -464,6 +551,235 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     }
   }
 
+// 選択範囲がページ上のどこにあたるか（ページの幅・高さを1とした割合）
+  // 2画面表示で両方のペインにまたがる場合は、重なりが大きい方のページを使う
+  const getSelectionPageRegion = (rect: { x: number, y: number, width: number, height: number }): SelectionPageRegion | null => {
+    if (!containerRef.current) return null
+    const containerRect = containerRef.current.getBoundingClientRect()
+    const selectionLeft = containerRect.left + rect.x
+    const selectionTop = containerRect.top + rect.y
+
+    const panes: { className: string, pageNum: number }[] = []
+    if (activeTab === 'A' || isSplitView) panes.push({ className: 'pane-a', pageNum: pageA })
+    if (activeTab === 'B' || isSplitView) panes.push({ className: 'pane-b', pageNum: pageB })
+
+    let best: { region: SelectionPageRegion, area: number } | null = null
+    for (const pane of panes) {
+      const canvas = containerRef.current.querySelector(`.${pane.className} .pdf-canvas`) as HTMLCanvasElement | null
+      if (!canvas) continue
+      const canvasRect = canvas.getBoundingClientRect()
+      if (canvasRect.width === 0 || canvasRect.height === 0) continue
+
+      const intersectW = Math.min(selectionLeft + rect.width, canvasRect.right) - Math.max(selectionLeft, canvasRect.left)
+      const intersectH = Math.min(selectionTop + rect.height, canvasRect.bottom) - Math.max(selectionTop, canvasRect.top)
+      if (intersectW <= 0 || intersectH <= 0) continue
+
+      const area = intersectW * intersectH
+      if (!best || area > best.area) {
+        best = {
+          area,
+          region: {
+            pageNum: pane.pageNum,
+            x: (selectionLeft - canvasRect.left) / canvasRect.width,
+            y: (selectionTop - canvasRect.top) / canvasRect.height,
+            width: rect.width / canvasRect.width,
+            height: rect.height / canvasRect.height
+          }
+        }
+      }
+    }
+    return best?.region ?? null
+  }
+
+  // 採点結果の位置（選択範囲に対する割合）をページ上の○✕に変換して保存する
+  // 同じ問題を採点し直した場合は前の○✕を置き換える
+  const addGradingMarks = (region: SelectionPageRegion, problems: GradingResultType[]) => {
+    const newMarks: GradingMark[] = problems.flatMap((problem, index) => {
+      // 位置が返ってこなかった場合、1問だけなら選択範囲全体に付ける
+      const box = problem.boundingBox ?? (problems.length === 1 ? { x: 0, y: 0, width: 1, height: 1 } : null)
+      if (!box) return []
+      return [{
+        id: `mark_${Date.now()}_${index}`,
+        problemNumber: problem.problemNumber,
+        isCorrect: !!problem.isCorrect,
+        x: region.x + box.x * region.width,
+        y: region.y + box.y * region.height,
+        width: box.width * region.width,
+        height: box.height * region.height
+      }]
+    })
+    if (newMarks.length === 0) return
+
+    const gradedNumbers = new Set(newMarks.map(mark => normalizeProblemNumber(mark.problemNumber)))
+    setGradingMarks(prev => {
+      const newMap = new Map(prev)
+      const kept = (newMap.get(region.pageNum) || []).filter(mark => !gradedNumbers.has(normalizeProblemNumber(mark.problemNumber)))
+      const updated = [...kept, ...newMarks]
+      newMap.set(region.pageNum, updated)
+      saveGradingMarks(pdfId, region.pageNum, JSON.stringify(updated)).catch(error => {
+        console.error('○✕の保存に失敗:', error)
+      })
+      return newMap
+    })
+  }
+
+  // 判定を修正した問題の○✕を付け直す
+  const updateGradingMarkResult = (problemNumber: string, isCorrect: boolean) => {
+    const pageNum = gradedMarksPageRef.current
+    if (pageNum === null) return
+
+    const target = normalizeProblemNumber(problemNumber)
+    setGradingMarks(prev => {
+      const marks = prev.get(pageNum)
+      if (!marks?.some(mark => normalizeProblemNumber(mark.problemNumber) === target)) return prev
+
+      const newMap = new Map(prev)
+      const updated = marks.map(mark =>
+        normalizeProblemNumber(mark.problemNumber) === target ? { ...mark, isCorrect } : mark
+      )
+      newMap.set(pageNum, updated)
+      saveGradingMarks(pdfId, pageNum, JSON.stringify(updated)).catch(error => {
+        console.error('○✕の保存に失敗:', error)
+      })
+      return newMap
+    })
+  }
+
+  // 採点履歴と表示中の採点結果に修正を反映する
+  const applyGradingOverride = async (
+    index: number,
+    changes: GradingHistoryOverrideChanges,
+    by: 'parent' | 'ai',
+    model?: string
+  ) => {
+    const problem = gradingResult?.problems[index]
+    if (!problem?.historyId) return
+
+    const updated = await overrideGradingHistory(problem.historyId, changes, by, model, user?.uid)
+    updateReviewForOverride(updated).catch(error => {
+      console.error('復習キューの更新に失敗:', error)
+    })
+    setGradingResult(prev => prev && {
+      ...prev,
+      problems: prev.problems.map((p, i) => i === index ? { ...p, ...changes, overriddenBy: by, overrideModel: model } : p)
+    })
+    if (changes.isCorrect !== undefined && changes.isCorrect !== !!problem.isCorrect) {
+      updateGradingMarkResult(problem.problemNumber, changes.isCorrect)
+    }
+  }
+
+  // 採点結果を変える操作は保護者の暗証番号で解除してから（暗証番号は保護者設定で決める）
+  const unlockParentActions = async (): Promise<boolean> => {
+    if (isParentUnlocked()) return true
+    if (!(await hasParentPin())) {
+      alert(t('parentPin.required'))
+      return false
+    }
+    const pin = window.prompt(t('parentPin.prompt'))
+    if (pin === null) return false
+    if (!(await verifyParentPin(pin))) {
+      alert(t('parentPin.wrong'))
+      return false
+    }
+    return true
+  }
+
+  // 保護者による判定の修正（正解にする / 不正解にする）
+  const handleOverrideProblem = async (index: number, isCorrect: boolean) => {
+    try {
+      if (!(await unlockParentActions())) return
+      await applyGradingOverride(index, { isCorrect }, 'parent')
+      addStatusMessage(isCorrect ? '✏️ 正解に修正しました' : '✏️ 不正解に修正しました')
+    } catch (error) {
+      console.error('判定の修正に失敗:', error)
+      setGradingError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // 別のモデルで1問だけ採点し直す（採点時の画像を使う）
+  const handleRegradeProblem = async (index: number, modelId: string) => {
+    const problem = gradingResult?.problems[index]
+    if (!problem?.historyId) return
+    if (!(await unlockParentActions())) return
+
+    setRegradingIndex(index)
+    try {
+      const record = await getGradingHistory(problem.historyId)
+      if (!record?.imageData) {
+        throw new Error('採点時の画像が見つかりません')
+      }
+
+      const answerKeys = await getAnswerKeysByPage(pdfId, record.pageNumber).catch(() => [])
+      const model = modelId !== 'default' ? modelId : undefined
+      const response = await gradeWork(
+        record.imageData,
+        model,
+        i18n.language,
+        pdfRecord.subjectId,
+        answerKeys.map(({ problemNumber, correctAnswer, pageNumber }) => ({ problemNumber, correctAnswer, pageNumber }))
+      )
+      if (!response.success) {
+        throw new Error(response.error || '再採点に失敗しました')
+      }
+
+      // 同じ範囲に複数の問題がある場合は問題番号で対応させる
+      const problems = response.result.problems || []
+      const target = normalizeProblemNumber(problem.problemNumber)
+      const regraded = problems.find(p => normalizeProblemNumber(p.problemNumber) === target)
+        ?? (problems.length === 1 ? problems[0] : undefined)
+      if (!regraded) {
+        throw new Error(`再採点の結果に問題${problem.problemNumber}が見つかりませんでした`)
+      }
+
+      await applyGradingOverride(index, {
+        isCorrect: regraded.isCorrect || false,
+        studentAnswer: regraded.studentAnswer,
+        correctAnswer: regraded.correctAnswer || '',
+        feedback: regraded.feedback || '',
+        explanation: regraded.explanation || ''
+      }, 'ai', response.modelName || model || defaultModelName)
+      addStatusMessage(`🔁 再採点しました(${response.modelName || modelId})`)
+    } catch (error) {
+      console.error('再採点に失敗:', error)
+      setGradingError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setRegradingIndex(null)
+    }
+  }
+
+  // まちがえた問題から類題ドリル（答えを登録済み）を作る
+  const handleCreateSimilarProblems = async (index: number) => {
+    const problem = gradingResult?.problems[index]
+    if (!problem?.historyId) return
+
+    setCreatingSimilarIndex(index)
+    try {
+      const record = await getGradingHistory(problem.historyId)
+      const drill = await createSimilarProblemDrill({
+        pdfFileName: pdfRecord.fileName,
+        problemNumber: problem.problemNumber,
+        subjectId: pdfRecord.subjectId,
+        problemText: problem.problemText,
+        croppedImageData: record?.imageData,
+        studentAnswer: problem.studentAnswer,
+        correctAnswer: problem.correctAnswer,
+        explanation: problem.explanation,
+        topic: problem.topic || undefined
+      }, t, i18n.language, selectedModel !== 'default' ? selectedModel : undefined)
+
+      setGradingResult(prev => prev && {
+        ...prev,
+        problems: prev.problems.map((p, i) => i === index ? { ...p, similarDrillName: drill.fileName } : p)
+      })
+      addStatusMessage(`📝 類題ドリルを追加しました(${drill.fileName})`)
+    } catch (error) {
+      console.error('類題の作成に失敗:', error)
+      setGradingError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setCreatingSimilarIndex(null)
+    }
+  }
+
   const captureSelectionArea = async (rect: { x: number, y: number, width: number, height: number }) => {
     if (!containerRef.current) return null
 
@@ -531,7 +847,8 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     setDrawingPaths(prev => {
       const newMap = new Map(prev)
       const currentPaths = newMap.get(page) || []
-      const newPaths = [...currentPaths, newPath]
+      // クラウド同期で1本ずつ見分けられるようにIDを付けて保存する
+      const newPaths = [...currentPaths, withStrokeId(newPath)]
       newMap.set(page, newPaths)
       // console.log('📝 handlePathAdd state update', { page, totalPaths: newPaths.length })
 
@@ -606,14 +923,30 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
         }
       })
 
+      // 登録済みの正解があれば一緒に送る（サーバー側で正解と照合する）
+      const answerKeys = await getAnswerKeysByPage(pdfId, pageA).catch((error) => {
+        console.warn('解答の取得に失敗しました（AIのみで採点します）:', error)
+        return []
+      })
+
       // APIに送信（簡素化：切り抜き画像のみ）
       addStatusMessage('🎯 AI採点中...')
       const startTime = Date.now()
-      const { gradeWork } = await import('../../services/api')
-      const response = await gradeWork(
+      const model = selectedModel !== 'default' ? selectedModel : undefined
+      const answerKeyEntries = answerKeys.map(({ problemNumber, correctAnswer, pageNumber }) => ({ problemNumber, correctAnswer, pageNumber }))
+      const { gradeWorkStream } = await import('../../services/api')
+      const response = await gradeWorkStream(
         croppedImageData,
-        selectedModel !== 'default' ? selectedModel : undefined,
-        i18n.language
+        (problem, index) => {
+          // 採点できた問題から順に表示する（確認ポップアップは最初の1問が届いた時点で閉じる）
+          applyStreamedProblem(problem, index)
+          setSelectionPreview(null)
+        },
+        model,
+        i18n.language,
+        pdfRecord.subjectId,
+        answerKeyEntries,
+        resetStreamedProblems
       )
       const endTime = Date.now()
       const clientResponseTimeSeconds = parseFloat(((endTime - startTime) / 1000).toFixed(1))
@@ -624,7 +957,25 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
         setGradingModelName(response.modelName)
       }
 
+      // オフライン・サーバー停止のときは採点待ちに入れて、つながったら採点する
+      if (!response.success && response.retryable) {
+        setGradingResult(null)
+        await enqueueGrading({
+          pdfId,
+          pdfFileName: pdfRecord.fileName,
+          pageNumber: pageA,
+          imageData: croppedImageData,
+          model,
+          language: i18n.language,
+          subjectId: pdfRecord.subjectId,
+          answerKeys: answerKeyEntries
+        })
+        addStatusMessage('📮 つながらないため採点待ちに入れました')
+        return
+      }
+
       if (!response.success) {
+        setGradingResult(null)
         setGradingError(response.error || "採点に失敗しました")
         throw new Error(response.error || "採点に失敗しました")
       }
@@ -640,28 +991,45 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
       }
 
       setGradingResult({ ...response.result, problems })
+      setGradingReward(null)
       addStatusMessage(`✅ 採点完了(${problems.length}問)`)
 
-      // 採点履歴を保存
-      if (response.result.problems?.length) {
-        for (const problem of response.result.problems) {
-          const historyRecord = {
-            id: generateGradingHistoryId(),
-            pdfId,
-            pdfFileName: pdfRecord.fileName,
-            pageNumber: pageA,
-            problemNumber: problem.problemNumber,
-            studentAnswer: problem.studentAnswer,
-            isCorrect: problem.isCorrect || false,
-            correctAnswer: problem.correctAnswer || '',
-            feedback: problem.feedback || '',
-            explanation: problem.explanation || '',
-            timestamp: Date.now(),
-            imageData: croppedImageData,
-            matchingMetadata: problem.matchingMetadata
-          }
-          await saveGradingHistory(historyRecord)
-        }
+      // ページ上に○✕を付ける
+      gradedMarksPageRef.current = selectionPageRegion?.pageNum ?? null
+      if (selectionPageRegion) {
+        addGradingMarks(selectionPageRegion, problems)
+      }
+
+      // 採点履歴を保存（履歴IDは判定の修正・再採点で使う）
+      if (problems.length) {
+        const historyIds = await saveGradingResultsToHistory(problems, {
+          pdfId,
+          pdfFileName: pdfRecord.fileName,
+          pageNumber: pageA,
+          imageData: croppedImageData
+        })
+        setGradingResult(prev => prev && {
+          ...prev,
+          problems: prev.problems.map((p, i) => ({ ...p, historyId: historyIds[i] }))
+        })
+
+        // ごほうびのルールがあれば、今日の採点履歴に当てはめて時間を決める
+        const rules = activeProfile?.rewardRules
+        const reward = rules?.enabled
+          ? await calculateGradingReward(rules, historyIds).catch(error => {
+            console.error('ごほうびの計算に失敗:', error)
+            return null
+          })
+          : null
+        const rewardMinutes = reward ? reward.minutes : snsTimeLimit
+        setGradingReward({ minutes: rewardMinutes, lines: reward ? reward.evaluation.lines : [] })
+
+        // 採点できたらSNSの時間を貯める（サーバーの台帳に記録する）
+        earnRewardMinutes(response.receipt, rewardMinutes)
+          .then(balance => {
+            if (balance !== null) setSnsBalanceMinutes(balance)
+          })
+          .catch(error => console.error('SNS利用時間の記録に失敗:', error))
       }
 
     } catch (e) {
@@ -711,6 +1079,15 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
       return newMap
     })
     saveDrawing(pdfId, pageA, JSON.stringify([]))
+    // 採点の○✕もこのページの分は消す（解き直し用）
+    setGradingMarks(prev => {
+      const newMap = new Map(prev)
+      newMap.delete(pageA)
+      return newMap
+    })
+    saveGradingMarks(pdfId, pageA, JSON.stringify([])).catch(error => {
+      console.error('○✕の削除に失敗:', error)
+    })
     addStatusMessage('描画をクリアしました')
   }
 
@@ -721,11 +1098,13 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     }
 
     setDrawingPaths(new Map())
+    setGradingMarks(new Map())
     // IndexedDBからも削除
     try {
       const record = await getPDFRecord(pdfId)
       if (record) {
         record.drawings = {}
+        record.gradingMarks = {}
         await savePDFRecord(record)
         addStatusMessage('🗑️ すべてのペン跡を削除しました')
       }
@@ -738,6 +1117,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
   // 採点開始（範囲選択モードに切り替え）
   const startGrading = () => {
     addStatusMessage('📱 採点モード開始')
+    setSelectionPurpose('grading')
     setIsSelectionMode(true)
     setIsDrawingMode(false)
     setIsEraserMode(false)
@@ -746,6 +1126,18 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
     addStatusMessage('📐 採点範囲を選択してください')
   }
 
+  // ヒント開始（範囲選択モードに切り替え、選んだ問題のヒントを出す）
+  const startHint = () => {
+    setSelectionPurpose('hint')
+    setIsSelectionMode(true)
+    setIsDrawingMode(false)
+    setIsEraserMode(false)
+    setIsTextMode(false)
+    setSelectionRect(null)
+    setSelectionPreview(null)
+    addStatusMessage('💡 ヒントがほしい問題を選択してください')
+  }
+
   // テキストモードのトグル
   const toggleTextMode = () => {
     if (!isTextMode) {
@@ -998,6 +1390,8 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
           isGrading={isGrading}
           startGrading={startGrading}
           cancelSelection={handleCancelSelection}
+          isHintMode={isSelectionMode && selectionPurpose === 'hint'}
+          startHint={startHint}
           isTextMode={isTextMode}
           toggleTextMode={toggleTextMode}
           textFontSize={textFontSize}
@@ -1017,6 +1411,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
           onUndo={handleUndo}
           onClear={clearDrawing}
           onClearAll={clearAllDrawings}
+          onExportPDF={() => setShowExportDialog(true)}
         />
 
         <div
@@ -1151,6 +1546,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
                 size={penSize}
                 eraserSize={eraserSize}
                 drawingPaths={drawingPathsA}
+                gradingMarks={gradingMarks.get(pageA)}
                 isCtrlPressed={isCtrlPressed}
                 splitMode={isSplitView}
                 onPageChange={handlePageAChange}
@@ -1199,6 +1595,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
                   size={penSize}
                   eraserSize={eraserSize}
                   drawingPaths={drawingPaths.get(pageB) || []}
+                  gradingMarks={gradingMarks.get(pageB)}
                   isCtrlPressed={isCtrlPressed}
                   splitMode={isSplitView}
                   onPageChange={handlePageBChange}
@@ -1368,9 +1765,19 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
           gradingResult && (
             <GradingResult
               result={gradingResult}
+              isStreaming={isGrading}
               onClose={() => setGradingResult(null)}
+              availableModels={selectableModels}
+              onOverride={handleOverrideProblem}
+              onRegrade={handleRegradeProblem}
+              regradingIndex={regradingIndex}
+              onCreateSimilar={handleCreateSimilarProblems}
+              creatingSimilarIndex={creatingSimilarIndex}
+              tutorModel={selectedModel !== 'default' ? selectedModel : undefined}
               snsLinks={snsLinks}
-              timeLimitMinutes={snsTimeLimit}
+              rewardBalanceMinutes={snsBalanceMinutes}
+              earnedMinutes={gradingReward?.minutes ?? null}
+              rewardLines={gradingReward?.lines}
               modelName={gradingModelName}
               responseTime={gradingResponseTime}
               pdfId={pdfId}
@@ -1379,6 +1786,19 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
         }
 
 
+        <GradingOutboxIndicator
+          items={outboxItems}
+          onDiscard={(id) => discardOutboxItem(id)}
+        />
+
+        {showExportDialog && (
+          <ExportPDFDialog
+            pdfRecord={pdfRecord}
+            initialPage={activeTab === 'A' ? pageA : pageB}
+            onClose={() => setShowExportDialog(false)}
+          />
+        )}
+
         {
           gradingError && (
             <div className="error-popup">
@@ -1394,7 +1814,22 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
         }
 
         {
-          selectionPreview && (
+          selectionPreview && selectionPurpose === 'hint' && (
+            <HintPanel
+              imageData={selectionPreview}
+              pdfId={pdfId}
+              pdfFileName={pdfRecord.fileName}
+              pageNumber={activeTab === 'A' ? pageA : pageB}
+              subjectId={pdfRecord.subjectId}
+              model={selectedModel !== 'default' ? selectedModel : undefined}
+              onGrade={() => setSelectionPurpose('grading')}
+              onClose={handleCancelSelection}
+            />
+          )
+        }
+
+        {
+          selectionPreview && selectionPurpose === 'grading' && (
             <div className="selection-confirm-popup">
               <div className="selection-confirm-content">
                 <h3>{t('gradingConfirmation.title')}</h3>
@@ -1416,7 +1851,7 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
                     }}
                   >
                     <option value="default">{t('gradingConfirmation.defaultModel')} ({defaultModelName})</option>
-                    {availableModels.map(model => (
+                    {selectableModels.map(model => (
                       <option key={model.id} value={model.id}>
                         {model.name}
                       </option>
@@ -1424,8 +1859,13 @@ const StudyPanel = ({ pdfRecord, pdfId, onBack }: StudyPanelProps) => {
                   </select>
                   <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
                     {selectedModel === 'default' && t('gradingConfirmation.usingDefault', { modelName: defaultModelName })}
-                    {availableModels.find(m => m.id === selectedModel)?.description}
+                    {selectableModels.find(m => m.id === selectedModel)?.description}
                   </div>
+                  {!isPremium && availableModels.length > 0 && (
+                    <div style={{ fontSize: '12px', color: '#b7791f', marginTop: '4px' }}>
+                      🔒 {t('gradingConfirmation.premiumModels')}
+                    </div>
+                  )}
                 </div>
                 <div className="confirm-buttons">
                   <button
@@ -17,6 +17,10 @@ interface StudyToolbarProps {
     startGrading: () => void;
     cancelSelection: () => void;
 
+    // Hint
+    isHintMode: boolean;
+    startHint: () => void;
+
     // Text Tool
     isTextMode: boolean;
     toggleTextMode: () => void;
@@ -43,6 +47,7 @@ interface StudyToolbarProps {
     onUndo: () => void;
     onClear: () => void;
     onClearAll: () => void;
+    onExportPDF?: () => void;
 }
 
 export const StudyToolbar: React.FC<StudyToolbarProps> = ({
@@ -55,6 +60,8 @@ export const StudyToolbar: React.FC<StudyToolbarProps> = ({
     isGrading,
     startGrading,
     cancelSelection,
+    isHintMode,
+    startHint,
     isTextMode,
     toggleTextMode,
     textFontSize,
@@ -73,7 +80,8 @@ export const StudyToolbar: React.FC<StudyToolbarProps> = ({
     setEraserSize,
     onUndo,
     onClear,
-    onClearAll
+    onClearAll,
+    onExportPDF
 }) => {
     const { t } = useTranslation();
 
@@ -187,12 +195,22 @@ export const StudyToolbar: React.FC<StudyToolbarProps> = ({
                 <>
                     <div className="divider"></div>
 
+                    {/* ヒントボタン（採点の前に、選んだ問題のヒントを見る） */}
+                    <button
+                        onClick={isHintMode ? cancelSelection : startHint}
+                        className={isHintMode ? 'active' : ''}
+                        disabled={isGrading}
+                        title={isHintMode ? t('gradingConfirmation.cancel') : t('hint.toolbarTitle')}
+                    >
+                        💡
+                    </button>
+
                     {/* 採点ボタン */}
                     <button
-                        onClick={isSelectionMode ? cancelSelection : startGrading}
-                        className={isSelectionMode ? 'active' : ''}
+                        onClick={isSelectionMode && !isHintMode ? cancelSelection : startGrading}
+                        className={isSelectionMode && !isHintMode ? 'active' : ''}
                         disabled={isGrading}
-                        title={isSelectionMode ? t('gradingConfirmation.cancel') : t('gradingConfirmation.gradeBySelection')}
+                        title={isSelectionMode && !isHintMode ? t('gradingConfirmation.cancel') : t('gradingConfirmation.gradeBySelection')}
                     >
                         {isGrading ? '⏳' : '✅'}
                     </button>
@@ -334,6 +352,18 @@ export const StudyToolbar: React.FC<StudyToolbarProps> = ({
                         </svg>
                     </button>
 
+                    {onExportPDF && (
+                        <>
+                            <div className="divider"></div>
+                            <button
+                                onClick={onExportPDF}
+                                title={t('exportPdf.title')}
+                            >
+                                📄
+                            </button>
+                        </>
+                    )}
+
                 </>
             </div>
         </div>
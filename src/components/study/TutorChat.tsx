@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { GradingResult, sendTutorChat } from '../../services/api'
+import { getGradingHistory, saveTutorChat, TutorChatMessage } from '../../utils/indexedDB'
+
+interface TutorChatProps {
+  problem: GradingResult
+  historyId: string
+  model?: string // 解説チャットに使うモデル（未指定ならサーバーのデフォルト）
+}
+
+// 採点した1問についての「なんで？」チャット
+// 切り抜き画像・採点結果・これまでの会話を送り、答えを言う前にヒントで考えさせる先生に答えてもらう。
+// 会話は採点履歴に保存するので、あとから開き直しても続きから話せる。
+const TutorChat = ({ problem, historyId, model }: TutorChatProps) => {
+  const { t, i18n } = useTranslation()
+  const [messages, setMessages] = useState<TutorChatMessage[]>([])
+  const [imageData, setImageData] = useState<string | undefined>()
+  const [input, setInput] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    getGradingHistory(historyId)
+      .then(record => {
+        if (cancelled) return
+        setMessages(record?.tutorChat || [])
+        setImageData(record?.imageData)
+      })
+      .catch(error => console.error('解説チャットの読み込みに失敗:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [historyId])
+
+  // 新しい発言が見えるように一番下までスクロール
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+  }, [messages, sending])
+
+  const send = async (text: string) => {
+    const question = text.trim()
+    if (!question || sending) return
+
+    const studentMessage: TutorChatMessage = { role: 'student', text: question, at: Date.now() }
+    const conversation = [...messages, studentMessage]
+    setMessages(conversation)
+    setInput('')
+    setError(null)
+    setSending(true)
+
+    try {
+      const response = await sendTutorChat(
+        {
+          problemNumber: problem.problemNumber,
+          problemText: problem.problemText,
+          studentAnswer: problem.studentAnswer,
+          isCorrect: !!problem.isCorrect,
+          correctAnswer: problem.correctAnswer,
+          explanation: problem.explanation,
+          topic: problem.topic || undefined
+        },
+        conversation.map(({ role, text }) => ({ role, text })),
+        imageData,
+        model,
+        i18n.language
+      )
+      if (!response.success || !response.reply) {
+        throw new Error(response.error || t('tutorChat.error'))
+      }
+
+      const updated = [...conversation, { role: 'tutor' as const, text: response.reply, at: Date.now() }]
+      setMessages(updated)
+      await saveTutorChat(historyId, updated)
+    } catch (error) {
+      console.error('解説チャットの送信に失敗:', error)
+      // 送れなかった質問は入力欄に戻して、もう一度送れるようにする
+      setMessages(messages)
+      setInput(question)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const suggestions = [t('tutorChat.suggestWhy'), t('tutorChat.suggestHint'), t('tutorChat.suggestHowToSolve')]
+
+  return (
+    <div style={{ marginTop: '12px', border: '1px solid #d6e4f0', borderRadius: '10px', backgroundColor: '#f7fbff', overflow: 'hidden' }}>
+      <div
+        ref={listRef}
+        style={{ maxHeight: '260px', overflowY: 'auto', padding: '10px', display: 'flex', flexDirection: 'column', gap: '8px' }}
+      >
+        {loading ? (
+          <div style={{ fontSize: '13px', color: '#95a5a6', textAlign: 'center' }}>{t('tutorChat.loading')}</div>
+        ) : messages.length === 0 ? (
+          <div style={{ fontSize: '13px', color: '#7f8c8d' }}>{t('tutorChat.intro')}</div>
+        ) : (
+          messages.map((message, index) => (
+            <div
+              key={index}
+              style={{
+                alignSelf: message.role === 'student' ? 'flex-end' : 'flex-start',
+                maxWidth: '85%',
+                padding: '8px 12px',
+                borderRadius: message.role === 'student' ? '12px 12px 2px 12px' : '12px 12px 12px 2px',
+                backgroundColor: message.role === 'student' ? '#3498db' : 'white',
+                color: message.role === 'student' ? 'white' : '#2c3e50',
+                border: message.role === 'student' ? 'none' : '1px solid #e0e6ed',
+                fontSize: '14px',
+                whiteSpace: 'pre-wrap',
+                wordBreak: 'break-word'
+              }}
+            >
+              {message.role === 'tutor' && <span style={{ marginRight: '4px' }}>🧑‍🏫</span>}
+              {message.text}
+            </div>
+          ))
+        )}
+        {sending && (
+          <div style={{ alignSelf: 'flex-start', fontSize: '13px', color: '#95a5a6' }}>🧑‍🏫 {t('tutorChat.thinking')}</div>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ padding: '0 10px 6px', fontSize: '12px', color: '#e74c3c' }}>{error}</div>
+      )}
+
+      {!loading && messages.length === 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', padding: '0 10px 8px' }}>
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              disabled={sending}
+              style={{ padding: '4px 10px', border: '1px solid #3498db', borderRadius: '14px', background: 'white', color: '#3498db', fontSize: '13px', cursor: 'pointer' }}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '6px', padding: '8px 10px', borderTop: '1px solid #e0e6ed', backgroundColor: 'white' }}>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) send(input)
+          }}
+          placeholder={t('tutorChat.placeholder')}
+          disabled={loading}
+          style={{ flex: 1, padding: '8px', border: '1px solid #ddd', borderRadius: '8px', fontSize: '14px' }}
+        />
+        <button
+          onClick={() => send(input)}
+          disabled={loading || sending || !input.trim()}
+          style={{ padding: '8px 14px', border: 'none', borderRadius: '8px', backgroundColor: '#3498db', color: 'white', fontSize: '14px', fontWeight: 'bold', cursor: 'pointer', opacity: input.trim() && !sending ? 1 : 0.6 }}
+        >
+          {t('tutorChat.send')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default TutorChat
@@ -0,0 +1,77 @@
+// 採点の○✕（座標はページの幅・高さを1とした割合）
+export interface GradingMark {
+    id: string
+    problemNumber: string
+    isCorrect: boolean
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+interface GradingMarksLayerProps {
+    marks: GradingMark[]
+    width: number  // PDFキャンバスのピクセルサイズ
+    height: number
+}
+
+const MARK_COLOR = '#e74c3c'
+
+// 紙のドリルの丸付けのように、解答の上に赤い○✕を重ねて表示する
+const GradingMarksLayer = ({ marks, width, height }: GradingMarksLayerProps) => {
+    if (marks.length === 0) return null
+
+    // 線の太さ・最小サイズはページ幅に合わせる（ズームしても見た目の比率が変わらないように）
+    const strokeWidth = Math.max(3, width * 0.004)
+    const minSize = width * 0.03
+
+    return (
+        <svg
+            className="grading-marks-layer"
+            width={width}
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: 'none'
+            }}
+        >
+            {marks.map(mark => {
+                const cx = (mark.x + mark.width / 2) * width
+                const cy = (mark.y + mark.height / 2) * height
+                const boxW = Math.max(mark.width * width, minSize)
+                const boxH = Math.max(mark.height * height, minSize)
+
+                if (mark.isCorrect) {
+                    // 解答を囲む○（少し大きめ）
+                    return (
+                        <ellipse
+                            key={mark.id}
+                            cx={cx}
+                            cy={cy}
+                            rx={boxW * 0.6}
+                            ry={boxH * 0.7}
+                            fill="none"
+                            stroke={MARK_COLOR}
+                            strokeWidth={strokeWidth}
+                            opacity={0.85}
+                        />
+                    )
+                }
+
+                // ✕は横長の解答でも潰れないように正方形に収める
+                const half = Math.min(boxW, boxH) * 0.6
+                return (
+                    <g key={mark.id} stroke={MARK_COLOR} strokeWidth={strokeWidth} strokeLinecap="round" opacity={0.85}>
+                        <line x1={cx - half} y1={cy - half} x2={cx + half} y2={cy + half} />
+                        <line x1={cx + half} y1={cy - half} x2={cx - half} y2={cy + half} />
+                    </g>
+                )
+            })}
+        </svg>
+    )
+}
+
+export default GradingMarksLayer
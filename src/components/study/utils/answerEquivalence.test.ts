@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { checkAnswerEquivalence, parseNumber } from './answerEquivalence'
+
+const ruleOf = (student: string, correct: string, correctReadings?: string[]) =>
+    checkAnswerEquivalence(student, correct, { correctReadings }).rule
+
+describe('exact', () => {
+    it('全角・半角、大文字・小文字、文末の句読点を吸収する', () => {
+        expect(ruleOf('ＡＢＣ', 'abc')).toBe('exact')
+        expect(ruleOf('答え: 12', '12')).toBe('exact')
+        expect(ruleOf('りんごです。', 'りんご')).toBe('exact')
+    })
+
+    it('答えが1つなら先頭の x= を無視する', () => {
+        expect(ruleOf('x=5', '5')).toBe('exact')
+    })
+
+    it('空の解答は一致しない', () => {
+        expect(ruleOf('', '5')).toBeNull()
+        expect(ruleOf('。', '5')).toBeNull()
+    })
+})
+
+describe('choice', () => {
+    it('カタカナ・ひらがな・丸囲みの記号を同じものとみなす', () => {
+        expect(ruleOf('(ア)', 'ア')).toBe('choice')
+        expect(ruleOf('㋐', 'ア')).toBe('choice')
+        expect(ruleOf('い', 'イ')).toBe('choice')
+        expect(ruleOf('①', '1')).toBe('choice')
+    })
+
+    it('違う記号は一致しない', () => {
+        expect(ruleOf('ア', 'イ')).toBeNull()
+        expect(ruleOf('②', '1')).toBeNull()
+    })
+})
+
+describe('numeric', () => {
+    it('小数の0や桁区切りを吸収する', () => {
+        expect(ruleOf('40.0', '40')).toBe('numeric')
+        expect(ruleOf('1000', '1,000')).toBe('numeric')
+    })
+
+    it('一部だけ同じ数は一致しない', () => {
+        expect(ruleOf('140', '40')).toBeNull()
+        expect(ruleOf('40', '140')).toBeNull()
+        expect(ruleOf('-3', '3')).toBeNull()
+    })
+})
+
+describe('fraction', () => {
+    it('分数・帯分数・小数を値で比べる', () => {
+        expect(ruleOf('0.5', '1/2')).toBe('fraction')
+        expect(ruleOf('4分の3', '3/4')).toBe('fraction')
+        expect(ruleOf('1と1/2', '3/2')).toBe('fraction')
+        expect(ruleOf('2と4分の3', '11/4')).toBe('fraction')
+    })
+
+    it('約分していない分数は約分済みの正解と一致しない', () => {
+        expect(ruleOf('2/4', '1/2')).toBeNull()
+    })
+
+    it('分子だけ・分母だけの数は一致しない', () => {
+        expect(ruleOf('3', '3/4')).toBeNull()
+        expect(ruleOf('3/4', '3')).toBeNull()
+        expect(ruleOf('4', '3/4')).toBeNull()
+    })
+
+    it('分母が0の分数は数として読まない', () => {
+        expect(parseNumber('1/0')).toBeNull()
+    })
+})
+
+describe('unit', () => {
+    it('同じ量を別の単位で書いたものを一致とみなす', () => {
+        expect(ruleOf('1m20cm', '120cm')).toBe('unit')
+        expect(ruleOf('1時間30分', '90分')).toBe('unit')
+        expect(ruleOf('1.5kg', '1500g')).toBe('unit')
+        expect(ruleOf('１ｍ２０ｃｍ', '120cm')).toBe('unit')
+    })
+
+    it('量が違うもの・次元が違うものは一致しない', () => {
+        expect(ruleOf('1m2cm', '120cm')).toBeNull()
+        expect(ruleOf('90分', '90cm')).toBeNull()
+    })
+})
+
+describe('unit-omitted', () => {
+    it('単位の書き忘れを一致とみなす', () => {
+        expect(ruleOf('40', '40度')).toBe('unit-omitted')
+        expect(ruleOf('120円', '120')).toBe('unit-omitted')
+    })
+
+    it('数が違えば一致しない', () => {
+        expect(ruleOf('140', '40度')).toBeNull()
+    })
+})
+
+describe('reading', () => {
+    it('ひらがなとカタカナの違いを吸収する', () => {
+        expect(ruleOf('りんご', 'リンゴ')).toBe('reading')
+    })
+
+    it('正解に添えられた読みと一致する', () => {
+        expect(ruleOf('えどばくふ', '江戸幕府(えどばくふ)')).toBe('reading')
+        expect(ruleOf('江戸幕府', '江戸幕府（えどばくふ）')).toBe('reading')
+    })
+
+    it('読みが分かっていれば、漢字の正解とひらがなの解答が一致する', () => {
+        expect(ruleOf('えどばくふ', '江戸幕府', ['えどばくふ'])).toBe('reading')
+        expect(ruleOf('エドバクフ', '江戸幕府', ['えどばくふ'])).toBe('reading')
+    })
+
+    it('読みが分からない・読みが違うときは一致しない', () => {
+        expect(ruleOf('えどばくふ', '江戸幕府')).toBeNull()
+        expect(ruleOf('かまくらばくふ', '江戸幕府', ['えどばくふ'])).toBeNull()
+    })
+})
+
+describe('unordered-set', () => {
+    it('区切り記号で並べた答えは順不同で比べる', () => {
+        expect(ruleOf('ウ、ア', 'ア,ウ')).toBe('unordered-set')
+        expect(ruleOf('5,3,2', '2、3、5')).toBe('unordered-set')
+    })
+
+    it('要素ごとに他のルールで比べる', () => {
+        expect(ruleOf('0.5, 3', '3, 1/2')).toBe('unordered-set')
+    })
+
+    it('要素の数が違う・要素が違うときは一致しない', () => {
+        expect(ruleOf('2,3', '2,3,5')).toBeNull()
+        expect(ruleOf('2,2,5', '2,3,5')).toBeNull()
+    })
+
+    it('ラベルつきの答えの値を入れ替えたものは一致しない', () => {
+        expect(ruleOf('x=2, y=3', 'x=3, y=2')).toBeNull()
+        expect(ruleOf('x=3, y=2', 'x=2, y=3')).toBeNull()
+        expect(ruleOf('(1)3, (2)4', '(1)4, (2)3')).toBeNull()
+    })
+
+    it('空白で並べた答えは順番どおりに比べる', () => {
+        expect(ruleOf('3 4', '4 3')).toBeNull()
+        expect(ruleOf('3 4', '3 4')).toBe('exact')
+    })
+
+    it('座標の組は入れ替えない', () => {
+        expect(ruleOf('(3,2)', '(2,3)')).toBeNull()
+    })
+})
@@ -0,0 +1,415 @@
+/**
+ * 解答の同値判定エンジン
+ *
+ * サーバー（server/index.ts）とクライアントの両方から読み込むため、
+ * DOMやNode固有のAPIには依存しないこと。
+ * 判定はルールを順番に試し、最初に一致したルールのIDを返す。
+ */
+
+// 判定に添える情報（画像やAIから分かったもの）
+export interface EquivalenceOptions {
+    correctReadings?: string[]  // 正解の読み（ひらがな・カタカナ）。"江戸幕府" -> ["えどばくふ"]
+}
+
+export interface EquivalenceRule {
+    id: string
+    matches: (student: string, correct: string, options: EquivalenceOptions) => boolean
+}
+
+export interface EquivalenceResult {
+    isEquivalent: boolean
+    rule: string | null  // 一致したルールのID（一致しなければnull）
+}
+
+// ==========================================
+// 正規化
+// ==========================================
+
+/**
+ * 表記揺れを吸収する（空白は1つにまとめて残す）
+ * - 全角英数字・記号を半角に
+ * - 小文字に統一
+ * - 文末の句読点や「です」「ます」を削除
+ * - 先頭の「答え:」を削除
+ * - 答えが1つだけのときは先頭の「x=」を削除（"x=2, y=3" のように複数あるときは残す）
+ */
+function normalizeWidth(value: string): string {
+    if (!value) return ''
+
+    const s = String(value)
+        .replace(/[！-～]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0))
+        .replace(/　/g, ' ')
+        .replace(/[−‐–]/g, '-')
+        .replace(/ℓ/g, 'l')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(答え|答|こたえ)\s*[:：]?\s*/, '')
+        .replace(/[、。,.]+$/, '')
+        .replace(/(です|ます|だ)$/, '')
+        .trim()
+
+    return s.split('=').length === 2 ? s.replace(/^[xy]\s*=\s*/, '') : s
+}
+
+// 空白も取り除いた比較用の文字列
+function toCanonical(value: string): string {
+    return normalizeWidth(value).replace(/\s+/g, '')
+}
+
+// カタカナをひらがなに
+function toHiragana(value: string): string {
+    return value.replace(/[ァ-ヶ]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0x60))
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+    return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b))
+}
+
+// ==========================================
+// 数値（整数・小数・分数・帯分数）
+// ==========================================
+
+interface ParsedNumber {
+    value: number
+    isFraction: boolean
+    isReduced: boolean  // 分数の場合、約分済みか
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? Math.abs(a) : gcd(b, a % b)
+}
+
+function fraction(whole: number, numerator: number, denominator: number, negative: boolean): ParsedNumber | null {
+    if (denominator === 0) return null
+    const value = (whole + numerator / denominator) * (negative ? -1 : 1)
+    return { value, isFraction: true, isReduced: gcd(numerator, denominator) === 1 }
+}
+
+/**
+ * 文字列全体が1つの数値として読めれば値を返す
+ * 例: "40", "-3.5", "1,000", "3/4", "4分の3", "1と2/3", "1 2/3", "2と4分の3"
+ */
+export function parseNumber(value: string): ParsedNumber | null {
+    const s = normalizeWidth(value)
+    if (!s) return null
+
+    let match = s.match(/^(-)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?|\.\d+)$/)
+    if (match) {
+        const num = parseFloat(match[2].replace(/,/g, ''))
+        return { value: match[1] ? -num : num, isFraction: false, isReduced: true }
+    }
+
+    // 分数: "3/4"
+    match = s.match(/^(-)?(\d+)\s*\/\s*(\d+)$/)
+    if (match) return fraction(0, parseInt(match[2], 10), parseInt(match[3], 10), !!match[1])
+
+    // 分数: "4分の3"
+    match = s.match(/^(-)?(\d+)\s*分の\s*(\d+)$/)
+    if (match) return fraction(0, parseInt(match[3], 10), parseInt(match[2], 10), !!match[1])
+
+    // 帯分数: "1と2/3", "1 2/3"
+    match = s.match(/^(-)?(\d+)\s*(?:と|\s)\s*(\d+)\s*\/\s*(\d+)$/)
+    if (match) return fraction(parseInt(match[2], 10), parseInt(match[3], 10), parseInt(match[4], 10), !!match[1])
+
+    // 帯分数: "2と4分の3"
+    match = s.match(/^(-)?(\d+)\s*と\s*(\d+)\s*分の\s*(\d+)$/)
+    if (match) return fraction(parseInt(match[2], 10), parseInt(match[4], 10), parseInt(match[3], 10), !!match[1])
+
+    return null
+}
+
+// ==========================================
+// 単位つきの量（"1m20cm", "1時間30分", "40度"）
+// ==========================================
+
+// 単位 -> [次元, 基本単位への換算係数]
+const UNITS: Record<string, [string, number]> = {
+    'mm': ['length', 0.001],
+    'cm': ['length', 0.01],
+    'm': ['length', 1],
+    'km': ['length', 1000],
+    'mm²': ['area', 1e-6],
+    'cm²': ['area', 1e-4],
+    'm²': ['area', 1],
+    'km²': ['area', 1e6],
+    'mm³': ['volume', 1e-6],
+    'cm³': ['volume', 1e-3],
+    'm³': ['volume', 1000],
+    'ml': ['volume', 0.001],
+    'dl': ['volume', 0.1],
+    'l': ['volume', 1],
+    'kl': ['volume', 1000],
+    'mg': ['mass', 0.001],
+    'g': ['mass', 1],
+    'kg': ['mass', 1000],
+    't': ['mass', 1e6],
+    '秒': ['time', 1],
+    '分': ['time', 60],
+    '分間': ['time', 60],
+    '時間': ['time', 3600],
+    '日': ['time', 86400],
+    '度': ['angle', 1],
+    '°': ['angle', 1],
+    '円': ['yen', 1],
+    '個': ['count', 1],
+    'こ': ['count', 1],
+    '人': ['people', 1],
+    '本': ['long-object', 1],
+    '枚': ['sheet', 1],
+    '匹': ['animal', 1],
+    'ひき': ['animal', 1],
+    'ぴき': ['animal', 1],
+    'びき': ['animal', 1]
+}
+
+// 長い単位から先に試す（"cm" を "c" + "m" と読まないように）
+const UNIT_PATTERN = Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map(unit => unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')
+
+interface ParsedQuantity {
+    dimension: string
+    value: number        // 基本単位に換算した値
+    number: number       // 単位を1つだけ含む場合の数値（"40度" -> 40）
+    isSingleUnit: boolean
+}
+
+function parseQuantity(value: string): ParsedQuantity | null {
+    // "cm2" "cm^2" -> "cm²"（末尾のみ。"1m2cm" は 1m 2cm と読む）
+    const s = toCanonical(value)
+        .replace(/(mm|cm|km|m)\^?2$/, '$1²')
+        .replace(/(mm|cm|m)\^?3$/, '$1³')
+    if (!s) return null
+
+    const pattern = new RegExp(`(\\d+(?:\\.\\d+)?)(${UNIT_PATTERN})`, 'g')
+    let consumed = ''
+    let dimension: string | null = null
+    let total = 0
+    let count = 0
+    let firstNumber = 0
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(s)) !== null) {
+        if (match.index !== consumed.length) return null
+        const [unitDimension, factor] = UNITS[match[2]]
+        if (dimension && dimension !== unitDimension) return null
+        dimension = unitDimension
+        const num = parseFloat(match[1])
+        if (count === 0) firstNumber = num
+        total += num * factor
+        count++
+        consumed += match[0]
+    }
+
+    if (!dimension || consumed !== s) return null
+    return { dimension, value: total, number: firstNumber, isSingleUnit: count === 1 }
+}
+
+// ==========================================
+// 記号選択（ア/イ/ウ、①②③）
+// ==========================================
+
+const KATAKANA_CHOICES = 'アイウエオカキクケコサシスセソ'
+const HIRAGANA_CHOICES = 'あいうえおかきくけこさしすせそ'
+
+interface ParsedChoice {
+    series: 'kana' | 'number'
+    index: number
+    isPlainDigit: boolean
+}
+
+function parseChoice(value: string): ParsedChoice | null {
+    const s = toCanonical(value).replace(/^\((.+)\)$/, '$1')
+    const wasParenthesized = s !== toCanonical(value)
+    if (s.length === 0) return null
+
+    if (s.length === 1) {
+        const code = s.charCodeAt(0)
+        if (KATAKANA_CHOICES.includes(s)) return { series: 'kana', index: KATAKANA_CHOICES.indexOf(s), isPlainDigit: false }
+        if (HIRAGANA_CHOICES.includes(s)) return { series: 'kana', index: HIRAGANA_CHOICES.indexOf(s), isPlainDigit: false }
+        // ㋐〜㋞（丸囲みカタカナ）
+        if (code >= 0x32D0 && code < 0x32D0 + KATAKANA_CHOICES.length) return { series: 'kana', index: code - 0x32D0, isPlainDigit: false }
+        // ①〜⑳
+        if (code >= 0x2460 && code <= 0x2473) return { series: 'number', index: code - 0x2460, isPlainDigit: false }
+    }
+
+    if (/^\d{1,2}$/.test(s)) {
+        return { series: 'number', index: parseInt(s, 10) - 1, isPlainDigit: !wasParenthesized }
+    }
+
+    return null
+}
+
+// ==========================================
+// ルール定義
+// ==========================================
+
+// 完全一致（表記揺れを吸収した上で）
+const exactRule: EquivalenceRule = {
+    id: 'exact',
+    matches: (student, correct) => {
+        const s = toCanonical(student)
+        return s.length > 0 && s === toCanonical(correct)
+    }
+}
+
+// 記号選択: "ア" と "(ア)" と "㋐"、"①" と "1"
+const choiceRule: EquivalenceRule = {
+    id: 'choice',
+    matches: (student, correct) => {
+        const a = parseChoice(student)
+        const b = parseChoice(correct)
+        if (!a || !b) return false
+        // 両方ただの数字なら記号選択とはみなさない（数値ルールに任せる）
+        if (a.isPlainDigit && b.isPlainDigit) return false
+        return a.series === b.series && a.index === b.index
+    }
+}
+
+// 整数・小数の一致: "40" と "40.0"、"1000" と "1,000"
+const numericRule: EquivalenceRule = {
+    id: 'numeric',
+    matches: (student, correct) => {
+        const a = parseNumber(student)
+        const b = parseNumber(correct)
+        if (!a || !b || a.isFraction || b.isFraction) return false
+        return nearlyEqual(a.value, b.value)
+    }
+}
+
+// 分数・帯分数・小数と分数: "1/2" と "0.5"、"1と1/2" と "3/2"
+// 正解が約分済みの分数なら、生徒の分数も約分済みであること（"2/4" は "1/2" の正解にしない）
+const fractionRule: EquivalenceRule = {
+    id: 'fraction',
+    matches: (student, correct) => {
+        const a = parseNumber(student)
+        const b = parseNumber(correct)
+        if (!a || !b || (!a.isFraction && !b.isFraction)) return false
+        if (b.isFraction && b.isReduced && a.isFraction && !a.isReduced) return false
+        return nearlyEqual(a.value, b.value)
+    }
+}
+
+// 単位換算: "1m20cm" と "120cm"、"1時間30分" と "90分"
+const unitRule: EquivalenceRule = {
+    id: 'unit',
+    matches: (student, correct) => {
+        const a = parseQuantity(student)
+        const b = parseQuantity(correct)
+        if (!a || !b || a.dimension !== b.dimension) return false
+        return nearlyEqual(a.value, b.value)
+    }
+}
+
+// 単位の書き忘れ（またはその逆）: "40" と "40度"
+const unitOmittedRule: EquivalenceRule = {
+    id: 'unit-omitted',
+    matches: (student, correct) => {
+        const studentNumber = parseNumber(student)
+        const correctNumber = parseNumber(correct)
+        const studentQuantity = parseQuantity(student)
+        const correctQuantity = parseQuantity(correct)
+
+        if (studentNumber && correctQuantity?.isSingleUnit) {
+            return nearlyEqual(studentNumber.value, correctQuantity.number)
+        }
+        if (correctNumber && studentQuantity?.isSingleUnit) {
+            return nearlyEqual(correctNumber.value, studentQuantity.number)
+        }
+        return false
+    }
+}
+
+// ひらがな・カタカナの違いと漢字の読み
+// "江戸幕府(えどばくふ)" と "えどばくふ"、読みが分かっていれば "江戸幕府" と "えどばくふ"
+const readingRule: EquivalenceRule = {
+    id: 'reading',
+    matches: (student, correct, options) => {
+        const s = toHiragana(toCanonical(student))
+        if (!s) return false
+
+        const c = toCanonical(correct)
+        const candidates = [c, ...(options.correctReadings || []).map(toCanonical)]
+        const withReading = c.match(/^(.+?)\((.+)\)$/)
+        if (withReading) {
+            candidates.push(withReading[1], withReading[2])
+        }
+        return candidates.some(candidate => candidate.length > 0 && toHiragana(candidate) === s)
+    }
+}
+
+// 要素ごとの判定に使うルール（集合ルール自身は含めない）
+const ELEMENT_RULES: EquivalenceRule[] = [
+    exactRule,
+    choiceRule,
+    numericRule,
+    fractionRule,
+    unitRule,
+    unitOmittedRule,
+    readingRule
+]
+
+// 区切り記号（、,;・）で分ける。空白だけの区切りは "3 4"（小問の答えを並べたもの）のように順番があることが多いので分けない
+function splitItems(value: string): string[] {
+    const s = normalizeWidth(value)
+    // 座標などの括弧でくくられた組は順番に意味があるので分割しない
+    if (/^\(.*\)$/.test(s)) return [s]
+    // "1,000" のような桁区切りは分割しない
+    if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) return [s]
+    return s.split(/\s*[、,;；・]\s*/).filter(item => item.length > 0)
+}
+
+// "x=2"、"(1)3" のように、どの答えかを示すラベルがついた要素（ラベルごとに順番が決まっている）
+function isLabeledItem(item: string): boolean {
+    return /^[a-z]\s*=/.test(item) || /^\(\d+\)\s*\S/.test(item)
+}
+
+// 順不同の組: "ア、ウ" と "ウ,ア"、"2,3,5" と "5,3,2"
+// ラベルつき（"x=2, y=3"）や空白区切り（"3 4"）は順番に意味があるので対象にしない
+const unorderedSetRule: EquivalenceRule = {
+    id: 'unordered-set',
+    matches: (student, correct, options) => {
+        const studentItems = splitItems(student)
+        const correctItems = splitItems(correct)
+        if (studentItems.length < 2 || studentItems.length !== correctItems.length) return false
+        if ([...studentItems, ...correctItems].some(isLabeledItem)) return false
+
+        const remaining = [...correctItems]
+        return studentItems.every(item => {
+            const index = remaining.findIndex(candidate =>
+                ELEMENT_RULES.some(rule => rule.matches(item, candidate, options))
+            )
+            if (index === -1) return false
+            remaining.splice(index, 1)
+            return true
+        })
+    }
+}
+
+export const DEFAULT_EQUIVALENCE_RULES: EquivalenceRule[] = [
+    ...ELEMENT_RULES,
+    unorderedSetRule
+]
+
+/**
+ * 生徒の解答と正解が同じ意味かどうかを判定する
+ * @param options 正解の読みなど、判定に添える情報
+ * @param rules 判定に使うルール（省略時は DEFAULT_EQUIVALENCE_RULES）
+ */
+export function checkAnswerEquivalence(
+    student: string,
+    correct: string,
+    options: EquivalenceOptions = {},
+    rules: EquivalenceRule[] = DEFAULT_EQUIVALENCE_RULES
+): EquivalenceResult {
+    if (!student || !correct) return { isEquivalent: false, rule: null }
+
+    for (const rule of rules) {
+        if (rule.matches(student, correct, options)) {
+            return { isEquivalent: true, rule: rule.id }
+        }
+    }
+    return { isEquivalent: false, rule: null }
+}
@@ -1,2 +1,5 @@
 export { normalizeAnswer, normalizeProblemNumber } from './normalizers'
+export { checkAnswerEquivalence, DEFAULT_EQUIVALENCE_RULES } from './answerEquivalence'
+export type { EquivalenceRule, EquivalenceResult, EquivalenceOptions } from './answerEquivalence'
 export { compressImage, cropCanvas, extractPageFromSectionName } from './helpers'
+export { createStrokeId, getStrokeId, withStrokeId } from './strokes'
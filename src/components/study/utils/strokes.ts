@@ -0,0 +1,22 @@
+/**
+ * ペン跡1本ごとのID
+ * クラウド同期でペン跡を見分けるために、書いたときに付けてペン跡と一緒に保存する
+ * （同じ形のペン跡を2本書いても別のペン跡として扱う）
+ */
+
+type WithStrokeId = { strokeId?: string }
+
+export function createStrokeId(): string {
+    return crypto.randomUUID()
+}
+
+export function getStrokeId(path: object): string | undefined {
+    return (path as WithStrokeId).strokeId
+}
+
+/**
+ * IDがなければ付ける
+ */
+export function withStrokeId<T extends object>(path: T, strokeId: string = createStrokeId()): T & WithStrokeId {
+    return getStrokeId(path) ? path : { ...path, strokeId }
+}
@@ -7,7 +7,6 @@ interface UserData {
     uid: string;
     email: string | null;
     displayName: string | null;
-    isPremium: boolean;
     snsRewardMinutes: number;
 }
 
@@ -61,7 +60,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                             uid: currentUser.uid,
                             email: currentUser.email,
                             displayName: currentUser.displayName,
-                            isPremium: data.isPremium || false,
                             snsRewardMinutes: data.snsRewardMinutes || (data.isPremium ? 10 : 60),
                         });
                     }
@@ -0,0 +1,111 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { EntitlementCache } from '../utils/indexedDB';
+import {
+    isPremiumEntitlement,
+    loadCachedEntitlement,
+    refreshEntitlement,
+    redeemEntitlementPromoCode,
+    clearEntitlement
+} from '../services/entitlement';
+
+interface EntitlementContextType {
+    isPremium: boolean;
+    entitlement: EntitlementCache | null;
+    loading: boolean;
+    refresh: () => Promise<void>;
+    redeemPromoCode: (code: string) => Promise<string | null>; // 失敗したときはエラーコードを返す
+}
+
+const EntitlementContext = createContext<EntitlementContextType>({
+    isPremium: false,
+    entitlement: null,
+    loading: true,
+    refresh: async () => { },
+    redeemPromoCode: async () => 'invalid'
+});
+
+export const useEntitlement = () => useContext(EntitlementContext);
+
+// プレミアムかどうか（サーバーが署名した権利だけを信じる。オフラインの間はキャッシュを期限まで使う）
+export const EntitlementProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const [entitlement, setEntitlement] = useState<EntitlementCache | null>(null);
+    const [loading, setLoading] = useState(true);
+    // 期限が来たら表示を切り替えるための時刻
+    const [now, setNow] = useState(Date.now());
+
+    const refresh = useCallback(async () => {
+        if (!user) return;
+        try {
+            setEntitlement(await refreshEntitlement(user));
+        } catch (error) {
+            // 取れなかったときはキャッシュのまま（オフラインなど）
+            console.warn('プレミアムの確認に失敗:', error);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setLoading(true);
+            if (!user) {
+                await clearEntitlement().catch(error => console.error('プレミアムのキャッシュの削除に失敗:', error));
+                if (!cancelled) {
+                    setEntitlement(null);
+                    setLoading(false);
+                }
+                return;
+            }
+
+            const cached = await loadCachedEntitlement(user.uid).catch(() => null);
+            if (cancelled) return;
+            setEntitlement(cached);
+            setLoading(false);
+            await refresh();
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [user, refresh]);
+
+    // オンラインに戻ったら取り直す
+    useEffect(() => {
+        window.addEventListener('online', refresh);
+        return () => window.removeEventListener('online', refresh);
+    }, [refresh]);
+
+    // トークンの期限が来たら取り直す（取れなければプレミアムではなくなる）
+    useEffect(() => {
+        if (!entitlement) return;
+        const delay = entitlement.expiresAt - Date.now();
+        if (delay <= 0) return;
+        const timer = window.setTimeout(() => {
+            setNow(Date.now());
+            refresh();
+        }, Math.min(delay + 1000, 2 ** 31 - 1));
+        return () => window.clearTimeout(timer);
+    }, [entitlement, refresh]);
+
+    const redeemPromoCode = async (code: string): Promise<string | null> => {
+        if (!user) return 'unauthorized';
+        try {
+            const result = await redeemEntitlementPromoCode(user, code);
+            if (result.error) return result.error;
+            setEntitlement(result.entitlement);
+            return null;
+        } catch (error) {
+            console.error('プロモコードの適用に失敗:', error);
+            return 'network';
+        }
+    };
+
+    const isPremium = isPremiumEntitlement(entitlement, user?.uid, now);
+
+    return (
+        <EntitlementContext.Provider value={{ isPremium, entitlement, loading, refresh, redeemPromoCode }}>
+            {children}
+        </EntitlementContext.Provider>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import {
+    ProfileRecord,
+    getAllProfiles,
+    getActiveProfileId,
+    setActiveProfileId,
+    saveProfile,
+    deleteProfile,
+    generateProfileId
+} from '../utils/indexedDB';
+
+interface ProfileContextType {
+    profiles: ProfileRecord[];
+    activeProfile: ProfileRecord | null;
+    profileVersion: number; // プロフィールを切り替えるたびに増える（画面の再読み込み用）
+    loading: boolean;
+    switchProfile: (id: string) => Promise<void>;
+    addProfile: (name: string, icon: string) => Promise<ProfileRecord>;
+    updateProfile: (profile: ProfileRecord) => Promise<void>;
+    removeProfile: (id: string) => Promise<void>;
+}
+
+const ProfileContext = createContext<ProfileContextType>({
+    profiles: [],
+    activeProfile: null,
+    profileVersion: 0,
+    loading: true,
+    switchProfile: async () => { },
+    addProfile: async () => { throw new Error('ProfileProvider is not mounted'); },
+    updateProfile: async () => { },
+    removeProfile: async () => { }
+});
+
+export const useProfile = () => useContext(ProfileContext);
+
+// 子どもごとのプロフィール（ドリル・ペン跡・採点履歴・SNS利用時間を分ける）
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [profiles, setProfiles] = useState<ProfileRecord[]>([]);
+    const [activeProfileId, setActiveProfileIdState] = useState<string | null>(null);
+    const [profileVersion, setProfileVersion] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    const loadProfiles = useCallback(async () => {
+        const [records, activeId] = await Promise.all([getAllProfiles(), getActiveProfileId()]);
+        setProfiles(records);
+        setActiveProfileIdState(activeId);
+        return records;
+    }, []);
+
+    useEffect(() => {
+        loadProfiles()
+            .catch(error => console.error('プロフィールの読み込みに失敗:', error))
+            .finally(() => setLoading(false));
+    }, [loadProfiles]);
+
+    const switchProfile = async (id: string) => {
+        if (id === activeProfileId) return;
+        await setActiveProfileId(id);
+        setActiveProfileIdState(id);
+        setProfileVersion(v => v + 1);
+        console.log('👤 プロフィールを切り替え:', id);
+    };
+
+    const addProfile = async (name: string, icon: string) => {
+        const profile: ProfileRecord = {
+            id: generateProfileId(),
+            name,
+            icon,
+            createdAt: Date.now()
+        };
+        await saveProfile(profile);
+        await loadProfiles();
+        return profile;
+    };
+
+    const updateProfile = async (profile: ProfileRecord) => {
+        await saveProfile(profile);
+        await loadProfiles();
+    };
+
+    // 選択中のプロフィールを消す場合は、残っている最初のプロフィールに切り替える
+    const removeProfile = async (id: string) => {
+        const remaining = profiles.filter(profile => profile.id !== id);
+        if (remaining.length === 0) {
+            throw new Error('最後のプロフィールは削除できません');
+        }
+        if (id === activeProfileId) {
+            await switchProfile(remaining[0].id);
+        }
+        await deleteProfile(id);
+        await loadProfiles();
+    };
+
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId) || null;
+
+    return (
+        <ProfileContext.Provider value={{ profiles, activeProfile, profileVersion, loading, switchProfile, addProfile, updateProfile, removeProfile }}>
+            {!loading && children}
+        </ProfileContext.Provider>
+    );
+};
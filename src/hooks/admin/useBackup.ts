@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { downloadBackup, readBackupFile, restoreBackup, BackupArchive } from '../../services/backup'
+import { RestoreMode } from '../../utils/indexedDB'
+
+export const useBackup = () => {
+  const { t } = useTranslation()
+  const [isBackingUp, setIsBackingUp] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  // 読み込んだバックアップ（復元方法を選ぶまで保持）
+  const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null)
+  const [backupError, setBackupError] = useState<string | null>(null)
+
+  const exportBackup = async () => {
+    setIsBackingUp(true)
+    setBackupError(null)
+    try {
+      await downloadBackup()
+    } catch (error) {
+      console.error('バックアップの作成に失敗:', error)
+      setBackupError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsBackingUp(false)
+    }
+  }
+
+  const selectBackupFile = async (file: File) => {
+    setBackupError(null)
+    try {
+      setPendingArchive(await readBackupFile(file))
+    } catch (error) {
+      console.error('バックアップの読み込みに失敗:', error)
+      setBackupError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const cancelRestore = () => {
+    setPendingArchive(null)
+  }
+
+  const confirmRestore = async (mode: RestoreMode) => {
+    if (!pendingArchive) return
+    if (mode === 'replace' && !confirm(t('backup.replaceConfirm'))) return
+
+    setIsRestoring(true)
+    setBackupError(null)
+    try {
+      const summary = await restoreBackup(pendingArchive, mode)
+      alert(t('backup.restored', { added: summary.added, updated: summary.updated, skipped: summary.skipped }))
+      // プロフィール・設定も変わるのでアプリを読み直す
+      window.location.reload()
+    } catch (error) {
+      console.error('バックアップの復元に失敗:', error)
+      setBackupError(error instanceof Error ? error.message : String(error))
+      setIsRestoring(false)
+    }
+  }
+
+  return {
+    isBackingUp,
+    isRestoring,
+    pendingArchive,
+    backupError,
+    exportBackup,
+    selectBackupFile,
+    cancelRestore,
+    confirmRestore
+  }
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { syncNow, setCloudSyncEnabled } from '../../services/cloudSync'
+import { getCloudSyncState } from '../../utils/indexedDB'
+
+// クラウド同期（保護者がオンにしたときだけ）。onSynced はこの端末のデータが変わったときに呼ぶ
+export const useCloudSync = (onSynced: () => void) => {
+  const { user } = useAuth()
+  const [enabled, setEnabled] = useState(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null)
+  const [syncError, setSyncError] = useState<string | null>(null)
+
+  const runSync = async () => {
+    setIsSyncing(true)
+    setSyncError(null)
+    try {
+      const summary = await syncNow()
+      setLastSyncedAt(Date.now())
+      if (summary.downloaded > 0) {
+        onSynced()
+      }
+    } catch (error) {
+      console.error('クラウド同期に失敗:', error)
+      setSyncError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  // ドリル一覧を開いたとき（学習画面から戻ったときも）に同期する
+  useEffect(() => {
+    let cancelled = false
+    getCloudSyncState()
+      .then(state => {
+        if (cancelled) return
+        setEnabled(state.enabled)
+        setLastSyncedAt(state.lastSyncedAt ?? null)
+        if (state.enabled && user && navigator.onLine) {
+          runSync()
+        }
+      })
+      .catch(error => console.error('同期設定の読み込みに失敗:', error))
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.uid])
+
+  const toggleEnabled = async (value: boolean) => {
+    try {
+      await setCloudSyncEnabled(value)
+      setEnabled(value)
+      if (value) {
+        await runSync()
+      }
+    } catch (error) {
+      console.error('同期設定の保存に失敗:', error)
+      setSyncError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return {
+    enabled,
+    isSyncing,
+    lastSyncedAt,
+    syncError,
+    canSync: !!user,
+    toggleEnabled,
+    runSync
+  }
+}
@@ -1,9 +1,10 @@
 import { useState } from 'react'
-import { getAllPDFRecords, deletePDFRecord, savePDFRecord, generatePDFId, PDFFileRecord } from '../../utils/indexedDB'
+import { getAllPDFRecords, deletePDFRecord, savePDFRecord, generatePDFId, PDFFileRecord, deleteAnswerKeysByPdfId, deleteGradingOutboxItemsByPdfId } from '../../utils/indexedDB'
 import * as pdfjsLib from 'pdfjs-dist'
 import { detectSubject } from '../../services/api'
 import { isSupportedImageFile, processImageFiles } from '../../utils/imageProcessor'
 import { convertImagesToPDF } from '../../services/pdfConverter'
+import { recordCloudDeletion } from '../../services/cloudSync'
 
 // Workerの設定
 // Workerの設定（ローカルファイルを使用）
@@ -308,6 +309,10 @@ export const usePDFRecords = () => {
   const handleDeleteRecord = async (id: string) => {
     try {
       await deletePDFRecord(id)
+      // 登録済みの解答・採点待ちも一緒に削除
+      await deleteAnswerKeysByPdfId(id)
+      await deleteGradingOutboxItemsByPdfId(id)
+      await recordCloudDeletion('drill', id)
       await loadPDFRecords()
     } catch (error) {
       console.error('Failed to delete:', error)
@@ -74,11 +74,15 @@ export const useSNSLinks = () => {
         if (!sns) continue
 
         const url = customUrls[snsId] || sns.defaultUrl
+        // 保護者設定で決めたSNSごとの上限は残す
+        const previous = snsLinks.find(link => link.id === snsId)
         const newLink: SNSLinkRecord = {
           id: snsId,
           name: sns.name,
           url: url,
           icon: sns.icon,
+          timeLimitMinutes: previous?.timeLimitMinutes,
+          unlimited: previous?.unlimited,
           createdAt: Date.now()
         }
         await saveSNSLink(newLink)
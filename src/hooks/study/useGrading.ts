@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { GradingResponseResult, gradeWork } from '../../services/api';
-import { saveGradingHistory, generateGradingHistoryId } from '../../utils/indexedDB';
+import { GradingResponseResult, GradingResult, gradeWorkStream } from '../../services/api';
+import { saveGradingHistory, generateGradingHistoryId, getAnswerKeysByPage, GradingHistoryRecord } from '../../utils/indexedDB';
+import { recordGradingForReview } from '../../services/reviewQueue';
+import { linkHintUsage } from '../../services/hintUsage';
 
 export const useGrading = (
     pdfId: string,
@@ -15,6 +17,20 @@ export const useGrading = (
     const [gradingResult, setGradingResult] = useState<GradingResponseResult | null>(null);
     const [selectionPreview, setSelectionPreview] = useState<string | null>(null);
 
+    // ストリーミングで届いた問題を順に結果へ反映する（index 0 が来たら前回の結果を捨てる）
+    const applyStreamedProblem = (problem: GradingResult, index: number) => {
+        setGradingResult(prev => {
+            const problems = index === 0 ? [] : [...(prev?.problems || [])];
+            problems[index] = problem;
+            return { ...(index === 0 ? {} : prev), problems };
+        });
+    };
+
+    // ストリーミングの途中でサーバーがやり直したら、それまでに表示した問題を消す
+    const resetStreamedProblems = () => {
+        setGradingResult(prev => prev && { ...prev, problems: [] });
+    };
+
     // 採点実行
     const executeGrading = async (
         croppedImageData: string,
@@ -25,12 +41,21 @@ export const useGrading = (
         addStatusMessage('🤖 AI採点中... (10〜30秒ほどかかります)');
 
         try {
-            // API呼び出し（教科IDを含める）
-            const response: any = await gradeWork(
+            // 登録済みの正解があれば一緒に送る（サーバー側で正解と照合する）
+            const answerKeys = await getAnswerKeysByPage(pdfId, pageNumber).catch((error) => {
+                console.warn('解答の取得に失敗しました（AIのみで採点します）:', error);
+                return [];
+            });
+
+            // API呼び出し（教科IDを含める）。採点できた問題から順に表示する
+            const response: any = await gradeWorkStream(
                 croppedImageData,
+                applyStreamedProblem,
                 selectedModel !== 'default' ? selectedModel : undefined,
                 i18n.language,
-                subjectId  // Pass subject ID for subject-specific grading
+                subjectId,  // Pass subject ID for subject-specific grading
+                answerKeys.map(({ problemNumber, correctAnswer, pageNumber }) => ({ problemNumber, correctAnswer, pageNumber })),
+                resetStreamedProblems
             );
 
             if (!response.success && response.error) {
@@ -47,9 +72,10 @@ export const useGrading = (
             // Flatten problems for history
             const problems = result.problems || [];
 
+            const historyRecords: GradingHistoryRecord[] = [];
             for (const problem of problems) {
                 const historyId = generateGradingHistoryId();
-                await saveGradingHistory({
+                const historyRecord: GradingHistoryRecord = {
                     id: historyId,
                     pdfId: pdfId,
                     pdfFileName: fileName,
@@ -60,20 +86,33 @@ export const useGrading = (
                     correctAnswer: problem.correctAnswer || '',
                     feedback: problem.feedback || '',
                     explanation: problem.explanation || '',
+                    topic: problem.topic || undefined,
                     timestamp: Date.now(),
                     imageData: croppedImageData,
                     matchingMetadata: {
-                        method: 'ai',
+                        method: problem.gradingSource === 'db' ? 'exact' : 'ai',
                         reasoning: problem.positionReasoning
                     }
-                });
+                };
+                historyRecords.push(historyRecord);
+            }
+            // 採点の前にヒントを見た問題には、見た段階を記録する
+            await linkHintUsage(historyRecords);
+            for (const historyRecord of historyRecords) {
+                await saveGradingHistory(historyRecord);
             }
 
+            // まちがえた問題を復習キューへ（失敗しても採点結果は表示する）
+            recordGradingForReview(historyRecords).catch(error => {
+                console.error('復習キューの更新に失敗:', error);
+            });
+
             addStatusMessage(`✨ 採点完了 (${problems.length}問)`);
             return true;
 
         } catch (error) {
             console.error('Grading failed:', error);
+            setGradingResult(null); // 途中まで表示した結果は残さない
             addStatusMessage('❌ 採点エラー: ' + (error instanceof Error ? error.message : '不明なエラー'));
             return false;
         } finally {
@@ -91,6 +130,8 @@ export const useGrading = (
         setIsGrading, // Expose setter
         gradingResult,
         setGradingResult,
+        applyStreamedProblem,
+        resetStreamedProblems,
         selectionPreview,
         setSelectionPreview,
         executeGrading,
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GradingOutboxRecord, getGradingOutboxItemsByPdfId } from '../../utils/indexedDB';
+import { GradingOutboxDelivery, subscribeGradingOutbox, discardGradingOutboxItem } from '../../services/gradingOutbox';
+
+// 表示中のドリルの採点待ち（オフライン時に貯めたもの）
+export const useGradingOutbox = (
+    pdfId: string,
+    onDelivered?: (deliveries: GradingOutboxDelivery[]) => void
+) => {
+    const [outboxItems, setOutboxItems] = useState<GradingOutboxRecord[]>([]);
+    // 毎回新しい関数が渡されても購読し直さないようにrefで持つ
+    const onDeliveredRef = useRef(onDelivered);
+    onDeliveredRef.current = onDelivered;
+
+    const reload = useCallback(async () => {
+        try {
+            // 結果が届いて履歴に保存するのを待っているものは表示しない
+            const items = await getGradingOutboxItemsByPdfId(pdfId);
+            setOutboxItems(items.filter(item => item.status !== 'delivered'));
+        } catch (error) {
+            console.error('採点待ちの取得に失敗:', error);
+        }
+    }, [pdfId]);
+
+    useEffect(() => {
+        reload();
+        return subscribeGradingOutbox((deliveries) => {
+            reload();
+            const mine = deliveries.filter(delivery => delivery.item.pdfId === pdfId);
+            if (mine.length > 0) {
+                onDeliveredRef.current?.(mine);
+            }
+        });
+    }, [pdfId, reload]);
+
+    const discardItem = async (id: string) => {
+        await discardGradingOutboxItem(id);
+    };
+
+    return {
+        outboxItems,
+        pendingCount: outboxItems.filter(item => item.status === 'pending').length,
+        discardItem
+    };
+};
@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY || 'dummy_api_key_for_local_testing',
@@ -11,18 +12,31 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID || '1:123456789:web:dummy12345'
 };
 
-let app, authInstance, dbInstance;
+// Local Emulator Suite (firebase.json) instead of the real project, e.g. VITE_FIREBASE_EMULATOR_HOST=127.0.0.1
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST;
+
+let app, authInstance, dbInstance, storageInstance;
 try {
   app = initializeApp(firebaseConfig);
   authInstance = getAuth(app);
   dbInstance = getFirestore(app);
+  storageInstance = getStorage(app);
+
+  if (emulatorHost) {
+    connectAuthEmulator(authInstance, `http://${emulatorHost}:9099`, { disableWarnings: true });
+    connectFirestoreEmulator(dbInstance, emulatorHost, 8080);
+    connectStorageEmulator(storageInstance, emulatorHost, 9199);
+    console.log('🧪 Using Firebase emulators at', emulatorHost);
+  }
 } catch (error) {
   console.warn('Firebase initialization failed (probably invalid dummy key):', error);
   // Provide empty mock objects so the app doesn't crash entirely when importing these
   app = {} as any;
   authInstance = {} as any;
   dbInstance = {} as any;
+  storageInstance = {} as any;
 }
 
 export const auth = authInstance;
 export const db = dbInstance;
+export const storage = storageInstance;
@@ -31,11 +31,17 @@ window.addEventListener('unhandledrejection', (event) => {
 })
 
 import { AuthProvider } from './contexts/AuthContext'
+import { ProfileProvider } from './contexts/ProfileContext'
+import { EntitlementProvider } from './contexts/EntitlementContext'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <AuthProvider>
-      <App />
+      <EntitlementProvider>
+        <ProfileProvider>
+          <App />
+        </ProfileProvider>
+      </EntitlementProvider>
     </AuthProvider>
   </React.StrictMode>,
 )
@@ -0,0 +1,301 @@
+import { PDFDocument, PDFPage, LineCapStyle, rgb, degrees, RGB } from 'pdf-lib';
+import { getPDFRecord, fetchPDFData } from '../utils/indexedDB';
+import type { TextAnnotation } from '../components/study/StudyPanel';
+import type { GradingMark } from '../components/study/components/GradingMarksLayer';
+
+/**
+ * 書き出しの設定
+ */
+export interface AnnotatedPDFExportOptions {
+    fromPage: number; // 1から
+    toPage: number;
+    includeMarks: boolean; // 採点の○✕も書き込む
+}
+
+/**
+ * 保存されているペン跡（DrawingPath のうち書き出しに使う項目。座標はページの幅・高さを1とした割合）
+ */
+interface StoredStroke {
+    points: { x: number; y: number }[];
+    color?: string;
+    width?: number;
+}
+
+/**
+ * ページを画面に表示したときの向きで座標を扱うための情報
+ */
+interface PageGeometry {
+    toPdf: (u: number, v: number) => { x: number; y: number }; // 表示上の割合の座標 -> PDFの座標
+    width: number; // 表示上の幅（PDFの単位）
+    height: number;
+    rotation: number;
+}
+
+// 画面上のペンの太さ・文字の大きさ（px）をPDFの大きさに直すときに、ページがこの幅で表示されていたものとして扱う
+const SCREEN_PAGE_WIDTH = 800;
+// テキストは日本語のフォントを埋め込めないので画像にする（そのときの解像度の倍率）
+const TEXT_RENDER_SCALE = 3;
+const TEXT_PADDING = 2;
+const MARK_COLOR = '#e74c3c'; // GradingMarksLayer と同じ
+
+/**
+ * CSSの色（#rgb / #rrggbb / #rrggbbaa / rgb() / rgba()）を pdf-lib の色と不透明度にする
+ */
+function parseColor(color: string | undefined): { color: RGB; opacity: number } {
+    const value = (color || '#000000').trim();
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+        const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16) / 255;
+        return { color: rgb(channel(0), channel(1), channel(2)), opacity: digits.length === 8 ? channel(3) : 1 };
+    }
+    const fn = value.match(/^rgba?\(([^)]+)\)$/i);
+    if (fn) {
+        const [r, g, b, a] = fn[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+        return { color: rgb(r / 255, g / 255, b / 255), opacity: Number.isFinite(a) ? a : 1 };
+    }
+    return { color: rgb(0, 0, 0), opacity: 1 };
+}
+
+/**
+ * ページの回転（/Rotate）を考えて、表示上の座標をPDFの座標に直す
+ */
+function getPageGeometry(page: PDFPage): PageGeometry {
+    const box = page.getCropBox();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const quarterTurn = rotation === 90 || rotation === 270;
+
+    const toPdf = (u: number, v: number) => {
+        switch (rotation) {
+            case 90:
+                return { x: box.x + v * box.width, y: box.y + u * box.height };
+            case 180:
+                return { x: box.x + (1 - u) * box.width, y: box.y + v * box.height };
+            case 270:
+                return { x: box.x + (1 - v) * box.width, y: box.y + (1 - u) * box.height };
+            default:
+                return { x: box.x + u * box.width, y: box.y + (1 - v) * box.height };
+        }
+    };
+
+    return {
+        toPdf,
+        width: quarterTurn ? box.height : box.width,
+        height: quarterTurn ? box.width : box.height,
+        rotation
+    };
+}
+
+/**
+ * 折れ線を描く（座標は表示上の割合）
+ */
+function drawPolyline(page: PDFPage, geometry: PageGeometry, points: { x: number; y: number }[], color: string | undefined, width: number, opacity = 1): void {
+    if (points.length < 2) return;
+
+    // drawSvgPath はSVGと同じく下向きがyのプラスなので、PDFの座標の y を反転して渡す
+    const d = points.map((point, index) => {
+        const { x, y } = geometry.toPdf(point.x, point.y);
+        return `${index === 0 ? 'M' : 'L'}${x.toFixed(2)} ${(-y).toFixed(2)}`;
+    }).join(' ');
+    const parsed = parseColor(color);
+
+    page.drawSvgPath(d, {
+        x: 0,
+        y: 0,
+        borderColor: parsed.color,
+        borderOpacity: parsed.opacity * opacity,
+        borderWidth: width,
+        borderLineCap: LineCapStyle.Round
+    });
+}
+
+/**
+ * 採点の○✕を描く（GradingMarksLayer と同じ形）
+ */
+function drawGradingMark(page: PDFPage, geometry: PageGeometry, mark: GradingMark): void {
+    const strokeWidth = geometry.width * 0.004;
+    const minSize = geometry.width * 0.03;
+    const cx = mark.x + mark.width / 2;
+    const cy = mark.y + mark.height / 2;
+    const boxW = Math.max(mark.width * geometry.width, minSize);
+    const boxH = Math.max(mark.height * geometry.height, minSize);
+
+    if (mark.isCorrect) {
+        const rx = (boxW * 0.6) / geometry.width;
+        const ry = (boxH * 0.7) / geometry.height;
+        const points = Array.from({ length: 49 }, (_, i) => {
+            const t = (i / 48) * Math.PI * 2;
+            return { x: cx + rx * Math.cos(t), y: cy + ry * Math.sin(t) };
+        });
+        drawPolyline(page, geometry, points, MARK_COLOR, strokeWidth, 0.85);
+        return;
+    }
+
+    const half = Math.min(boxW, boxH) * 0.6;
+    const hx = half / geometry.width;
+    const hy = half / geometry.height;
+    drawPolyline(page, geometry, [{ x: cx - hx, y: cy - hy }, { x: cx + hx, y: cy + hy }], MARK_COLOR, strokeWidth, 0.85);
+    drawPolyline(page, geometry, [{ x: cx + hx, y: cy - hy }, { x: cx - hx, y: cy + hy }], MARK_COLOR, strokeWidth, 0.85);
+}
+
+/**
+ * テキストアノテーションを画面と同じ見た目（縦書き・白いふち）でPNGにする
+ * 大きさは画面上のpx
+ */
+async function renderTextImage(annotation: TextAnnotation): Promise<{ png: ArrayBuffer; width: number; height: number }> {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas context not available');
+
+    const font = `${annotation.fontSize}px sans-serif`;
+    const lineHeight = annotation.fontSize * 1.2;
+    const lines = annotation.text.split('\n');
+    const vertical = annotation.direction !== 'horizontal';
+
+    context.font = font;
+    const contentWidth = vertical
+        ? lines.length * lineHeight
+        : Math.max(...lines.map(line => context.measureText(line).width));
+    const contentHeight = vertical
+        ? Math.max(...lines.map(line => [...line].length)) * annotation.fontSize
+        : lines.length * lineHeight;
+    const width = contentWidth + TEXT_PADDING * 2;
+    const height = contentHeight + TEXT_PADDING * 2;
+
+    canvas.width = Math.max(1, Math.ceil(width * TEXT_RENDER_SCALE));
+    canvas.height = Math.max(1, Math.ceil(height * TEXT_RENDER_SCALE));
+    context.scale(TEXT_RENDER_SCALE, TEXT_RENDER_SCALE);
+    context.translate(TEXT_PADDING, TEXT_PADDING);
+    context.font = font;
+    context.textBaseline = 'top';
+    context.fillStyle = annotation.color;
+    context.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    context.lineWidth = 2;
+    context.lineJoin = 'round';
+
+    const drawText = (text: string, x: number, y: number) => {
+        context.strokeText(text, x, y);
+        context.fillText(text, x, y);
+    };
+
+    if (vertical) {
+        // 縦書きは1文字ずつ縦に並べる（vertical-rl は右の列から）
+        context.textAlign = 'center';
+        lines.forEach((line, column) => {
+            const x = annotation.direction === 'vertical-rl'
+                ? contentWidth - (column + 0.5) * lineHeight
+                : (column + 0.5) * lineHeight;
+            [...line].forEach((char, row) => drawText(char, x, row * annotation.fontSize));
+        });
+    } else {
+        lines.forEach((line, row) => drawText(line, 0, row * lineHeight));
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('テキストの画像化に失敗しました');
+    return { png: await blob.arrayBuffer(), width, height };
+}
+
+/**
+ * テキストアノテーションを書き込む
+ */
+async function drawTextAnnotation(pdf: PDFDocument, page: PDFPage, geometry: PageGeometry, annotation: TextAnnotation): Promise<void> {
+    if (!annotation.text.trim()) return;
+
+    const image = await renderTextImage(annotation);
+    const embedded = await pdf.embedPng(image.png);
+    const pxToPdf = geometry.width / SCREEN_PAGE_WIDTH;
+
+    // 表示上の左下を基準にして、ページの回転に合わせて画像も回す
+    const u = annotation.x - TEXT_PADDING / SCREEN_PAGE_WIDTH;
+    const v = annotation.y + (image.height - TEXT_PADDING) * pxToPdf / geometry.height;
+    const origin = geometry.toPdf(u, v);
+
+    page.drawImage(embedded, {
+        x: origin.x,
+        y: origin.y,
+        width: image.width * pxToPdf,
+        height: image.height * pxToPdf,
+        rotate: degrees(geometry.rotation)
+    });
+}
+
+function parsePageData<T>(json: string | undefined): T[] {
+    if (!json) return [];
+    try {
+        return JSON.parse(json) as T[];
+    } catch (error) {
+        console.warn('書き込みデータの読み込みに失敗:', error);
+        return [];
+    }
+}
+
+/**
+ * PDFのページ数を取得
+ */
+export async function getPDFPageCount(pdfId: string): Promise<number> {
+    const source = await PDFDocument.load(await fetchPDFData(pdfId), { ignoreEncryption: true });
+    return source.getPageCount();
+}
+
+/**
+ * ペン跡・テキスト・○✕を書き込んだPDFを作る（元のドリルはそのまま）
+ */
+export async function exportAnnotatedPDF(pdfId: string, options: AnnotatedPDFExportOptions): Promise<Blob> {
+    const record = await getPDFRecord(pdfId);
+    if (!record) {
+        throw new Error('PDFレコードが見つかりません');
+    }
+
+    const source = await PDFDocument.load(await fetchPDFData(pdfId), { ignoreEncryption: true });
+    const pageCount = source.getPageCount();
+    const fromPage = Math.max(1, Math.min(options.fromPage, pageCount));
+    const toPage = Math.max(fromPage, Math.min(options.toPage, pageCount));
+
+    const pdf = await PDFDocument.create();
+    const pageIndices = Array.from({ length: toPage - fromPage + 1 }, (_, i) => fromPage - 1 + i);
+    const pages = await pdf.copyPages(source, pageIndices);
+
+    for (const [i, page] of pages.entries()) {
+        const pageNumber = fromPage + i;
+        pdf.addPage(page);
+        const geometry = getPageGeometry(page);
+        const pxToPdf = geometry.width / SCREEN_PAGE_WIDTH;
+
+        for (const stroke of parsePageData<StoredStroke>(record.drawings?.[pageNumber])) {
+            drawPolyline(page, geometry, stroke.points || [], stroke.color, (stroke.width || 3) * pxToPdf);
+        }
+        for (const annotation of parsePageData<TextAnnotation>(record.textAnnotations?.[pageNumber])) {
+            await drawTextAnnotation(pdf, page, geometry, annotation);
+        }
+        if (options.includeMarks) {
+            for (const mark of parsePageData<GradingMark>(record.gradingMarks?.[pageNumber])) {
+                drawGradingMark(page, geometry, mark);
+            }
+        }
+    }
+
+    pdf.setTitle(record.fileName.replace(/\.pdf$/i, ''));
+    pdf.setProducer('TutoTuto');
+    const bytes = await pdf.save();
+    console.log(`📄 書き込み入りPDFを作成: ${record.fileName} p.${fromPage}-${toPage}`);
+    return new Blob([bytes as any], { type: 'application/pdf' });
+}
+
+/**
+ * 書き込み入りPDFをダウンロードさせる
+ */
+export async function downloadAnnotatedPDF(pdfId: string, fileName: string, options: AnnotatedPDFExportOptions): Promise<void> {
+    const blob = await exportAnnotatedPDF(pdfId, options);
+    const baseName = fileName.replace(/\.pdf$/i, '');
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}_annotated.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Safariはクリック直後に解放するとダウンロードが始まらないことがあるので少し待つ
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
@@ -17,6 +17,7 @@
  * 1. この定数を更新
  * 2. .github/workflows/deploy.yml の VITE_API_URL も同時に更新
  * 3. server/index.ts の CORS 設定も確認
+ * 4. public/manage.html の LEDGER_URL も同時に更新（SNSの台帳の送り先）
  * ============================================================================
  */
 const PRODUCTION_API_URL = 'https://hometeacher-api-736494768812.asia-northeast1.run.app'
@@ -64,10 +65,24 @@ const getApiBaseUrl = (): string => {
 
 const API_BASE_URL = getApiBaseUrl()
 
+// サーバーが発行した署名付きの権利トークン（既定以外のモデルを使うときにサーバーで確かめる）
+let entitlementToken: string | null = null
+
+export const setEntitlementToken = (token: string | null) => {
+  entitlementToken = token
+}
+
+export const getEntitlementToken = () => entitlementToken
+
+const entitlementHeaders = (): Record<string, string> => (
+  entitlementToken ? { 'X-Entitlement-Token': entitlementToken } : {}
+)
+
 export interface ModelInfo {
   id: string
   name: string
   description?: string
+  provider?: string  // 'gemini' | 'openai' | 'fixture'
 }
 
 export interface AvailableModelsResponse {
@@ -75,6 +90,14 @@ export interface AvailableModelsResponse {
   default: string
 }
 
+// 切り抜き画像内での位置（画像の幅・高さを1とした割合）
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 export interface GradingResult {
   problemNumber: string
   studentAnswer: string
@@ -91,6 +114,12 @@ export interface GradingResult {
   dbMatchedAnswer?: any
   matchingMetadata?: any
   explanationSvg?: string
+  boundingBox?: BoundingBox | null  // 解答が書かれている範囲（選択範囲に対する割合）
+  topic?: string | null  // 単元・問題の種類（AIが分類したもの）
+  historyId?: string  // 保存した採点履歴のID（クライアント側で付ける）
+  overriddenBy?: 'parent' | 'ai'  // 判定を修正した場合（保護者 / 別モデルでの再採点）
+  overrideModel?: string  // 再採点に使ったモデル名
+  similarDrillName?: string  // この問題から作った類題ドリルのファイル名（クライアント側で付ける）
 }
 
 export interface GradingResponseResult {
@@ -101,12 +130,51 @@ export interface GradingResponseResult {
   rawResponse?: string
 }
 
+// 登録済みの正解（解答ストアから渡す）
+export interface AnswerKeyEntry {
+  problemNumber: string
+  correctAnswer: string
+  pageNumber: number
+}
+
 export interface GradeResponse {
   success: boolean
   modelName?: string
   responseTime?: number
+  attempts?: number   // スキーマどおりの結果が得られるまでの試行回数
+  repaired?: boolean  // 崩れた出力をサーバー側で修復したか
   result: GradingResponseResult
   error?: string
+  retryable?: boolean  // 通信エラー・サーバー停止など、あとで送り直せば採点できそうな失敗
+  entitlementExpired?: boolean  // 権利トークンの期限切れ（トークンを取り直してから送り直す）
+  receipt?: string  // 採点の受領証（SNSの時間を貯めるときにサーバーに渡す）
+}
+
+// 採点APIのURL（採点待ちをService Workerから送るときにも使う）
+export const GRADE_WORK_URL = `${API_BASE_URL}/api/grade-work`
+
+// HTTPステータスつきのエラー（再送するかどうかの判定に使う）
+class HttpStatusError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message)
+  }
+}
+
+// 権利トークンの期限切れ（サーバーの 403 の code。public/grading-outbox-sw.js でも使用）
+const ENTITLEMENT_EXPIRED = 'entitlement-expired'
+
+const isEntitlementExpiredError = (error: unknown): boolean =>
+  error instanceof HttpStatusError && error.status === 403 && error.code === ENTITLEMENT_EXPIRED
+
+// オフライン・通信断（fetchのTypeError）・サーバー側の一時的なエラー・権利トークンの期限切れは再送対象
+const isRetryableError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (error instanceof TypeError) return true
+  if (isEntitlementExpiredError(error)) return true
+  if (error instanceof HttpStatusError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429
+  }
+  return false
 }
 
 export const getAvailableModels = async (): Promise<AvailableModelsResponse> => {
@@ -129,25 +197,28 @@ export const gradeWork = async (
   croppedImageData: string,
   model?: string,
   language: string = 'ja',
-  subjectId?: string  // Optional: subject ID for subject-specific grading
+  subjectId?: string,  // Optional: subject ID for subject-specific grading
+  answerKeys?: AnswerKeyEntry[]  // Optional: registered answers (judged on the server instead of by AI)
 ): Promise<GradeResponse> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/grade-work`, {
+    const response = await fetch(GRADE_WORK_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...entitlementHeaders(),
       },
       body: JSON.stringify({
         croppedImageData,
         model,
         language,
         ...(subjectId && { subjectId }), // Only include if provided (backward compatible)
+        ...(answerKeys && answerKeys.length > 0 && { answerKeys }),
       }),
     })
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
-      throw new Error(errorData.error || `HTTP Error: ${response.status}`)
+      throw new HttpStatusError(errorData.error || `HTTP Error: ${response.status}`, response.status, errorData.code)
     }
 
     const result = await response.json()
@@ -158,6 +229,103 @@ export const gradeWork = async (
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
+      retryable: isRetryableError(error),
+      entitlementExpired: isEntitlementExpiredError(error),
+      result: { problems: [] }
+    }
+  }
+}
+
+// 採点APIのストリーミング版（Server-Sent Events）
+// 1問採点されるごとに onProblem が呼ばれる。戻り値は gradeWork と同じ
+// サーバーが途中で失敗してやり直すときは onReset が呼ばれる（それまでに届いた問題は捨てる。やり直しの問題は index 0 から届く）
+export const gradeWorkStream = async (
+  croppedImageData: string,
+  onProblem: (problem: GradingResult, index: number) => void,
+  model?: string,
+  language: string = 'ja',
+  subjectId?: string,
+  answerKeys?: AnswerKeyEntry[],
+  onReset?: () => void
+): Promise<GradeResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/grade-work/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...entitlementHeaders(),
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({
+        croppedImageData,
+        model,
+        language,
+        ...(subjectId && { subjectId }),
+        ...(answerKeys && answerKeys.length > 0 && { answerKeys }),
+      }),
+    })
+
+    // ストリーミングに対応していないサーバーでは通常の採点APIを使う
+    if (response.status === 404 || !response.body) {
+      console.warn('⚠️ /api/grade-work/stream not available, falling back to /api/grade-work')
+      const result = await gradeWork(croppedImageData, model, language, subjectId, answerKeys)
+      result.result.problems.forEach((problem, index) => onProblem(problem, index))
+      return result
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new HttpStatusError(errorData.error || `HTTP Error: ${response.status}`, response.status, errorData.code)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // イベントは空行区切り（"event: xxx\ndata: {...}\n\n"）
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const rawEvent of events) {
+        let eventName = 'message'
+        let data = ''
+        rawEvent.split('\n').forEach(line => {
+          if (line.startsWith('event:')) eventName = line.slice('event:'.length).trim()
+          else if (line.startsWith('data:')) data += line.slice('data:'.length).trim()
+        })
+        if (!data) continue
+
+        const payload = JSON.parse(data)
+        if (eventName === 'problem') {
+          onProblem(payload.problem, payload.index)
+        } else if (eventName === 'reset') {
+          // サーバーが途中で失敗してやり直す（表示中の問題は消してもらう）
+          console.warn('⚠️ Grading stream restarted:', payload.reason)
+          onReset?.()
+        } else if (eventName === 'done') {
+          console.log(`✅ Grading Result (stream):`, payload)
+          return payload
+        } else if (eventName === 'error') {
+          // /api/grade-work と同じく、サーバー側のエラーは再送対象
+          throw new HttpStatusError(payload.error || 'Grading stream error', payload.status || 500)
+        }
+      }
+    }
+
+    // 途中で接続が切れた場合も再送対象
+    throw new TypeError('Grading stream ended unexpectedly')
+  } catch (error) {
+    console.error('❌ Grading Error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      retryable: isRetryableError(error),
+      entitlementExpired: isEntitlementExpiredError(error),
       result: { problems: [] }
     }
   }
@@ -243,6 +411,7 @@ export const detectSubject = async (croppedImageData: string): Promise<DetectSub
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...entitlementHeaders(),
       },
       body: JSON.stringify({
         image: croppedImageData
@@ -270,3 +439,335 @@ export const detectSubject = async (croppedImageData: string): Promise<DetectSub
     }
   }
 }
+
+// ==========================================
+// Answer Key Extraction
+// ==========================================
+
+export interface AnswerPageImage {
+  pageNumber: number  // PDF上のページ番号（解答ページ）
+  imageData: string   // base64 image
+}
+
+export interface ExtractedAnswerKey {
+  page: number | null  // 問題が載っているページ番号（読み取れない場合はnull）
+  problemNumber: string
+  correctAnswer: string
+  sourcePage: number   // 読み取り元の解答ページ
+}
+
+export interface ExtractAnswerKeysResponse {
+  success: boolean
+  modelName?: string
+  responseTime?: number
+  entries: ExtractedAnswerKey[]
+  error?: string
+}
+
+/**
+ * Extract answer keys from rendered answer pages
+ */
+export const extractAnswerKeys = async (
+  pages: AnswerPageImage[],
+  model?: string,
+  language: string = 'ja'
+): Promise<ExtractAnswerKeysResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/extract-answer-keys`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...entitlementHeaders(),
+      },
+      body: JSON.stringify({
+        pages,
+        model,
+        language,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP Error: ${response.status}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('❌ Answer key extraction failed:', error)
+    return {
+      success: false,
+      entries: [],
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+// 類題のもとになる、まちがえた問題
+export interface SimilarProblemSource {
+  problemText?: string
+  croppedImageData?: string  // 採点時の切り抜き画像
+  studentAnswer: string
+  correctAnswer?: string
+  explanation?: string
+  topic?: string
+}
+
+export interface SimilarProblem {
+  question: string
+  answer: string
+}
+
+export interface SimilarProblemsResponse {
+  success: boolean
+  modelName?: string
+  responseTime?: number
+  problems: SimilarProblem[]
+  error?: string
+}
+
+/**
+ * Generate similar practice problems (with answers) from a wrong answer
+ */
+export const generateSimilarProblems = async (
+  source: SimilarProblemSource,
+  count?: number,
+  model?: string,
+  language: string = 'ja'
+): Promise<SimilarProblemsResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/similar-problems`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...entitlementHeaders(),
+      },
+      body: JSON.stringify({
+        ...source,
+        count,
+        model,
+        language,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP Error: ${response.status}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('❌ Similar problem generation failed:', error)
+    return {
+      success: false,
+      problems: [],
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+
+// 解説チャットで話題にする、採点済みの1問
+export interface TutorChatProblem {
+  problemNumber: string
+  problemText?: string
+  studentAnswer: string
+  isCorrect: boolean
+  correctAnswer?: string
+  explanation?: string
+  topic?: string
+}
+
+export interface TutorChatRequestMessage {
+  role: 'student' | 'tutor'
+  text: string
+}
+
+export interface TutorChatResponse {
+  success: boolean
+  modelName?: string
+  responseTime?: number
+  reply?: string
+  error?: string
+}
+
+/**
+ * Ask the tutor a follow-up question about a graded problem
+ */
+export const sendTutorChat = async (
+  problem: TutorChatProblem,
+  messages: TutorChatRequestMessage[],
+  croppedImageData?: string,
+  model?: string,
+  language: string = 'ja'
+): Promise<TutorChatResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/tutor-chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...entitlementHeaders(),
+      },
+      body: JSON.stringify({
+        problem,
+        messages,
+        croppedImageData,
+        model,
+        language,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP Error: ${response.status}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('❌ Tutor chat failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+
+export interface HintResponse {
+  success: boolean
+  modelName?: string
+  responseTime?: number
+  problemNumber?: string  // AIが読み取った問題番号（分からなければ空文字）
+  problemText?: string
+  topic?: string
+  hints: string[]  // 1: 気づかせる一言 / 2: 考え方 / 3: 最初の一歩（答えは含まない）
+  error?: string
+}
+
+/**
+ * Get graduated hints for the selected problem before grading (never includes the answer)
+ */
+export const requestHints = async (
+  croppedImageData: string,
+  model?: string,
+  language: string = 'ja',
+  subjectId?: string,
+  answerKeys?: AnswerKeyEntry[]  // Optional: registered answers (used only to make sure hints don't reveal them)
+): Promise<HintResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/hint`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...entitlementHeaders(),
+      },
+      body: JSON.stringify({
+        croppedImageData,
+        model,
+        language,
+        subjectId,
+        ...(answerKeys && answerKeys.length > 0 && { answerKeys }),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP Error: ${response.status}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('❌ Hint request failed:', error)
+    return {
+      success: false,
+      hints: [],
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+
+export interface Entitlement {
+  uid: string
+  premium: boolean
+  source: 'stripe' | 'promo' | null  // Stripeの契約 / プロモコード
+  premiumUntil: number | null  // プロモコードによるプレミアムの期限
+  issuedAt: number
+  expiresAt: number  // トークンの期限
+}
+
+export interface EntitlementResponse {
+  success: boolean
+  token?: string
+  entitlement?: Entitlement
+  error?: string  // プロモコード: invalid / expired / already-redeemed / used-up
+}
+
+// ログインしているユーザーとしてサーバーを呼ぶ（エラーの内容は data.error で返る）
+const requestWithIdToken = async <T>(path: string, idToken: string, body?: unknown): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Authorization': `Bearer ${idToken}`,
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok && !data.error) {
+    throw new HttpStatusError(`HTTP Error: ${response.status}`, response.status)
+  }
+  return data
+}
+
+/**
+ * Get a signed premium entitlement for the signed-in user
+ */
+export const fetchEntitlement = (idToken: string): Promise<EntitlementResponse> =>
+  requestWithIdToken<EntitlementResponse>('/api/entitlement', idToken)
+
+/**
+ * Redeem a promo code (validated on the server) and get the updated entitlement
+ */
+export const redeemPromoCode = (idToken: string, code: string): Promise<EntitlementResponse> =>
+  requestWithIdToken<EntitlementResponse>('/api/redeem-promo-code', idToken, { code })
+
+export interface SNSSessionInfo {
+  sessionId: string
+  snsId: string
+  snsName: string
+  startedAt: number
+  allowedMinutes: number
+  endsAt: number
+}
+
+export interface SNSEarnRequest {
+  receipt: string  // 採点APIが返した受領証（同じ採点で2回は貯まらない）
+  minutes: number  // ごほうびのルールで決めた時間（サーバーでプランの1回分までに切り詰める）
+}
+
+export interface SNSLedgerResponse {
+  success: boolean
+  balanceMinutes?: number  // SNSに使える残り時間
+  earnedMinutes?: number
+  ticket?: string  // manage.html に渡すチケット
+  activeSession?: SNSSessionInfo | null
+  error?: string
+}
+
+/**
+ * Add reward minutes for a graded result (once per grading receipt)
+ */
+export const earnSNSMinutes = (idToken: string, earn: SNSEarnRequest): Promise<SNSLedgerResponse> =>
+  requestWithIdToken<SNSLedgerResponse>('/api/sns-ledger/earn', idToken, earn)
+
+/**
+ * Get the remaining SNS minutes
+ */
+export const fetchSNSBalance = (idToken: string): Promise<SNSLedgerResponse> =>
+  requestWithIdToken<SNSLedgerResponse>('/api/sns-ledger/balance', idToken)
+
+/**
+ * Issue a ticket that lets manage.html start and stop SNS sessions
+ */
+export const createSNSTicket = (idToken: string): Promise<SNSLedgerResponse> =>
+  requestWithIdToken<SNSLedgerResponse>('/api/sns-ledger/ticket', idToken, {})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, readBackupFile } from './backup';
+import { DB_VERSION, STORE_NAME, SETTINGS_STORE_NAME } from '../utils/dbMigrations';
+
+const header = { format: BACKUP_FORMAT, formatVersion: 2, dbVersion: DB_VERSION, exportedAt: 1 };
+const encodedPdf = { __backupType: 'blob', type: 'application/pdf', data: btoa('%PDF') };
+
+const toFile = (lines: unknown[]) => new Blob(lines.map(line => JSON.stringify(line) + '\n'));
+
+describe('readBackupFile', () => {
+    it('1行1レコードのバックアップを読み、Blobに戻す', async () => {
+        const archive = await readBackupFile(toFile([
+            header,
+            { store: STORE_NAME, record: { id: 'pdf1', fileData: encodedPdf } },
+            { store: SETTINGS_STORE_NAME, record: { id: 'app-settings' } }
+        ]));
+
+        expect(archive.dbVersion).toBe(DB_VERSION);
+        expect(Object.keys(archive.stores).sort()).toEqual([STORE_NAME, SETTINGS_STORE_NAME].sort());
+        const fileData = archive.stores[STORE_NAME][0].fileData as Blob;
+        expect(fileData).toBeInstanceOf(Blob);
+        expect(await fileData.text()).toBe('%PDF');
+    });
+
+    it('全体を1つのJSONにした古い形式も読める', async () => {
+        const archive = await readBackupFile(toFile([
+            { ...header, formatVersion: 1, stores: { [STORE_NAME]: [{ id: 'pdf1', fileData: encodedPdf }] } }
+        ]));
+
+        expect(archive.stores[STORE_NAME][0].fileData).toBeInstanceOf(Blob);
+    });
+
+    it('ほかのファイル・新しいバージョンのバックアップは読まない', async () => {
+        await expect(readBackupFile(new Blob(['not json']))).rejects.toThrow('バックアップファイルを読み込めませんでした');
+        await expect(readBackupFile(toFile([{ format: 'other' }]))).rejects.toThrow('TutoTutoのバックアップファイルではありません');
+        await expect(readBackupFile(new Blob([]))).rejects.toThrow('TutoTutoのバックアップファイルではありません');
+        await expect(readBackupFile(toFile([{ ...header, dbVersion: DB_VERSION + 1 }]))).rejects.toThrow('新しいバージョン');
+    });
+});
@@ -0,0 +1,253 @@
+import {
+    getAllStoreRecords,
+    restoreStoreRecords,
+    RestoreMode,
+    RestoreSummary
+} from '../utils/indexedDB';
+import {
+    DB_VERSION,
+    SETTINGS_STORE_NAME,
+    GRADING_OUTBOX_STORE_NAME,
+    ENTITLEMENT_SETTINGS_ID,
+    upgradeStoreRecords
+} from '../utils/dbMigrations';
+
+/**
+ * バックアップファイルの形式
+ * IndexedDB（TutoTutoDB）の全ストアを1行1レコードのJSON（JSON Lines）で書き出す。
+ * 1行目は形式・バージョンを書いたヘッダー、2行目からは { store, record }。
+ * 全体を1つの文字列にしないので、PDFが多くても書き出し・読み込みでメモリを使い切らない。
+ * PDFなどのBlobはBase64にして埋め込むので、1ファイルで別の端末にも持っていける。
+ * formatVersion 1 は全体を1つのJSON（{ ..., stores }）にした形式（読み込みだけ対応）。
+ */
+export const BACKUP_FORMAT = 'tutotuto-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+
+export interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number; // バックアップファイル自体の形式のバージョン
+    dbVersion: number; // 書き出したときのIndexedDBのスキーマバージョン
+    exportedAt: number;
+    stores: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Blobを埋め込むときの形
+ */
+interface EncodedBlob {
+    __backupType: 'blob';
+    type: string;
+    data: string; // Base64
+}
+
+function isEncodedBlob(value: unknown): value is EncodedBlob {
+    return typeof value === 'object' && value !== null && (value as EncodedBlob).__backupType === 'blob';
+}
+
+/**
+ * バックアップに入れないもの
+ * 採点待ち（gradingOutbox）は端末で送信中のもの、権利トークンのキャッシュは端末・アカウントごとのもの。
+ * 別の端末や後日に復元すると二重に採点したり、期限切れの権利を持ち込んだりするので除く。
+ */
+const EXCLUDED_STORE_NAMES = [GRADING_OUTBOX_STORE_NAME];
+const EXCLUDED_SETTINGS_IDS = [ENTITLEMENT_SETTINGS_ID];
+
+function isBackedUp(storeName: string, record: unknown): boolean {
+    if (EXCLUDED_STORE_NAMES.includes(storeName)) return false;
+    if (storeName === SETTINGS_STORE_NAME) {
+        return !EXCLUDED_SETTINGS_IDS.includes((record as { id?: string }).id as string);
+    }
+    return true;
+}
+
+/**
+ * BlobをBase64に変換
+ */
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).replace(/^data:[^,]*,/, ''));
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Base64をBlobに変換
+ */
+function base64ToBlob(base64: string, type: string): Blob {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new Blob([bytes], { type });
+}
+
+/**
+ * レコード内のBlobをJSONにできる形に変換（入れ子のオブジェクト・配列も見る）
+ */
+async function encodeValue(value: unknown): Promise<unknown> {
+    if (value instanceof Blob) {
+        return { __backupType: 'blob', type: value.type, data: await blobToBase64(value) } satisfies EncodedBlob;
+    }
+    if (Array.isArray(value)) {
+        return Promise.all(value.map(encodeValue));
+    }
+    if (typeof value === 'object' && value !== null) {
+        const entries = await Promise.all(
+            Object.entries(value).map(async ([key, item]) => [key, await encodeValue(item)] as const)
+        );
+        return Object.fromEntries(entries);
+    }
+    return value;
+}
+
+/**
+ * encodeValue の逆変換
+ */
+function decodeValue(value: unknown): unknown {
+    if (isEncodedBlob(value)) {
+        return base64ToBlob(value.data, value.type);
+    }
+    if (Array.isArray(value)) {
+        return value.map(decodeValue);
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeValue(item)]));
+    }
+    return value;
+}
+
+/**
+ * すべてのデータをバックアップファイル（JSON Lines）にする
+ * レコードごとに文字列にしてBlobの部品として渡す
+ */
+export async function createBackup(): Promise<Blob> {
+    const { dbVersion, stores } = await getAllStoreRecords();
+
+    const header: Omit<BackupArchive, 'stores'> = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        dbVersion,
+        exportedAt: Date.now()
+    };
+    const parts: string[] = [JSON.stringify(header) + '\n'];
+    const counts: Record<string, number> = {};
+    for (const [storeName, records] of Object.entries(stores)) {
+        if (EXCLUDED_STORE_NAMES.includes(storeName)) continue;
+        const included = records.filter(record => isBackedUp(storeName, record));
+        for (const record of included) {
+            parts.push(JSON.stringify({ store: storeName, record: await encodeValue(record) }) + '\n');
+        }
+        counts[storeName] = included.length;
+    }
+    console.log('💾 バックアップを作成:', counts);
+
+    return new Blob(parts, { type: 'application/x-ndjson' });
+}
+
+/**
+ * バックアップファイルをダウンロードさせる
+ */
+export async function downloadBackup(): Promise<void> {
+    const blob = await createBackup();
+    const date = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const fileName = `tutotuto-backup-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}.jsonl`;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Safariはクリック直後に解放するとダウンロードが始まらないことがあるので少し待つ
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+/**
+ * ファイルを少しずつ読んで1行ずつ返す
+ */
+async function* readLines(file: Blob): AsyncGenerator<string> {
+    const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) yield line;
+        }
+    }
+    if (buffer.trim()) yield buffer;
+}
+
+function parseLine(line: string) {
+    try {
+        return JSON.parse(line);
+    } catch {
+        throw new Error('バックアップファイルを読み込めませんでした');
+    }
+}
+
+function checkHeader(header: Partial<BackupArchive> | null): void {
+    if (header?.format !== BACKUP_FORMAT) {
+        throw new Error('TutoTutoのバックアップファイルではありません');
+    }
+    if ((header.formatVersion ?? 0) > BACKUP_FORMAT_VERSION || (header.dbVersion ?? 0) > DB_VERSION) {
+        throw new Error('新しいバージョンのアプリで作成されたバックアップです。アプリを更新してから復元してください');
+    }
+}
+
+/**
+ * バックアップファイルを読み込んで形式をチェックする
+ * レコードは読んだ行から順にBlobに戻す（Base64の文字列を全部持ったままにしない）
+ */
+export async function readBackupFile(file: Blob): Promise<BackupArchive> {
+    let archive: BackupArchive | null = null;
+    for await (const line of readLines(file)) {
+        const parsed = parseLine(line);
+        if (!archive) {
+            checkHeader(parsed);
+            if (parsed.formatVersion === 1) {
+                // 全体を1つのJSONにした古い形式
+                if (typeof parsed.stores !== 'object' || parsed.stores === null) {
+                    throw new Error('TutoTutoのバックアップファイルではありません');
+                }
+                const stores: BackupArchive['stores'] = {};
+                for (const [storeName, records] of Object.entries(parsed.stores as BackupArchive['stores'])) {
+                    stores[storeName] = records.map(record => decodeValue(record) as Record<string, unknown>);
+                }
+                return { ...parsed, stores };
+            }
+            archive = { ...parsed, stores: {} };
+            continue;
+        }
+        const { store, record } = parsed as { store: string; record: unknown };
+        (archive.stores[store] ??= []).push(decodeValue(record) as Record<string, unknown>);
+    }
+    if (!archive) {
+        throw new Error('TutoTutoのバックアップファイルではありません');
+    }
+    return archive;
+}
+
+/**
+ * バックアップを復元する
+ * 古いバージョンで書き出したものは、IndexedDBの移行と同じデータ変換をしてから書き込む
+ * replace: バックアップの内容で置き換える / merge: 今のデータに追加する（同じIDは新しい方を残す）
+ */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> {
+    const stores = upgradeStoreRecords(archive.stores, archive.dbVersion, archive.exportedAt);
+    // 古いバックアップに入っていても、端末ごとのものは復元しない
+    const restorable = Object.fromEntries(
+        Object.entries(stores)
+            .filter(([storeName]) => !EXCLUDED_STORE_NAMES.includes(storeName))
+            .map(([storeName, records]) => [storeName, records.filter(record => isBackedUp(storeName, record))])
+    );
+    return restoreStoreRecords(restorable, mode);
+}
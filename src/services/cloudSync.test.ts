@@ -0,0 +1,135 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+/**
+ * クラウド同期のテスト（Firebase Local Emulator Suite を使う）
+ * npm run test:emulators で実行する（エミュレータが動いていなければスキップ）。
+ * このテストの端末は fake-indexeddb、もう1台の端末の書き込みは Firestore に直接書いて再現する。
+ */
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+type Modules = {
+    cloudSync: typeof import('./cloudSync');
+    indexedDB: typeof import('../utils/indexedDB');
+    firebase: typeof import('../lib/firebase');
+    firestore: typeof import('firebase/firestore');
+};
+
+describe.skipIf(!emulatorHost)('cloudSync (emulator)', () => {
+    let m: Modules;
+    let uid: string;
+
+    beforeAll(async () => {
+        vi.stubEnv('VITE_FIREBASE_EMULATOR_HOST', emulatorHost!.split(':')[0]);
+        vi.stubEnv('VITE_FIREBASE_PROJECT_ID', 'demo-tutotuto');
+        vi.stubGlobal('window', { location: { href: 'http://localhost/' } });
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+
+        m = {
+            cloudSync: await import('./cloudSync'),
+            indexedDB: await import('../utils/indexedDB'),
+            firebase: await import('../lib/firebase'),
+            firestore: await import('firebase/firestore')
+        };
+        const { signInAnonymously } = await import('firebase/auth');
+        uid = (await signInAnonymously(m.firebase.auth)).user.uid;
+        await m.cloudSync.setCloudSyncEnabled(true);
+    });
+
+    const stroke = (x: number) => ({ points: [{ x, y: 0 }, { x, y: 1 }], color: '#000', size: 2 });
+    let drillCount = 0;
+
+    // テストごとに別のドリルを使う
+    async function createDrill(strokes: object[]): Promise<string> {
+        const pdfId = `drill-${Date.now()}-${drillCount++}.pdf`;
+        await m.indexedDB.savePDFRecord({ id: pdfId, fileName: pdfId, lastOpened: Date.now(), drawings: {} });
+        await m.indexedDB.saveDrawing(pdfId, 1, JSON.stringify(strokes));
+        return pdfId;
+    }
+
+    function pageRef(pdfId: string) {
+        const { doc } = m.firestore;
+        return doc(m.firebase.db, `users/${uid}/profiles/${m.indexedDB.DEFAULT_PROFILE_ID}/drills/${encodeURIComponent(pdfId)}/pages/1`);
+    }
+
+    async function remoteStrokes(pdfId: string) {
+        const { collection, getDocs } = m.firestore;
+        const snap = await getDocs(collection(pageRef(pdfId), 'strokes'));
+        return snap.docs.map(strokeDoc => ({ id: strokeDoc.id, ...strokeDoc.data() as { path: string; deleted: boolean; order: number } }));
+    }
+
+    async function localStrokes(pdfId: string): Promise<{ strokeId?: string; points: { x: number }[] }[]> {
+        return JSON.parse(await m.indexedDB.getDrawing(pdfId, 1) || '[]');
+    }
+
+    // もう1台の端末がペン跡を書き換えたことにする（ページとドリルの更新日時も進める）
+    async function writeFromOtherDevice(pdfId: string, write: (batch: ReturnType<typeof m.firestore.writeBatch>) => void) {
+        const { doc, writeBatch } = m.firestore;
+        const now = Date.now();
+        const batch = writeBatch(m.firebase.db);
+        write(batch);
+        batch.set(pageRef(pdfId), { updatedAt: now }, { merge: true });
+        batch.set(doc(m.firebase.db, `users/${uid}/profiles/${m.indexedDB.DEFAULT_PROFILE_ID}/drills/${encodeURIComponent(pdfId)}`), { pages: { 1: now }, updatedAt: now }, { merge: true });
+        await batch.commit();
+    }
+
+    it('同じ形のペン跡を2本書いたら2本とも送る', async () => {
+        const pdfId = await createDrill([stroke(1), stroke(1)]);
+        await m.cloudSync.syncNow();
+
+        const remote = (await remoteStrokes(pdfId)).filter(item => !item.deleted);
+        expect(remote).toHaveLength(2);
+        const local = await localStrokes(pdfId);
+        expect(local).toHaveLength(2);
+        expect(new Set(local.map(path => path.strokeId)).size).toBe(2);
+    });
+
+    it('両方の端末で増えたペン跡を両方残す', async () => {
+        const pdfId = await createDrill([stroke(1)]);
+        await m.cloudSync.syncNow();
+
+        const { doc } = m.firestore;
+        const otherStroke = { ...stroke(2), strokeId: 'other-device-stroke' };
+        await writeFromOtherDevice(pdfId, batch => {
+            batch.set(doc(pageRef(pdfId), 'strokes', 'other-device-stroke-key'), { path: JSON.stringify(otherStroke), order: Date.now(), deleted: false, updatedAt: Date.now() });
+        });
+        await m.indexedDB.saveDrawing(pdfId, 1, JSON.stringify([...await localStrokes(pdfId), stroke(3)]));
+        await m.cloudSync.syncNow();
+
+        expect((await localStrokes(pdfId)).map(path => path.points[0].x)).toEqual([1, 3, 2]);
+        const remote = (await remoteStrokes(pdfId)).filter(item => !item.deleted);
+        expect(remote.map(item => JSON.parse(item.path).points[0].x).sort()).toEqual([1, 2, 3]);
+    });
+
+    it('他の端末で消したペン跡は消し、この端末で消したペン跡はクラウドでも消す', async () => {
+        const pdfId = await createDrill([stroke(1), stroke(2)]);
+        await m.cloudSync.syncNow();
+
+        const synced = await remoteStrokes(pdfId);
+        const removedRemotely = synced.find(item => JSON.parse(item.path).points[0].x === 1)!;
+        const { doc } = m.firestore;
+        await writeFromOtherDevice(pdfId, batch => {
+            batch.set(doc(pageRef(pdfId), 'strokes', removedRemotely.id), { path: '', order: 0, deleted: true, updatedAt: Date.now() });
+        });
+        // この端末では2本目を消す
+        await m.indexedDB.saveDrawing(pdfId, 1, JSON.stringify((await localStrokes(pdfId)).filter(path => path.points[0].x !== 2)));
+        await m.cloudSync.syncNow();
+
+        expect(await localStrokes(pdfId)).toEqual([]);
+        expect((await remoteStrokes(pdfId)).every(item => item.deleted)).toBe(true);
+    });
+
+    it('同じページのテキストが両方で変わったら新しい方を残す', async () => {
+        const pdfId = await createDrill([]);
+        await m.indexedDB.saveTextAnnotation(pdfId, 1, 'この端末');
+        await m.cloudSync.syncNow();
+
+        const later = Date.now() + 1000;
+        await writeFromOtherDevice(pdfId, batch => {
+            batch.set(pageRef(pdfId), { textAnnotations: '他の端末', textUpdatedAt: later }, { merge: true });
+        });
+        await m.cloudSync.syncNow();
+
+        expect(await m.indexedDB.getTextAnnotation(pdfId, 1)).toBe('他の端末');
+    });
+});
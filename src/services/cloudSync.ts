@@ -0,0 +1,582 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    writeBatch,
+    DocumentReference
+} from 'firebase/firestore';
+import { ref, uploadBytes, getBlob, deleteObject } from 'firebase/storage';
+import { auth, db, storage } from '../lib/firebase';
+import { createStrokeId, getStrokeId } from '../components/study/utils/strokes';
+import {
+    PDFFileRecord,
+    PDFPageSyncState,
+    GradingHistoryRecord,
+    CloudSyncDeletion,
+    getAllPDFRecords,
+    savePDFRecord,
+    modifyPDFRecord,
+    deletePDFRecord,
+    deleteAnswerKeysByPdfId,
+    deleteGradingOutboxItemsByPdfId,
+    getAllGradingHistory,
+    saveGradingHistory,
+    deleteGradingHistory,
+    getActiveProfileId,
+    getCloudSyncState,
+    saveCloudSyncState
+} from '../utils/indexedDB';
+
+/**
+ * クラウド同期（Firestore / Cloud Storage）
+ *
+ * 保護者がサインインして同期をオンにした端末どうしで、ドリル・ペン跡・テキスト・○✕・採点履歴を揃える。
+ * タブレットで途中まで解いたドリルの続きをパソコンで解けるようにするためのもの。
+ * データは選択中のプロフィールごとに次の場所に置く:
+ *
+ *   users/{uid}/profiles/{profileId}/drills/{pdfId}                              ドリルの情報
+ *   users/{uid}/profiles/{profileId}/drills/{pdfId}/pages/{page}                 テキスト・○✕
+ *   users/{uid}/profiles/{profileId}/drills/{pdfId}/pages/{page}/strokes/{key}   ペン跡1本（key はペン跡のIDと内容から作る）
+ *   users/{uid}/profiles/{profileId}/gradingHistory/{id}                         採点履歴（画像は送らない）
+ *   Storage: users/{uid}/profiles/{profileId}/drills/{pdfId}.pdf                 PDF本体
+ *
+ * 競合の解決:
+ * - ペン跡は1本ごと。前回の同期で揃えたペン跡を覚えておき、両方の端末で増えた分は両方残し、
+ *   どちらかで消した分は消す（クラウドには deleted として残す）
+ * - テキスト・○✕はページごとに新しい方を残す
+ * - ドリルの情報（最後に開いたページなど）と採点履歴は新しい方を残す
+ */
+
+interface RemoteDrill {
+    id: string;
+    fileName: string;
+    thumbnail: string | null;
+    subjectId: string | null;
+    lastOpened: number;
+    lastPageNumberA: number | null;
+    lastPageNumberB: number | null;
+    hasFile: boolean;
+    pages?: Record<string, number>; // ページ番号 -> ページの更新日時
+    deleted?: boolean;
+    updatedAt: number;
+}
+
+interface RemotePage {
+    textAnnotations?: string;
+    textUpdatedAt?: number;
+    gradingMarks?: string;
+    marksUpdatedAt?: number;
+    updatedAt: number;
+}
+
+interface RemoteStroke {
+    path: string; // DrawingPath のJSON（消したものは空）
+    order: number; // 書いた順に並べるため
+    deleted: boolean;
+    updatedAt: number;
+}
+
+type RemoteGradingHistory = Omit<GradingHistoryRecord, 'imageData'> & { updatedAt: number; deleted?: boolean };
+
+export interface CloudSyncSummary {
+    uploaded: number;
+    downloaded: number; // この端末のデータが変わった件数
+}
+
+interface SyncContext {
+    uid: string;
+    profileId: string;
+    sameAccount: boolean; // 前回の同期と同じアカウントか（違えば前回の同期の記録は使わない）
+    summary: CloudSyncSummary;
+}
+
+interface PageSnapshot {
+    drawings?: string;
+    textAnnotations?: string;
+    gradingMarks?: string;
+}
+
+interface PageResult {
+    local: PageSnapshot; // 同期前のこの端末のデータ（同期中に書き換えられていないかの確認用）
+    merged: PageSnapshot;
+    sync: PDFPageSyncState;
+}
+
+interface BatchWrite {
+    ref: DocumentReference;
+    data: Record<string, unknown>;
+}
+
+// Firestoreの1回のバッチに入れられる書き込みの上限（500）より少し少なくする
+const BATCH_SIZE = 400;
+
+let currentSync: Promise<CloudSyncSummary> | null = null;
+
+/**
+ * ペン跡の内容のハッシュ
+ */
+function hashStroke(pathJson: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < pathJson.length; i++) {
+        const ch = pathJson.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(36).padStart(7, '0') + (h1 >>> 0).toString(36).padStart(7, '0');
+}
+
+/**
+ * ペン跡1本のキー
+ * 書いたときに付けたIDと内容から作る（同じ形のペン跡でも別のキー。消しゴムなどで形が変わったら別のペン跡として送り直す）
+ * IDを付ける前に書いたペン跡は内容だけから作る（IDを付ける前に同期したときのキーと同じ）
+ */
+function strokeKey(pathJson: string, strokeId: string | undefined): string {
+    const hash = hashStroke(pathJson);
+    return strokeId ? `${strokeId}-${hash}` : hash;
+}
+
+/**
+ * Firestoreに書けない undefined を取り除く
+ */
+function toFirestoreData<T>(value: T): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(value));
+}
+
+async function commitInChunks(writes: BatchWrite[]): Promise<void> {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + BATCH_SIZE).forEach(write => batch.set(write.ref, write.data, { merge: true }));
+        await batch.commit();
+    }
+}
+
+function profilePath(ctx: Pick<SyncContext, 'uid' | 'profileId'>): string {
+    return `users/${ctx.uid}/profiles/${ctx.profileId}`;
+}
+
+// PDFのIDはファイル名を含むので、ドキュメントID・ファイル名に使えるようにする
+function drillRef(ctx: Pick<SyncContext, 'uid' | 'profileId'>, pdfId: string): DocumentReference {
+    return doc(db, profilePath(ctx), 'drills', encodeURIComponent(pdfId));
+}
+
+function drillFileRef(ctx: Pick<SyncContext, 'uid' | 'profileId'>, pdfId: string) {
+    return ref(storage, `${profilePath(ctx)}/drills/${encodeURIComponent(pdfId)}.pdf`);
+}
+
+function localPageSnapshot(record: PDFFileRecord, page: number): PageSnapshot {
+    return {
+        drawings: record.drawings?.[page],
+        textAnnotations: record.textAnnotations?.[page],
+        gradingMarks: record.gradingMarks?.[page]
+    };
+}
+
+function sameSnapshot(a: PageSnapshot, b: PageSnapshot): boolean {
+    return a.drawings === b.drawings && a.textAnnotations === b.textAnnotations && a.gradingMarks === b.gradingMarks;
+}
+
+/**
+ * 1ページ分を同期する
+ * pull が false のときはクラウド側が前回の同期から変わっていないので読み込まない
+ */
+async function syncPage(
+    pageRef: DocumentReference,
+    local: PageSnapshot,
+    previous: PDFPageSyncState,
+    pull: boolean,
+    remoteUpdatedAt: number | undefined,
+    now: number
+): Promise<{ result: PageResult; writes: BatchWrite[] }> {
+    const baseKeys = new Set(previous.strokeKeys || []);
+    const localKeys = new Set<string>();
+    const localStrokes = (local.drawings ? JSON.parse(local.drawings) as object[] : []).map(path => {
+        let json = JSON.stringify(path);
+        let key = strokeKey(json, getStrokeId(path));
+        // 同じキーが2本目のもの・IDのないまだ送っていないものにはIDを付ける（同じ形のペン跡を1本にまとめない）
+        if (localKeys.has(key) || (!getStrokeId(path) && !baseKeys.has(key))) {
+            const strokeId = createStrokeId();
+            json = JSON.stringify({ ...path, strokeId });
+            key = strokeKey(json, strokeId);
+        }
+        localKeys.add(key);
+        return { key, json };
+    });
+
+    let remotePage: RemotePage | undefined;
+    let remoteStrokes: Map<string, RemoteStroke> | null = null;
+    if (pull) {
+        const [pageSnap, strokesSnap] = await Promise.all([getDoc(pageRef), getDocs(collection(pageRef, 'strokes'))]);
+        remotePage = pageSnap.exists() ? pageSnap.data() as RemotePage : undefined;
+        remoteStrokes = new Map(
+            strokesSnap.docs
+                .map(strokeDoc => [strokeDoc.id, strokeDoc.data() as RemoteStroke] as const)
+                .filter(([, stroke]) => !stroke.deleted)
+        );
+    }
+    const isRemoteAlive = (key: string) => remoteStrokes ? remoteStrokes.has(key) : baseKeys.has(key);
+
+    // ペン跡: この端末の順番のまま、他の端末で消されたものを除き、他の端末で増えたものを後ろに足す
+    const mergedStrokes = localStrokes.filter(stroke => !(baseKeys.has(stroke.key) && !isRemoteAlive(stroke.key)));
+    if (remoteStrokes) {
+        const added = [...remoteStrokes.entries()]
+            .filter(([key]) => !localKeys.has(key) && !baseKeys.has(key))
+            .sort(([, a], [, b]) => a.order - b.order);
+        added.forEach(([key, stroke]) => mergedStrokes.push({ key, json: stroke.path }));
+    }
+
+    const writes: BatchWrite[] = [];
+    const strokeRef = (key: string) => doc(pageRef, 'strokes', key);
+    // この端末で増えた分
+    localStrokes
+        .filter(stroke => !baseKeys.has(stroke.key) && !isRemoteAlive(stroke.key))
+        .forEach((stroke, index) => {
+            writes.push({ ref: strokeRef(stroke.key), data: { path: stroke.json, order: now + index, deleted: false, updatedAt: now } });
+        });
+    // この端末で消した分
+    [...baseKeys]
+        .filter(key => !localKeys.has(key) && isRemoteAlive(key))
+        .forEach(key => {
+            writes.push({ ref: strokeRef(key), data: { path: '', order: 0, deleted: true, updatedAt: now } });
+        });
+
+    // テキスト・○✕: ページごとに新しい方
+    const pageData: Partial<RemotePage> = {};
+    const merged: PageSnapshot = {
+        drawings: mergedStrokes.length > 0 || local.drawings !== undefined
+            ? `[${mergedStrokes.map(stroke => stroke.json).join(',')}]`
+            : undefined
+    };
+    let textUpdatedAt = previous.textUpdatedAt;
+    if (remotePage?.textAnnotations !== undefined && (remotePage.textUpdatedAt || 0) > (previous.textUpdatedAt || 0)) {
+        merged.textAnnotations = remotePage.textAnnotations;
+        textUpdatedAt = remotePage.textUpdatedAt;
+    } else {
+        merged.textAnnotations = local.textAnnotations;
+        if (local.textAnnotations !== undefined && local.textAnnotations !== remotePage?.textAnnotations) {
+            pageData.textAnnotations = local.textAnnotations;
+            pageData.textUpdatedAt = previous.textUpdatedAt || now;
+        }
+    }
+    let marksUpdatedAt = previous.marksUpdatedAt;
+    if (remotePage?.gradingMarks !== undefined && (remotePage.marksUpdatedAt || 0) > (previous.marksUpdatedAt || 0)) {
+        merged.gradingMarks = remotePage.gradingMarks;
+        marksUpdatedAt = remotePage.marksUpdatedAt;
+    } else {
+        merged.gradingMarks = local.gradingMarks;
+        if (local.gradingMarks !== undefined && local.gradingMarks !== remotePage?.gradingMarks) {
+            pageData.gradingMarks = local.gradingMarks;
+            pageData.marksUpdatedAt = previous.marksUpdatedAt || now;
+        }
+    }
+
+    const pushed = writes.length > 0 || Object.keys(pageData).length > 0;
+    if (pushed) {
+        writes.push({ ref: pageRef, data: toFirestoreData({ ...pageData, updatedAt: now }) });
+    }
+
+    return {
+        result: {
+            local,
+            merged,
+            sync: {
+                dirty: false,
+                remoteUpdatedAt: pushed ? now : remoteUpdatedAt,
+                strokeKeys: [...new Set(mergedStrokes.map(stroke => stroke.key))],
+                textUpdatedAt,
+                marksUpdatedAt
+            }
+        },
+        writes
+    };
+}
+
+/**
+ * ドリル1冊分を同期する
+ */
+async function syncDrill(ctx: SyncContext, pdfId: string, local: PDFFileRecord | undefined, remote: RemoteDrill | undefined): Promise<void> {
+    const now = Date.now();
+    const ref = drillRef(ctx, pdfId);
+
+    if (remote?.deleted) {
+        if (!local) return;
+        if (remote.updatedAt >= local.lastOpened) {
+            // 他の端末で削除された
+            await deletePDFRecord(pdfId);
+            await deleteAnswerKeysByPdfId(pdfId);
+            await deleteGradingOutboxItemsByPdfId(pdfId);
+            ctx.summary.downloaded++;
+            return;
+        }
+        // 削除の後にこの端末で開いていたら、この端末のものを残してもう一度送る
+        remote = undefined;
+    }
+
+    if (!local) {
+        if (!remote) return;
+        // 他の端末で追加されたドリル
+        local = {
+            id: pdfId,
+            fileName: remote.fileName,
+            thumbnail: remote.thumbnail ?? undefined,
+            fileData: remote.hasFile ? await getBlob(drillFileRef(ctx, pdfId)) : undefined,
+            lastOpened: remote.lastOpened,
+            lastPageNumberA: remote.lastPageNumberA ?? undefined,
+            lastPageNumberB: remote.lastPageNumberB ?? undefined,
+            subjectId: remote.subjectId ?? undefined,
+            drawings: {}
+        };
+        await savePDFRecord(local);
+        ctx.summary.downloaded++;
+    }
+
+    const drillData: Record<string, unknown> = {};
+    if (!remote && local.fileData) {
+        await uploadBytes(drillFileRef(ctx, pdfId), local.fileData, { contentType: 'application/pdf' });
+    }
+    const remoteMetaNewer = !!remote && remote.lastOpened > local.lastOpened;
+    if (!remote || local.lastOpened > remote.lastOpened) {
+        Object.assign(drillData, {
+            id: pdfId,
+            fileName: local.fileName,
+            thumbnail: local.thumbnail ?? null,
+            subjectId: local.subjectId ?? null,
+            lastOpened: local.lastOpened,
+            lastPageNumberA: local.lastPageNumberA ?? null,
+            lastPageNumberB: local.lastPageNumberB ?? null,
+            hasFile: remote?.hasFile || !!local.fileData,
+            deleted: false
+        } satisfies Omit<RemoteDrill, 'pages' | 'updatedAt'>);
+    }
+
+    // ページ
+    const pageSync = ctx.sameAccount ? local.pageSync || {} : {};
+    const pageNumbers = new Set(
+        [
+            ...Object.keys(local.drawings || {}),
+            ...Object.keys(local.textAnnotations || {}),
+            ...Object.keys(local.gradingMarks || {}),
+            ...Object.keys(remote?.pages || {})
+        ].map(Number)
+    );
+    const results = new Map<number, PageResult>();
+    const writes: BatchWrite[] = [];
+    const pageVersions: Record<string, number> = {};
+    for (const page of pageNumbers) {
+        const previous = pageSync[page] || {};
+        const snapshot = localPageSnapshot(local, page);
+        const remoteUpdatedAt = remote?.pages?.[page];
+        const hasLocalData = Object.values(snapshot).some(value => value !== undefined);
+        const pull = remoteUpdatedAt !== undefined && remoteUpdatedAt !== previous.remoteUpdatedAt;
+        const push = !!previous.dirty || (previous.remoteUpdatedAt === undefined && hasLocalData);
+        if (!pull && !push) continue;
+
+        const pageResult = await syncPage(doc(ref, 'pages', String(page)), snapshot, previous, pull, remoteUpdatedAt, now);
+        results.set(page, pageResult.result);
+        writes.push(...pageResult.writes);
+        if (pageResult.result.sync.remoteUpdatedAt === now) {
+            pageVersions[page] = now;
+        }
+        if (!sameSnapshot(snapshot, pageResult.result.merged)) {
+            ctx.summary.downloaded++;
+        }
+    }
+
+    if (Object.keys(pageVersions).length > 0) {
+        drillData.pages = pageVersions;
+    }
+    if (Object.keys(drillData).length > 0) {
+        writes.push({ ref, data: { ...drillData, updatedAt: now } });
+    }
+    await commitInChunks(writes);
+    if (writes.length > 0) {
+        ctx.summary.uploaded++;
+    }
+
+    if (results.size === 0 && !remoteMetaNewer && ctx.sameAccount) return;
+
+    // この端末に反映（同期中に書き込まれたページはそのままにして、次の同期でもう一度揃える）
+    await modifyPDFRecord(pdfId, record => {
+        const updated: PDFFileRecord = {
+            ...record,
+            drawings: { ...record.drawings },
+            textAnnotations: { ...record.textAnnotations },
+            gradingMarks: { ...record.gradingMarks },
+            pageSync: ctx.sameAccount ? { ...record.pageSync } : {}
+        };
+        if (remote && remoteMetaNewer) {
+            updated.fileName = remote.fileName;
+            updated.subjectId = remote.subjectId ?? undefined;
+            updated.lastPageNumberA = remote.lastPageNumberA ?? undefined;
+            updated.lastPageNumberB = remote.lastPageNumberB ?? undefined;
+            updated.lastOpened = Math.max(record.lastOpened, remote.lastOpened);
+        }
+        results.forEach((result, page) => {
+            if (!sameSnapshot(localPageSnapshot(record, page), result.local)) return;
+            const assign = (target: Record<number, string>, value: string | undefined) => {
+                if (value === undefined) {
+                    delete target[page];
+                } else {
+                    target[page] = value;
+                }
+            };
+            assign(updated.drawings, result.merged.drawings);
+            assign(updated.textAnnotations!, result.merged.textAnnotations);
+            assign(updated.gradingMarks!, result.merged.gradingMarks);
+            updated.pageSync![page] = result.sync;
+        });
+        return updated;
+    });
+}
+
+function gradingHistoryUpdatedAt(record: GradingHistoryRecord): number {
+    return Math.max(
+        record.timestamp,
+        ...(record.overrides || []).map(entry => entry.at),
+        ...(record.tutorChat || []).map(message => message.at)
+    );
+}
+
+/**
+ * 採点履歴を同期する（新しい方を残す。画像は端末に残っているものだけ）
+ */
+async function syncGradingHistory(ctx: SyncContext): Promise<void> {
+    const historyCollection = collection(db, profilePath(ctx), 'gradingHistory');
+    const [localRecords, remoteSnap] = await Promise.all([getAllGradingHistory(), getDocs(historyCollection)]);
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const remoteById = new Map(remoteSnap.docs.map(historyDoc => [historyDoc.id, historyDoc.data() as RemoteGradingHistory]));
+
+    const writes: BatchWrite[] = [];
+    for (const record of localRecords) {
+        const remote = remoteById.get(record.id);
+        const updatedAt = gradingHistoryUpdatedAt(record);
+        if (remote?.deleted && remote.updatedAt >= updatedAt) {
+            await deleteGradingHistory(record.id);
+            ctx.summary.downloaded++;
+        } else if (!remote || remote.deleted || updatedAt > remote.updatedAt) {
+            const { imageData: _imageData, ...data } = record;
+            writes.push({ ref: doc(historyCollection, record.id), data: toFirestoreData({ ...data, updatedAt, deleted: false }) });
+        }
+    }
+    await commitInChunks(writes);
+    ctx.summary.uploaded += writes.length;
+
+    for (const [id, remote] of remoteById) {
+        if (remote.deleted) continue;
+        const local = localById.get(id);
+        if (local && gradingHistoryUpdatedAt(local) >= remote.updatedAt) continue;
+        const { updatedAt: _updatedAt, deleted: _deleted, ...record } = remote;
+        await saveGradingHistory({ ...record, imageData: local?.imageData, profileId: ctx.profileId });
+        ctx.summary.downloaded++;
+    }
+}
+
+/**
+ * この端末で削除したドリル・採点履歴をクラウドにも反映する
+ */
+async function pushDeletions(uid: string, deletions: CloudSyncDeletion[]): Promise<void> {
+    const writes: BatchWrite[] = [];
+    for (const deletion of deletions) {
+        const ctx = { uid, profileId: deletion.profileId };
+        if (deletion.kind === 'drill') {
+            // ページ・ペン跡は残るが、deleted のドリルは他の端末で読まない
+            writes.push({ ref: drillRef(ctx, deletion.id), data: { deleted: true, updatedAt: deletion.deletedAt } });
+            await deleteObject(drillFileRef(ctx, deletion.id)).catch(error => {
+                if (error?.code !== 'storage/object-not-found') throw error;
+            });
+        } else {
+            writes.push({ ref: doc(db, profilePath(ctx), 'gradingHistory', deletion.id), data: { deleted: true, updatedAt: deletion.deletedAt } });
+        }
+    }
+    await commitInChunks(writes);
+}
+
+async function runSync(): Promise<CloudSyncSummary> {
+    const user = auth.currentUser;
+    if (!user) {
+        throw new Error('クラウド同期にはサインインが必要です');
+    }
+    const state = await getCloudSyncState();
+    if (!state.enabled) {
+        throw new Error('クラウド同期がオフになっています');
+    }
+
+    const ctx: SyncContext = {
+        uid: user.uid,
+        profileId: await getActiveProfileId(),
+        sameAccount: state.uid === user.uid,
+        summary: { uploaded: 0, downloaded: 0 }
+    };
+    console.log('☁️ クラウド同期を開始:', { profileId: ctx.profileId });
+
+    const deletions = ctx.sameAccount ? state.pendingDeletions : [];
+    await pushDeletions(ctx.uid, deletions);
+
+    const [localRecords, remoteSnap] = await Promise.all([
+        getAllPDFRecords(),
+        getDocs(collection(db, profilePath(ctx), 'drills'))
+    ]);
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const remoteById = new Map(remoteSnap.docs.map(drillDoc => [decodeURIComponent(drillDoc.id), drillDoc.data() as RemoteDrill]));
+    for (const pdfId of new Set([...localById.keys(), ...remoteById.keys()])) {
+        await syncDrill(ctx, pdfId, localById.get(pdfId), remoteById.get(pdfId));
+    }
+
+    await syncGradingHistory(ctx);
+
+    // 送った削除（別のアカウントのものは送らずに捨てる）を消す。同期中に増えた削除は次回に回す
+    const latest = await getCloudSyncState();
+    const isHandled = (deletion: CloudSyncDeletion) => state.pendingDeletions.some(
+        handled => handled.kind === deletion.kind && handled.id === deletion.id && handled.deletedAt === deletion.deletedAt
+    );
+    await saveCloudSyncState({
+        ...latest,
+        uid: ctx.uid,
+        lastSyncedAt: Date.now(),
+        pendingDeletions: latest.pendingDeletions.filter(deletion => !isHandled(deletion))
+    });
+    console.log('✅ クラウド同期完了:', ctx.summary);
+    return ctx.summary;
+}
+
+/**
+ * 今すぐ同期する（同期中に呼ばれたら実行中の同期を待つ）
+ */
+export function syncNow(): Promise<CloudSyncSummary> {
+    if (!currentSync) {
+        currentSync = runSync().finally(() => {
+            currentSync = null;
+        });
+    }
+    return currentSync;
+}
+
+/**
+ * 実行中の同期が終わるのを待つ（同期中に開いたドリルが古いデータを読まないように）
+ */
+export async function waitForCloudSync(): Promise<void> {
+    await currentSync?.catch(() => undefined);
+}
+
+/**
+ * クラウド同期のオン・オフ
+ */
+export async function setCloudSyncEnabled(enabled: boolean): Promise<void> {
+    const state = await getCloudSyncState();
+    await saveCloudSyncState({ ...state, enabled, pendingDeletions: enabled ? state.pendingDeletions : [] });
+}
+
+/**
+ * 削除したドリル・採点履歴を次の同期でクラウドからも消す（同期がオフなら何もしない）
+ */
+export async function recordCloudDeletion(kind: CloudSyncDeletion['kind'], id: string): Promise<void> {
+    const state = await getCloudSyncState();
+    if (!state.enabled) return;
+    await saveCloudSyncState({
+        ...state,
+        pendingDeletions: [...state.pendingDeletions, { kind, id, profileId: await getActiveProfileId(), deletedAt: Date.now() }]
+    });
+}
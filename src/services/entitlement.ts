@@ -0,0 +1,78 @@
+import type { User } from 'firebase/auth';
+import { fetchEntitlement, redeemPromoCode, setEntitlementToken, EntitlementResponse } from './api';
+import { EntitlementCache, getEntitlementCache, saveEntitlementCache } from '../utils/indexedDB';
+
+/**
+ * プレミアムの権利
+ * サーバーが Stripe の契約・プロモコードから決めて、署名付きのトークンで返す。
+ * トークンは端末にキャッシュし、オフラインでも期限（expiresAt）までは使う。
+ * 既定以外のモデルで採点するときなどはトークンをサーバーに送り、サーバー側でも確かめる。
+ */
+
+/**
+ * いまプレミアムとして扱ってよいか
+ */
+export function isPremiumEntitlement(cache: EntitlementCache | null, uid: string | null | undefined, now = Date.now()): boolean {
+    return !!cache && !!uid && cache.uid === uid && cache.premium && cache.expiresAt > now;
+}
+
+async function applyEntitlementResponse(response: EntitlementResponse): Promise<EntitlementCache | null> {
+    if (!response.success || !response.token || !response.entitlement) return null;
+    const { uid, premium, source, premiumUntil, expiresAt } = response.entitlement;
+    const cache: EntitlementCache = {
+        id: 'entitlement',
+        uid,
+        token: response.token,
+        premium,
+        source,
+        premiumUntil,
+        expiresAt,
+        fetchedAt: Date.now()
+    };
+    await saveEntitlementCache(cache);
+    setEntitlementToken(cache.token);
+    return cache;
+}
+
+/**
+ * 端末にキャッシュした権利を読み込む（別のアカウント・期限切れのものは使わない）
+ */
+export async function loadCachedEntitlement(uid: string | null): Promise<EntitlementCache | null> {
+    const cache = await getEntitlementCache();
+    const usable = cache && uid && cache.uid === uid && cache.expiresAt > Date.now() ? cache : null;
+    setEntitlementToken(usable?.token ?? null);
+    return usable;
+}
+
+/**
+ * サーバーから権利を取り直す
+ */
+export async function refreshEntitlement(user: User): Promise<EntitlementCache | null> {
+    const response = await fetchEntitlement(await user.getIdToken());
+    if (!response.success) {
+        throw new Error(response.error || 'プレミアムの確認に失敗しました');
+    }
+    return applyEntitlementResponse(response);
+}
+
+/**
+ * プロモコードを使う（成功すれば新しい権利、失敗すればエラーコードを返す）
+ */
+export async function redeemEntitlementPromoCode(
+    user: User,
+    code: string
+): Promise<{ entitlement: EntitlementCache | null; error?: string }> {
+    const response = await redeemPromoCode(await user.getIdToken(), code);
+    if (!response.success) {
+        return { entitlement: null, error: response.error || 'invalid' };
+    }
+    return { entitlement: await applyEntitlementResponse(response) };
+}
+
+/**
+ * ログアウトしたときに権利のキャッシュを消す
+ */
+export async function clearEntitlement(): Promise<void> {
+    setEntitlementToken(null);
+    await saveEntitlementCache(null);
+}
@@ -0,0 +1,184 @@
+import { GradingHistoryRecord, getAllGradingHistory, getAllPDFRecords, getAllHintUsage } from '../utils/indexedDB';
+
+/**
+ * 正答率の集計1件分
+ */
+export interface AccuracyStat {
+    key: string;
+    label: string;
+    total: number;
+    correct: number;
+    correctRate: number; // %
+    lastAttemptAt: number;
+    trend: 'up' | 'down' | 'flat' | null; // 前半と後半の正答率の比較（問題数が少ないときは null）
+}
+
+/**
+ * 週ごとの正答率
+ */
+export interface WeeklyAccuracy {
+    weekStart: number; // その週の月曜日0時
+    total: number;
+    correct: number;
+    correctRate: number; // %
+}
+
+export interface GradingAnalytics {
+    total: number;
+    correct: number;
+    correctRate: number; // %
+    bySubject: AccuracyStat[]; // key は教科ID（ドリルが削除されて分からないものは UNKNOWN_SUBJECT_ID）
+    byDrill: AccuracyStat[];
+    byPage: AccuracyStat[]; // key は "pdfId:ページ番号"
+    byTopic: AccuracyStat[];
+    weakTopics: AccuracyStat[]; // 正答率の低い順
+    weekly: WeeklyAccuracy[]; // 古い順
+    unclassifiedCount: number; // 単元が分からない採点結果の数（単元の分類を始める前の履歴など）
+    hintRequests: number; // ヒントを見た回数（採点していない問題も含む）
+    hinted: { total: number; correct: number; correctRate: number }; // ヒントを見てから採点した問題
+}
+
+export interface GradingAnalyticsOptions {
+    subjectId?: string | null; // null / 省略はすべての教科
+    since?: number; // この時刻以降の採点結果だけを集計する
+}
+
+export const UNKNOWN_SUBJECT_ID = 'unknown';
+
+// 苦手な単元として挙げるのに必要な問題数（1〜2問の間違いだけで苦手扱いしない）
+const MIN_ATTEMPTS_FOR_WEAK_TOPIC = 3;
+const WEAK_TOPIC_LIMIT = 5;
+// 苦手な単元とみなす正答率（%）
+const WEAK_TOPIC_RATE_THRESHOLD = 80;
+// 傾向（上がっている / 下がっている）を出すのに必要な問題数と、変化とみなす差（%）
+const MIN_ATTEMPTS_FOR_TREND = 4;
+const TREND_THRESHOLD = 10;
+const WEEKS_IN_TREND = 12;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toRate = (correct: number, total: number) => (total > 0 ? Math.round((correct / total) * 100) : 0);
+
+/**
+ * 前半と後半の正答率を比べる（records は古い順）
+ */
+function getTrend(records: GradingHistoryRecord[]): AccuracyStat['trend'] {
+    if (records.length < MIN_ATTEMPTS_FOR_TREND) return null;
+    const half = Math.floor(records.length / 2);
+    const rateOf = (items: GradingHistoryRecord[]) => toRate(items.filter(record => record.isCorrect).length, items.length);
+    const diff = rateOf(records.slice(records.length - half)) - rateOf(records.slice(0, half));
+    if (diff >= TREND_THRESHOLD) return 'up';
+    if (diff <= -TREND_THRESHOLD) return 'down';
+    return 'flat';
+}
+
+/**
+ * キーごとにまとめて正答率を出す（records は古い順、結果は問題数の多い順）
+ */
+function aggregate(
+    records: GradingHistoryRecord[],
+    keyOf: (record: GradingHistoryRecord) => string | null,
+    labelOf: (record: GradingHistoryRecord, key: string) => string
+): AccuracyStat[] {
+    const groups = new Map<string, GradingHistoryRecord[]>();
+    records.forEach(record => {
+        const key = keyOf(record);
+        if (key === null) return;
+        const group = groups.get(key) || [];
+        group.push(record);
+        groups.set(key, group);
+    });
+
+    return [...groups.entries()]
+        .map(([key, group]) => {
+            const correct = group.filter(record => record.isCorrect).length;
+            return {
+                key,
+                label: labelOf(group[group.length - 1], key),
+                total: group.length,
+                correct,
+                correctRate: toRate(correct, group.length),
+                lastAttemptAt: group[group.length - 1].timestamp,
+                trend: getTrend(group)
+            };
+        })
+        .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * その週の月曜日0時（ローカル時刻）
+ */
+function getWeekStart(timestamp: number): number {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getTime();
+}
+
+function getWeeklyAccuracy(records: GradingHistoryRecord[], now: number): WeeklyAccuracy[] {
+    const firstWeek = getWeekStart(now - (WEEKS_IN_TREND - 1) * WEEK_MS);
+    const weeks: WeeklyAccuracy[] = [];
+    for (let weekStart = firstWeek; weekStart <= now; weekStart = getWeekStart(weekStart + WEEK_MS + 12 * 60 * 60 * 1000)) {
+        weeks.push({ weekStart, total: 0, correct: 0, correctRate: 0 });
+    }
+
+    records.forEach(record => {
+        const week = weeks.find(w => w.weekStart === getWeekStart(record.timestamp));
+        if (!week) return;
+        week.total++;
+        if (record.isCorrect) week.correct++;
+    });
+    weeks.forEach(week => {
+        week.correctRate = toRate(week.correct, week.total);
+    });
+    return weeks;
+}
+
+/**
+ * 表記ゆれを少しでも減らすため、全角・半角や空白をそろえて単元のキーにする
+ */
+function toTopicKey(topic: string | undefined): string | null {
+    const key = topic?.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+    return key || null;
+}
+
+/**
+ * 採点履歴（表示中のプロフィール）を教科・ドリル・ページ・単元ごとに集計する
+ */
+export async function getGradingAnalytics(options: GradingAnalyticsOptions = {}): Promise<GradingAnalytics> {
+    const [history, pdfRecords, hintUsage] = await Promise.all([getAllGradingHistory(), getAllPDFRecords(), getAllHintUsage()]);
+    const subjectByPdfId = new Map(pdfRecords.map(record => [record.id, record.subjectId]));
+    const subjectOf = (record: GradingHistoryRecord) => subjectByPdfId.get(record.pdfId) || UNKNOWN_SUBJECT_ID;
+
+    const records = history
+        .filter(record => !options.since || record.timestamp >= options.since)
+        .filter(record => !options.subjectId || subjectOf(record) === options.subjectId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const correct = records.filter(record => record.isCorrect).length;
+    const hintedRecords = records.filter(record => record.hintLevel);
+    const hintedCorrect = hintedRecords.filter(record => record.isCorrect).length;
+    const hintRequests = hintUsage
+        .filter(usage => !options.since || usage.createdAt >= options.since)
+        .filter(usage => !options.subjectId || (usage.subjectId || subjectByPdfId.get(usage.pdfId) || UNKNOWN_SUBJECT_ID) === options.subjectId)
+        .length;
+
+    const byTopic = aggregate(records, record => toTopicKey(record.topic), record => record.topic || '');
+    const weakTopics = byTopic
+        .filter(stat => stat.total >= MIN_ATTEMPTS_FOR_WEAK_TOPIC && stat.correctRate < WEAK_TOPIC_RATE_THRESHOLD)
+        .sort((a, b) => a.correctRate - b.correctRate || b.total - a.total)
+        .slice(0, WEAK_TOPIC_LIMIT);
+
+    return {
+        total: records.length,
+        correct,
+        correctRate: toRate(correct, records.length),
+        bySubject: aggregate(records, subjectOf, (_, key) => key),
+        byDrill: aggregate(records, record => record.pdfId, record => record.pdfFileName),
+        byPage: aggregate(records, record => `${record.pdfId}:${record.pageNumber}`, record => `${record.pdfFileName} p.${record.pageNumber}`),
+        byTopic,
+        weakTopics,
+        weekly: getWeeklyAccuracy(records, Date.now()),
+        unclassifiedCount: records.filter(record => !toTopicKey(record.topic)).length,
+        hintRequests,
+        hinted: { total: hintedRecords.length, correct: hintedCorrect, correctRate: toRate(hintedCorrect, hintedRecords.length) }
+    };
+}
@@ -0,0 +1,319 @@
+import { gradeWork, AnswerKeyEntry, GradingResult, GRADE_WORK_URL } from './api'
+import {
+  GradingOutboxRecord,
+  addGradingOutboxItem,
+  getAllGradingOutboxItems,
+  claimGradingOutboxItem,
+  updateGradingOutboxItem,
+  deleteGradingOutboxItem,
+  saveGradingHistory,
+  generateGradingHistoryId,
+  generateGradingOutboxId,
+  getProfile,
+  GradingHistoryRecord
+} from '../utils/indexedDB'
+import { recordGradingForReview } from './reviewQueue'
+import { linkHintUsage } from './hintUsage'
+import { isPremiumEntitlement, loadCachedEntitlement, refreshEntitlement } from './entitlement'
+import { calculateGradingReward } from './rewardRules'
+import { earnRewardMinutes, MAX_EARN_MINUTES } from './snsLedger'
+import { auth } from '../lib/firebase'
+
+// ==========================================
+// Grading Outbox
+// ==========================================
+//
+// オフライン・サーバー停止で採点できなかったリクエストを IndexedDB に貯めておき、
+// つながったら送り直して結果を採点履歴に保存する。
+// 送り直すきっかけは (1) Service Worker の Background Sync（public/grading-outbox-sw.js）
+// (2) アプリ起動時 (3) online イベント (4) 再送時刻のタイマー。
+// Service Worker は受け取った結果を採点待ちに残すだけで、履歴への保存（復習キュー・ヒントの記録を含む）と
+// SNSの時間を貯める処理は、アプリ側の saveDelivery でまとめて行う。
+
+export const GRADING_OUTBOX_SYNC_TAG = 'grading-outbox'
+const GRADING_OUTBOX_CHANGED_EVENT = 'grading-outbox-changed'
+
+// 再送の設定（public/grading-outbox-sw.js と同じ値にする）
+const MAX_ATTEMPTS = 8
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+const LEASE_MS = 2 * 60 * 1000
+
+// 送信回数に応じた待ち時間（30秒, 1分, 2分, ... 最大1時間）
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS)
+
+export interface GradingRequest {
+  pdfId: string
+  pdfFileName: string
+  pageNumber: number
+  imageData: string
+  model?: string
+  language: string
+  subjectId?: string
+  answerKeys: AnswerKeyEntry[]
+}
+
+export interface GradingOutboxDelivery {
+  item: GradingOutboxRecord
+  problems: GradingResult[]
+}
+
+// 採点結果を採点履歴に保存（戻り値は problems と同じ順の履歴ID）
+export const saveGradingResultsToHistory = async (
+  problems: GradingResult[],
+  context: { pdfId: string, pdfFileName: string, pageNumber: number, imageData: string, timestamp?: number, profileId?: string }
+): Promise<string[]> => {
+  const ids: string[] = []
+  const records: GradingHistoryRecord[] = []
+  // 同じ採点の問題は同じ時刻にする（ごほうびの計算などで1回の採点としてまとめる）
+  const timestamp = context.timestamp ?? Date.now()
+  for (const problem of problems) {
+    const id = generateGradingHistoryId()
+    ids.push(id)
+    const record: GradingHistoryRecord = {
+      id,
+      pdfId: context.pdfId,
+      pdfFileName: context.pdfFileName,
+      pageNumber: context.pageNumber,
+      problemNumber: problem.problemNumber,
+      studentAnswer: problem.studentAnswer,
+      isCorrect: problem.isCorrect || false,
+      correctAnswer: problem.correctAnswer || '',
+      feedback: problem.feedback || '',
+      explanation: problem.explanation || '',
+      topic: problem.topic || undefined,
+      timestamp,
+      imageData: context.imageData,
+      matchingMetadata: problem.gradingSource === 'db'
+        ? { method: 'exact' as const }
+        : problem.matchingMetadata,
+      profileId: context.profileId
+    }
+    records.push(record)
+  }
+
+  // 採点の前にヒントを見た問題には、見た段階を記録する
+  await linkHintUsage(records)
+  for (const record of records) {
+    await saveGradingHistory(record)
+  }
+
+  // まちがえた問題を復習キューへ（失敗しても採点結果は返す）
+  await recordGradingForReview(records).catch(error => {
+    console.error('復習キューの更新に失敗:', error)
+  })
+  return ids
+}
+
+const notifyChanged = (deliveries: GradingOutboxDelivery[] = []) => {
+  window.dispatchEvent(new CustomEvent(GRADING_OUTBOX_CHANGED_EVENT, { detail: deliveries }))
+}
+
+// 採点待ちが増減したとき・結果が届いたときに呼ばれる
+export const subscribeGradingOutbox = (listener: (deliveries: GradingOutboxDelivery[]) => void) => {
+  const handler = (event: Event) => listener((event as CustomEvent<GradingOutboxDelivery[]>).detail || [])
+  window.addEventListener(GRADING_OUTBOX_CHANGED_EVENT, handler)
+  return () => window.removeEventListener(GRADING_OUTBOX_CHANGED_EVENT, handler)
+}
+
+// Background Sync に登録（対応していないブラウザではアプリ側の再送だけになる）
+const requestBackgroundSync = () => {
+  if (!('serviceWorker' in navigator)) return
+  navigator.serviceWorker.ready
+    .then(registration => {
+      const sync = (registration as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } }).sync
+      return sync?.register(GRADING_OUTBOX_SYNC_TAG)
+    })
+    .catch(error => console.warn('Background Syncの登録に失敗:', error))
+}
+
+// 採点待ちに追加
+export const enqueueGrading = async (request: GradingRequest): Promise<GradingOutboxRecord> => {
+  const now = Date.now()
+  const item: GradingOutboxRecord = {
+    id: generateGradingOutboxId(),
+    ...request,
+    apiUrl: GRADE_WORK_URL,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now
+  }
+  await addGradingOutboxItem(item)
+  console.log('📮 採点待ちに追加:', { id: item.id, pdfId: item.pdfId, pageNumber: item.pageNumber })
+
+  notifyChanged()
+  requestBackgroundSync()
+  scheduleNextAttempt()
+  return item
+}
+
+// 失敗した採点待ちを削除
+export const discardGradingOutboxItem = async (id: string) => {
+  await deleteGradingOutboxItem(id)
+  notifyChanged()
+}
+
+// 採点待ちの結果でもSNSの時間を貯める（オンラインの採点と同じく、依頼したプロフィールのごほうびのルールで時間を決める）
+// ルールを使っていなければプロフィールの時間（プレミアムのみ）か上限を送り、サーバーがプランの1回分までに切り詰める
+const earnDeliveryReward = async (item: GradingOutboxRecord, receipt: string | undefined, historyIds: string[]) => {
+  const user = auth.currentUser
+  if (!user || !receipt || historyIds.length === 0) return
+
+  const profile = item.profileId ? await getProfile(item.profileId) : null
+  const rules = profile?.rewardRules
+  const reward = rules?.enabled
+    ? await calculateGradingReward(rules, historyIds, item.profileId).catch(error => {
+      console.error('ごほうびの計算に失敗:', error)
+      return null
+    })
+    : null
+  const isPremium = isPremiumEntitlement(await loadCachedEntitlement(user.uid), user.uid)
+  const minutes = reward ? reward.minutes : (isPremium && profile?.snsTimeLimitMinutes) || MAX_EARN_MINUTES
+  await earnRewardMinutes(receipt, minutes)
+}
+
+// 届いた結果を履歴に保存して採点待ちから消す（受領証があればSNSの時間も貯める）
+const saveDelivery = async (item: GradingOutboxRecord, problems: GradingResult[], receipt?: string): Promise<GradingOutboxDelivery> => {
+  const historyIds = await saveGradingResultsToHistory(problems, {
+    pdfId: item.pdfId,
+    pdfFileName: item.pdfFileName,
+    pageNumber: item.pageNumber,
+    imageData: item.imageData,
+    // 送り直すまでにプロフィールが切り替わっていても、依頼したプロフィールに保存する
+    profileId: item.profileId
+  })
+  await deleteGradingOutboxItem(item.id)
+  console.log(`✅ 採点待ちの結果を保存: ${item.id} (${problems.length}問)`)
+  // 貯められなくても（オフラインなど）結果の保存はやり直さない
+  await earnDeliveryReward(item, receipt, historyIds).catch(error => {
+    console.error('SNS利用時間の記録に失敗:', error)
+  })
+  return { item, problems }
+}
+
+// 1件送る。結果が届いたら履歴に保存して採点待ちから消す
+const deliverItem = async (item: GradingOutboxRecord): Promise<GradingOutboxDelivery | null> => {
+  // Service Worker がすでに結果を受け取っている
+  if (item.status === 'delivered') {
+    return saveDelivery(item, item.deliveredProblems || [], item.receipt)
+  }
+
+  // 権利トークンは送るときのもの（キャッシュされた最新のもの）を使う
+  const send = () => gradeWork(item.imageData, item.model, item.language, item.subjectId, item.answerKeys)
+  let response = await send()
+  // 待っている間に権利トークンの期限が切れていたら、取り直してもう一度だけ送る
+  if (response.entitlementExpired && await refreshEntitlementToken()) {
+    response = await send()
+  }
+
+  if (response.success) {
+    return saveDelivery(item, response.result.problems || [], response.receipt)
+  }
+
+  const attempts = item.attempts + 1
+  const giveUp = !response.retryable || attempts >= MAX_ATTEMPTS
+  await updateGradingOutboxItem({
+    ...item,
+    attempts,
+    status: giveUp ? 'failed' : 'pending',
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lockedUntil: undefined,
+    lastError: response.error
+  })
+  console.warn(`⏳ 採点待ちの送信に失敗 (${attempts}回目${giveUp ? '・中止' : ''}): ${response.error}`)
+  return null
+}
+
+// 権利トークンを取り直す（サインインしていない・取り直せないときは false。あとで再送する）
+const refreshEntitlementToken = async (): Promise<boolean> => {
+  const user = auth.currentUser
+  if (!user) return false
+  try {
+    return !!(await refreshEntitlement(user))
+  } catch (error) {
+    console.warn('権利トークンの取り直しに失敗:', error)
+    return false
+  }
+}
+
+let processing: Promise<GradingOutboxDelivery[]> | null = null
+
+// 送信時刻になった採点待ちをすべて送る（同時に複数回走らないようにまとめる）
+export const processGradingOutbox = (): Promise<GradingOutboxDelivery[]> => {
+  if (processing) return processing
+
+  processing = (async () => {
+    const deliveries: GradingOutboxDelivery[] = []
+    try {
+      const items = await getAllGradingOutboxItems()
+      for (const pending of items) {
+        // オフラインでも、Service Worker が受け取った結果は保存できる
+        if (!navigator.onLine && pending.status !== 'delivered') continue
+        const item = await claimGradingOutboxItem(pending.id, LEASE_MS)
+        if (!item) continue
+
+        const delivery = await deliverItem(item)
+        if (delivery) deliveries.push(delivery)
+      }
+    } catch (error) {
+      console.error('採点待ちの処理に失敗:', error)
+    } finally {
+      processing = null
+    }
+
+    notifyChanged(deliveries)
+    scheduleNextAttempt()
+    return deliveries
+  })()
+
+  return processing
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+// 次に再送できる時刻にタイマーを仕掛ける
+const scheduleNextAttempt = async () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer)
+    retryTimer = null
+  }
+
+  const items = await getAllGradingOutboxItems().catch(() => [])
+  const pending = items.filter(item => item.status === 'pending')
+  if (pending.length === 0) return
+
+  const nextAt = Math.min(...pending.map(item => Math.max(item.nextAttemptAt, item.lockedUntil ?? 0)))
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    processGradingOutbox()
+  }, Math.max(1000, nextAt - Date.now()))
+}
+
+// アプリ起動時に呼ぶ。戻り値は後片付け用
+export const startGradingOutboxSync = () => {
+  const handleOnline = () => {
+    processGradingOutbox()
+  }
+
+  // Service Worker が結果を受け取ったとき（履歴への保存はアプリ側で行う）
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'grading-outbox-updated') {
+      processGradingOutbox()
+    }
+  }
+
+  window.addEventListener('online', handleOnline)
+  navigator.serviceWorker?.addEventListener('message', handleMessage)
+  processGradingOutbox()
+
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    navigator.serviceWorker?.removeEventListener('message', handleMessage)
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+  }
+}
@@ -0,0 +1,313 @@
+import { jsPDF } from 'jspdf';
+import type { TFunction } from 'i18next';
+import { GradingHistoryRecord, getAllGradingHistory, getAllPDFRecords } from '../utils/indexedDB';
+
+/**
+ * 採点レポートの条件
+ */
+export interface GradingReportOptions {
+    from: number; // 期間の開始（タイムスタンプ、この時刻を含む）
+    to: number; // 期間の終了（タイムスタンプ、この時刻を含む）
+    subjectId: string | null; // null はすべての教科
+}
+
+/**
+ * レポートの見出しに載せる情報（画面で選んだ名前をそのまま使う）
+ */
+export interface GradingReportHeader {
+    profileName: string;
+    subjectLabel: string;
+}
+
+export interface GradingReportSummary {
+    total: number;
+    correct: number;
+    incorrect: number;
+    correctRate: number; // %
+    overridden: number; // 保護者が判定を直した問題
+    drills: { fileName: string; total: number; correct: number }[];
+}
+
+// A4（150dpi）のキャンバスに描いてからPDFにする（日本語のフォントを埋め込まずに済むように）
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 80;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT_FAMILY = '"Hiragino Sans", "Hiragino Kaku Gothic ProN", "Noto Sans JP", "Yu Gothic", Meiryo, sans-serif';
+const IMAGE_MAX_WIDTH = 700;
+const IMAGE_MAX_HEIGHT = 420;
+const CORRECT_COLOR = '#27ae60';
+const INCORRECT_COLOR = '#e74c3c';
+
+/**
+ * 描いている途中のページ
+ */
+interface ReportLayout {
+    pages: HTMLCanvasElement[];
+    context: CanvasRenderingContext2D;
+    y: number; // 次に描く位置
+}
+
+/**
+ * 期間・教科に合う採点履歴（古い順）
+ */
+export async function getGradingReportRecords(options: GradingReportOptions): Promise<GradingHistoryRecord[]> {
+    const [history, pdfRecords] = await Promise.all([getAllGradingHistory(), getAllPDFRecords()]);
+    const subjectByPdfId = new Map(pdfRecords.map(record => [record.id, record.subjectId]));
+
+    return history
+        .filter(record => record.timestamp >= options.from && record.timestamp <= options.to)
+        .filter(record => !options.subjectId || subjectByPdfId.get(record.pdfId) === options.subjectId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 集計
+ */
+export function summarizeGradingRecords(records: GradingHistoryRecord[]): GradingReportSummary {
+    const correct = records.filter(record => record.isCorrect).length;
+    const drills = new Map<string, { fileName: string; total: number; correct: number }>();
+    records.forEach(record => {
+        const drill = drills.get(record.pdfId) || { fileName: record.pdfFileName, total: 0, correct: 0 };
+        drill.total++;
+        if (record.isCorrect) drill.correct++;
+        drills.set(record.pdfId, drill);
+    });
+
+    return {
+        total: records.length,
+        correct,
+        incorrect: records.length - correct,
+        correctRate: records.length > 0 ? Math.round((correct / records.length) * 100) : 0,
+        overridden: records.filter(record => record.overrides?.length).length,
+        drills: [...drills.values()]
+    };
+}
+
+function addPage(layout: Partial<ReportLayout> & { pages: HTMLCanvasElement[] }): ReportLayout {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas context not available');
+
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    context.textBaseline = 'top';
+    layout.pages.push(canvas);
+    layout.context = context;
+    layout.y = MARGIN;
+    return layout as ReportLayout;
+}
+
+// 残りの高さが足りなければ次のページへ
+function ensureSpace(layout: ReportLayout, height: number): void {
+    if (layout.y + height > PAGE_HEIGHT - MARGIN) {
+        addPage(layout);
+    }
+}
+
+/**
+ * 折り返して描く（日本語は単語の区切りがないので1文字ずつ幅を測る）
+ */
+function drawWrappedText(
+    layout: ReportLayout,
+    text: string,
+    options: { size: number; color?: string; bold?: boolean; indent?: number }
+): void {
+    const indent = options.indent || 0;
+    const lineHeight = options.size * 1.5;
+    const font = `${options.bold ? 'bold ' : ''}${options.size}px ${FONT_FAMILY}`;
+    layout.context.font = font;
+
+    const lines: string[] = [];
+    for (const paragraph of (text || '').split('\n')) {
+        let line = '';
+        for (const char of paragraph) {
+            if (line && layout.context.measureText(line + char).width > CONTENT_WIDTH - indent) {
+                lines.push(line);
+                line = '';
+            }
+            line += char;
+        }
+        lines.push(line);
+    }
+
+    for (const line of lines) {
+        ensureSpace(layout, lineHeight);
+        layout.context.font = font;
+        layout.context.fillStyle = options.color || '#2c3e50';
+        layout.context.fillText(line, MARGIN + indent, layout.y);
+        layout.y += lineHeight;
+    }
+}
+
+function drawDivider(layout: ReportLayout, gap = 24): void {
+    ensureSpace(layout, gap * 2);
+    layout.y += gap;
+    layout.context.strokeStyle = '#dfe6e9';
+    layout.context.lineWidth = 2;
+    layout.context.beginPath();
+    layout.context.moveTo(MARGIN, layout.y);
+    layout.context.lineTo(PAGE_WIDTH - MARGIN, layout.y);
+    layout.context.stroke();
+    layout.y += gap;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+    return new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => resolve(null); // 画像が壊れていてもレポートは作る
+        image.src = src;
+    });
+}
+
+async function drawSnippetImage(layout: ReportLayout, imageData: string): Promise<void> {
+    const image = await loadImage(imageData);
+    if (!image || image.width === 0 || image.height === 0) return;
+
+    const ratio = Math.min(1, IMAGE_MAX_WIDTH / image.width, IMAGE_MAX_HEIGHT / image.height);
+    const width = image.width * ratio;
+    const height = image.height * ratio;
+    ensureSpace(layout, height + 16);
+    layout.context.drawImage(image, MARGIN, layout.y, width, height);
+    layout.context.strokeStyle = '#dfe6e9';
+    layout.context.lineWidth = 1;
+    layout.context.strokeRect(MARGIN, layout.y, width, height);
+    layout.y += height + 16;
+}
+
+function formatDate(timestamp: number, withTime = false): string {
+    return new Date(timestamp).toLocaleString('ja-JP', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        ...(withTime && { hour: '2-digit', minute: '2-digit' })
+    });
+}
+
+/**
+ * 採点レポートのPDFを作る
+ */
+export async function createGradingReport(
+    records: GradingHistoryRecord[],
+    options: GradingReportOptions,
+    header: GradingReportHeader,
+    t: TFunction
+): Promise<Blob> {
+    const layout = addPage({ pages: [] });
+    const summary = summarizeGradingRecords(records);
+
+    // 見出し
+    drawWrappedText(layout, t('gradingReport.title'), { size: 40, bold: true });
+    layout.y += 8;
+    drawWrappedText(layout, t('gradingReport.profile', { name: header.profileName }), { size: 24 });
+    drawWrappedText(layout, t('gradingReport.period', { from: formatDate(options.from), to: formatDate(options.to) }), { size: 24 });
+    drawWrappedText(layout, t('gradingReport.subject', { subject: header.subjectLabel }), { size: 24 });
+    drawWrappedText(layout, t('gradingReport.generatedAt', { date: formatDate(Date.now(), true) }), { size: 18, color: '#7f8c8d' });
+
+    // まとめ
+    drawDivider(layout);
+    drawWrappedText(layout, t('gradingReport.summaryTitle'), { size: 30, bold: true });
+    layout.y += 8;
+    drawWrappedText(layout, t('gradingReport.summaryCounts', { total: summary.total, correct: summary.correct, incorrect: summary.incorrect }), { size: 24 });
+    drawWrappedText(layout, t('gradingReport.summaryRate', { rate: summary.correctRate }), { size: 24, bold: true });
+    if (summary.overridden > 0) {
+        drawWrappedText(layout, t('gradingReport.summaryOverridden', { count: summary.overridden }), { size: 20, color: '#7f8c8d' });
+    }
+    if (summary.drills.length > 0) {
+        layout.y += 12;
+        drawWrappedText(layout, t('gradingReport.byDrill'), { size: 24, bold: true });
+        summary.drills.forEach(drill => {
+            const rate = Math.round((drill.correct / drill.total) * 100);
+            drawWrappedText(layout, t('gradingReport.drillLine', { name: drill.fileName, correct: drill.correct, total: drill.total, rate }), { size: 22, indent: 20 });
+        });
+    }
+
+    // 問題ごと
+    drawDivider(layout);
+    drawWrappedText(layout, t('gradingReport.detailsTitle'), { size: 30, bold: true });
+    if (records.length === 0) {
+        drawWrappedText(layout, t('gradingReport.noRecords'), { size: 22, color: '#7f8c8d' });
+    }
+    for (const [index, record] of records.entries()) {
+        if (index > 0) drawDivider(layout, 16);
+        else layout.y += 16;
+
+        // 見出しと画像が別のページに分かれないように、見出しの前にも画像の分の余白を確認する
+        ensureSpace(layout, 100 + (record.imageData ? IMAGE_MAX_HEIGHT / 2 : 0));
+        drawWrappedText(layout, `${record.isCorrect ? '○' : '✕'} ${record.isCorrect ? t('gradingReport.correct') : t('gradingReport.incorrect')}${record.overrides?.length ? `（${t('gradingReport.overridden')}）` : ''}`, {
+            size: 24,
+            bold: true,
+            color: record.isCorrect ? CORRECT_COLOR : INCORRECT_COLOR
+        });
+        drawWrappedText(layout, t('gradingReport.problemLine', {
+            name: record.pdfFileName,
+            page: record.pageNumber,
+            problem: record.problemNumber,
+            date: formatDate(record.timestamp, true)
+        }), { size: 20, color: '#7f8c8d' });
+        layout.y += 8;
+
+        if (record.imageData) {
+            await drawSnippetImage(layout, record.imageData);
+        }
+
+        const fields: [string, string][] = [
+            [t('gradingReport.studentAnswer'), record.studentAnswer],
+            [t('gradingReport.correctAnswer'), record.correctAnswer],
+            [t('gradingReport.explanation'), record.explanation],
+            [t('gradingReport.feedback'), record.feedback]
+        ];
+        for (const [label, value] of fields) {
+            if (!value) continue;
+            drawWrappedText(layout, label, { size: 20, bold: true });
+            drawWrappedText(layout, value, { size: 20, indent: 20 });
+            layout.y += 4;
+        }
+    }
+
+    // ページ番号
+    layout.pages.forEach((canvas, index) => {
+        const context = canvas.getContext('2d')!;
+        context.font = `18px ${FONT_FAMILY}`;
+        context.fillStyle = '#95a5a6';
+        context.textAlign = 'center';
+        context.fillText(`${index + 1} / ${layout.pages.length}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2);
+    });
+
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    layout.pages.forEach((canvas, index) => {
+        if (index > 0) pdf.addPage('a4', 'portrait');
+        pdf.addImage(canvas.toDataURL('image/jpeg', 0.85), 'JPEG', 0, 0, 210, 297);
+    });
+    console.log(`📊 採点レポートを作成: ${records.length}問 / ${layout.pages.length}ページ`);
+    return pdf.output('blob');
+}
+
+/**
+ * 採点レポートのPDFをダウンロードさせる
+ */
+export async function downloadGradingReport(
+    records: GradingHistoryRecord[],
+    options: GradingReportOptions,
+    header: GradingReportHeader,
+    t: TFunction
+): Promise<void> {
+    const blob = await createGradingReport(records, options, header, t);
+    const day = (timestamp: number) => {
+        const date = new Date(timestamp);
+        return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+    };
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `grading-report-${day(options.from)}-${day(options.to)}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Safariはクリック直後に解放するとダウンロードが始まらないことがあるので少し待つ
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
@@ -0,0 +1,89 @@
+import {
+    GradingHistoryRecord,
+    HintUsageRecord,
+    getHintUsageByPdfId,
+    saveHintUsage,
+    generateHintUsageId
+} from '../utils/indexedDB';
+import { normalizeProblemNumber } from '../components/study/utils/normalizers';
+
+/**
+ * ヒントの利用記録
+ * 採点の前に見たヒントは、あとでその問題を採点したときに採点履歴（hintLevel）へ紐付ける。
+ * 報酬のルールや学習分析で「ヒントを見て解いた問題」を区別するのに使う。
+ */
+
+// ヒントを見てからこの時間内に採点した問題だけを紐付ける（翌日以降に解き直したものは別扱い）
+const HINT_LINK_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+export interface HintUsageStart {
+    pdfId: string;
+    pdfFileName: string;
+    pageNumber: number;
+    problemNumber?: string;
+    problemText?: string;
+    topic?: string;
+    subjectId?: string;
+    hintCount: number;
+}
+
+/**
+ * ヒントを見始めたことを記録する（1段階目を見た状態）
+ */
+export async function startHintUsage(usage: HintUsageStart): Promise<HintUsageRecord> {
+    const now = Date.now();
+    const record: HintUsageRecord = {
+        ...usage,
+        id: generateHintUsageId(),
+        problemNumber: usage.problemNumber || '',
+        levelShown: 1,
+        createdAt: now,
+        updatedAt: now
+    };
+    await saveHintUsage(record);
+    return record;
+}
+
+/**
+ * 次の段階のヒントを見たことを記録する
+ */
+export async function recordHintLevel(record: HintUsageRecord, level: number): Promise<HintUsageRecord> {
+    if (level <= record.levelShown) return record;
+    const updated = { ...record, levelShown: Math.min(level, record.hintCount), updatedAt: Date.now() };
+    await saveHintUsage(updated);
+    return updated;
+}
+
+/**
+ * 採点結果に、その前に見たヒントの段階を付ける
+ * 同じドリル・ページ・問題番号で、まだ採点に紐付いていないヒントの記録を探す（見つかった記録は紐付け済みにする）。
+ * ヒントの記録に失敗しても採点は続けたいので、エラーはログだけにする。
+ */
+export async function linkHintUsage(records: GradingHistoryRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    try {
+        const usages = (await getHintUsageByPdfId(records[0].pdfId))
+            .filter(usage => !usage.gradingHistoryId && usage.problemNumber);
+
+        for (const record of records) {
+            const problemKey = normalizeProblemNumber(record.problemNumber);
+            const matched = usages.filter(usage =>
+                !usage.gradingHistoryId &&
+                usage.pdfId === record.pdfId &&
+                usage.pageNumber === record.pageNumber &&
+                normalizeProblemNumber(usage.problemNumber) === problemKey &&
+                usage.createdAt <= record.timestamp &&
+                record.timestamp - usage.createdAt <= HINT_LINK_WINDOW_MS
+            );
+            if (matched.length === 0) continue;
+
+            record.hintLevel = Math.max(...matched.map(usage => usage.levelShown));
+            for (const usage of matched) {
+                usage.gradingHistoryId = record.id;
+                await saveHintUsage({ ...usage, updatedAt: Date.now() });
+            }
+        }
+    } catch (error) {
+        console.error('ヒントの利用記録の紐付けに失敗:', error);
+    }
+}
@@ -0,0 +1,62 @@
+import { getAppSettings, saveAppSettings } from '../utils/indexedDB';
+
+/**
+ * 保護者の暗証番号（採点結果の修正など、子どもに操作させたくないもの用）
+ * 端末の設定（AppSettings.parentPin）にソルトつきのハッシュだけを保存する。
+ * 一度正しく入力したら、しばらくは入力し直さなくてよい。
+ */
+
+const UNLOCK_DURATION_MS = 5 * 60 * 1000;
+
+let unlockedUntil = 0;
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+    const data = new TextEncoder().encode(`${salt}:${pin}`);
+    return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * 暗証番号として使えるか（4〜8桁の数字）
+ */
+export function isValidParentPin(pin: string): boolean {
+    return /^\d{4,8}$/.test(pin);
+}
+
+export async function hasParentPin(): Promise<boolean> {
+    return !!(await getAppSettings()).parentPin;
+}
+
+/**
+ * 暗証番号を設定する（変更するときは、いまの暗証番号で解除してから呼ぶ）
+ */
+export async function setParentPin(pin: string): Promise<void> {
+    if (!isValidParentPin(pin)) {
+        throw new Error('暗証番号は4〜8桁の数字にしてください');
+    }
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+    const settings = await getAppSettings();
+    await saveAppSettings({ ...settings, parentPin: { salt, hash: await hashPin(pin, salt) } });
+    unlockedUntil = Date.now() + UNLOCK_DURATION_MS;
+}
+
+/**
+ * 暗証番号を確かめる（正しければしばらく解除したままにする）
+ */
+export async function verifyParentPin(pin: string): Promise<boolean> {
+    const { parentPin } = await getAppSettings();
+    if (!parentPin || !isValidParentPin(pin)) return false;
+    const ok = (await hashPin(pin, parentPin.salt)) === parentPin.hash;
+    if (ok) unlockedUntil = Date.now() + UNLOCK_DURATION_MS;
+    return ok;
+}
+
+export function isParentUnlocked(): boolean {
+    return Date.now() < unlockedUntil;
+}
+
+export function lockParent(): void {
+    unlockedUntil = 0;
+}
@@ -0,0 +1,174 @@
+import {
+    GradingHistoryRecord,
+    ReviewItemRecord,
+    getAllReviewItems,
+    getReviewItem,
+    saveReviewItem,
+    deleteReviewItem,
+    getReviewItemId,
+    getActiveProfileId
+} from '../utils/indexedDB';
+
+/**
+ * 復習キュー（SM-2 方式の間隔反復）
+ * まちがえた問題は翌日の復習に入り、復習で正解するたびに間隔が 1日 → 6日 → 前回×EF と伸びていく。
+ * 復習でまたまちがえたら最初からやり直し。間隔が MASTERED_INTERVAL_DAYS を超えたら覚えたものとしてキューから外す。
+ */
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MASTERED_INTERVAL_DAYS = 60;
+
+// SM-2 の回答の質（0〜5）。採点は○✕だけなので、正解を4・不正解を1として扱う
+const QUALITY_CORRECT = 4;
+const QUALITY_INCORRECT = 1;
+
+export const REVIEW_QUEUE_CHANGED_EVENT = 'tutotuto-review-queue-changed';
+
+export interface ReviewResult {
+    mastered: boolean; // 覚えたのでキューから外した
+    nextIntervalDays: number;
+}
+
+function startOfDay(timestamp: number): number {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+}
+
+// 日数を足した日の0時（夏時間でずれないように日付で足す）
+function addDays(timestamp: number, days: number): number {
+    const date = new Date(startOfDay(timestamp));
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+}
+
+const notifyChanged = () => {
+    window.dispatchEvent(new CustomEvent(REVIEW_QUEUE_CHANGED_EVENT));
+};
+
+/**
+ * 次の復習日を決める（SM-2）
+ */
+export function scheduleNextReview(item: ReviewItemRecord, isCorrect: boolean, now = Date.now()): ReviewItemRecord {
+    const quality = isCorrect ? QUALITY_CORRECT : QUALITY_INCORRECT;
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    let repetitions: number;
+    let intervalDays: number;
+    if (isCorrect) {
+        repetitions = item.repetitions + 1;
+        intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.intervalDays * easeFactor);
+    } else {
+        repetitions = 0;
+        intervalDays = 1;
+    }
+
+    return {
+        ...item,
+        repetitions,
+        easeFactor,
+        intervalDays,
+        lapses: item.lapses + (isCorrect ? 0 : 1),
+        dueAt: addDays(now, intervalDays),
+        lastReviewedAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * 復習の結果を保存する（覚えた問題はキューから外す）
+ */
+async function applyReviewResult(item: ReviewItemRecord, isCorrect: boolean, now: number): Promise<ReviewResult> {
+    const next = scheduleNextReview(item, isCorrect, now);
+    if (isCorrect && next.intervalDays > MASTERED_INTERVAL_DAYS) {
+        await deleteReviewItem(item.id);
+        console.log(`🎓 覚えた問題を復習キューから外しました: ${item.pdfFileName} p.${item.pageNumber} ${item.problemNumber}`);
+        return { mastered: true, nextIntervalDays: next.intervalDays };
+    }
+    await saveReviewItem(next);
+    return { mastered: false, nextIntervalDays: next.intervalDays };
+}
+
+/**
+ * 採点結果を復習キューに反映する
+ * - まちがえた問題: キューに入れる（すでにあれば間隔を最初に戻す）
+ * - 復習の日が来ている問題に正解: 間隔を伸ばす
+ * まちがえた直後に解き直して正解しても、覚えたとは限らないので間隔は伸ばさない。
+ */
+export async function recordGradingForReview(records: GradingHistoryRecord[], now = Date.now()): Promise<void> {
+    let changed = false;
+    for (const graded of records) {
+        // 保存前のレコードにはプロフィールIDが付いていないことがある（保存時に選択中のプロフィールが付く）
+        const record = { ...graded, profileId: graded.profileId ?? await getActiveProfileId() };
+        const id = getReviewItemId(record);
+        const item = await getReviewItem(id);
+
+        if (!record.isCorrect) {
+            const base: ReviewItemRecord = item || {
+                id,
+                pdfId: record.pdfId,
+                pdfFileName: record.pdfFileName,
+                pageNumber: record.pageNumber,
+                problemNumber: record.problemNumber,
+                historyId: record.id,
+                repetitions: 0,
+                easeFactor: INITIAL_EASE_FACTOR,
+                intervalDays: 0,
+                lapses: 0,
+                dueAt: now,
+                createdAt: now,
+                updatedAt: now,
+                profileId: record.profileId
+            };
+            await applyReviewResult({ ...base, historyId: record.id, pdfFileName: record.pdfFileName }, false, now);
+            changed = true;
+        } else if (item && item.dueAt <= now) {
+            await applyReviewResult(item, true, now);
+            changed = true;
+        }
+    }
+    if (changed) notifyChanged();
+}
+
+/**
+ * 採点履歴の判定を修正したとき（保護者が「正解にする」など）に復習キューを合わせる
+ */
+export async function updateReviewForOverride(record: GradingHistoryRecord): Promise<void> {
+    const id = getReviewItemId({ ...record, profileId: record.profileId ?? await getActiveProfileId() });
+    const item = await getReviewItem(id);
+
+    if (!record.isCorrect) {
+        await recordGradingForReview([record]);
+    } else if (item && item.historyId === record.id && item.repetitions === 0) {
+        // まちがえたと判定したのが誤りだった（まだ一度も復習していない）ので、キューから外す
+        await deleteReviewItem(id);
+        notifyChanged();
+    }
+}
+
+/**
+ * 採点せずに復習した結果（切り抜き画像で答えた・自分で答え合わせした）を記録する
+ */
+export async function recordReviewAnswer(item: ReviewItemRecord, isCorrect: boolean): Promise<ReviewResult> {
+    const result = await applyReviewResult(item, isCorrect, Date.now());
+    notifyChanged();
+    return result;
+}
+
+/**
+ * 今日までに復習する問題（古い順）
+ */
+export async function getDueReviewItems(now = Date.now()): Promise<ReviewItemRecord[]> {
+    const endOfToday = addDays(now, 1);
+    const items = await getAllReviewItems();
+    return items.filter(item => item.dueAt < endOfToday);
+}
+
+// 復習キューが変わったときに呼ばれる
+export const subscribeReviewQueue = (listener: () => void) => {
+    window.addEventListener(REVIEW_QUEUE_CHANGED_EVENT, listener);
+    return () => window.removeEventListener(REVIEW_QUEUE_CHANGED_EVENT, listener);
+};
@@ -0,0 +1,151 @@
+import { GradingHistoryRecord, RewardRules, getAllGradingHistory } from '../utils/indexedDB';
+import { normalizeProblemNumber } from '../components/study/utils/normalizers';
+
+/**
+ * ごほうび（SNS利用時間）のルール
+ * 保護者が決めたルールを、その日の採点履歴（GradingHistoryRecord）に当てはめて時間を決める。
+ * 同じ問題を何度も採点しても増えないように、問題ごとに最後の採点だけを数える。
+ * 採点するたびに「その日の合計がいくら増えたか」を貯める（ルールを有効にしていなければ、これまでどおり決まった時間）。
+ */
+
+export type { RewardRules };
+
+export const DEFAULT_REWARD_RULES: RewardRules = {
+    enabled: false,
+    baseMinutes: 0,
+    perCorrectMinutes: 5,
+    perCorrectCount: 10,
+    perfectPageBonusMinutes: 5,
+    minAccuracyPercent: 70,
+    weekendMultiplier: 1,
+    hintedCorrectWeight: 0.5,
+    maxMinutesPerDay: 60
+};
+
+export type RewardRuleKey = 'base' | 'perCorrect' | 'perfectPage' | 'minAccuracy' | 'weekend' | 'maxPerDay';
+
+export interface RewardBreakdownLine {
+    rule: RewardRuleKey;
+    minutes: number; // このルールで増えた（減った）時間
+}
+
+export interface RewardEvaluation {
+    minutes: number;
+    problemCount: number; // 数えた問題数（問題ごとに最後の採点）
+    correctCount: number;
+    hintedCorrectCount: number;
+    accuracyPercent: number;
+    perfectPages: number;
+    lines: RewardBreakdownLine[];
+}
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const startOfDay = (time: number) => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+};
+
+// 問題番号が読めなかったものは1件ずつ別の問題として数える
+const problemKey = (record: GradingHistoryRecord) =>
+    `${record.pdfId}:${record.pageNumber}:${normalizeProblemNumber(record.problemNumber) || record.id}`;
+
+// 問題ごとに最後の採点だけを残す
+function latestPerProblem(records: GradingHistoryRecord[]): GradingHistoryRecord[] {
+    const latest = new Map<string, GradingHistoryRecord>();
+    for (const record of records) {
+        const key = problemKey(record);
+        const current = latest.get(key);
+        if (!current || record.timestamp >= current.timestamp) {
+            latest.set(key, record);
+        }
+    }
+    return [...latest.values()];
+}
+
+/**
+ * 採点履歴にルールを当てはめる（records は同じ日のもの）
+ */
+export function evaluateRewardRules(rules: RewardRules, records: GradingHistoryRecord[], date = new Date()): RewardEvaluation {
+    const problems = latestPerProblem(records);
+    const correct = problems.filter(record => record.isCorrect);
+    const hintedCorrect = correct.filter(record => (record.hintLevel ?? 0) > 0);
+    const accuracyPercent = problems.length > 0 ? Math.round((correct.length / problems.length) * 100) : 0;
+
+    const pages = new Map<string, GradingHistoryRecord[]>();
+    for (const record of problems) {
+        const key = `${record.pdfId}:${record.pageNumber}`;
+        pages.set(key, [...(pages.get(key) || []), record]);
+    }
+    const perfectPages = [...pages.values()].filter(page => page.every(record => record.isCorrect)).length;
+
+    const evaluation: RewardEvaluation = {
+        minutes: 0,
+        problemCount: problems.length,
+        correctCount: correct.length,
+        hintedCorrectCount: hintedCorrect.length,
+        accuracyPercent,
+        perfectPages,
+        lines: []
+    };
+    if (problems.length === 0) return evaluation;
+
+    const add = (rule: RewardRuleKey, minutes: number) => {
+        if (minutes === 0) return;
+        evaluation.lines.push({ rule, minutes });
+        evaluation.minutes += minutes;
+    };
+
+    if (rules.minAccuracyPercent > 0 && accuracyPercent < rules.minAccuracyPercent) {
+        evaluation.lines.push({ rule: 'minAccuracy', minutes: 0 });
+        return evaluation;
+    }
+
+    add('base', rules.baseMinutes);
+    if (rules.perCorrectCount > 0) {
+        const weightedCorrect = correct.length - hintedCorrect.length + hintedCorrect.length * rules.hintedCorrectWeight;
+        add('perCorrect', Math.floor(weightedCorrect / rules.perCorrectCount) * rules.perCorrectMinutes);
+    }
+    add('perfectPage', perfectPages * rules.perfectPageBonusMinutes);
+
+    if (rules.weekendMultiplier !== 1 && isWeekend(date)) {
+        add('weekend', Math.round(evaluation.minutes * rules.weekendMultiplier) - evaluation.minutes);
+    }
+    if (rules.maxMinutesPerDay > 0 && evaluation.minutes > rules.maxMinutesPerDay) {
+        add('maxPerDay', rules.maxMinutesPerDay - evaluation.minutes);
+    }
+    return evaluation;
+}
+
+/**
+ * 今日の採点履歴（profileId を省略したら選択中のプロフィール）
+ */
+export async function getTodayGradingHistory(now = Date.now(), profileId?: string): Promise<GradingHistoryRecord[]> {
+    const since = startOfDay(now);
+    return (await getAllGradingHistory(profileId)).filter(record => record.timestamp >= since);
+}
+
+/**
+ * 今日の学習でもらえた時間（保護者設定のプレビュー用）
+ */
+export async function previewTodayReward(rules: RewardRules): Promise<RewardEvaluation> {
+    return evaluateRewardRules(rules, await getTodayGradingHistory());
+}
+
+/**
+ * いま保存した採点（historyIds）でもらえる時間
+ * 今日の合計が採点の前後でいくら増えたかを返す（減ったときは0分。もらった時間は取り上げない）
+ * 採点待ちの結果のように、選択中でないプロフィールの採点なら profileId を渡す
+ */
+export async function calculateGradingReward(
+    rules: RewardRules,
+    historyIds: string[],
+    profileId?: string
+): Promise<{ minutes: number; evaluation: RewardEvaluation }> {
+    const today = await getTodayGradingHistory(Date.now(), profileId);
+    const newIds = new Set(historyIds);
+    const before = evaluateRewardRules(rules, today.filter(record => !newIds.has(record.id)));
+    const after = evaluateRewardRules(rules, today);
+    return { minutes: Math.max(0, after.minutes - before.minutes), evaluation: after };
+}
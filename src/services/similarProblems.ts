@@ -0,0 +1,120 @@
+import { jsPDF } from 'jspdf';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TFunction } from 'i18next';
+import { generateSimilarProblems, SimilarProblemSource } from './api';
+import { PDFFileRecord, savePDFRecord, generatePDFId, saveAnswerKeys } from '../utils/indexedDB';
+import { DrillProblem, DrillTextRenderer, layoutDrillPDF } from '../utils/drillPdfLayout';
+
+/**
+ * 類題ドリルのもとになった問題
+ */
+export interface SimilarProblemDrillSource extends SimilarProblemSource {
+    pdfFileName: string;
+    problemNumber: string;
+    subjectId?: string;
+}
+
+export const SIMILAR_PROBLEM_COUNT = 3;
+
+// 日本語フォントを埋め込まずに済むように、文字は画像にして描く（1mmあたりのピクセル数 ≒ 300dpi）
+const TEXT_PIXELS_PER_MM = 12;
+const PT_TO_MM = 25.4 / 72;
+const FONT_FAMILY = '"Hiragino Sans", "Hiragino Kaku Gothic ProN", "Noto Sans JP", "Yu Gothic", Meiryo, sans-serif';
+
+const drawTextAsImage: DrillTextRenderer = (doc, text, x, y, { fontSize, align }) => {
+    if (!text) return;
+    const fontPx = fontSize * PT_TO_MM * TEXT_PIXELS_PER_MM;
+    const font = `${fontPx}px ${FONT_FAMILY}`;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas context not available');
+
+    context.font = font;
+    const ascent = Math.ceil(fontPx * 0.9);
+    canvas.width = Math.ceil(context.measureText(text).width) + 2;
+    canvas.height = Math.ceil(fontPx * 1.2);
+    // サイズを変えると設定が消えるので設定し直す
+    context.font = font;
+    context.fillStyle = '#000';
+    context.textBaseline = 'alphabetic';
+    context.fillText(text, 1, ascent);
+
+    const width = canvas.width / TEXT_PIXELS_PER_MM;
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    doc.addImage(canvas.toDataURL('image/png'), 'PNG', left, y - ascent / TEXT_PIXELS_PER_MM, width, canvas.height / TEXT_PIXELS_PER_MM);
+};
+
+/**
+ * 1ページ目のサムネイル
+ */
+async function renderThumbnail(blob: Blob): Promise<string> {
+    const pdf = await pdfjsLib.getDocument({ data: await blob.arrayBuffer() }).promise;
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: 0.5 });
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas context not available');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+/**
+ * まちがえた問題から類題を作り、答えを登録したドリルとして追加する
+ */
+export async function createSimilarProblemDrill(
+    source: SimilarProblemDrillSource,
+    t: TFunction,
+    language: string,
+    model?: string
+): Promise<PDFFileRecord> {
+    const { pdfFileName, problemNumber, subjectId, ...mistake } = source;
+    const response = await generateSimilarProblems(mistake, SIMILAR_PROBLEM_COUNT, model, language);
+    if (!response.success || response.problems.length === 0) {
+        throw new Error(response.error || '類題を作れませんでした');
+    }
+
+    const problems: DrillProblem[] = response.problems.map((problem, index) => ({
+        id: index + 1,
+        question: problem.question,
+        answer: problem.answer
+    }));
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    const fileName = `${t('similarProblems.fileName', { name: baseName, problem: problemNumber })}.pdf`;
+
+    const doc = new jsPDF();
+    const placements = layoutDrillPDF(doc, t('similarProblems.drillTitle', { problem: problemNumber }), baseName, problems, {
+        drawText: drawTextAsImage,
+        answerTitle: t('similarProblems.answerTitle')
+    });
+    const blob = doc.output('blob');
+
+    const record: PDFFileRecord = {
+        id: generatePDFId(fileName),
+        fileName,
+        fileData: blob,
+        thumbnail: await renderThumbnail(blob).catch(error => {
+            console.warn('サムネイルの作成に失敗:', error);
+            return undefined;
+        }),
+        lastOpened: Date.now(),
+        drawings: {},
+        subjectId
+    };
+    await savePDFRecord(record);
+
+    // 答えを登録しておく（このドリルを採点するときはAIではなく登録した答えで判定される）
+    await saveAnswerKeys(placements.map(placement => ({
+        pdfId: record.id,
+        pageNumber: placement.pageNumber,
+        problemNumber: `(${placement.id})`, // 印刷した問題番号のまま（採点では問題番号で引く）
+        correctAnswer: problems[placement.id - 1].answer
+    })));
+
+    console.log(`📝 類題ドリルを追加: ${fileName}（${problems.length}問）`);
+    return record;
+}
@@ -0,0 +1,67 @@
+import { auth } from '../lib/firebase';
+import { earnSNSMinutes, fetchSNSBalance, createSNSTicket, SNSSessionInfo } from './api';
+
+/**
+ * SNS利用時間の台帳
+ * ログインしているときは、採点で貯めた時間をサーバー（/api/sns-ledger）で管理し、
+ * manage.html はアプリが発行したチケットで残り時間を確かめて数える（URLの time は使わない）。
+ * ログインしていないときは台帳がないので、各関数は null を返す（SNSは開けない）。
+ */
+
+// 1回の採点で貯められる時間の上限（server/index.ts の SNS_PREMIUM_EARN_MAX_MINUTES と同じ）
+// 実際にはサーバーがプランの1回分までに切り詰める
+export const MAX_EARN_MINUTES = 120;
+
+export interface SNSManageTicket {
+    ticket: string;
+    balanceMinutes: number;
+    activeSession: SNSSessionInfo | null;
+}
+
+/**
+ * 採点結果で時間を貯める（採点APIが返した受領証を渡す。minutes はサーバーでプランの1回分までに切り詰められる）
+ * 戻り値は貯めたあとの残り時間
+ */
+export async function earnRewardMinutes(receipt: string | undefined, minutes: number): Promise<number | null> {
+    const user = auth.currentUser;
+    if (!user || !receipt) return null;
+
+    const response = await earnSNSMinutes(await user.getIdToken(), { receipt, minutes });
+    if (!response.success) {
+        throw new Error(response.error || 'SNS利用時間の記録に失敗しました');
+    }
+    console.log(`⏱️ SNS利用時間を記録: +${response.earnedMinutes}分（残り${response.balanceMinutes}分）`);
+    return response.balanceMinutes ?? 0;
+}
+
+/**
+ * いまの残り時間
+ */
+export async function getRewardBalance(): Promise<number | null> {
+    const user = auth.currentUser;
+    if (!user) return null;
+
+    const response = await fetchSNSBalance(await user.getIdToken());
+    if (!response.success) {
+        throw new Error(response.error || 'SNS利用時間の確認に失敗しました');
+    }
+    return response.balanceMinutes ?? 0;
+}
+
+/**
+ * manage.html に渡すチケットを発行する
+ */
+export async function createManageTicket(): Promise<SNSManageTicket | null> {
+    const user = auth.currentUser;
+    if (!user) return null;
+
+    const response = await createSNSTicket(await user.getIdToken());
+    if (!response.success || !response.ticket) {
+        throw new Error(response.error || 'SNSのチケットを発行できませんでした');
+    }
+    return {
+        ticket: response.ticket,
+        balanceMinutes: response.balanceMinutes ?? 0,
+        activeSession: response.activeSession ?? null
+    };
+}
@@ -0,0 +1,108 @@
+import { SNSSchedule, SNSUsageHistoryRecord, getAppSettings, getSNSUsageHistory } from '../utils/indexedDB';
+import { getCountedMinutes } from './snsUsage';
+
+/**
+ * SNSを使える時間帯と1日の上限
+ * 曜日ごとの時間帯の外や、今日の合計（snsUsageHistory）が上限に達したときは開けない。
+ * public/manage.html にも同じ判定があるので、変える場合はそちらも合わせる。
+ */
+
+export type { SNSSchedule };
+
+export const DEFAULT_SNS_SCHEDULE: SNSSchedule = {
+    enabled: false,
+    days: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+        allowed: true,
+        start: '07:00',
+        // 平日の夜（次の日が学校）は早めに終わる
+        end: day === 5 || day === 6 ? '21:00' : '20:30'
+    })),
+    dailyCapMinutes: 0
+};
+
+export interface SNSAccess {
+    allowed: boolean;
+    reason?: 'closedDay' | 'outsideWindow' | 'dailyCap';
+    reopensAt?: number; // 次に使えるようになる時刻（見つからなければなし）
+    remainingMinutes: number | null; // 時間帯の終わり・1日の上限までの残り（null は制限なし）
+}
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+};
+
+const atTime = (date: Date, time: string) => {
+    const result = new Date(date);
+    const minutes = toMinutes(time);
+    result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return result.getTime();
+};
+
+/**
+ * 次に使えるようになる時刻（from のあと。skipToday なら明日から探す）
+ */
+export function getNextOpening(schedule: SNSSchedule, from: Date, skipToday = false): number | undefined {
+    for (let offset = skipToday ? 1 : 0; offset <= 7; offset++) {
+        const date = new Date(from);
+        date.setDate(date.getDate() + offset);
+        const day = schedule.days[date.getDay()];
+        if (!day?.allowed) continue;
+        const opensAt = atTime(date, day.start);
+        if (opensAt > from.getTime()) return opensAt;
+    }
+    return undefined;
+}
+
+/**
+ * 今日使った時間（実際に使った時間。わからないものは制限時間で数え、時間を数えないSNSは数えない）
+ */
+export function getUsedMinutesToday(records: SNSUsageHistoryRecord[], now = new Date()): number {
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+    return records
+        .filter(record => record.timestamp >= startOfDay.getTime())
+        .reduce((sum, record) => sum + getCountedMinutes(record), 0);
+}
+
+/**
+ * いまSNSを使えるか
+ */
+export function getSNSAccess(schedule: SNSSchedule | undefined, usedMinutesToday: number, now = new Date()): SNSAccess {
+    if (!schedule?.enabled) return { allowed: true, remainingMinutes: null };
+
+    const day = schedule.days[now.getDay()];
+    if (!day?.allowed) {
+        return { allowed: false, reason: 'closedDay', reopensAt: getNextOpening(schedule, now), remainingMinutes: 0 };
+    }
+
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    if (nowMinutes < toMinutes(day.start) || nowMinutes >= toMinutes(day.end)) {
+        return { allowed: false, reason: 'outsideWindow', reopensAt: getNextOpening(schedule, now), remainingMinutes: 0 };
+    }
+
+    let remainingMinutes = toMinutes(day.end) - nowMinutes;
+    if (schedule.dailyCapMinutes > 0) {
+        const capRemaining = schedule.dailyCapMinutes - usedMinutesToday;
+        if (capRemaining <= 0) {
+            return { allowed: false, reason: 'dailyCap', reopensAt: getNextOpening(schedule, now, true), remainingMinutes: 0 };
+        }
+        remainingMinutes = Math.min(remainingMinutes, capRemaining);
+    }
+    return { allowed: true, remainingMinutes };
+}
+
+/**
+ * 次に使えるようになる時刻の表示（例: 「(月) 07:00」）
+ */
+export function formatReopensAt(time: number): string {
+    return new Date(time).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * 端末の設定と今日のSNS利用履歴（選択中のプロフィール）から判定する
+ */
+export async function checkSNSAccess(now = new Date()): Promise<SNSAccess> {
+    const [settings, history] = await Promise.all([getAppSettings(), getSNSUsageHistory()]);
+    return getSNSAccess(settings.snsSchedule, getUsedMinutesToday(history, now), now);
+}
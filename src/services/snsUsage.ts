@@ -0,0 +1,103 @@
+import { SNSUsageHistoryRecord, getSNSUsageHistoryRecord, updateSNSUsageHistory } from '../utils/indexedDB';
+
+/**
+ * SNSを実際に使った時間
+ * manage.html がSNSを開いた時刻（timestamp）と戻ってきた時刻（endedAt）を snsUsageHistory に記録する。
+ * manage.html で書けなかったときは、アプリに戻ったとき（URLの snsUsageId）にアプリ側で書き足す。
+ * 戻ってきた時刻がない記録（古い記録・戻ってこなかったもの）は、実際の時間がわからないものとして扱う。
+ */
+
+export interface SNSUsageTotal {
+    key: string; // 日付（YYYY-MM-DD）または SNS の ID
+    label: string; // 表示名（日付または SNS 名）
+    minutes: number; // 実際に使った時間の合計（分）
+    sessions: number;
+    unknownSessions: number; // 実際の時間がわからない回数
+}
+
+export interface SNSUsageSummary {
+    byDay: SNSUsageTotal[]; // 新しい日から
+    bySNS: SNSUsageTotal[]; // 長く使った順
+    returnedEarlyCount: number;
+    timedOutCount: number;
+}
+
+/**
+ * 戻ってきたときの記録を作る（manage.html と同じ判定）
+ */
+export function finishSNSUsageRecord(record: SNSUsageHistoryRecord, endedAt: number): SNSUsageHistoryRecord {
+    const durationSeconds = Math.max(0, Math.round((endedAt - record.timestamp) / 1000));
+    const timedOut = !record.unlimited && record.timeLimitMinutes > 0 && durationSeconds >= record.timeLimitMinutes * 60;
+    return {
+        ...record,
+        endedAt,
+        durationSeconds,
+        timedOut,
+        returnedEarly: !record.unlimited && !timedOut
+    };
+}
+
+/**
+ * アプリに戻ってきたとき、manage.html が終わりを記録できていなければ書き足す
+ */
+export async function completeSNSUsageOnReturn(id: string, returnedAt = Date.now()): Promise<void> {
+    const record = await getSNSUsageHistoryRecord(id);
+    if (!record || record.endedAt) return;
+    await updateSNSUsageHistory(finishSNSUsageRecord(record, returnedAt));
+    console.log('⏱️ SNSの利用終了をアプリ側で記録:', id);
+}
+
+/**
+ * 実際に使った時間（分）。わからないときは null
+ */
+export function getActualMinutes(record: SNSUsageHistoryRecord): number | null {
+    return record.durationSeconds === undefined ? null : record.durationSeconds / 60;
+}
+
+/**
+ * 1日の上限に数える時間（分）
+ * 時間を数えないSNSは数えない。実際の時間がわからないときは制限時間で数える
+ */
+export function getCountedMinutes(record: SNSUsageHistoryRecord): number {
+    if (record.unlimited) return 0;
+    const actual = getActualMinutes(record);
+    return actual === null ? record.timeLimitMinutes || 0 : Math.ceil(actual);
+}
+
+const toDateKey = (time: number) => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+function addToTotal(totals: Map<string, SNSUsageTotal>, key: string, label: string, record: SNSUsageHistoryRecord) {
+    const total = totals.get(key) || { key, label, minutes: 0, sessions: 0, unknownSessions: 0 };
+    const actual = getActualMinutes(record);
+    total.sessions += 1;
+    if (actual === null) {
+        total.unknownSessions += 1;
+    } else {
+        total.minutes += actual;
+    }
+    totals.set(key, total);
+}
+
+/**
+ * 日ごと・SNSごとの実際の利用時間
+ */
+export function summarizeSNSUsage(records: SNSUsageHistoryRecord[]): SNSUsageSummary {
+    const byDay = new Map<string, SNSUsageTotal>();
+    const bySNS = new Map<string, SNSUsageTotal>();
+    for (const record of records) {
+        const day = toDateKey(record.timestamp);
+        addToTotal(byDay, day, day, record);
+        addToTotal(bySNS, record.snsId, record.snsName, record);
+    }
+
+    const round = (total: SNSUsageTotal) => ({ ...total, minutes: Math.round(total.minutes) });
+    return {
+        byDay: [...byDay.values()].map(round).sort((a, b) => b.key.localeCompare(a.key)),
+        bySNS: [...bySNS.values()].map(round).sort((a, b) => b.minutes - a.minutes),
+        returnedEarlyCount: records.filter(record => record.returnedEarly).length,
+        timedOutCount: records.filter(record => record.timedOut).length
+    };
+}
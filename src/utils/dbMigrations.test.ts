@@ -0,0 +1,249 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  DB_NAME,
+  DB_VERSION,
+  STORE_NAME,
+  SNS_STORE_NAME,
+  GRADING_HISTORY_STORE_NAME,
+  SETTINGS_STORE_NAME,
+  SNS_USAGE_HISTORY_STORE_NAME,
+  ANSWER_KEY_STORE_NAME,
+  GRADING_OUTBOX_STORE_NAME,
+  PROFILE_STORE_NAME,
+  REVIEW_QUEUE_STORE_NAME,
+  HINT_USAGE_STORE_NAME,
+  ACTIVE_PROFILE_SETTINGS_ID,
+  DEFAULT_PROFILE_ID,
+  runMigrations,
+  upgradeStoreRecords
+} from './dbMigrations';
+
+// v1〜v9 の各バージョンで端末に残っている可能性のあるDB
+// v2〜v9 は個別の移行履歴が残っていないため、v9 の移行で作るストアを作成順に1つずつ増やしたものを使う
+// （v6 より前は PDF を Base64 のまま保存していた）
+type FixtureStore = { name: string; indexes: string[] };
+
+const PDF_STORE: FixtureStore = { name: STORE_NAME, indexes: ['lastOpened'] };
+const V9_STORES: FixtureStore[] = [
+  { name: SNS_STORE_NAME, indexes: ['createdAt'] },
+  { name: GRADING_HISTORY_STORE_NAME, indexes: ['timestamp', 'pdfId', 'pageNumber'] },
+  { name: SETTINGS_STORE_NAME, indexes: [] },
+  { name: SNS_USAGE_HISTORY_STORE_NAME, indexes: ['timestamp', 'snsId'] }
+];
+
+function storesAt(version: number): FixtureStore[] {
+  return [PDF_STORE, ...V9_STORES.slice(0, Math.min(version - 1, V9_STORES.length))];
+}
+
+const PDF_BYTES = '%PDF-1.4 fixture';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteDB(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// 古いバージョンのDBを作り、そのバージョンで保存していたデータを入れる
+function createFixture(version: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const stores = storesAt(version);
+      for (const { name, indexes } of stores) {
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        indexes.forEach(index => store.createIndex(index, index, { unique: false }));
+      }
+
+      const fileData = version < 6 ? btoa(PDF_BYTES) : new Blob([PDF_BYTES], { type: 'application/pdf' });
+      const transaction = request.transaction!;
+      transaction.objectStore(STORE_NAME).put({ id: 'pdf1', fileName: 'drill.pdf', fileData, lastOpened: 1, drawings: { 1: '[{"points":[]}]' } });
+
+      const names = stores.map(store => store.name);
+      if (names.includes(SNS_STORE_NAME)) {
+        transaction.objectStore(SNS_STORE_NAME).put({ id: 'sns1', name: 'YouTube', url: 'https://youtube.com', createdAt: 1 });
+      }
+      if (names.includes(GRADING_HISTORY_STORE_NAME)) {
+        const history = transaction.objectStore(GRADING_HISTORY_STORE_NAME);
+        history.put({ id: 'h1', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '1', isCorrect: false, timestamp: 10 });
+        history.put({ id: 'h2', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '2', isCorrect: false, timestamp: 10 });
+        history.put({ id: 'h3', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '2', isCorrect: true, timestamp: 20 });
+      }
+      if (names.includes(SETTINGS_STORE_NAME)) {
+        transaction.objectStore(SETTINGS_STORE_NAME).put({ id: 'app-settings', snsTimeLimitMinutes: 30, notificationEnabled: false });
+      }
+      if (names.includes(SNS_USAGE_HISTORY_STORE_NAME)) {
+        transaction.objectStore(SNS_USAGE_HISTORY_STORE_NAME).put({ id: 'u1', snsId: 'sns1', snsName: 'YouTube', timestamp: 5, timeLimitMinutes: 30 });
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+  });
+}
+
+// openDB と同じように最新のバージョンで開く（移行に失敗したら元のバージョンのまま）
+function openLatest(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      runMigrations(request.result, transaction, event.oldVersion).catch(() => transaction.abort());
+    };
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+function indexNames(db: IDBDatabase, storeName: string): string[] {
+  return Array.from(db.transaction(storeName, 'readonly').objectStore(storeName).indexNames).sort();
+}
+
+describe('IndexedDB migrations', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+  });
+
+  afterEach(async () => {
+    await deleteDB();
+  });
+
+  it('新しく作ると最新のストアがすべてそろう', async () => {
+    const db = await openLatest();
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      ANSWER_KEY_STORE_NAME,
+      GRADING_HISTORY_STORE_NAME,
+      GRADING_OUTBOX_STORE_NAME,
+      HINT_USAGE_STORE_NAME,
+      STORE_NAME,
+      PROFILE_STORE_NAME,
+      REVIEW_QUEUE_STORE_NAME,
+      SETTINGS_STORE_NAME,
+      SNS_STORE_NAME,
+      SNS_USAGE_HISTORY_STORE_NAME
+    ].sort());
+    db.close();
+  });
+
+  for (let version = 1; version <= 9; version++) {
+    describe(`v${version} から`, () => {
+      it('ストアとインデックスがすべてそろう', async () => {
+        await createFixture(version);
+        const db = await openLatest();
+
+        expect(db.version).toBe(DB_VERSION);
+        expect(indexNames(db, STORE_NAME)).toEqual(['lastOpened']);
+        expect(indexNames(db, SNS_STORE_NAME)).toEqual(['createdAt']);
+        expect(indexNames(db, GRADING_HISTORY_STORE_NAME)).toEqual(['pageNumber', 'pdfId', 'timestamp']);
+        expect(indexNames(db, SNS_USAGE_HISTORY_STORE_NAME)).toEqual(['snsId', 'timestamp']);
+        expect(indexNames(db, ANSWER_KEY_STORE_NAME)).toEqual(['pdfId', 'pdfId_pageNumber']);
+        expect(indexNames(db, GRADING_OUTBOX_STORE_NAME)).toEqual(['createdAt', 'pdfId']);
+        expect(indexNames(db, REVIEW_QUEUE_STORE_NAME)).toEqual(['dueAt']);
+        expect(indexNames(db, HINT_USAGE_STORE_NAME)).toEqual(['createdAt', 'pdfId']);
+        db.close();
+      });
+
+      it('PDF・書き込みを失わず、PDFはBlobで読める', async () => {
+        await createFixture(version);
+        const db = await openLatest();
+
+        const [pdf] = await getAll<{ id: string; fileData: Blob; drawings: Record<number, string>; profileId?: string }>(db, STORE_NAME);
+        expect(pdf.id).toBe('pdf1');
+        expect(pdf.drawings).toEqual({ 1: '[{"points":[]}]' });
+        expect(pdf.profileId).toBe(DEFAULT_PROFILE_ID);
+        expect(pdf.fileData).toBeInstanceOf(Blob);
+        expect(await pdf.fileData.text()).toBe(PDF_BYTES);
+        db.close();
+      });
+
+      it('既存のデータをデフォルトのプロフィールに割り当てる', async () => {
+        await createFixture(version);
+        const db = await openLatest();
+
+        const profiles = await getAll<{ id: string }>(db, PROFILE_STORE_NAME);
+        expect(profiles.map(profile => profile.id)).toEqual([DEFAULT_PROFILE_ID]);
+        const settings = await getAll<{ id: string; profileId?: string }>(db, SETTINGS_STORE_NAME);
+        expect(settings.find(setting => setting.id === ACTIVE_PROFILE_SETTINGS_ID)?.profileId).toBe(DEFAULT_PROFILE_ID);
+
+        for (const storeName of [GRADING_HISTORY_STORE_NAME, SNS_USAGE_HISTORY_STORE_NAME]) {
+          const records = await getAll<{ profileId?: string }>(db, storeName);
+          expect(records.every(record => record.profileId === DEFAULT_PROFILE_ID)).toBe(true);
+        }
+        db.close();
+      });
+
+      it('残っているデータを消さない', async () => {
+        await createFixture(version);
+        const names = storesAt(version).map(store => store.name);
+        const db = await openLatest();
+
+        expect((await getAll(db, SNS_STORE_NAME)).length).toBe(names.includes(SNS_STORE_NAME) ? 1 : 0);
+        expect((await getAll(db, GRADING_HISTORY_STORE_NAME)).length).toBe(names.includes(GRADING_HISTORY_STORE_NAME) ? 3 : 0);
+        expect((await getAll(db, SNS_USAGE_HISTORY_STORE_NAME)).length).toBe(names.includes(SNS_USAGE_HISTORY_STORE_NAME) ? 1 : 0);
+        const settings = await getAll<{ id: string }>(db, SETTINGS_STORE_NAME);
+        expect(settings.some(setting => setting.id === 'app-settings')).toBe(names.includes(SETTINGS_STORE_NAME));
+        db.close();
+      });
+
+      it('まちがえたままの問題だけを復習キューに入れる', async () => {
+        await createFixture(version);
+        const hasHistory = storesAt(version).some(store => store.name === GRADING_HISTORY_STORE_NAME);
+        const db = await openLatest();
+
+        const reviewItems = await getAll<{ historyId: string; problemNumber: string }>(db, REVIEW_QUEUE_STORE_NAME);
+        expect(reviewItems.map(item => item.historyId)).toEqual(hasHistory ? ['h1'] : []);
+        db.close();
+      });
+    });
+  }
+});
+
+describe('upgradeStoreRecords', () => {
+  const history = [
+    { id: 'h1', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '1', isCorrect: false, timestamp: 10 },
+    { id: 'h2', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '2', isCorrect: false, timestamp: 10 },
+    { id: 'h3', pdfId: 'pdf1', pdfFileName: 'drill.pdf', pageNumber: 1, problemNumber: '2', isCorrect: true, timestamp: 20 }
+  ];
+
+  it('v6より前のバックアップのPDFをBlobにする', async () => {
+    const stores = upgradeStoreRecords({ [STORE_NAME]: [{ id: 'pdf1', fileName: 'drill.pdf', fileData: btoa(PDF_BYTES) }] }, 5, 1);
+    const fileData = stores[STORE_NAME][0].fileData as Blob;
+    expect(fileData).toBeInstanceOf(Blob);
+    expect(await fileData.text()).toBe(PDF_BYTES);
+  });
+
+  it('v12より前のバックアップにデフォルトのプロフィールを用意して割り当てる', () => {
+    const stores = upgradeStoreRecords({ [STORE_NAME]: [{ id: 'pdf1', fileData: new Blob([]) }], [GRADING_HISTORY_STORE_NAME]: history }, 11, 1);
+    expect(stores[PROFILE_STORE_NAME].map(profile => profile.id)).toEqual([DEFAULT_PROFILE_ID]);
+    expect(stores[SETTINGS_STORE_NAME]).toContainEqual({ id: ACTIVE_PROFILE_SETTINGS_ID, profileId: DEFAULT_PROFILE_ID });
+    expect(stores[STORE_NAME][0].profileId).toBe(DEFAULT_PROFILE_ID);
+    expect(stores[GRADING_HISTORY_STORE_NAME].every(record => record.profileId === DEFAULT_PROFILE_ID)).toBe(true);
+  });
+
+  it('v13より前のバックアップから復習キューを作る', () => {
+    const stores = upgradeStoreRecords({ [GRADING_HISTORY_STORE_NAME]: history }, 12, 1);
+    expect(stores[REVIEW_QUEUE_STORE_NAME].map(item => item.historyId)).toEqual(['h1']);
+  });
+
+  it('今のバージョンのバックアップは変えない', () => {
+    const stores = { [GRADING_HISTORY_STORE_NAME]: history };
+    expect(upgradeStoreRecords(stores, DB_VERSION, 1)).toEqual(stores);
+  });
+});
@@ -0,0 +1,289 @@
+// IndexedDBのスキーマ移行（マイグレーション）
+//
+// バージョンごとに1つずつ移行処理を登録しておき、openDB の onupgradeneeded で
+// 古いバージョンから順に実行する。新しいストアや項目を追加するときは
+// MIGRATIONS の最後に次のバージョンを追加するだけでよい（DB_VERSION も自動で上がる）。
+// 移行は同じ versionchange トランザクションの中で1つずつ終わるのを待ってから次を実行する
+// （前の移行で書き換えたデータを次の移行が上書きしないように）。
+
+import { normalizeProblemNumber } from '../components/study/utils/normalizers';
+
+export const DB_NAME = 'TutoTutoDB';
+
+export const STORE_NAME = 'pdfFiles';
+export const SNS_STORE_NAME = 'snsLinks';
+export const GRADING_HISTORY_STORE_NAME = 'gradingHistory';
+export const SETTINGS_STORE_NAME = 'settings';
+export const SNS_USAGE_HISTORY_STORE_NAME = 'snsUsageHistory';
+export const ANSWER_KEY_STORE_NAME = 'answerKeys';
+export const GRADING_OUTBOX_STORE_NAME = 'gradingOutbox'; // public/grading-outbox-sw.js でも使用
+export const PROFILE_STORE_NAME = 'profiles';
+export const REVIEW_QUEUE_STORE_NAME = 'reviewQueue';
+export const HINT_USAGE_STORE_NAME = 'hintUsage';
+export const ACTIVE_PROFILE_SETTINGS_ID = 'active-profile'; // 設定ストアに保存（public/manage.html でも使用）
+export const CLOUD_SYNC_SETTINGS_ID = 'cloud-sync'; // 設定ストアに保存（クラウド同期の状態）
+export const ENTITLEMENT_SETTINGS_ID = 'entitlement'; // 設定ストアに保存（プレミアムの権利トークンのキャッシュ）
+
+// v12より前のデータ・プロフィール未設定のデータはこのプロフィールのものとして扱う
+export const DEFAULT_PROFILE_ID = 'profile_default';
+
+// 復習キューのID（同じ問題を何度まちがえても1件にまとめる。移行処理と indexedDB.ts で使う）
+export function getReviewItemId(record: { profileId?: string; pdfId: string; pageNumber: number; problemNumber: string }): string {
+  return [record.profileId ?? DEFAULT_PROFILE_ID, record.pdfId, record.pageNumber, normalizeProblemNumber(record.problemNumber)].join('|');
+}
+
+// ストア名ごとのレコード（バックアップから復元するデータ）
+export type StoreRecords = Record<string, Record<string, unknown>[]>;
+
+export interface DBMigration {
+  version: number; // この移行を適用した後のバージョン
+  description: string;
+  // スキーマ変更とデータ変換。データ変換が終わるまで待つ場合は Promise を返す
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+  // 古いバージョンで書き出したバックアップのレコードに同じデータ変換をする（ストアを作るだけの移行では不要）
+  upgradeRecords?: (stores: StoreRecords, exportedAt: number) => void;
+}
+
+// ストアがなければ作成（既にあればそのまま返す）
+function ensureStore(db: IDBDatabase, transaction: IDBTransaction, name: string, options: IDBObjectStoreParameters = { keyPath: 'id' }): IDBObjectStore {
+  if (db.objectStoreNames.contains(name)) {
+    return transaction.objectStore(name);
+  }
+  return db.createObjectStore(name, options);
+}
+
+// インデックスがなければ作成
+function ensureIndex(store: IDBObjectStore, name: string, keyPath: string | string[]): void {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, { unique: false });
+  }
+}
+
+// ストアの全レコードを順に書き換える（update が値を返したときだけ保存する）
+function updateEachRecord<T>(transaction: IDBTransaction, storeName: string, update: (record: T) => T | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(storeName).openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const updated = update(cursor.value as T);
+      if (updated) {
+        cursor.update(updated);
+      }
+      cursor.continue();
+    };
+
+    request.onerror = () => {
+      reject(new Error(`${storeName} の移行に失敗しました`));
+    };
+  });
+}
+
+// Base64文字列をPDFのBlobに変換
+function base64ToPDFBlob(base64: string): Blob {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
+// v6: fileData が文字列（Base64）ならBlobにする（変換しないときは null）
+function convertFileDataToBlob<T extends { fileName?: unknown; fileData?: unknown }>(record: T): T | null {
+  if (!record.fileData || typeof record.fileData !== 'string') return null;
+  try {
+    return { ...record, fileData: base64ToPDFBlob(record.fileData) };
+  } catch (error) {
+    console.error(`❌ ${record.fileName} の変換失敗:`, error);
+    return null;
+  }
+}
+
+// v12: プロフィールIDがなければデフォルトのプロフィールにする（変更しないときは null）
+function assignDefaultProfile<T extends { profileId?: unknown }>(record: T): T | null {
+  return record.profileId ? null : { ...record, profileId: DEFAULT_PROFILE_ID };
+}
+
+// v12でプロフィールを割り当てるストア
+const PROFILE_SCOPED_STORE_NAMES = [STORE_NAME, GRADING_HISTORY_STORE_NAME, SNS_USAGE_HISTORY_STORE_NAME, GRADING_OUTBOX_STORE_NAME];
+
+type ReviewSourceRecord = { id: string; pdfId: string; pdfFileName: string; pageNumber: number; problemNumber: string; isCorrect: boolean; timestamp: number; profileId?: string };
+
+// v13: 問題ごとに最後の採点結果を見て、まちがえたままの問題を今日の復習に入れる
+function createReviewItems(history: ReviewSourceRecord[]): Record<string, unknown>[] {
+  const latest = new Map<string, ReviewSourceRecord>();
+  for (const record of history) {
+    const id = getReviewItemId(record);
+    const current = latest.get(id);
+    if (!current || record.timestamp > current.timestamp) {
+      latest.set(id, record);
+    }
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return [...latest].filter(([, record]) => !record.isCorrect).map(([id, record]) => ({
+    id,
+    pdfId: record.pdfId,
+    pdfFileName: record.pdfFileName,
+    pageNumber: record.pageNumber,
+    problemNumber: record.problemNumber,
+    historyId: record.id,
+    repetitions: 0,
+    easeFactor: 2.5,
+    intervalDays: 0,
+    lapses: 1,
+    dueAt: today.getTime(),
+    createdAt: record.timestamp,
+    updatedAt: Date.now(),
+    profileId: record.profileId ?? DEFAULT_PROFILE_ID
+  }));
+}
+
+// ストアのレコードを1つずつ変換する（update が null を返したものはそのまま）
+function updateStoreRecords(stores: StoreRecords, storeName: string, update: (record: Record<string, unknown>) => Record<string, unknown> | null): void {
+  if (!stores[storeName]) return;
+  stores[storeName] = stores[storeName].map(record => update(record) ?? record);
+}
+
+// バージョン順に並べること（途中のバージョンを飛ばしてもよいが、同じバージョンは1つだけ）
+export const MIGRATIONS: DBMigration[] = [
+  {
+    version: 1,
+    description: 'PDFファイル用ストア（pdfFiles）',
+    migrate: (db, transaction) => {
+      const store = ensureStore(db, transaction, STORE_NAME);
+      ensureIndex(store, 'lastOpened', 'lastOpened');
+    }
+  },
+  {
+    version: 6,
+    description: 'PDFデータをBase64からBlobへ移行',
+    migrate: (_db, transaction) => updateEachRecord<{ fileName: string; fileData?: string | Blob }>(transaction, STORE_NAME, convertFileDataToBlob),
+    upgradeRecords: stores => updateStoreRecords(stores, STORE_NAME, convertFileDataToBlob)
+  },
+  {
+    // v2〜v9で追加したストアは個別の履歴が残っていないため、v9時点のストアをまとめて用意する
+    // （どのバージョンから上げても、なければ作成・あればインデックスだけ補う）
+    version: 9,
+    description: 'SNSリンク・採点履歴・設定・SNS利用履歴のストア',
+    migrate: (db, transaction) => {
+      const snsStore = ensureStore(db, transaction, SNS_STORE_NAME);
+      ensureIndex(snsStore, 'createdAt', 'createdAt');
+
+      const historyStore = ensureStore(db, transaction, GRADING_HISTORY_STORE_NAME);
+      ensureIndex(historyStore, 'timestamp', 'timestamp');
+      ensureIndex(historyStore, 'pdfId', 'pdfId');
+      ensureIndex(historyStore, 'pageNumber', 'pageNumber');
+
+      ensureStore(db, transaction, SETTINGS_STORE_NAME);
+
+      const snsUsageStore = ensureStore(db, transaction, SNS_USAGE_HISTORY_STORE_NAME);
+      ensureIndex(snsUsageStore, 'timestamp', 'timestamp');
+      ensureIndex(snsUsageStore, 'snsId', 'snsId');
+    }
+  },
+  {
+    version: 10,
+    description: '解答（正解）用ストア（answerKeys）',
+    migrate: (db, transaction) => {
+      const store = ensureStore(db, transaction, ANSWER_KEY_STORE_NAME);
+      ensureIndex(store, 'pdfId', 'pdfId');
+      ensureIndex(store, 'pdfId_pageNumber', ['pdfId', 'pageNumber']);
+    }
+  },
+  {
+    version: 11,
+    description: '採点待ち用ストア（gradingOutbox）',
+    migrate: (db, transaction) => {
+      const store = ensureStore(db, transaction, GRADING_OUTBOX_STORE_NAME);
+      ensureIndex(store, 'pdfId', 'pdfId');
+      ensureIndex(store, 'createdAt', 'createdAt');
+    }
+  },
+  {
+    version: 12,
+    description: 'プロフィール用ストア（profiles）と既存データのデフォルトプロフィールへの割り当て',
+    migrate: async (db, transaction) => {
+      const profileStore = ensureStore(db, transaction, PROFILE_STORE_NAME);
+      profileStore.put({ id: DEFAULT_PROFILE_ID, name: '', icon: '🧒', createdAt: Date.now() });
+      transaction.objectStore(SETTINGS_STORE_NAME).put({ id: ACTIVE_PROFILE_SETTINGS_ID, profileId: DEFAULT_PROFILE_ID });
+
+      for (const storeName of PROFILE_SCOPED_STORE_NAMES) {
+        await updateEachRecord(transaction, storeName, assignDefaultProfile);
+      }
+    },
+    upgradeRecords: (stores, exportedAt) => {
+      stores[PROFILE_STORE_NAME] = [...(stores[PROFILE_STORE_NAME] || []), { id: DEFAULT_PROFILE_ID, name: '', icon: '🧒', createdAt: exportedAt }];
+      const settings = stores[SETTINGS_STORE_NAME] || [];
+      if (!settings.some(record => record.id === ACTIVE_PROFILE_SETTINGS_ID)) {
+        stores[SETTINGS_STORE_NAME] = [...settings, { id: ACTIVE_PROFILE_SETTINGS_ID, profileId: DEFAULT_PROFILE_ID }];
+      }
+      PROFILE_SCOPED_STORE_NAMES.forEach(storeName => updateStoreRecords(stores, storeName, assignDefaultProfile));
+    }
+  },
+  {
+    version: 13,
+    description: '復習キュー用ストア（reviewQueue）と、今までにまちがえた問題の登録',
+    migrate: async (db, transaction) => {
+      const store = ensureStore(db, transaction, REVIEW_QUEUE_STORE_NAME);
+      ensureIndex(store, 'dueAt', 'dueAt');
+
+      const history: ReviewSourceRecord[] = [];
+      await updateEachRecord<ReviewSourceRecord>(transaction, GRADING_HISTORY_STORE_NAME, record => {
+        history.push(record);
+        return null;
+      });
+      createReviewItems(history).forEach(item => store.put(item));
+    },
+    upgradeRecords: stores => {
+      const history = (stores[GRADING_HISTORY_STORE_NAME] || []) as ReviewSourceRecord[];
+      stores[REVIEW_QUEUE_STORE_NAME] = [...(stores[REVIEW_QUEUE_STORE_NAME] || []), ...createReviewItems(history)];
+    }
+  },
+  {
+    version: 14,
+    description: 'ヒントの利用記録用ストア（hintUsage）',
+    migrate: async (db, transaction) => {
+      const store = ensureStore(db, transaction, HINT_USAGE_STORE_NAME);
+      ensureIndex(store, 'pdfId', 'pdfId');
+      ensureIndex(store, 'createdAt', 'createdAt');
+    }
+  }
+];
+
+// 最新のスキーマバージョン
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 登録順のチェック（バージョンが昇順・重複なしでなければ起動時に気付けるようにする）
+MIGRATIONS.forEach((migration, index) => {
+  if (index > 0 && migration.version <= MIGRATIONS[index - 1].version) {
+    throw new Error(`IndexedDB migrations must be in ascending version order: v${migration.version}`);
+  }
+});
+
+// fromVersion で書き出したバックアップのレコードに、それより新しい移行のデータ変換を順に適用する
+export function upgradeStoreRecords(stores: StoreRecords, fromVersion: number, exportedAt: number): StoreRecords {
+  const upgraded = { ...stores };
+  for (const migration of MIGRATIONS.filter(migration => migration.version > fromVersion)) {
+    migration.upgradeRecords?.(upgraded, exportedAt);
+  }
+  return upgraded;
+}
+
+// oldVersion より新しい移行を順に実行
+export async function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): Promise<void> {
+  const pending = MIGRATIONS.filter(migration => migration.version > oldVersion);
+  for (const migration of pending) {
+    console.log(`🛠️ IndexedDB移行 v${migration.version}: ${migration.description}`);
+    await migration.migrate(db, transaction);
+  }
+  if (pending.length > 0) {
+    console.log(`✅ IndexedDB移行完了: v${oldVersion} → v${DB_VERSION}`);
+  }
+}
@@ -0,0 +1,121 @@
+import { jsPDF } from 'jspdf';
+
+/**
+ * ドリルPDFのレイアウト（問題ページ + 解答ページ）
+ * scripts/generate-drills.ts（Node）と、アプリで作る類題ドリル（ブラウザ）で共通に使う。
+ */
+export interface DrillProblem {
+    id: number;
+    question: string; // 改行（\n）で複数行
+    answer: string;
+    metadata?: { type: 'rectangle'; width: number; height: number };
+}
+
+export interface DrillTextOptions {
+    fontSize: number; // pt
+    align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * 文字を描く処理（y はベースライン）
+ * 日本語フォントを埋め込めないブラウザでは、画像にして描く処理に差し替える。
+ */
+export type DrillTextRenderer = (doc: jsPDF, text: string, x: number, y: number, options: DrillTextOptions) => void;
+
+export const drawTextWithFont: DrillTextRenderer = (doc, text, x, y, { fontSize, align }) => {
+    doc.setFontSize(fontSize);
+    doc.text(text, x, y, align && align !== 'left' ? { align } : undefined);
+};
+
+export interface DrillLayoutOptions {
+    fontName?: string; // addFont 済みのフォント（ページを追加するたびに設定し直す）
+    drawText?: DrillTextRenderer;
+    answerTitle?: string;
+}
+
+/**
+ * 問題がどのページに載ったか（解答の登録に使う）
+ */
+export interface DrillProblemPlacement {
+    id: number;
+    pageNumber: number;
+}
+
+/**
+ * A4縦（mm）の jsPDF に問題と解答を描く
+ */
+export function layoutDrillPDF(
+    doc: jsPDF,
+    title: string,
+    idLabel: string,
+    problems: DrillProblem[],
+    options: DrillLayoutOptions = {}
+): DrillProblemPlacement[] {
+    const drawText = options.drawText || drawTextWithFont;
+    const addPage = () => {
+        doc.addPage();
+        if (options.fontName) doc.setFont(options.fontName); // Reset font for new page just in case
+    };
+    const placements: DrillProblemPlacement[] = [];
+
+    // PAGE 1: QUESTIONS
+    drawText(doc, title, 105, 20, { fontSize: 18, align: 'center' });
+    drawText(doc, `ID: ${idLabel}`, 180, 10, { fontSize: 10 });
+
+    let y = 40;
+    let x = 20;
+
+    problems.forEach(p => {
+        // Page break
+        if (y > 250) {
+            addPage();
+            y = 40;
+        }
+        placements.push({ id: p.id, pageNumber: doc.getNumberOfPages() });
+
+        // Split question by newlines for multiline support
+        const lines = p.question.split('\n');
+        drawText(doc, `(${p.id})`, x, y, { fontSize: 12 });
+
+        lines.forEach((line: string, idx: number) => {
+            drawText(doc, line, x + 10, y + (idx * 6), { fontSize: 12 });
+        });
+
+        // If it's a geometry problem, draw it
+        if (p.metadata?.type === 'rectangle') {
+            const { width, height } = p.metadata;
+            const scale = 5; // Scale for visibility
+            const drawY = y + (lines.length * 6); // Offset by text height
+
+            // Draw rectangle
+            doc.setDrawColor(0);
+            doc.rect(x + 10, drawY + 5, width * scale, height * scale);
+
+            // Labels
+            drawText(doc, `${width}cm`, x + 10 + (width * scale / 2), drawY + 4, { fontSize: 10, align: 'center' }); // Top width
+            drawText(doc, `${height}cm`, x + 8, drawY + 5 + (height * scale / 2), { fontSize: 10, align: 'right' }); // Left height
+
+            y += (height * scale) + 25 + (lines.length * 6); // Extra space for drawing
+        } else {
+            y += 15 + ((lines.length - 1) * 6);
+        }
+    });
+
+    // PAGE 2: ANSWERS
+    addPage();
+    drawText(doc, options.answerTitle || 'かいとう (Answer Key)', 105, 20, { fontSize: 18, align: 'center' });
+
+    y = 40;
+    x = 30;
+    problems.forEach(p => {
+        if (y > 270) {
+            addPage();
+            y = 40;
+            x = 30;
+        }
+        drawText(doc, `(${p.id})  ${p.answer}`, x, y, { fontSize: 12 });
+        y += 10;
+    });
+
+    return placements;
+}
@@ -1,12 +1,29 @@
 // IndexedDB管理ユーティリティ
 
-const DB_NAME = 'TutoTutoDB';
-const DB_VERSION = 9; // バージョンを上げて解答ストア追加
-const STORE_NAME = 'pdfFiles';
-const SNS_STORE_NAME = 'snsLinks';
-const GRADING_HISTORY_STORE_NAME = 'gradingHistory';
-const SETTINGS_STORE_NAME = 'settings';
-const SNS_USAGE_HISTORY_STORE_NAME = 'snsUsageHistory';
+// ストア名・バージョンはスキーマ移行と共通（新しいストアは dbMigrations.ts に移行を追加する）
+import {
+  DB_NAME,
+  DB_VERSION,
+  STORE_NAME,
+  SNS_STORE_NAME,
+  GRADING_HISTORY_STORE_NAME,
+  SETTINGS_STORE_NAME,
+  SNS_USAGE_HISTORY_STORE_NAME,
+  ANSWER_KEY_STORE_NAME,
+  GRADING_OUTBOX_STORE_NAME,
+  PROFILE_STORE_NAME,
+  REVIEW_QUEUE_STORE_NAME,
+  HINT_USAGE_STORE_NAME,
+  ACTIVE_PROFILE_SETTINGS_ID,
+  CLOUD_SYNC_SETTINGS_ID,
+  ENTITLEMENT_SETTINGS_ID,
+  DEFAULT_PROFILE_ID,
+  getReviewItemId,
+  runMigrations
+} from './dbMigrations';
+import type { GradingResult } from '../services/api';
+
+export { DEFAULT_PROFILE_ID, getReviewItemId };
 
 
 export interface PDFFileRecord {
@@ -19,7 +36,19 @@ export interface PDFFileRecord {
   lastPageNumberB?: number; // 最後に開いていたページ番号 (B面)
   drawings: Record<number, string>; // ページ番号 -> JSON文字列のマップ
   textAnnotations?: Record<number, string>; // ページ番号 -> JSON文字列のマップ（テキストアノテーション）
+  gradingMarks?: Record<number, string>; // ページ番号 -> JSON文字列のマップ（採点の○✕）
   subjectId?: string; // 教科識別子 (math, japanese, etc)
+  profileId?: string; // 持ち主のプロフィールID（ペン跡・○✕もこのプロフィールのもの）
+  pageSync?: Record<number, PDFPageSyncState>; // ページ番号 -> クラウド同期の状態
+}
+
+// ページごとのクラウド同期の状態
+export interface PDFPageSyncState {
+  dirty?: boolean; // 前回の同期の後にこの端末で書き込んだ
+  remoteUpdatedAt?: number; // 前回の同期で確認したクラウド側のページの更新日時
+  strokeKeys?: string[]; // 前回の同期で揃えたペン跡（1本ごとのID。IDを付ける前に同期したものは内容から作ったキー）
+  textUpdatedAt?: number; // テキストアノテーションの更新日時
+  marksUpdatedAt?: number; // 採点の○✕の更新日時
 }
 
 export interface SNSLinkRecord {
@@ -27,6 +56,8 @@ export interface SNSLinkRecord {
   name: string; // SNS名（例: Twitter, Instagram）
   url: string; // リンク先URL
   icon: string; // 絵文字アイコン
+  timeLimitMinutes?: number; // このSNSだけの1回の上限（分）。未設定なら全体の設定のまま
+  unlimited?: boolean; // 時間を数えない（連絡用のLINEなど）。使える時間帯は守る
   createdAt: number; // 作成日時
 }
 
@@ -41,6 +72,7 @@ export interface GradingHistoryRecord {
   correctAnswer: string; // 正しい解答
   feedback: string; // フィードバック
   explanation: string; // 解説
+  topic?: string; // 単元・問題の種類（AIが分類したもの、弱点の集計に使う）
   timestamp: number; // 実施時刻（タイムスタンプ）
   imageData?: string; // 採点時の画像データ（オプション）
   matchingMetadata?: {
@@ -50,14 +82,115 @@ export interface GradingHistoryRecord {
     candidates?: string[];
     similarity?: number;
   }; // マッチング詳細データ（デバッグ用）
+  overrides?: GradingOverrideEntry[]; // 判定の修正履歴（古い順）
+  tutorChat?: TutorChatMessage[]; // この問題についての解説チャット（古い順）
+  hintLevel?: number; // 採点の前に見たヒントの段階（1〜3、見ていなければなし）
+  profileId?: string; // 採点したプロフィールのID
+}
+
+// 採点の前に問題のヒントを見た記録（報酬・学習分析で使う）
+export interface HintUsageRecord {
+  id: string;
+  pdfId: string;
+  pdfFileName: string;
+  pageNumber: number;
+  problemNumber: string; // AIが読み取った問題番号（分からなければ空文字）
+  problemText?: string;
+  topic?: string;
+  subjectId?: string;
+  hintCount: number; // 用意できたヒントの段階数
+  levelShown: number; // 見たヒントの段階（1〜hintCount）
+  gradingHistoryId?: string; // このヒントのあとに採点した結果（採点時に紐付ける）
+  createdAt: number;
+  updatedAt: number;
+  profileId?: string;
+}
+
+// 解説チャットの1発言
+export interface TutorChatMessage {
+  role: 'student' | 'tutor';
+  text: string;
+  at: number; // 発言した時刻（タイムスタンプ）
+}
+
+// 復習キューの1問分（まちがえた問題を間隔をあけて解き直す）
+export interface ReviewItemRecord {
+  id: string; // getReviewItemId（プロフィール・ドリル・ページ・問題番号）
+  pdfId: string;
+  pdfFileName: string;
+  pageNumber: number;
+  problemNumber: string;
+  historyId: string; // 最後にまちがえたときの採点履歴（切り抜き画像・正解を表示する）
+  repetitions: number; // 続けて正解した回数
+  easeFactor: number; // 間隔の伸ばし方（SM-2 の EF）
+  intervalDays: number; // 今の間隔（日）
+  lapses: number; // まちがえた回数
+  dueAt: number; // 次に復習する日（その日の0時）
+  createdAt: number;
+  updatedAt: number;
+  lastReviewedAt?: number;
+  profileId?: string;
 }
 
+// クラウド同期の設定と状態（端末ごと）
+export interface CloudSyncState {
+  id: typeof CLOUD_SYNC_SETTINGS_ID;
+  enabled: boolean; // 保護者がオンにしたときだけ同期する
+  uid?: string; // 最後に同期したアカウント
+  lastSyncedAt?: number;
+  pendingDeletions: CloudSyncDeletion[]; // クラウドにまだ反映していない削除
+}
+
+export interface CloudSyncDeletion {
+  kind: 'drill' | 'gradingHistory';
+  id: string;
+  profileId: string;
+  deletedAt: number;
+}
+
+// 採点結果の修正（保護者による判定の変更・別モデルでの再採点）の記録
+export interface GradingOverrideEntry {
+  by: 'parent' | 'ai'; // 修正した人（保護者 / 別モデルでの再採点）
+  model?: string; // 再採点に使ったモデル（by: 'ai' のとき）
+  uid?: string; // 修正したときにログインしていたアカウント（保護者の暗証番号で解除して修正したもの）
+  at: number; // 修正した時刻（タイムスタンプ）
+  previous: Pick<GradingHistoryRecord, 'isCorrect' | 'studentAnswer' | 'correctAnswer' | 'feedback' | 'explanation'>; // 修正前の値
+}
+
+export type GradingHistoryOverrideChanges = Partial<Pick<GradingHistoryRecord, 'isCorrect' | 'studentAnswer' | 'correctAnswer' | 'feedback' | 'explanation'>>;
+
 export interface AppSettings {
   id: 'app-settings'; // 固定ID
   snsTimeLimitMinutes: number; // SNS利用制限時間（分）
   notificationEnabled: boolean; // 通知の有効/無効
   defaultGradingModel?: string; // 採点時のデフォルトAIモデル
-  isPremium?: boolean; // 有料プラン（ファミリー解除）フラグ
+  snsSchedule?: SNSSchedule; // SNSを使える時間帯と1日の上限
+  parentPin?: { salt: string; hash: string }; // 保護者の暗証番号（ハッシュのみ）。判定は services/parentLock.ts
+}
+
+// SNSを使える時間帯（曜日ごと）。判定は services/snsSchedule.ts（public/manage.html にも同じ判定がある）
+export interface SNSDaySchedule {
+  allowed: boolean; // この曜日にSNSを使えるか
+  start: string; // 使える時間帯の始まり（'HH:MM'）
+  end: string; // 使える時間帯の終わり（'HH:MM'）
+}
+
+export interface SNSSchedule {
+  enabled: boolean;
+  days: SNSDaySchedule[]; // 日曜日から土曜日の7つ
+  dailyCapMinutes: number; // 1日の合計の上限（0なら上限なし）。snsUsageHistory の今日の分を足して数える
+}
+
+// サーバーが発行したプレミアムの権利（オフラインでも期限までは使う）
+export interface EntitlementCache {
+  id: typeof ENTITLEMENT_SETTINGS_ID;
+  uid: string; // 発行されたアカウント
+  token: string; // 署名付きの権利トークン（サーバーで検証する）
+  premium: boolean;
+  source: 'stripe' | 'promo' | null; // Stripeの契約 / プロモコード
+  premiumUntil: number | null; // プロモコードによるプレミアムの期限
+  expiresAt: number; // トークンの期限（これを過ぎたら取り直すまで無料プラン扱い）
+  fetchedAt: number;
 }
 
 export interface SNSUsageHistoryRecord {
@@ -66,13 +199,78 @@ export interface SNSUsageHistoryRecord {
   snsName: string; // SNS名（例: YouTube, Twitter）
   snsUrl: string; // アクセスしたURL
   timeLimitMinutes: number; // 設定されていた制限時間（分）
-  timestamp: number; // アクセス日時（タイムスタンプ）
+  timestamp: number; // アクセス日時（タイムスタンプ）。使い始めた時刻
+  profileId?: string; // 利用したプロフィールのID
+  // ここから下は manage.html に戻ってきたときに記録する（古い記録と、まだ戻っていないものはなし）
+  endedAt?: number; // 戻ってきた時刻
+  durationSeconds?: number; // 実際に使った時間（秒）
+  returnedEarly?: boolean; // 制限時間より前に戻った
+  timedOut?: boolean; // 制限時間を過ぎてから戻った
+  unlimited?: boolean; // 時間を数えないSNSだった
+}
+
+// 子どもごとのプロフィール（兄弟で1台の端末を使うため）
+export interface ProfileRecord {
+  id: string; // ユニークID
+  name: string; // 表示名（空ならデフォルト名を表示）
+  icon: string; // 絵文字アイコン
+  snsTimeLimitMinutes?: number; // このプロフィールのSNS利用制限時間（分）。未設定ならアプリ設定の値
+  rewardRules?: RewardRules; // 採点の結果でSNS利用時間を決めるルール（未設定なら snsTimeLimitMinutes をそのまま）
+  createdAt: number; // 作成日時
+}
+
+// ごほうび（SNS利用時間）のルール。計算は services/rewardRules.ts
+export interface RewardRules {
+  enabled: boolean;
+  baseMinutes: number; // 採点するともらえる時間（その日の最初の採点で1回）
+  perCorrectMinutes: number; // perCorrectCount 問正解するごとにもらえる時間
+  perCorrectCount: number;
+  perfectPageBonusMinutes: number; // ページの問題がすべて正解のときのボーナス（ページごと）
+  minAccuracyPercent: number; // 正答率がこれ未満なら0分（0なら使わない）
+  weekendMultiplier: number; // 土日の倍率（1なら使わない）
+  hintedCorrectWeight: number; // ヒントを見て正解した問題の数え方（1: そのまま、0.5: 半分、0: 数えない）
+  maxMinutesPerDay: number; // 1日にもらえる上限（0なら上限なし）
+}
+
+// オフライン・サーバー停止時に採点できなかったリクエスト（つながったら再送する）
+// Service Worker（public/grading-outbox-sw.js）からも読み書きするので、項目を変える場合はそちらも合わせる
+export interface GradingOutboxRecord {
+  id: string; // ユニークID
+  pdfId: string; // PDFファイルのID
+  pdfFileName: string; // 問題集の名称
+  pageNumber: number; // ページ番号
+  imageData: string; // 切り抜き画像（Base64）
+  apiUrl: string; // 送信先（Service Workerからも送れるように保存）
+  model?: string; // 採点に使うAIモデル
+  language: string; // 言語
+  subjectId?: string; // 教科識別子
+  answerKeys: { problemNumber: string; correctAnswer: string; pageNumber: number }[]; // 登録済みの正解
+  status: 'pending' | 'failed' | 'delivered'; // failed: 再送しても採点できなかったもの / delivered: Service Worker が結果を受け取った（アプリ側で履歴に保存する）
+  attempts: number; // 送信した回数
+  nextAttemptAt: number; // 次に送信してよい時刻（タイムスタンプ）
+  lockedUntil?: number; // 送信中（別のタブやService Workerと二重に送らないため）
+  lastError?: string; // 最後のエラー
+  createdAt: number; // 作成日時
+  profileId?: string; // 採点を依頼したプロフィールのID（結果の履歴もこのプロフィールに保存する）
+  deliveredProblems?: GradingResult[]; // Service Worker が受け取った採点結果（status: 'delivered' のとき。/api/grade-work の problems のまま）
+  receipt?: string; // Service Worker が受け取った採点の受領証（履歴に保存したあと、SNSの時間を貯めるのに使う）
 }
 
+export interface AnswerKeyRecord {
+  id: string; // pdfId + ページ番号 + 正規化した問題番号
+  pdfId: string; // PDFファイルのID
+  pageNumber: number; // 問題が載っているページ番号
+  problemNumber: string; // 問題番号（例: '1(1)'）
+  correctAnswer: string; // 登録された正解
+  createdAt: number; // 登録日時
+  updatedAt: number; // 更新日時
+}
 
 
 // Cached DB instance for Singleton pattern
 let dbInstance: IDBDatabase | null = null;
+// 選択中のプロフィールID（毎回DBを読まないようにキャッシュ）
+let activeProfileIdCache: string | null = null;
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -121,78 +319,188 @@ function openDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction!;
       const oldVersion = event.oldVersion;
 
-      // PDFファイル用オブジェクトストアが存在しない場合は作成
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const objectStore = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        objectStore.createIndex('lastOpened', 'lastOpened', { unique: false });
-      }
+      // ストアの構成が変わるので選択中のプロフィールは読み直す
+      activeProfileIdCache = null;
 
-      // SNSリンク用オブジェクトストアが存在しない場合は作成
-      if (!db.objectStoreNames.contains(SNS_STORE_NAME)) {
-        const snsStore = db.createObjectStore(SNS_STORE_NAME, { keyPath: 'id' });
-        snsStore.createIndex('createdAt', 'createdAt', { unique: false });
-      }
+      runMigrations(db, transaction, oldVersion).catch(error => {
+        // 途中で失敗した場合は元のバージョンのまま残す（データを失わないように）
+        console.error('❌ IndexedDB移行エラー:', error);
+        transaction.abort();
+      });
+    };
+  });
+}
 
-      // 採点履歴用オブジェクトストアが存在しない場合は作成
-      if (!db.objectStoreNames.contains(GRADING_HISTORY_STORE_NAME)) {
-        const historyStore = db.createObjectStore(GRADING_HISTORY_STORE_NAME, { keyPath: 'id' });
-        historyStore.createIndex('timestamp', 'timestamp', { unique: false });
-        historyStore.createIndex('pdfId', 'pdfId', { unique: false });
-        historyStore.createIndex('pageNumber', 'pageNumber', { unique: false });
-      }
+// ==========================================
+// Profiles
+// ==========================================
 
-      // 設定用オブジェクトストアが存在しない場合は作成
-      if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
-        db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'id' });
-      }
+// レコードが指定のプロフィールのものか（プロフィール未設定はデフォルトのプロフィール扱い）
+function belongsToProfile(record: { profileId?: string }, profileId: string): boolean {
+  return (record.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+}
 
-      // SNS利用履歴用オブジェクトストアが存在しない場合は作成
-      if (!db.objectStoreNames.contains(SNS_USAGE_HISTORY_STORE_NAME)) {
-        const snsUsageStore = db.createObjectStore(SNS_USAGE_HISTORY_STORE_NAME, { keyPath: 'id' });
-        snsUsageStore.createIndex('timestamp', 'timestamp', { unique: false });
-        snsUsageStore.createIndex('snsId', 'snsId', { unique: false });
-      }
+// プロフィールIDが付いていなければ選択中のプロフィールを付ける
+async function withProfileId<T extends { profileId?: string }>(record: T): Promise<T> {
+  if (record.profileId) return record;
+  return { ...record, profileId: await getActiveProfileId() };
+}
 
-      // v6へのアップグレード: Base64からBlobへ移行
-      if (oldVersion < 6 && db.objectStoreNames.contains(STORE_NAME)) {
-        const transaction = (event.target as IDBOpenDBRequest).transaction!;
-        const objectStore = transaction.objectStore(STORE_NAME);
-        const getAllRequest = objectStore.getAll();
-
-        getAllRequest.onsuccess = () => {
-          const records = getAllRequest.result as Array<PDFFileRecord & { fileData?: string | Blob }>;
-          console.log(`📦 Base64→Blob移行開始: ${records.length}件のPDF`);
-
-          records.forEach(record => {
-            // fileDataが文字列（Base64）でなければスキップ
-            if (!record.fileData || typeof record.fileData !== 'string') return
-
-            try {
-              // Base64をBlobに変換
-              const binaryString = atob(record.fileData);
-              const bytes = new Uint8Array(binaryString.length);
-              for (let i = 0; i < binaryString.length; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-              }
-              record.fileData = new Blob([bytes], { type: 'application/pdf' });
-              objectStore.put(record);
-              console.log(`✅ ${record.fileName} をBlobに変換`);
-            } catch (error) {
-              console.error(`❌ ${record.fileName} の変換失敗:`, error);
-            }
-          });
-
-          console.log('✅ Base64→Blob移行完了');
-        };
-      }
+// 選択中のプロフィールIDを取得
+export async function getActiveProfileId(): Promise<string> {
+  if (activeProfileIdCache) return activeProfileIdCache;
+
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = objectStore.get(ACTIVE_PROFILE_SETTINGS_ID);
+
+    request.onsuccess = () => {
+      activeProfileIdCache = request.result?.profileId || DEFAULT_PROFILE_ID;
+      resolve(activeProfileIdCache!);
+    };
+
+    request.onerror = () => {
+      reject(new Error('プロフィールの取得に失敗しました'));
+    };
+  });
+}
+
+// 選択中のプロフィールを切り替える
+export async function setActiveProfileId(profileId: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = objectStore.put({ id: ACTIVE_PROFILE_SETTINGS_ID, profileId });
+
+    request.onsuccess = () => {
+      activeProfileIdCache = profileId;
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('プロフィールの切り替えに失敗しました'));
+    };
+  });
+}
+
+// すべてのプロフィールを取得（作成順）
+export async function getAllProfiles(): Promise<ProfileRecord[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROFILE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(PROFILE_STORE_NAME);
+    const request = objectStore.getAll();
+
+    request.onsuccess = () => {
+      const profiles = (request.result as ProfileRecord[]).sort((a, b) => a.createdAt - b.createdAt);
+      resolve(profiles);
+    };
+
+    request.onerror = () => {
+      reject(new Error('プロフィールの取得に失敗しました'));
+    };
+  });
+}
+
+// 特定のプロフィールを取得
+export async function getProfile(id: string): Promise<ProfileRecord | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROFILE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(PROFILE_STORE_NAME);
+    const request = objectStore.get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+
+    request.onerror = () => {
+      reject(new Error('プロフィールの取得に失敗しました'));
+    };
+  });
+}
+
+// プロフィールを追加または更新
+export async function saveProfile(record: ProfileRecord): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROFILE_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(PROFILE_STORE_NAME);
+    const request = objectStore.put(record);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('プロフィールの保存に失敗しました'));
+    };
+  });
+}
+
+// プロフィールと、そのプロフィールのドリル・採点履歴・SNS利用履歴・採点待ち・復習キューを削除
+export async function deleteProfile(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const dataStores = [STORE_NAME, GRADING_HISTORY_STORE_NAME, SNS_USAGE_HISTORY_STORE_NAME, GRADING_OUTBOX_STORE_NAME, REVIEW_QUEUE_STORE_NAME, HINT_USAGE_STORE_NAME];
+    const transaction = db.transaction([PROFILE_STORE_NAME, ANSWER_KEY_STORE_NAME, ...dataStores], 'readwrite');
+    const answerKeyStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+
+    transaction.objectStore(PROFILE_STORE_NAME).delete(id);
+
+    dataStores.forEach(storeName => {
+      const cursorRequest = transaction.objectStore(storeName).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if (belongsToProfile(cursor.value, id)) {
+          // ドリルに登録した正解も一緒に消す
+          if (storeName === STORE_NAME) {
+            const keyRequest = answerKeyStore.index('pdfId').openKeyCursor(IDBKeyRange.only(cursor.value.id));
+            keyRequest.onsuccess = () => {
+              const keyCursor = keyRequest.result;
+              if (!keyCursor) return;
+              answerKeyStore.delete(keyCursor.primaryKey);
+              keyCursor.continue();
+            };
+          }
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    });
+
+    transaction.oncomplete = () => {
+      console.log('🗑️ プロフィールを削除:', id);
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('プロフィールの削除に失敗しました'));
     };
   });
 }
 
-// すべてのPDFファイルレコードを取得
+// プロフィールIDを生成
+export function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// すべてのPDFファイルレコードを取得（選択中のプロフィールのもの）
 export async function getAllPDFRecords(): Promise<PDFFileRecord[]> {
+  const profileId = await getActiveProfileId();
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
@@ -219,7 +527,9 @@ export async function getAllPDFRecords(): Promise<PDFFileRecord[]> {
         fileDataType: record.fileData ? (record.fileData instanceof Blob ? 'Blob' : typeof record.fileData) : 'null',
         fileDataSize: record.fileData instanceof Blob ? record.fileData.size : 'N/A'
       });
-      records.push(record);
+      if (belongsToProfile(record, profileId)) {
+        records.push(record);
+      }
       cursor.continue();
     };
 
@@ -230,8 +540,9 @@ export async function getAllPDFRecords(): Promise<PDFFileRecord[]> {
   });
 }
 
-// PDFファイルレコードを追加または更新
+// PDFファイルレコードを追加または更新（新規は選択中のプロフィールのものになる）
 export async function savePDFRecord(record: PDFFileRecord): Promise<void> {
+  record = await withProfileId(record);
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
@@ -260,8 +571,10 @@ export async function updatePDFRecord(id: string, updates: Partial<PDFFileRecord
 }
 
 // 特定のPDFファイルレコードを取得
+// 選択中のプロフィールのものでなければ null（ほかのプロフィールのPDFは開けない）
 export async function getPDFRecord(id: string): Promise<PDFFileRecord | null> {
   const db = await openDB();
+  const profileId = await getActiveProfileId();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readonly');
@@ -269,7 +582,8 @@ export async function getPDFRecord(id: string): Promise<PDFFileRecord | null> {
     const request = objectStore.get(id);
 
     request.onsuccess = () => {
-      resolve(request.result || null);
+      const record: PDFFileRecord | undefined = request.result;
+      resolve(record && belongsToProfile(record, profileId) ? record : null);
     };
 
     request.onerror = () => {
@@ -278,25 +592,74 @@ export async function getPDFRecord(id: string): Promise<PDFFileRecord | null> {
   });
 }
 
-// PDFファイルレコードを削除
+// PDFファイルレコードを読み直してから書き換える（読み込みと保存の間に他の書き込みが入らないように1つのトランザクションで行う）
+// update が null を返したとき・選択中のプロフィールのものでないときは保存しない
+export async function modifyPDFRecord(id: string, update: (record: PDFFileRecord) => PDFFileRecord | null): Promise<PDFFileRecord | null> {
+  const db = await openDB();
+  const profileId = await getActiveProfileId();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(STORE_NAME);
+    const request = objectStore.get(id);
+    let updated: PDFFileRecord | null = null;
+
+    request.onsuccess = () => {
+      const record: PDFFileRecord | undefined = request.result;
+      if (!record || !belongsToProfile(record, profileId)) return;
+      updated = update(record);
+      if (updated) {
+        objectStore.put(updated);
+      }
+    };
+
+    transaction.oncomplete = () => {
+      resolve(updated);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('レコードの更新に失敗しました'));
+    };
+  });
+}
+
+// PDFファイルレコードを削除（選択中のプロフィールのものだけ）
 export async function deletePDFRecord(id: string): Promise<void> {
   const db = await openDB();
+  const profileId = await getActiveProfileId();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const objectStore = transaction.objectStore(STORE_NAME);
-    const request = objectStore.delete(id);
+    const request = objectStore.get(id);
 
     request.onsuccess = () => {
+      const record: PDFFileRecord | undefined = request.result;
+      if (record && belongsToProfile(record, profileId)) {
+        objectStore.delete(id);
+      }
+    };
+
+    transaction.oncomplete = () => {
       resolve();
     };
 
-    request.onerror = () => {
+    transaction.onerror = () => {
       reject(new Error('レコードの削除に失敗しました'));
     };
   });
 }
 
+// ページを次のクラウド同期で送る対象にする
+function markPageDirty(record: PDFFileRecord, pageNumber: number): PDFPageSyncState {
+  if (!record.pageSync) {
+    record.pageSync = {};
+  }
+  const state = { ...record.pageSync[pageNumber], dirty: true };
+  record.pageSync[pageNumber] = state;
+  return state;
+}
+
 // ペン跡を保存
 export async function saveDrawing(id: string, pageNumber: number, drawingData: string): Promise<void> {
   const record = await getPDFRecord(id);
@@ -306,6 +669,7 @@ export async function saveDrawing(id: string, pageNumber: number, drawingData: s
 
   record.drawings[pageNumber] = drawingData;
   record.lastOpened = Date.now();
+  markPageDirty(record, pageNumber);
 
   await savePDFRecord(record);
 }
@@ -332,6 +696,7 @@ export async function saveTextAnnotation(id: string, pageNumber: number, textDat
   }
   record.textAnnotations[pageNumber] = textData;
   record.lastOpened = Date.now();
+  markPageDirty(record, pageNumber).textUpdatedAt = record.lastOpened;
 
   await savePDFRecord(record);
 }
@@ -346,6 +711,23 @@ export async function getTextAnnotation(id: string, pageNumber: number): Promise
   return record.textAnnotations?.[pageNumber] || null;
 }
 
+// 採点の○✕を保存
+export async function saveGradingMarks(id: string, pageNumber: number, marksData: string): Promise<void> {
+  const record = await getPDFRecord(id);
+  if (!record) {
+    throw new Error('PDFレコードが見つかりません');
+  }
+
+  if (!record.gradingMarks) {
+    record.gradingMarks = {};
+  }
+  record.gradingMarks[pageNumber] = marksData;
+  record.lastOpened = Date.now();
+  markPageDirty(record, pageNumber).marksUpdatedAt = record.lastOpened;
+
+  await savePDFRecord(record);
+}
+
 // IDを生成（ファイル名とタイムスタンプから）
 export function generatePDFId(fileName: string): string {
   // ファイル名をベースにしたユニークID
@@ -425,6 +807,7 @@ export function generateSNSLinkId(name: string): string {
 
 // 採点履歴を保存
 export async function saveGradingHistory(record: GradingHistoryRecord): Promise<void> {
+  record = await withProfileId(record);
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
@@ -442,8 +825,9 @@ export async function saveGradingHistory(record: GradingHistoryRecord): Promise<
   });
 }
 
-// すべての採点履歴を取得（新しい順）
-export async function getAllGradingHistory(): Promise<GradingHistoryRecord[]> {
+// すべての採点履歴を取得（profileId を省略したら選択中のプロフィールのもの・新しい順）
+export async function getAllGradingHistory(profileId?: string): Promise<GradingHistoryRecord[]> {
+  profileId = profileId ?? await getActiveProfileId();
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
@@ -457,7 +841,9 @@ export async function getAllGradingHistory(): Promise<GradingHistoryRecord[]> {
     request.onsuccess = (event) => {
       const cursor = (event.target as IDBRequest).result;
       if (cursor) {
-        records.push(cursor.value);
+        if (belongsToProfile(cursor.value, profileId)) {
+          records.push(cursor.value);
+        }
         cursor.continue();
       } else {
         resolve(records);
@@ -517,6 +903,95 @@ export async function getGradingHistory(id: string): Promise<GradingHistoryRecor
   });
 }
 
+// 採点履歴の判定を修正（修正前の値を overrides に残す）
+export async function overrideGradingHistory(
+  id: string,
+  changes: GradingHistoryOverrideChanges,
+  by: GradingOverrideEntry['by'],
+  model?: string,
+  uid?: string
+): Promise<GradingHistoryRecord> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_HISTORY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_HISTORY_STORE_NAME);
+    const request = objectStore.get(id);
+    let updated: GradingHistoryRecord | null = null;
+
+    request.onsuccess = () => {
+      const record: GradingHistoryRecord | undefined = request.result;
+      if (!record) {
+        return;
+      }
+      const entry: GradingOverrideEntry = {
+        by,
+        ...(model && { model }),
+        ...(uid && { uid }),
+        at: Date.now(),
+        previous: {
+          isCorrect: record.isCorrect,
+          studentAnswer: record.studentAnswer,
+          correctAnswer: record.correctAnswer,
+          feedback: record.feedback,
+          explanation: record.explanation
+        }
+      };
+      updated = {
+        ...record,
+        ...changes,
+        overrides: [...(record.overrides || []), entry]
+      };
+      objectStore.put(updated);
+    };
+
+    transaction.oncomplete = () => {
+      if (updated) {
+        resolve(updated);
+      } else {
+        reject(new Error('採点履歴が見つかりません'));
+      }
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('採点履歴の修正に失敗しました'));
+    };
+  });
+}
+
+// 採点履歴に解説チャットの会話を保存
+export async function saveTutorChat(id: string, messages: TutorChatMessage[]): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_HISTORY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_HISTORY_STORE_NAME);
+    const request = objectStore.get(id);
+    let found = false;
+
+    request.onsuccess = () => {
+      const record: GradingHistoryRecord | undefined = request.result;
+      if (!record) {
+        return;
+      }
+      found = true;
+      objectStore.put({ ...record, tutorChat: messages });
+    };
+
+    transaction.oncomplete = () => {
+      if (found) {
+        resolve();
+      } else {
+        reject(new Error('採点履歴が見つかりません'));
+      }
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('解説チャットの保存に失敗しました'));
+    };
+  });
+}
+
 // 採点履歴を削除
 export async function deleteGradingHistory(id: string): Promise<void> {
   const db = await openDB();
@@ -536,69 +1011,161 @@ export async function deleteGradingHistory(id: string): Promise<void> {
   });
 }
 
-// アプリ設定を取得
-export async function getAppSettings(): Promise<AppSettings> {
+// クラウド同期の状態を取得
+export async function getCloudSyncState(): Promise<CloudSyncState> {
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
     const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
-    const request = objectStore.get('app-settings');
+    const request = objectStore.get(CLOUD_SYNC_SETTINGS_ID);
 
     request.onsuccess = () => {
-      const settings = request.result as AppSettings | undefined;
-      // デフォルト値: 30分、通知無効、モデルは未指定（バックエンドのデフォルト使用）
-      resolve(settings || {
-        id: 'app-settings',
-        snsTimeLimitMinutes: 30,
-        notificationEnabled: false,
-        defaultGradingModel: undefined
+      resolve({
+        id: CLOUD_SYNC_SETTINGS_ID,
+        enabled: false,
+        pendingDeletions: [],
+        ...request.result
       });
     };
 
     request.onerror = () => {
-      reject(new Error('設定の取得に失敗しました'));
+      reject(new Error('同期設定の取得に失敗しました'));
     };
   });
 }
 
-// アプリ設定を保存
-export async function saveAppSettings(settings: AppSettings): Promise<void> {
+// クラウド同期の状態を保存
+export async function saveCloudSyncState(state: CloudSyncState): Promise<void> {
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
     const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
-    const request = objectStore.put(settings);
+    const request = objectStore.put(state);
 
     request.onsuccess = () => {
       resolve();
     };
 
     request.onerror = () => {
-      reject(new Error('設定の保存に失敗しました'));
+      reject(new Error('同期設定の保存に失敗しました'));
     };
   });
 }
 
-// 採点履歴IDを生成
-export function generateGradingHistoryId(): string {
-  return `grading_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-}
+// プレミアムの権利のキャッシュを取得
+export async function getEntitlementCache(): Promise<EntitlementCache | null> {
+  const db = await openDB();
 
-// SNS利用履歴を保存
-export async function saveSNSUsageHistory(record: Omit<SNSUsageHistoryRecord, 'id'>): Promise<void> {
   return new Promise((resolve, reject) => {
-    openDB().then((db) => {
-      const transaction = db.transaction([SNS_USAGE_HISTORY_STORE_NAME], 'readwrite');
-      const objectStore = transaction.objectStore(SNS_USAGE_HISTORY_STORE_NAME);
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = objectStore.get(ENTITLEMENT_SETTINGS_ID);
 
-      const historyRecord: SNSUsageHistoryRecord = {
-        id: `sns_usage_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-        ...record
-      };
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
 
-      const request = objectStore.add(historyRecord);
+    request.onerror = () => {
+      reject(new Error('プレミアムの権利の取得に失敗しました'));
+    };
+  });
+}
+
+// プレミアムの権利のキャッシュを保存（null で削除）
+export async function saveEntitlementCache(cache: EntitlementCache | null): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = cache ? objectStore.put(cache) : objectStore.delete(ENTITLEMENT_SETTINGS_ID);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('プレミアムの権利の保存に失敗しました'));
+    };
+  });
+}
+
+// アプリ設定を取得（SNS利用制限時間は選択中のプロフィールの値があればそちらを使う）
+export async function getAppSettings(): Promise<AppSettings> {
+  const settings = await getDeviceAppSettings();
+  const profile = await getProfile(await getActiveProfileId());
+  if (profile?.snsTimeLimitMinutes !== undefined) {
+    return { ...settings, snsTimeLimitMinutes: profile.snsTimeLimitMinutes };
+  }
+  return settings;
+}
+
+// 端末全体のアプリ設定を取得
+async function getDeviceAppSettings(): Promise<AppSettings> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = objectStore.get('app-settings');
+
+    request.onsuccess = () => {
+      const settings = request.result as AppSettings | undefined;
+      // デフォルト値: 30分、通知無効、モデルは未指定（バックエンドのデフォルト使用）
+      resolve(settings || {
+        id: 'app-settings',
+        snsTimeLimitMinutes: 30,
+        notificationEnabled: false,
+        defaultGradingModel: undefined
+      });
+    };
+
+    request.onerror = () => {
+      reject(new Error('設定の取得に失敗しました'));
+    };
+  });
+}
+
+// アプリ設定を保存（プロフィールごとのSNS利用制限時間は saveProfile で保存する）
+export async function saveAppSettings(settings: AppSettings): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = objectStore.put(settings);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('設定の保存に失敗しました'));
+    };
+  });
+}
+
+// 採点履歴IDを生成
+export function generateGradingHistoryId(): string {
+  return `grading_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// SNS利用履歴を保存
+export async function saveSNSUsageHistory(record: Omit<SNSUsageHistoryRecord, 'id'>): Promise<void> {
+  record = await withProfileId(record);
+  return new Promise((resolve, reject) => {
+    openDB().then((db) => {
+      const transaction = db.transaction([SNS_USAGE_HISTORY_STORE_NAME], 'readwrite');
+      const objectStore = transaction.objectStore(SNS_USAGE_HISTORY_STORE_NAME);
+
+      const historyRecord: SNSUsageHistoryRecord = {
+        id: `sns_usage_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        ...record
+      };
+
+      const request = objectStore.add(historyRecord);
 
       transaction.oncomplete = () => {
         console.log('✅ SNS利用履歴を保存:', historyRecord);
@@ -613,8 +1180,47 @@ export async function saveSNSUsageHistory(record: Omit<SNSUsageHistoryRecord, 'i
   });
 }
 
-// SNS利用履歴を取得（新しい順）
+// SNS利用履歴を1件取得
+export async function getSNSUsageHistoryRecord(id: string): Promise<SNSUsageHistoryRecord | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNS_USAGE_HISTORY_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(SNS_USAGE_HISTORY_STORE_NAME);
+    const request = objectStore.get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+
+    request.onerror = () => {
+      reject(new Error('SNS利用履歴の取得に失敗しました'));
+    };
+  });
+}
+
+// SNS利用履歴を更新（戻ってきた時刻などを書き足す）
+export async function updateSNSUsageHistory(record: SNSUsageHistoryRecord): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNS_USAGE_HISTORY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(SNS_USAGE_HISTORY_STORE_NAME);
+    const request = objectStore.put(record);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('SNS利用履歴の更新に失敗しました'));
+    };
+  });
+}
+
+// SNS利用履歴を取得（選択中のプロフィールのもの・新しい順）
 export async function getSNSUsageHistory(): Promise<SNSUsageHistoryRecord[]> {
+  const profileId = await getActiveProfileId();
   return new Promise((resolve, reject) => {
     openDB().then((db) => {
       const transaction = db.transaction([SNS_USAGE_HISTORY_STORE_NAME], 'readonly');
@@ -627,7 +1233,9 @@ export async function getSNSUsageHistory(): Promise<SNSUsageHistoryRecord[]> {
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result;
         if (cursor) {
-          results.push(cursor.value);
+          if (belongsToProfile(cursor.value, profileId)) {
+            results.push(cursor.value);
+          }
           cursor.continue();
         } else {
           console.log('✅ SNS利用履歴を取得:', results.length);
@@ -689,3 +1297,599 @@ export async function fetchPDFData(id: string): Promise<ArrayBuffer> {
     };
   });
 }
+
+// 解答IDを生成（pdfId + ページ番号 + 問題番号で一意）
+export function generateAnswerKeyId(pdfId: string, pageNumber: number, problemNumber: string): string {
+  const normalizedProblemNumber = problemNumber
+    .replace(/\s+/g, '')
+    .replace(/（/g, '(')
+    .replace(/）/g, ')')
+    .toLowerCase();
+  return `${pdfId}_${pageNumber}_${normalizedProblemNumber}`;
+}
+
+// 解答を保存（複数件をまとめて保存）
+export async function saveAnswerKeys(records: Omit<AnswerKeyRecord, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const now = Date.now();
+
+    records.forEach(record => {
+      const id = generateAnswerKeyId(record.pdfId, record.pageNumber, record.problemNumber);
+      const getRequest = objectStore.get(id);
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as AnswerKeyRecord | undefined;
+        objectStore.put({
+          ...record,
+          id,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now
+        });
+      };
+    });
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('解答の保存に失敗しました'));
+    };
+  });
+}
+
+// 特定ページの解答を取得
+export async function getAnswerKeysByPage(pdfId: string, pageNumber: number): Promise<AnswerKeyRecord[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const index = objectStore.index('pdfId_pageNumber');
+    const request = index.getAll(IDBKeyRange.only([pdfId, pageNumber]));
+
+    request.onsuccess = () => {
+      resolve(request.result as AnswerKeyRecord[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error('解答の取得に失敗しました'));
+    };
+  });
+}
+
+// 特定のPDFの解答をすべて取得
+export async function getAnswerKeysByPdfId(pdfId: string): Promise<AnswerKeyRecord[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const index = objectStore.index('pdfId');
+    const request = index.getAll(IDBKeyRange.only(pdfId));
+
+    request.onsuccess = () => {
+      resolve(request.result as AnswerKeyRecord[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error('解答の取得に失敗しました'));
+    };
+  });
+}
+
+// 解答を削除
+export async function deleteAnswerKey(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const request = objectStore.delete(id);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('解答の削除に失敗しました'));
+    };
+  });
+}
+
+// 特定のPDFの解答をすべて削除
+export async function deleteAnswerKeysByPdfId(pdfId: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const index = objectStore.index('pdfId');
+    const request = index.openKeyCursor(IDBKeyRange.only(pdfId));
+
+    request.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (cursor) {
+        objectStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('解答の削除に失敗しました'));
+    };
+  });
+}
+
+// 特定のPDFの解答をまとめて置き換え（確認画面での保存用）
+export async function replaceAnswerKeysForPdf(pdfId: string, records: Omit<AnswerKeyRecord, 'id' | 'pdfId' | 'createdAt' | 'updatedAt'>[]): Promise<void> {
+  const existing = await getAnswerKeysByPdfId(pdfId);
+  const createdAtById = new Map(existing.map(record => [record.id, record.createdAt]));
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ANSWER_KEY_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(ANSWER_KEY_STORE_NAME);
+    const now = Date.now();
+
+    existing.forEach(record => {
+      objectStore.delete(record.id);
+    });
+
+    records.forEach(record => {
+      const id = generateAnswerKeyId(pdfId, record.pageNumber, record.problemNumber);
+      objectStore.put({
+        ...record,
+        id,
+        pdfId,
+        createdAt: createdAtById.get(id) ?? now,
+        updatedAt: now
+      });
+    });
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('解答の保存に失敗しました'));
+    };
+  });
+}
+
+// 採点待ちIDを生成
+export function generateGradingOutboxId(): string {
+  return `outbox_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// 採点待ちに追加
+export async function addGradingOutboxItem(record: GradingOutboxRecord): Promise<void> {
+  record = await withProfileId(record);
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const request = objectStore.put(record);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('採点待ちの保存に失敗しました'));
+    };
+  });
+}
+
+// 採点待ちをすべて取得（古い順）
+export async function getAllGradingOutboxItems(): Promise<GradingOutboxRecord[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const index = objectStore.index('createdAt');
+    const request = index.getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result as GradingOutboxRecord[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error('採点待ちの取得に失敗しました'));
+    };
+  });
+}
+
+// 特定のPDFの採点待ちを取得（古い順）
+export async function getGradingOutboxItemsByPdfId(pdfId: string): Promise<GradingOutboxRecord[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const index = objectStore.index('pdfId');
+    const request = index.getAll(IDBKeyRange.only(pdfId));
+
+    request.onsuccess = () => {
+      const items = request.result as GradingOutboxRecord[];
+      resolve(items.sort((a, b) => a.createdAt - b.createdAt));
+    };
+
+    request.onerror = () => {
+      reject(new Error('採点待ちの取得に失敗しました'));
+    };
+  });
+}
+
+// 送信できる採点待ちを確保する（送信中の印を付ける）
+// 別のタブやService Workerがすでに送信中・まだ再送時刻前の場合は null
+// Service Worker が結果を受け取ったもの（delivered）も、履歴に保存するために同じように確保する
+export async function claimGradingOutboxItem(id: string, leaseMs: number): Promise<GradingOutboxRecord | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const request = objectStore.get(id);
+    let claimed: GradingOutboxRecord | null = null;
+
+    request.onsuccess = () => {
+      const record = request.result as GradingOutboxRecord | undefined;
+      const now = Date.now();
+      if (!record || record.status === 'failed' || record.nextAttemptAt > now || (record.lockedUntil ?? 0) > now) {
+        return;
+      }
+      claimed = { ...record, lockedUntil: now + leaseMs };
+      objectStore.put(claimed);
+    };
+
+    transaction.oncomplete = () => {
+      resolve(claimed);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('採点待ちの更新に失敗しました'));
+    };
+  });
+}
+
+// 採点待ちを更新
+export async function updateGradingOutboxItem(record: GradingOutboxRecord): Promise<void> {
+  return addGradingOutboxItem(record);
+}
+
+// 採点待ちを削除
+export async function deleteGradingOutboxItem(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const request = objectStore.delete(id);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('採点待ちの削除に失敗しました'));
+    };
+  });
+}
+
+// 特定のPDFの採点待ちをすべて削除
+export async function deleteGradingOutboxItemsByPdfId(pdfId: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([GRADING_OUTBOX_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(GRADING_OUTBOX_STORE_NAME);
+    const index = objectStore.index('pdfId');
+    const request = index.openKeyCursor(IDBKeyRange.only(pdfId));
+
+    request.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (cursor) {
+        objectStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('採点待ちの削除に失敗しました'));
+    };
+  });
+}
+
+// ==========================================
+// Hint Usage
+// ==========================================
+
+// ヒントの利用記録IDを生成
+export function generateHintUsageId(): string {
+  return `hint_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// ヒントの利用記録を保存
+export async function saveHintUsage(record: HintUsageRecord): Promise<void> {
+  record = await withProfileId(record);
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([HINT_USAGE_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(HINT_USAGE_STORE_NAME);
+    const request = objectStore.put(record);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('ヒントの利用記録の保存に失敗しました'));
+    };
+  });
+}
+
+// ヒントの利用記録を取得（選択中のプロフィールのもの・古い順）
+export async function getAllHintUsage(): Promise<HintUsageRecord[]> {
+  const profileId = await getActiveProfileId();
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([HINT_USAGE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(HINT_USAGE_STORE_NAME);
+    const request = objectStore.index('createdAt').openCursor();
+
+    const records: HintUsageRecord[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        if (belongsToProfile(cursor.value, profileId)) {
+          records.push(cursor.value);
+        }
+        cursor.continue();
+      } else {
+        resolve(records);
+      }
+    };
+
+    request.onerror = () => {
+      reject(new Error('ヒントの利用記録の取得に失敗しました'));
+    };
+  });
+}
+
+// ドリルのヒントの利用記録を取得（選択中のプロフィールのもの）
+export async function getHintUsageByPdfId(pdfId: string): Promise<HintUsageRecord[]> {
+  const profileId = await getActiveProfileId();
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([HINT_USAGE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(HINT_USAGE_STORE_NAME);
+    const request = objectStore.index('pdfId').getAll(pdfId);
+
+    request.onsuccess = () => {
+      resolve((request.result as HintUsageRecord[]).filter(record => belongsToProfile(record, profileId)));
+    };
+
+    request.onerror = () => {
+      reject(new Error('ヒントの利用記録の取得に失敗しました'));
+    };
+  });
+}
+
+// ==========================================
+// Review Queue
+// ==========================================
+
+// 復習キューの1問を取得
+export async function getReviewItem(id: string): Promise<ReviewItemRecord | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVIEW_QUEUE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(REVIEW_QUEUE_STORE_NAME);
+    const request = objectStore.get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+
+    request.onerror = () => {
+      reject(new Error('復習キューの取得に失敗しました'));
+    };
+  });
+}
+
+// 復習キューを取得（選択中のプロフィールのもの・復習する日が早い順）
+export async function getAllReviewItems(): Promise<ReviewItemRecord[]> {
+  const profileId = await getActiveProfileId();
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVIEW_QUEUE_STORE_NAME], 'readonly');
+    const objectStore = transaction.objectStore(REVIEW_QUEUE_STORE_NAME);
+    const request = objectStore.index('dueAt').openCursor();
+
+    const records: ReviewItemRecord[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        if (belongsToProfile(cursor.value, profileId)) {
+          records.push(cursor.value);
+        }
+        cursor.continue();
+      } else {
+        resolve(records);
+      }
+    };
+
+    request.onerror = () => {
+      reject(new Error('復習キューの取得に失敗しました'));
+    };
+  });
+}
+
+// 復習キューに追加または更新
+export async function saveReviewItem(record: ReviewItemRecord): Promise<void> {
+  record = await withProfileId(record);
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVIEW_QUEUE_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(REVIEW_QUEUE_STORE_NAME);
+    const request = objectStore.put(record);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('復習キューの保存に失敗しました'));
+    };
+  });
+}
+
+// 復習キューから削除（覚えた問題）
+export async function deleteReviewItem(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVIEW_QUEUE_STORE_NAME], 'readwrite');
+    const objectStore = transaction.objectStore(REVIEW_QUEUE_STORE_NAME);
+    const request = objectStore.delete(id);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('復習キューの削除に失敗しました'));
+    };
+  });
+}
+
+// ==========================================
+// Backup / Restore
+// ==========================================
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  added: number; // 新しく追加したレコード数
+  updated: number; // 同じIDのレコードをバックアップの内容で置き換えた数
+  skipped: number; // 同じIDで端末の方が新しいため残した数
+  ignoredStores: string[]; // この端末にないストア（新しいバージョンのバックアップなど）
+}
+
+// レコードの更新時刻（同じIDのレコードがあるとき、新しい方を残すのに使う）
+function getRecordTime(record: Record<string, unknown>): number {
+  const time = record.updatedAt ?? record.lastOpened ?? record.timestamp ?? record.createdAt;
+  return typeof time === 'number' ? time : 0;
+}
+
+// バックアップ用にすべてのストアのレコードを取得
+export async function getAllStoreRecords(): Promise<{ dbVersion: number; stores: Record<string, unknown[]> }> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const storeNames = Array.from(db.objectStoreNames);
+    const transaction = db.transaction(storeNames, 'readonly');
+    const stores: Record<string, unknown[]> = {};
+
+    storeNames.forEach(storeName => {
+      const request = transaction.objectStore(storeName).getAll();
+      request.onsuccess = () => {
+        stores[storeName] = request.result;
+      };
+    });
+
+    transaction.oncomplete = () => {
+      resolve({ dbVersion: db.version, stores });
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('バックアップ用のデータ取得に失敗しました'));
+    };
+  });
+}
+
+// バックアップのレコードを書き込む
+// replace: バックアップに含まれるストアを空にしてから書き込む
+// merge: 同じIDのレコードがあれば更新時刻が新しい方を残す（端末の設定は上書きしない）
+export async function restoreStoreRecords(stores: Record<string, Record<string, unknown>[]>, mode: RestoreMode): Promise<RestoreSummary> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const summary: RestoreSummary = { added: 0, updated: 0, skipped: 0, ignoredStores: [] };
+    const storeNames = Object.keys(stores).filter(storeName => {
+      if (db.objectStoreNames.contains(storeName)) return true;
+      summary.ignoredStores.push(storeName);
+      return false;
+    });
+    if (storeNames.length === 0) {
+      resolve(summary);
+      return;
+    }
+
+    const transaction = db.transaction(storeNames, 'readwrite');
+
+    storeNames.forEach(storeName => {
+      const objectStore = transaction.objectStore(storeName);
+      const records = stores[storeName];
+
+      if (mode === 'replace') {
+        objectStore.clear();
+        records.forEach(record => {
+          objectStore.put(record);
+          summary.added++;
+        });
+        return;
+      }
+
+      records.forEach(record => {
+        const key = record[objectStore.keyPath as string] as IDBValidKey;
+        const request = objectStore.get(key);
+        request.onsuccess = () => {
+          const existing = request.result as Record<string, unknown> | undefined;
+          if (!existing) {
+            objectStore.put(record);
+            summary.added++;
+          } else if (storeName !== SETTINGS_STORE_NAME && getRecordTime(record) > getRecordTime(existing)) {
+            objectStore.put(record);
+            summary.updated++;
+          } else {
+            summary.skipped++;
+          }
+        };
+      });
+    });
+
+    transaction.oncomplete = () => {
+      // 選択中のプロフィールが変わっている可能性があるので読み直す
+      activeProfileIdCache = null;
+      console.log('✅ バックアップを復元:', { mode, ...summary });
+      resolve(summary);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('バックアップの復元に失敗しました'));
+    };
+  });
+}
@@ -63,6 +63,8 @@ export default defineConfig(({ mode }) => {
           globIgnores: ['**/opencv*.js'],
           globPatterns: ['**/*.{js,css,html,png,svg,woff,woff2}'],
           maximumFileSizeToCacheInBytes: 15 * 1024 * 1024, // 15MB 念のため増やす
+          // 採点待ちの再送（Background Sync）
+          importScripts: ['grading-outbox-sw.js'],
           runtimeCaching: [
             {
               urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// テスト用の設定（vite.config.ts の PWA などのプラグインは読み込まない）
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+    environment: 'node'
+  }
+})